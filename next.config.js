@@ -8,12 +8,6 @@ import "./src/env.js";
 const config = {
   images: {
     remotePatterns: [
-      {
-        protocol: "https",
-        hostname: "api.qrserver.com",
-        port: "",
-        pathname: "/v1/create-qr-code/**",
-      },
       {
         protocol: "https",
         hostname: "**.supabase.co",
@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+
+/**
+ * Cron job script to follow open Bisq trades
+ *
+ * This script:
+ * 1. Loads Bisq trades whose offer is still open or whose trade is in progress
+ * 2. Reads each trade's state from the Bisq daemon and stores it
+ * 3. Marks orders paid once the payout is published, and expires orders whose
+ *    offer was not taken in time
+ *
+ * The checkout page polls the same logic while the shopper has it open; this
+ * job covers trades that run for hours or days, as bank transfers do.
+ *
+ * Should be run via cron job (e.g., every 5 minutes)
+ */
+
+import { getBisqClient } from '../src/lib/bisq';
+import { refreshOpenBisqTrades } from '../src/lib/bisq-trades';
+
+async function checkBisqTrades() {
+  const client = getBisqClient();
+
+  if (!client) {
+    console.error('ERROR: BISQ_API_URL and BISQ_API_PASSWORD must be configured');
+    process.exit(1);
+  }
+
+  console.log(`[${new Date().toISOString()}] Checking open Bisq trades...`);
+
+  try {
+    const results = await refreshOpenBisqTrades({ client });
+
+    if (results.length === 0) {
+      console.log('No open Bisq trades');
+      return;
+    }
+
+    for (const result of results) {
+      if (result.error) {
+        console.error(`✗ Failed to check trade for order ${result.orderId}: ${result.error}`);
+      } else if (result.from !== result.to) {
+        console.log(`✓ Trade for order ${result.orderId}: ${result.from} → ${result.to}`);
+      }
+    }
+
+    console.log(`Finished checking ${results.length} Bisq trade(s)`);
+  } catch (err) {
+    console.error('Error checking Bisq trades:', err);
+    process.exit(1);
+  }
+}
+
+void checkBisqTrades();
@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+
+/**
+ * Cron job script to check open Monero payments
+ *
+ * This script:
+ * 1. Loads Monero payments that are still waiting, confirming, or expired recently
+ * 2. Reads incoming transfers for each payment's subaddress from monero-wallet-rpc
+ * 3. Marks orders paid once the payment has enough confirmations, and expires
+ *    orders whose quote ran out with nothing received
+ *
+ * The checkout page polls the same logic while the buyer has it open; this job
+ * covers buyers who close the window after sending.
+ *
+ * Should be run via cron job (e.g., every 2 minutes)
+ */
+
+import { supabaseAdmin } from '../src/lib/supabase-admin';
+import { getMoneroWallet } from '../src/lib/monero';
+import { refreshMoneroPayment, type MoneroPayment } from '../src/lib/monero-payments';
+
+// Late payments to expired quotes are still picked up for this long
+const LATE_PAYMENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+async function checkMoneroPayments() {
+  const wallet = getMoneroWallet();
+
+  if (!wallet) {
+    console.error('ERROR: MONERO_WALLET_RPC_URL is not configured');
+    process.exit(1);
+  }
+
+  console.log(`[${new Date().toISOString()}] Checking open Monero payments...`);
+
+  const lateCutoff = new Date(Date.now() - LATE_PAYMENT_WINDOW_MS).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('monero_payments')
+    .select('*')
+    .or(`status.in.(waiting,confirming),and(status.eq.expired,expires_at.gte.${lateCutoff})`);
+
+  if (error) {
+    console.error('Database query error:', error);
+    process.exit(1);
+  }
+
+  const payments = (data ?? []) as MoneroPayment[];
+
+  if (payments.length === 0) {
+    console.log('No open Monero payments');
+    return;
+  }
+
+  console.log(`Found ${payments.length} payment(s) to check`);
+
+  for (const payment of payments) {
+    try {
+      const updated = await refreshMoneroPayment(payment, { wallet });
+
+      if (updated.status !== payment.status) {
+        console.log(`✓ Payment for order ${payment.order_id}: ${payment.status} → ${updated.status}`);
+      }
+    } catch (err) {
+      console.error(`✗ Failed to check payment for order ${payment.order_id}:`, err);
+    }
+  }
+
+  console.log('Finished checking Monero payments');
+}
+
+void checkMoneroPayments();
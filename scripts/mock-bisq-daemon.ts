@@ -0,0 +1,260 @@
+#!/usr/bin/env tsx
+
+/**
+ * Mock Bisq daemon (behind a gRPC-JSON gateway) for local development and testing
+ *
+ * Implements the daemon calls the shop uses in memory, plus /mock endpoints to
+ * play the BTC seller's side of a trade:
+ *
+ *   POST /mock/take      { "offerId": "..." }   Take an open offer (deposit published)
+ *   POST /mock/confirm   { "offerId": "..." }   Confirm the deposit transaction
+ *   POST /mock/received  { "offerId": "..." }   Seller confirms the fiat arrived
+ *   POST /mock/payout    { "offerId": "..." }   Publish the payout transaction
+ *   GET  /mock/state
+ *        Dump offers and trades
+ *
+ * Usage:
+ *   npx tsx scripts/mock-bisq-daemon.ts [port]
+ *   BISQ_API_URL="http://127.0.0.1:9998" and BISQ_API_PASSWORD="mock" in .env
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomBytes, randomUUID } from 'crypto';
+
+const port = Number(process.argv[2] ?? 9998);
+const PASSWORD = 'mock';
+const MARKET_PRICE = 65000;
+const PREFIX = '/io.bisq.protobuffer.';
+
+interface MockOffer {
+  id: string;
+  direction: string;
+  price: string;
+  amount: string;
+  paymentAccountId: string;
+  state: string;
+}
+
+interface MockTrade {
+  tradeId: string;
+  shortId: string;
+  offer: MockOffer;
+  tradeAmountAsLong: string;
+  tradePrice: string;
+  tradeVolume: string;
+  state: string;
+  phase: string;
+  isDepositPublished: boolean;
+  isDepositConfirmed: boolean;
+  isPaymentStartedMessageSent: boolean;
+  isPaymentReceivedMessageSent: boolean;
+  isPayoutPublished: boolean;
+  isCompleted: boolean;
+  depositTxId?: string;
+  payoutTxId?: string;
+  contract: {
+    sellerPaymentAccountPayload: { paymentMethodId: string; paymentDetails: string };
+  };
+}
+
+const offers = new Map<string, MockOffer>();
+const trades = new Map<string, MockTrade>();
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (err) {
+        reject(err instanceof Error ? err : new Error('Invalid JSON'));
+      }
+    });
+  });
+}
+
+function send(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+class NotFoundError extends Error {}
+
+function handleCall(method: string, request: Record<string, unknown>): unknown {
+  switch (method) {
+    case 'Price/GetMarketPrice':
+      return { price: MARKET_PRICE };
+
+    case 'PaymentAccounts/GetPaymentAccounts':
+      return { paymentAccounts: [{ id: 'mock-account', accountName: 'mock', paymentMethod: { id: 'ZELLE' } }] };
+
+    case 'Offers/CreateOffer': {
+      const offer: MockOffer = {
+        id: `${randomUUID()}-mock`,
+        direction: String(request.direction),
+        price: String(request.price),
+        amount: String(request.amount),
+        paymentAccountId: String(request.paymentAccountId),
+        state: 'AVAILABLE',
+      };
+      offers.set(offer.id, offer);
+      return { offer };
+    }
+
+    case 'Offers/CancelOffer': {
+      const offer = offers.get(String(request.id));
+      if (!offer || offer.state !== 'AVAILABLE') {
+        throw new NotFoundError(`offer with id '${String(request.id)}' not found`);
+      }
+      offer.state = 'REMOVED';
+      return {};
+    }
+
+    case 'Trades/GetTrade': {
+      const trade = trades.get(String(request.tradeId));
+      if (!trade) {
+        throw new NotFoundError(`trade with id '${String(request.tradeId)}' not found`);
+      }
+      return { trade };
+    }
+
+    case 'Trades/ConfirmPaymentStarted': {
+      const trade = trades.get(String(request.tradeId));
+      if (!trade) {
+        throw new NotFoundError(`trade with id '${String(request.tradeId)}' not found`);
+      }
+      trade.isPaymentStartedMessageSent = true;
+      trade.phase = 'FIAT_SENT';
+      trade.state = 'BUYER_SAW_ARRIVED_FIAT_PAYMENT_INITIATED_MSG';
+      return {};
+    }
+
+    case 'Trades/CloseTrade': {
+      const trade = trades.get(String(request.tradeId));
+      if (trade) {
+        trade.isCompleted = true;
+        trade.phase = 'WITHDRAWN';
+      }
+      return {};
+    }
+
+    default:
+      throw new NotFoundError(`Method not found: ${method}`);
+  }
+}
+
+function takeOffer(offerId: string): MockTrade {
+  const offer = offers.get(offerId);
+  if (!offer || offer.state !== 'AVAILABLE') {
+    throw new NotFoundError('Unknown or unavailable offer');
+  }
+  offer.state = 'TAKEN';
+  const trade: MockTrade = {
+    tradeId: offer.id,
+    shortId: offer.id.slice(0, 8),
+    offer,
+    tradeAmountAsLong: offer.amount,
+    tradePrice: offer.price,
+    tradeVolume: ((Number(offer.amount) / 1e8) * Number(offer.price)).toFixed(2),
+    state: 'DEPOSIT_PUBLISHED_IN_BLOCK_CHAIN',
+    phase: 'DEPOSIT_PUBLISHED',
+    isDepositPublished: true,
+    isDepositConfirmed: false,
+    isPaymentStartedMessageSent: false,
+    isPaymentReceivedMessageSent: false,
+    isPayoutPublished: false,
+    isCompleted: false,
+    depositTxId: randomBytes(32).toString('hex'),
+    contract: {
+      sellerPaymentAccountPayload: {
+        paymentMethodId: 'ZELLE',
+        paymentDetails: 'Zelle\nHolder name: Mock Seller\nEmail or phone: seller@example.com',
+      },
+    },
+  };
+  trades.set(trade.tradeId, trade);
+  return trade;
+}
+
+function updateTrade(offerId: string, update: (trade: MockTrade) => void): MockTrade {
+  const trade = trades.get(offerId);
+  if (!trade) {
+    throw new NotFoundError('Unknown trade');
+  }
+  update(trade);
+  return trade;
+}
+
+const server = createServer((req, res) => {
+  void (async () => {
+    try {
+      const body = (await readBody(req)) as Record<string, unknown>;
+      const url = req.url ?? '';
+
+      if (url.startsWith(PREFIX) && req.method === 'POST') {
+        if (req.headers.password !== PASSWORD) {
+          send(res, 401, { code: 16, message: 'incorrect password' });
+          return;
+        }
+        try {
+          send(res, 200, handleCall(url.slice(PREFIX.length), body));
+        } catch (err) {
+          const status = err instanceof NotFoundError ? 404 : 500;
+          send(res, status, { code: status === 404 ? 5 : 13, message: err instanceof Error ? err.message : 'error' });
+        }
+        return;
+      }
+
+      const offerId = String(body.offerId ?? '');
+
+      if (url === '/mock/take' && req.method === 'POST') {
+        send(res, 200, takeOffer(offerId));
+        return;
+      }
+
+      if (url === '/mock/confirm' && req.method === 'POST') {
+        send(res, 200, updateTrade(offerId, (t) => {
+          t.isDepositConfirmed = true;
+          t.phase = 'DEPOSIT_CONFIRMED';
+          t.state = 'DEPOSIT_CONFIRMED_IN_BLOCK_CHAIN';
+        }));
+        return;
+      }
+
+      if (url === '/mock/received' && req.method === 'POST') {
+        send(res, 200, updateTrade(offerId, (t) => {
+          t.isPaymentReceivedMessageSent = true;
+          t.phase = 'FIAT_RECEIVED';
+          t.state = 'SELLER_SENT_PAYOUT_TX_PUBLISHED_MSG';
+        }));
+        return;
+      }
+
+      if (url === '/mock/payout' && req.method === 'POST') {
+        send(res, 200, updateTrade(offerId, (t) => {
+          t.isPayoutPublished = true;
+          t.payoutTxId = randomBytes(32).toString('hex');
+          t.phase = 'PAYOUT_PUBLISHED';
+          t.state = 'BUYER_RECEIVED_PAYOUT_TX_PUBLISHED_MSG';
+        }));
+        return;
+      }
+
+      if (url === '/mock/state') {
+        send(res, 200, { offers: [...offers.values()], trades: [...trades.values()] });
+        return;
+      }
+
+      send(res, 404, { error: 'Not found' });
+    } catch (err) {
+      const status = err instanceof NotFoundError ? 404 : 400;
+      send(res, status, { error: err instanceof Error ? err.message : 'Bad request' });
+    }
+  })();
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Mock Bisq daemon gateway listening on http://127.0.0.1:${port}`);
+  console.log(`API password: ${PASSWORD}`);
+});
@@ -0,0 +1,166 @@
+#!/usr/bin/env tsx
+
+/**
+ * Mock monero-wallet-rpc for local development and testing
+ *
+ * Implements the wallet RPC methods the shop uses (get_address, create_address,
+ * get_transfers) in memory, plus a few /mock endpoints to simulate payments:
+ *
+ *   POST /mock/transfer  { "address": "...", "amount": "0.5", "confirmations": 0 }
+ *        Add an incoming transfer (amount in XMR) to a subaddress
+ *   POST /mock/confirm   { "blocks": 10 }
+ *        Mine blocks: every transfer gains that many confirmations
+ *   GET  /mock/state
+ *        Dump subaddresses and transfers
+ *
+ * Usage:
+ *   npx tsx scripts/mock-monero-wallet-rpc.ts [port]
+ *   MONERO_WALLET_RPC_URL="http://127.0.0.1:18083" (and no RPC login) in .env
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+
+const port = Number(process.argv[2] ?? 18083);
+const PRIMARY_ADDRESS = `4${'A'.repeat(94)}`;
+
+interface MockTransfer {
+  txid: string;
+  amount: number;
+  confirmations: number;
+  height: number;
+  timestamp: number;
+  unlock_time: number;
+  double_spend_seen: boolean;
+  subaddr_index: { major: number; minor: number };
+}
+
+const subaddresses: { address: string; major: number; minor: number; label: string }[] = [];
+const transfers: MockTransfer[] = [];
+let height = 3_000_000;
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (err) {
+        reject(err instanceof Error ? err : new Error('Invalid JSON'));
+      }
+    });
+  });
+}
+
+function send(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function handleRpc(method: string, params: Record<string, unknown>): unknown {
+  switch (method) {
+    case 'get_address':
+      return { address: PRIMARY_ADDRESS, addresses: [] };
+
+    case 'create_address': {
+      const major = Number(params.account_index ?? 0);
+      const minor = subaddresses.filter((s) => s.major === major).length + 1;
+      const address = `8${randomBytes(47).toString('hex').slice(0, 94)}`;
+      subaddresses.push({ address, major, minor, label: String(params.label ?? '') });
+      return { address, address_index: minor };
+    }
+
+    case 'get_transfers': {
+      const major = Number(params.account_index ?? 0);
+      const indices = (params.subaddr_indices as number[] | undefined) ?? [];
+      const matching = transfers.filter(
+        (t) =>
+          t.subaddr_index.major === major &&
+          (indices.length === 0 || indices.includes(t.subaddr_index.minor))
+      );
+      return {
+        in: matching.filter((t) => t.confirmations > 0).map((t) => ({ ...t, type: 'in' })),
+        pool: matching
+          .filter((t) => t.confirmations === 0)
+          .map((t) => ({ ...t, type: 'pool', height: 0 })),
+      };
+    }
+
+    case 'get_height':
+      return { height };
+
+    default:
+      throw new Error(`Method not found: ${method}`);
+  }
+}
+
+const server = createServer((req, res) => {
+  void (async () => {
+    try {
+      const body = (await readBody(req)) as Record<string, unknown>;
+
+      if (req.url === '/json_rpc' && req.method === 'POST') {
+        const id = body.id ?? '0';
+        try {
+          const result = handleRpc(String(body.method), (body.params ?? {}) as Record<string, unknown>);
+          send(res, 200, { jsonrpc: '2.0', id, result });
+        } catch (err) {
+          send(res, 200, {
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32601, message: err instanceof Error ? err.message : 'error' },
+          });
+        }
+        return;
+      }
+
+      if (req.url === '/mock/transfer' && req.method === 'POST') {
+        const sub = subaddresses.find((s) => s.address === body.address);
+        if (!sub) {
+          send(res, 404, { error: 'Unknown subaddress' });
+          return;
+        }
+        const [whole = '0', fraction = ''] = String(body.amount).split('.');
+        const amount = Number(BigInt(whole) * 10n ** 12n + BigInt(fraction.padEnd(12, '0').slice(0, 12)));
+        const transfer: MockTransfer = {
+          txid: randomBytes(32).toString('hex'),
+          amount,
+          confirmations: Number(body.confirmations ?? 0),
+          height,
+          timestamp: Math.floor(Date.now() / 1000),
+          unlock_time: 0,
+          double_spend_seen: false,
+          subaddr_index: { major: sub.major, minor: sub.minor },
+        };
+        transfers.push(transfer);
+        send(res, 200, transfer);
+        return;
+      }
+
+      if (req.url === '/mock/confirm' && req.method === 'POST') {
+        const blocks = Number(body.blocks ?? 1);
+        height += blocks;
+        for (const transfer of transfers) {
+          transfer.confirmations += blocks;
+        }
+        send(res, 200, { height });
+        return;
+      }
+
+      if (req.url === '/mock/state') {
+        send(res, 200, { height, subaddresses, transfers });
+        return;
+      }
+
+      send(res, 404, { error: 'Not found' });
+    } catch (err) {
+      send(res, 400, { error: err instanceof Error ? err.message : 'Bad request' });
+    }
+  })();
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Mock monero-wallet-rpc listening on http://127.0.0.1:${port}`);
+  console.log(`Set MONERO_WALLET_ADDRESS="${PRIMARY_ADDRESS}" or leave it unset`);
+});
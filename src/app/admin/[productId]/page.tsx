@@ -9,10 +9,12 @@ import Image from "next/image";
 import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
 import AdminLogin from "~/components/AdminLogin";
 import MarkdownPreview from "~/components/MarkdownPreview";
+import StockHistory from "~/components/StockHistory";
 import { useToast } from "~/context/ToastContext";
+import { csrfFetch } from "~/lib/security/csrf-client";
 
 function ProductEditContent() {
-  const { isAuthenticated, isLoading, login, logout } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout, adminFetch } = useAdminAuth();
   const { showToast } = useToast();
   const router = useRouter();
   const params = useParams();
@@ -91,33 +93,33 @@ function ProductEditContent() {
       description: formData.description,
       short_description: formData.short_description || null,
       image: formData.image,
-      stock: parseInt(formData.stock),
       images: formData.images.length > 0 ? formData.images : null,
       modifiers: formData.modifiers.length > 0 ? formData.modifiers : null,
     };
 
     try {
-      if (isNewProduct) {
-        // Create new product
-        const { error } = await supabase
-          .from("products")
-          .insert([productData]);
-
-        if (error) throw error;
-      } else {
-        // Update existing product
-        const { error } = await supabase
-          .from("products")
-          .update(productData)
-          .eq("id", productId);
-
-        if (error) throw error;
+      // Initial stock is recorded in the ledger by the products trigger; later
+      // stock changes go through the stock ledger
+      const response = isNewProduct
+        ? await adminFetch("/api/admin/products", {
+            body: { ...productData, stock: parseInt(formData.stock) },
+          })
+        : await adminFetch(`/api/admin/products/${productId}`, {
+            method: "PATCH",
+            body: productData,
+          });
+
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to save product");
       }
 
       router.push("/admin");
     } catch (error) {
       console.error("Error saving product:", error);
-      showToast("Failed to save product. Please try again.", "error");
+      showToast(error instanceof Error ? error.message : "Failed to save product. Please try again.", "error");
     } finally {
       setSaving(false);
     }
@@ -133,7 +135,7 @@ function ProductEditContent() {
         return;
       }
 
-      const response = await fetch("/api/products/toggle-visibility", {
+      const response = await csrfFetch("/api/products/toggle-visibility", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -166,7 +168,7 @@ function ProductEditContent() {
       const uploadFormData = new FormData();
       uploadFormData.append("file", file);
 
-      const response = await fetch("/api/documents/upload", {
+      const response = await csrfFetch("/api/documents/upload", {
         method: "POST",
         body: uploadFormData,
       });
@@ -220,8 +222,10 @@ function ProductEditContent() {
       const uploadFormData = new FormData();
       uploadFormData.append("file", file);
 
-      const response = await fetch("/api/products/upload-image", {
+      const token = localStorage.getItem("admin_token");
+      const response = await csrfFetch("/api/products/upload-image", {
         method: "POST",
+        headers: { Authorization: `Bearer ${token ?? ""}` },
         body: uploadFormData,
       });
 
@@ -340,7 +344,7 @@ function ProductEditContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   return (
@@ -453,10 +457,16 @@ function ProductEditContent() {
                     step="1"
                     value={formData.stock}
                     onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
-                    className="input-brutalist w-full"
+                    className={`input-brutalist w-full ${!isNewProduct ? "opacity-60" : ""}`}
                     required
+                    readOnly={!isNewProduct}
                     placeholder="0"
                   />
+                  {!isNewProduct && (
+                    <p className="text-xs tracking-wide mt-1 opacity-60">
+                      record changes in stock history below
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -841,6 +851,17 @@ function ProductEditContent() {
             </button>
           </div>
         </form>
+
+        {/* Stock Ledger */}
+        {!isNewProduct && (
+          <div className="mt-8">
+            <StockHistory
+              productId={productId}
+              onStockChange={(stock) => setFormData((prev) => ({ ...prev, stock: stock.toString() }))}
+              onUnauthorized={logout}
+            />
+          </div>
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { csrfFetch } from "~/lib/security/csrf-client";
+
+function AcceptInviteForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [username, setUsername] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("passwords don't match");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await csrfFetch("/api/admin/accept-invite", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json() as { username?: string; error?: string };
+
+      if (!response.ok || !data.username) {
+        setError(data.error ?? "couldn't accept the invite");
+        return;
+      }
+
+      setUsername(data.username);
+    } catch (err) {
+      console.error("Accept invite error:", err);
+      setError("an error occurred. please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-8">
+          <div className="mb-8">
+            <h1 className="text-2xl font-semibold text-gray-900 mb-2">join symphony labs admin</h1>
+            <p className="text-sm text-gray-600">
+              choose a password for your staff account
+            </p>
+          </div>
+
+          {username ? (
+            <div className="space-y-5">
+              <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">
+                you&apos;re all set. sign in as <strong>{username}</strong>.
+              </div>
+              <Link href="/admin" className="btn-brutalist-black w-full block text-center">
+                go to admin
+              </Link>
+            </div>
+          ) : !token ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+              this invite link is incomplete. ask for a new one.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input-brutalist w-full"
+                  required
+                  minLength={12}
+                  disabled={isLoading}
+                  autoComplete="new-password"
+                  autoFocus
+                />
+                <p className="text-xs text-gray-500 mt-1">at least 12 characters</p>
+              </div>
+
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-2">
+                  confirm password
+                </label>
+                <input
+                  type="password"
+                  id="confirm-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="input-brutalist w-full"
+                  required
+                  disabled={isLoading}
+                  autoComplete="new-password"
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-brutalist-black w-full"
+              >
+                {isLoading ? "saving..." : "set password"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AcceptInvitePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
+        <div className="w-full max-w-md">
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-8">
+            <div className="text-center text-gray-600">loading...</div>
+          </div>
+        </div>
+      </div>
+    }>
+      <AcceptInviteForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Navigation from "~/components/Navigation";
+import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
+import AdminLogin from "~/components/AdminLogin";
+import { useToast } from "~/context/ToastContext";
+import { AUDIT_ENTITY_TYPES, type AuditLogEntry } from "~/lib/audit-log-types";
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "—"
+    : typeof value === "string"
+      ? value
+      : JSON.stringify(value);
+
+function AuditPageContent() {
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, adminFetch, can } = useAdminAuth();
+  const { showToast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(100);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [entityType, setEntityType] = useState("");
+  const [actor, setActor] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const canViewAudit = can("audit:view");
+
+  useEffect(() => {
+    if (isAuthenticated && canViewAudit) {
+      void fetchEntries(page);
+    } else {
+      setLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, canViewAudit, page]);
+
+  // Dates are picked in local time; the range covers both days in full
+  const buildQuery = () => {
+    const params = new URLSearchParams();
+    if (entityType) params.set("entityType", entityType);
+    if (actor.trim()) params.set("actor", actor.trim());
+    if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+    return params;
+  };
+
+  const fetchEntries = async (targetPage: number) => {
+    setLoading(true);
+
+    try {
+      const params = buildQuery();
+      params.set("page", String(targetPage));
+
+      const response = await adminFetch(`/api/admin/audit?${params.toString()}`);
+      if (!response) return;
+
+      const data = await response.json() as {
+        entries?: AuditLogEntry[];
+        total?: number;
+        pageSize?: number;
+        error?: string;
+      };
+
+      if (!response.ok || !data.entries) {
+        throw new Error(data.error ?? "Failed to fetch audit log");
+      }
+
+      setEntries(data.entries);
+      setTotal(data.total ?? data.entries.length);
+      setPageSize(data.pageSize ?? pageSize);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      showToast("Failed to load audit log. Please try again.", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      void fetchEntries(1);
+    } else {
+      setPage(1);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+
+    try {
+      const params = buildQuery();
+      params.set("format", "csv");
+
+      const response = await adminFetch(`/api/admin/audit?${params.toString()}`);
+      if (!response) return;
+
+      if (!response.ok) {
+        throw new Error("Failed to export audit log");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      showToast("Failed to export audit log", "error");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (isLoading || (isAuthenticated && loading && entries.length === 0)) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16">
+            <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
+  }
+
+  if (!canViewAudit) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16 brutalist-border bg-white">
+            <p className="text-sm tracking-wide mb-4">you don&apos;t have access to the audit log.</p>
+            <Link href="/admin" className="btn-brutalist text-xs px-4 py-2">
+              back to products
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide mb-2">admin panel - audit log</h1>
+            <div className="h-[3px] w-20 bg-black mb-4"></div>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/admin" className="btn-brutalist text-xs px-4 py-2">
+              back to products
+            </Link>
+            <button
+              onClick={() => void handleExport()}
+              className="btn-brutalist text-xs px-4 py-2"
+              disabled={exporting || total === 0}
+            >
+              {exporting ? "exporting..." : "export csv"}
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={applyFilters} className="brutalist-border bg-white p-6 mb-8">
+          <div className="grid grid-cols-4 gap-4 mb-4">
+            <div>
+              <label htmlFor="audit_entity" className="block text-sm font-bold tracking-wide mb-2">
+                entity
+              </label>
+              <select
+                id="audit_entity"
+                value={entityType}
+                onChange={(e) => setEntityType(e.target.value)}
+                className="input-brutalist w-full"
+              >
+                <option value="">all</option>
+                {AUDIT_ENTITY_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type.replace(/_/g, " ")}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="audit_actor" className="block text-sm font-bold tracking-wide mb-2">
+                actor
+              </label>
+              <input
+                type="text"
+                id="audit_actor"
+                value={actor}
+                onChange={(e) => setActor(e.target.value)}
+                className="input-brutalist w-full"
+                placeholder="username"
+              />
+            </div>
+            <div>
+              <label htmlFor="audit_from" className="block text-sm font-bold tracking-wide mb-2">
+                from
+              </label>
+              <input
+                type="date"
+                id="audit_from"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="input-brutalist w-full"
+              />
+            </div>
+            <div>
+              <label htmlFor="audit_to" className="block text-sm font-bold tracking-wide mb-2">
+                to
+              </label>
+              <input
+                type="date"
+                id="audit_to"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="input-brutalist w-full"
+              />
+            </div>
+          </div>
+          <button type="submit" className="btn-brutalist text-xs px-4 py-2" disabled={loading}>
+            {loading ? "loading..." : "apply filters"}
+          </button>
+        </form>
+
+        {/* Entry List */}
+        <div className="space-y-4">
+          {entries.length === 0 ? (
+            <div className="text-center py-16 brutalist-border bg-white">
+              <p className="text-sm tracking-wide">no audit entries match these filters.</p>
+            </div>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="brutalist-border bg-white p-4">
+                <div className="flex items-center gap-3 mb-1">
+                  <h3 className="text-lg font-bold tracking-wide">{entry.action}</h3>
+                  <span className="text-xs font-bold tracking-wide bg-black text-white px-2 py-1">
+                    {entry.entity_type.replace(/_/g, " ").toUpperCase()}
+                  </span>
+                </div>
+                <p className="text-xs tracking-wide opacity-60">
+                  {entry.actor_username}
+                  {" · "}
+                  {new Date(entry.created_at).toLocaleString()}
+                  {entry.entity_id && <> · {entry.entity_id}</>}
+                  {entry.ip_address && <> · {entry.ip_address}</>}
+                </p>
+
+                {Object.keys(entry.changes).length > 0 && (
+                  <div className="mt-3 space-y-1">
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <p key={field} className="text-xs tracking-wide break-all">
+                        <span className="font-bold">{field}:</span>{" "}
+                        <span className="opacity-60 line-through">{formatValue(change.before)}</span>
+                        {" → "}
+                        <span>{formatValue(change.after)}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {entry.metadata && Object.keys(entry.metadata).length > 0 && (
+                  <p className="text-xs tracking-wide opacity-60 mt-2 break-all">
+                    {JSON.stringify(entry.metadata)}
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between mt-8">
+            <button
+              onClick={() => setPage((current) => current - 1)}
+              className="btn-brutalist text-xs px-4 py-2"
+              disabled={loading || page <= 1}
+            >
+              previous
+            </button>
+            <p className="text-xs tracking-wide">
+              page {page} of {pageCount} · {total} entries
+            </p>
+            <button
+              onClick={() => setPage((current) => current + 1)}
+              className="btn-brutalist text-xs px-4 py-2"
+              disabled={loading || page >= pageCount}
+            >
+              next
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+export default function AuditPage() {
+  return (
+    <AdminAuthProvider>
+      <AuditPageContent />
+    </AdminAuthProvider>
+  );
+}
@@ -6,6 +6,7 @@ import Navigation from "~/components/Navigation";
 import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
 import AdminLogin from "~/components/AdminLogin";
 import { useToast } from "~/context/ToastContext";
+import { csrfFetch } from "~/lib/security/csrf-client";
 
 interface BannerData {
   id: string;
@@ -14,7 +15,7 @@ interface BannerData {
 }
 
 function AdminBannerPageContent() {
-  const { isAuthenticated, isLoading, login, logout } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout } = useAdminAuth();
   const { showToast } = useToast();
   const [banner, setBanner] = useState<BannerData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -30,7 +31,7 @@ function AdminBannerPageContent() {
 
   const fetchBanner = async () => {
     try {
-      const response = await fetch("/api/banner");
+      const response = await csrfFetch("/api/banner");
       if (response.ok) {
         const data = await response.json() as { banner: BannerData | null };
         setBanner(data.banner);
@@ -53,7 +54,7 @@ function AdminBannerPageContent() {
     setSaving(true);
 
     try {
-      const response = await fetch("/api/banner/update", {
+      const response = await csrfFetch("/api/banner/update", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -90,7 +91,7 @@ function AdminBannerPageContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   return (
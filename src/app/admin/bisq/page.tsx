@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Navigation from "~/components/Navigation";
+import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
+import AdminLogin from "~/components/AdminLogin";
+import { useToast } from "~/context/ToastContext";
+import { csrfFetch } from "~/lib/security/csrf-client";
+
+interface BisqTradeRow {
+  id: string;
+  order_id: string;
+  trade_id: string;
+  payment_method: string;
+  btc_amount: number;
+  btc_price: number | null;
+  fiat_amount: number;
+  currency_code: string;
+  status: "offer_open" | "trading" | "completed" | "expired" | "cancelled";
+  trade_state: string;
+  phase: string | null;
+  deposit_published: boolean;
+  deposit_confirmed: boolean;
+  fiat_sent: boolean;
+  fiat_received: boolean;
+  payout_published: boolean;
+  deposit_tx_id: string | null;
+  payout_tx_id: string | null;
+  offer_expires_at: string | null;
+  last_checked_at: string | null;
+  created_at: string;
+  orders: { order_number: string; status: string; shipping_name: string } | null;
+}
+
+type StatusFilter = "open" | "all";
+
+const TRADE_FLAGS: { key: keyof BisqTradeRow; label: string }[] = [
+  { key: "deposit_published", label: "deposit published" },
+  { key: "deposit_confirmed", label: "deposit confirmed" },
+  { key: "fiat_sent", label: "fiat sent" },
+  { key: "fiat_received", label: "fiat received" },
+  { key: "payout_published", label: "payout" },
+];
+
+function AdminBisqContent() {
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout, adminFetch } = useAdminAuth();
+  const { showToast } = useToast();
+  const [trades, setTrades] = useState<BisqTradeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [filter, setFilter] = useState<StatusFilter>("open");
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      void fetchTrades();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, filter]);
+
+  const fetchTrades = async () => {
+    try {
+      const response = await adminFetch(`/api/admin/bisq/trades?filter=${filter}`);
+      if (!response) return;
+
+      const data = await response.json() as { trades?: BisqTradeRow[]; error?: string };
+
+      if (!response.ok || !data.trades) {
+        throw new Error(data.error ?? "Failed to fetch trades");
+      }
+
+      setTrades(data.trades);
+    } catch (error) {
+      console.error("Error fetching Bisq trades:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const adminRequest = async (path: string, body?: Record<string, unknown>) => {
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      showToast("Authentication token not found. Please log in again.", "error");
+      logout();
+      return null;
+    }
+
+    const response = await csrfFetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body ?? {}),
+    });
+
+    if (response.status === 401) {
+      showToast("Session expired. Please log in again.", "error");
+      logout();
+      return null;
+    }
+
+    return response;
+  };
+
+  const syncTrades = async () => {
+    setSyncing(true);
+    try {
+      const response = await adminRequest("/api/admin/bisq/sync");
+      if (!response) return;
+
+      const data = await response.json() as {
+        results?: { orderId: string; from: string; to: string; error?: string }[];
+        error?: string;
+      };
+
+      if (!response.ok || !data.results) {
+        throw new Error(data.error ?? "Failed to sync trades");
+      }
+
+      const failed = data.results.filter((r) => r.error).length;
+      const changed = data.results.filter((r) => r.from !== r.to).length;
+      showToast(
+        `Checked ${data.results.length} trade(s): ${changed} changed${failed ? `, ${failed} failed` : ""}`,
+        failed ? "warning" : "success"
+      );
+      await fetchTrades();
+    } catch (error) {
+      console.error("Error syncing Bisq trades:", error);
+      showToast(error instanceof Error ? error.message : "Failed to sync trades", "error");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const cancelOffer = async (trade: BisqTradeRow) => {
+    if (!confirm(`Cancel the offer for order ${trade.orders?.order_number ?? trade.order_id}? The order will be cancelled.`)) {
+      return;
+    }
+
+    try {
+      const response = await adminRequest("/api/admin/bisq/cancel-offer", { orderId: trade.order_id });
+      if (!response) return;
+
+      const data = await response.json() as { success?: boolean; error?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to cancel offer");
+      }
+
+      showToast("Offer cancelled", "success");
+      await fetchTrades();
+    } catch (error) {
+      console.error("Error cancelling Bisq offer:", error);
+      showToast(error instanceof Error ? error.message : "Failed to cancel offer", "error");
+      await fetchTrades();
+    }
+  };
+
+  if (isLoading || (isAuthenticated && loading)) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16">
+            <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide mb-2">bisq trades</h1>
+            <div className="h-[3px] w-20 bg-black"></div>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/admin/orders" className="btn-brutalist text-xs px-4 py-2">
+              view orders
+            </Link>
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as StatusFilter)}
+              className="input-brutalist text-xs px-2 py-1"
+            >
+              <option value="open">open trades</option>
+              <option value="all">all trades</option>
+            </select>
+            <button
+              onClick={() => void syncTrades()}
+              className="btn-brutalist-black text-xs px-4 py-2"
+              disabled={syncing}
+            >
+              {syncing ? "syncing..." : "sync with daemon"}
+            </button>
+            <button onClick={logout} className="btn-brutalist text-xs">
+              logout
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {trades.length === 0 ? (
+            <div className="text-center py-16 brutalist-border bg-white">
+              <div className="text-4xl mb-4">[ ]</div>
+              <p className="text-sm tracking-wide">no {filter === "open" ? "open " : ""}bisq trades</p>
+            </div>
+          ) : (
+            trades.map((trade) => (
+              <div key={trade.id} className="brutalist-border bg-white p-6">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-bold tracking-wide">
+                      {trade.orders?.order_number ?? trade.order_id}
+                      <span className="text-xs font-mono ml-3 opacity-60">{trade.trade_id.slice(0, 8)}</span>
+                    </h3>
+                    <div className="flex flex-wrap gap-4 text-xs tracking-wide mt-2">
+                      <span>trade: <strong>{trade.status.replace("_", " ")}</strong></span>
+                      <span>order: <strong>{trade.orders?.status ?? "-"}</strong></span>
+                      <span>
+                        amount: <strong>{Number(trade.fiat_amount).toFixed(2)} {trade.currency_code}</strong>
+                        {" "}/ {Number(trade.btc_amount).toFixed(8)} BTC
+                      </span>
+                      <span>method: {trade.payment_method.toLowerCase()}</span>
+                      <span>created: {new Date(trade.created_at).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  {trade.status === "offer_open" && (
+                    <button
+                      onClick={() => void cancelOffer(trade)}
+                      className="btn-brutalist text-xs px-4 py-2"
+                    >
+                      cancel offer
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {TRADE_FLAGS.map((flag) => (
+                    <span
+                      key={flag.key}
+                      className={`brutalist-border px-2 py-1 text-xs tracking-wide ${
+                        trade[flag.key] ? "bg-black text-white" : "bg-white opacity-50"
+                      }`}
+                    >
+                      {flag.label}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="text-xs tracking-wide space-y-1 opacity-80">
+                  <div>
+                    bisq state: <span className="font-mono">{trade.trade_state}</span>
+                    {trade.phase && <> / phase: <span className="font-mono">{trade.phase}</span></>}
+                  </div>
+                  {trade.status === "offer_open" && trade.offer_expires_at && (
+                    <div>offer expires: {new Date(trade.offer_expires_at).toLocaleString()}</div>
+                  )}
+                  {trade.deposit_tx_id && (
+                    <div>deposit tx: <span className="font-mono break-all">{trade.deposit_tx_id}</span></div>
+                  )}
+                  {trade.payout_tx_id && (
+                    <div>payout tx: <span className="font-mono break-all">{trade.payout_tx_id}</span></div>
+                  )}
+                  <div>
+                    last checked: {trade.last_checked_at ? new Date(trade.last_checked_at).toLocaleString() : "never"}
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function AdminBisqPage() {
+  return (
+    <AdminAuthProvider>
+      <AdminBisqContent />
+    </AdminAuthProvider>
+  );
+}
@@ -0,0 +1,412 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Navigation from "~/components/Navigation";
+import { supabase } from "~/lib/supabase";
+import type { CouponCampaignSummary } from "~/lib/coupon-campaign-types";
+import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
+import AdminLogin from "~/components/AdminLogin";
+import { useToast } from "~/context/ToastContext";
+import CouponRulesFields, {
+  describeCouponDiscount,
+  emptyCouponRules,
+  toCouponRules,
+} from "~/components/CouponRulesFields";
+
+interface ProductListItem {
+  id: string;
+  name: string;
+}
+
+function emptyCampaignForm() {
+  return {
+    name: "",
+    description: "",
+    code_prefix: "",
+    code_template: "XXXX-XXXX",
+    count: "100",
+    ...emptyCouponRules(),
+  };
+}
+
+function CampaignsPageContent() {
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, adminFetch } = useAdminAuth();
+  const { showToast } = useToast();
+  const [campaigns, setCampaigns] = useState<CouponCampaignSummary[]>([]);
+  const [products, setProducts] = useState<ProductListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyCampaignForm);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      void fetchCampaigns();
+    }
+    void fetchProducts();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated]);
+
+  const fetchCampaigns = async () => {
+    try {
+      const response = await adminFetch("/api/admin/coupons/campaigns");
+      if (!response) return;
+
+      const data = await response.json() as { campaigns?: CouponCampaignSummary[]; error?: string };
+
+      if (!response.ok || !data.campaigns) {
+        throw new Error(data.error ?? "Failed to fetch campaigns");
+      }
+
+      setCampaigns(data.campaigns);
+    } catch (error) {
+      console.error("Error fetching campaigns:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setProducts(data ?? []);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
+  const handleCreate = () => {
+    setIsCreating(true);
+    setFormData(emptyCampaignForm());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const campaignData = {
+      name: formData.name,
+      description: formData.description || null,
+      code_prefix: formData.code_prefix.toUpperCase(),
+      code_template: formData.code_template.toUpperCase(),
+      count: parseInt(formData.count),
+      rules: toCouponRules(formData),
+    };
+
+    try {
+      const response = await adminFetch("/api/admin/coupons/campaigns", { body: campaignData });
+      if (!response) return;
+
+      const data = await response.json() as { count?: number; error?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to generate codes");
+      }
+
+      showToast(`Generated ${data.count ?? 0} codes`, "success");
+      setIsCreating(false);
+      await fetchCampaigns();
+    } catch (error) {
+      console.error("Error creating campaign:", error);
+      showToast(error instanceof Error ? error.message : "Failed to generate codes. Please try again.", "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async (campaign: CouponCampaignSummary) => {
+    setExportingId(campaign.id);
+
+    try {
+      const response = await adminFetch(`/api/admin/coupons/campaigns/${campaign.id}?format=csv`);
+      if (!response) return;
+
+      if (!response.ok) {
+        throw new Error("Failed to export codes");
+      }
+
+      // Use the server's filename, which is derived from the campaign name
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "coupons.csv";
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting campaign codes:", error);
+      showToast("Failed to export codes", "error");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  if (isLoading || (isAuthenticated && loading)) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16">
+            <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
+  }
+
+  const exampleCode = `${formData.code_prefix.toUpperCase()}${formData.code_template.toUpperCase().replace(/X/g, "7")}`;
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide mb-2">admin panel - coupon campaigns</h1>
+            <div className="h-[3px] w-20 bg-black mb-4"></div>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/admin/coupons" className="btn-brutalist text-xs px-4 py-2">
+              back to coupons
+            </Link>
+            {!isCreating && (
+              <button onClick={handleCreate} className="btn-brutalist-black text-xs px-4 py-2">
+                + generate codes
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Generate Form */}
+        {isCreating && (
+          <div className="brutalist-border bg-white p-6 mb-8">
+            <h2 className="text-xl font-bold tracking-wide mb-4">generate single-use codes</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {/* Name and Description */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="campaign_name" className="block text-sm font-bold tracking-wide mb-2">
+                    campaign name *
+                  </label>
+                  <input
+                    type="text"
+                    id="campaign_name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="input-brutalist w-full"
+                    required
+                    maxLength={100}
+                    placeholder="Spring giveaway"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="campaign_description" className="block text-sm font-bold tracking-wide mb-2">
+                    description
+                  </label>
+                  <input
+                    type="text"
+                    id="campaign_description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className="input-brutalist w-full"
+                    placeholder="Internal note about this campaign"
+                  />
+                </div>
+              </div>
+
+              {/* Code Format and Count */}
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="code_prefix" className="block text-sm font-bold tracking-wide mb-2">
+                    code prefix
+                  </label>
+                  <input
+                    type="text"
+                    id="code_prefix"
+                    value={formData.code_prefix}
+                    onChange={(e) => setFormData({ ...formData, code_prefix: e.target.value.toUpperCase() })}
+                    className="input-brutalist w-full uppercase"
+                    maxLength={20}
+                    placeholder="SPRING-"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="code_template" className="block text-sm font-bold tracking-wide mb-2">
+                    code template *
+                  </label>
+                  <input
+                    type="text"
+                    id="code_template"
+                    value={formData.code_template}
+                    onChange={(e) => setFormData({ ...formData, code_template: e.target.value.toUpperCase() })}
+                    className="input-brutalist w-full uppercase"
+                    required
+                    maxLength={30}
+                  />
+                  <p className="text-xs tracking-wide mt-1 opacity-60">
+                    each X becomes a random character (at least 6, more for large campaigns), e.g. {exampleCode}
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="code_count" className="block text-sm font-bold tracking-wide mb-2">
+                    number of codes *
+                  </label>
+                  <input
+                    type="number"
+                    id="code_count"
+                    min="1"
+                    max="5000"
+                    step="1"
+                    value={formData.count}
+                    onChange={(e) => setFormData({ ...formData, count: e.target.value })}
+                    className="input-brutalist w-full"
+                    required
+                  />
+                  <p className="text-xs tracking-wide mt-1 opacity-60">
+                    each code can be used once
+                  </p>
+                </div>
+              </div>
+
+              <CouponRulesFields
+                value={formData}
+                onChange={(rules) => setFormData({ ...formData, ...rules })}
+                products={products}
+              />
+
+              {/* Submit Buttons */}
+              <div className="flex gap-3 pt-4">
+                <button type="submit" className="btn-brutalist-black" disabled={saving}>
+                  {saving ? "generating..." : "generate codes"}
+                </button>
+                <button type="button" onClick={() => setIsCreating(false)} className="btn-brutalist" disabled={saving}>
+                  cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Campaigns List */}
+        <div className="space-y-4">
+          {campaigns.length === 0 ? (
+            <div className="text-center py-16 brutalist-border bg-white">
+              <div className="text-4xl mb-4">[ ]</div>
+              <p className="text-sm tracking-wide mb-6">no campaigns yet. generate a batch of codes to get started.</p>
+              <button onClick={handleCreate} className="btn-brutalist-black px-6 py-3">
+                generate first codes
+              </button>
+            </div>
+          ) : (
+            campaigns.map((campaign) => (
+              <div key={campaign.id} className="brutalist-border bg-white p-4">
+                <div className="flex gap-4 items-start">
+                  {/* Campaign Info */}
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-2">
+                      <h3 className="text-lg font-bold tracking-wide">{campaign.name}</h3>
+                      <span className="text-xs font-bold tracking-wide bg-gray-100 px-2 py-1">
+                        {campaign.code_prefix}{campaign.code_template}
+                      </span>
+                    </div>
+
+                    {campaign.description && (
+                      <p className="text-xs tracking-wide mb-2 opacity-60">{campaign.description}</p>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs tracking-wide">
+                      <div>
+                        <div className="opacity-60">Discount:</div>
+                        <div className="font-bold">
+                          {describeCouponDiscount(campaign.rules)}
+                          {campaign.rules.max_discount_amount
+                            ? ` (max $${campaign.rules.max_discount_amount.toFixed(2)})`
+                            : ""}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="opacity-60">Redeemed:</div>
+                        <div className="font-bold">
+                          {campaign.redeemed_count} / {campaign.code_count}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="opacity-60">Revenue:</div>
+                        <div className="font-bold">
+                          ${campaign.revenue.toFixed(2)} from {campaign.paid_order_count} paid
+                          {campaign.paid_order_count === 1 ? " order" : " orders"}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="opacity-60">Discount Given:</div>
+                        <div className="font-bold">${campaign.discount_total.toFixed(2)}</div>
+                      </div>
+
+                      <div>
+                        <div className="opacity-60">Valid:</div>
+                        <div className="font-bold">
+                          {new Date(campaign.rules.valid_from).toLocaleDateString()} -{" "}
+                          {campaign.rules.valid_until
+                            ? new Date(campaign.rules.valid_until).toLocaleDateString()
+                            : "∞"}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="opacity-60">Created:</div>
+                        <div className="font-bold">
+                          {new Date(campaign.created_at).toLocaleDateString()} by {campaign.created_by}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex flex-col gap-2">
+                    <button
+                      onClick={() => void handleExport(campaign)}
+                      className="btn-brutalist text-xs px-4 py-2"
+                      disabled={exportingId === campaign.id}
+                    >
+                      {exportingId === campaign.id ? "exporting..." : "export csv"}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function CouponCampaignsPage() {
+  return (
+    <AdminAuthProvider>
+      <CampaignsPageContent />
+    </AdminAuthProvider>
+  );
+}
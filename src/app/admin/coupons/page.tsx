@@ -7,6 +7,12 @@ import { supabase, type Coupon } from "~/lib/supabase";
 import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
 import AdminLogin from "~/components/AdminLogin";
 import { useToast } from "~/context/ToastContext";
+import CouponRulesFields, {
+  couponRulesFromCoupon,
+  describeCouponDiscount,
+  emptyCouponRules,
+  toCouponRules,
+} from "~/components/CouponRulesFields";
 
 interface ProductListItem {
   id: string;
@@ -14,7 +20,7 @@ interface ProductListItem {
 }
 
 function CouponsPageContent() {
-  const { isAuthenticated, isLoading, login } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, adminFetch } = useAdminAuth();
   const { showToast } = useToast();
   const [coupons, setCoupons] = useState<Coupon[]>([]);
   const [products, setProducts] = useState<ProductListItem[]>([]);
@@ -25,32 +31,32 @@ function CouponsPageContent() {
   const [formData, setFormData] = useState({
     code: "",
     description: "",
-    discount_type: "percentage" as "percentage" | "fixed",
-    discount_value: "",
-    minimum_order_amount: "",
     max_uses: "",
-    one_per_customer: false,
-    valid_from: new Date().toISOString().split('T')[0] ?? "",
-    valid_until: "",
-    active: true,
-    applicable_to: "all" as "all" | "specific",
-    product_ids: [] as string[],
+    automatic: false,
+    priority: "0",
+    ...emptyCouponRules(),
   });
 
   useEffect(() => {
-    void fetchCoupons();
+    if (isAuthenticated) {
+      void fetchCoupons();
+    }
     void fetchProducts();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated]);
 
   const fetchCoupons = async () => {
     try {
-      const { data, error } = await supabase
-        .from("coupons")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const response = await adminFetch("/api/admin/coupons");
+      if (!response) return;
 
-      if (error) throw error;
-      setCoupons(data ?? []);
+      const data = await response.json() as { coupons?: Coupon[]; error?: string };
+
+      if (!response.ok || !data.coupons) {
+        throw new Error(data.error ?? "Failed to fetch coupons");
+      }
+
+      setCoupons(data.coupons);
     } catch (error) {
       console.error("Error fetching coupons:", error);
     } finally {
@@ -78,16 +84,10 @@ function CouponsPageContent() {
     setFormData({
       code: "",
       description: "",
-      discount_type: "percentage",
-      discount_value: "",
-      minimum_order_amount: "",
       max_uses: "",
-      one_per_customer: false,
-      valid_from: new Date().toISOString().split('T')[0] ?? "",
-      valid_until: "",
-      active: true,
-      applicable_to: "all",
-      product_ids: [],
+      automatic: false,
+      priority: "0",
+      ...emptyCouponRules(),
     });
   };
 
@@ -97,16 +97,10 @@ function CouponsPageContent() {
     setFormData({
       code: coupon.code,
       description: coupon.description ?? "",
-      discount_type: coupon.discount_type,
-      discount_value: coupon.discount_value.toString(),
-      minimum_order_amount: coupon.minimum_order_amount?.toString() ?? "",
       max_uses: coupon.max_uses?.toString() ?? "",
-      one_per_customer: coupon.one_per_customer,
-      valid_from: coupon.valid_from.split('T')[0] ?? "",
-      valid_until: coupon.valid_until?.split('T')[0] ?? "",
-      active: coupon.active,
-      applicable_to: coupon.applicable_to,
-      product_ids: coupon.product_ids ?? [],
+      automatic: coupon.automatic,
+      priority: coupon.priority.toString(),
+      ...couponRulesFromCoupon(coupon),
     });
   };
 
@@ -122,39 +116,29 @@ function CouponsPageContent() {
     const couponData = {
       code: formData.code.toUpperCase(),
       description: formData.description || null,
-      discount_type: formData.discount_type,
-      discount_value: parseFloat(formData.discount_value),
-      minimum_order_amount: formData.minimum_order_amount ? parseFloat(formData.minimum_order_amount) : null,
       max_uses: formData.max_uses ? parseInt(formData.max_uses) : null,
-      one_per_customer: formData.one_per_customer,
-      valid_from: formData.valid_from,
-      valid_until: formData.valid_until || null,
-      active: formData.active,
-      applicable_to: formData.applicable_to,
-      product_ids: formData.applicable_to === "specific" && formData.product_ids.length > 0 ? formData.product_ids : null,
+      automatic: formData.automatic,
+      priority: formData.priority ? parseInt(formData.priority) : 0,
+      ...toCouponRules(formData),
     };
 
     try {
-      if (editingCoupon) {
-        const { error } = await supabase
-          .from("coupons")
-          .update(couponData)
-          .eq("id", editingCoupon.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from("coupons")
-          .insert([{ ...couponData, current_uses: 0 }]);
-
-        if (error) throw error;
+      const response = editingCoupon
+        ? await adminFetch(`/api/admin/coupons/${editingCoupon.id}`, { method: "PATCH", body: couponData })
+        : await adminFetch("/api/admin/coupons", { body: couponData });
+
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to save coupon");
       }
 
       await fetchCoupons();
       handleCancel();
     } catch (error) {
       console.error("Error saving coupon:", error);
-      showToast("Failed to save coupon. Please try again.", "error");
+      showToast(error instanceof Error ? error.message : "Failed to save coupon. Please try again.", "error");
     } finally {
       setSaving(false);
     }
@@ -164,12 +148,14 @@ function CouponsPageContent() {
     if (!confirm("Are you sure you want to delete this coupon?")) return;
 
     try {
-      const { error } = await supabase
-        .from("coupons")
-        .delete()
-        .eq("id", id);
+      const response = await adminFetch(`/api/admin/coupons/${id}`, { method: "DELETE" });
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to delete coupon");
+      }
 
-      if (error) throw error;
       await fetchCoupons();
     } catch (error) {
       console.error("Error deleting coupon:", error);
@@ -179,12 +165,14 @@ function CouponsPageContent() {
 
   const toggleActive = async (coupon: Coupon) => {
     try {
-      const { error } = await supabase
-        .from("coupons")
-        .update({ active: !coupon.active })
-        .eq("id", coupon.id);
+      const response = await adminFetch(`/api/admin/coupons/${coupon.id}/toggle-active`, { method: "POST" });
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to update coupon status");
+      }
 
-      if (error) throw error;
       await fetchCoupons();
     } catch (error) {
       console.error("Error toggling coupon status:", error);
@@ -192,7 +180,7 @@ function CouponsPageContent() {
     }
   };
 
-  if (isLoading || loading) {
+  if (isLoading || (isAuthenticated && loading)) {
     return (
       <main className="min-h-screen bg-white">
         <Navigation />
@@ -206,7 +194,7 @@ function CouponsPageContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   return (
@@ -230,6 +218,9 @@ function CouponsPageContent() {
             <Link href="/admin/orders" className="btn-brutalist text-xs px-4 py-2">
               view orders
             </Link>
+            <Link href="/admin/coupons/campaigns" className="btn-brutalist text-xs px-4 py-2">
+              campaigns
+            </Link>
             {!isCreating && !editingCoupon && (
               <button onClick={handleCreate} className="btn-brutalist-black text-xs px-4 py-2">
                 + create new coupon
@@ -260,7 +251,9 @@ function CouponsPageContent() {
                   placeholder="SAVE20"
                 />
                 <p className="text-xs tracking-wide mt-1 opacity-60">
-                  customers will enter this code at checkout
+                  {formData.automatic
+                    ? "shown to customers when the promotion applies"
+                    : "customers will enter this code at checkout"}
                 </p>
               </div>
 
@@ -279,209 +272,68 @@ function CouponsPageContent() {
                 />
               </div>
 
-              {/* Discount Type and Value */}
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="discount_type" className="block text-sm font-bold tracking-wide mb-2">
-                    discount type *
-                  </label>
-                  <select
-                    id="discount_type"
-                    value={formData.discount_type}
-                    onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as "percentage" | "fixed" })}
-                    className="input-brutalist w-full"
-                    required
-                  >
-                    <option value="percentage">Percentage (%)</option>
-                    <option value="fixed">Fixed Amount ($)</option>
-                  </select>
-                </div>
-
-                <div>
-                  <label htmlFor="discount_value" className="block text-sm font-bold tracking-wide mb-2">
-                    discount value *
-                  </label>
-                  <input
-                    type="number"
-                    id="discount_value"
-                    step="0.01"
-                    min="0"
-                    max={formData.discount_type === "percentage" ? "100" : undefined}
-                    value={formData.discount_value}
-                    onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })}
-                    className="input-brutalist w-full"
-                    required
-                    placeholder={formData.discount_type === "percentage" ? "10" : "20.00"}
-                  />
-                  <p className="text-xs tracking-wide mt-1 opacity-60">
-                    {formData.discount_type === "percentage" ? "1-100%" : "dollar amount"}
-                  </p>
-                </div>
-              </div>
-
-              {/* Minimum Order Amount and Max Uses */}
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="minimum_order_amount" className="block text-sm font-bold tracking-wide mb-2">
-                    minimum order amount
-                  </label>
-                  <input
-                    type="number"
-                    id="minimum_order_amount"
-                    step="0.01"
-                    min="0"
-                    value={formData.minimum_order_amount}
-                    onChange={(e) => setFormData({ ...formData, minimum_order_amount: e.target.value })}
-                    className="input-brutalist w-full"
-                    placeholder="0.00 (optional)"
-                  />
-                  <p className="text-xs tracking-wide mt-1 opacity-60">
-                    leave empty for no minimum
-                  </p>
-                </div>
-
-                <div>
-                  <label htmlFor="max_uses" className="block text-sm font-bold tracking-wide mb-2">
-                    max uses
-                  </label>
-                  <input
-                    type="number"
-                    id="max_uses"
-                    min="1"
-                    step="1"
-                    value={formData.max_uses}
-                    onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
-                    className="input-brutalist w-full"
-                    placeholder="unlimited"
-                  />
-                  <p className="text-xs tracking-wide mt-1 opacity-60">
-                    leave empty for unlimited uses
-                  </p>
-                </div>
-              </div>
-
-              {/* Valid From and Valid Until */}
+              {/* Automatic Promotion */}
               <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="valid_from" className="block text-sm font-bold tracking-wide mb-2">
-                    valid from *
-                  </label>
-                  <input
-                    type="date"
-                    id="valid_from"
-                    value={formData.valid_from}
-                    onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })}
-                    className="input-brutalist w-full"
-                    required
-                  />
-                </div>
-
-                <div>
-                  <label htmlFor="valid_until" className="block text-sm font-bold tracking-wide mb-2">
-                    valid until
-                  </label>
-                  <input
-                    type="date"
-                    id="valid_until"
-                    value={formData.valid_until}
-                    onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })}
-                    className="input-brutalist w-full"
-                  />
-                  <p className="text-xs tracking-wide mt-1 opacity-60">
-                    leave empty for no expiration
-                  </p>
-                </div>
-              </div>
-
-              {/* Checkboxes */}
-              <div className="space-y-3">
                 <label className="flex items-center gap-3">
                   <input
                     type="checkbox"
-                    checked={formData.one_per_customer}
-                    onChange={(e) => setFormData({ ...formData, one_per_customer: e.target.checked })}
+                    checked={formData.automatic}
+                    onChange={(e) => setFormData({ ...formData, automatic: e.target.checked })}
                     className="w-5 h-5"
                   />
                   <span className="text-sm font-bold tracking-wide">
-                    one per customer (each customer can only use once)
+                    apply automatically (no code needed)
                   </span>
                 </label>
 
-                <label className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    checked={formData.active}
-                    onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
-                    className="w-5 h-5"
-                  />
-                  <span className="text-sm font-bold tracking-wide">
-                    active (coupon is enabled)
-                  </span>
-                </label>
-              </div>
-
-              {/* Product Applicability */}
-              <div>
-                <label className="block text-sm font-bold tracking-wide mb-2">
-                  applicable to
-                </label>
-                <div className="space-y-3">
-                  <label className="flex items-center gap-3">
+                {formData.automatic && (
+                  <div>
+                    <label htmlFor="priority" className="block text-sm font-bold tracking-wide mb-2">
+                      priority
+                    </label>
                     <input
-                      type="radio"
-                      name="applicable_to"
-                      value="all"
-                      checked={formData.applicable_to === "all"}
-                      onChange={(e) => setFormData({ ...formData, applicable_to: e.target.value as "all" })}
-                      className="w-4 h-4"
+                      type="number"
+                      id="priority"
+                      step="1"
+                      min="-1000"
+                      max="1000"
+                      value={formData.priority}
+                      onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                      className="input-brutalist w-full"
+                      placeholder="0"
                     />
-                    <span className="text-sm tracking-wide">all products</span>
-                  </label>
+                    <p className="text-xs tracking-wide mt-1 opacity-60">
+                      higher priority promotions apply first, before any entered codes
+                    </p>
+                  </div>
+                )}
+              </div>
 
-                  <label className="flex items-center gap-3">
+              <CouponRulesFields
+                value={formData}
+                onChange={(rules) => setFormData({ ...formData, ...rules })}
+                products={products}
+                maxUsesField={
+                  <div>
+                    <label htmlFor="max_uses" className="block text-sm font-bold tracking-wide mb-2">
+                      max uses
+                    </label>
                     <input
-                      type="radio"
-                      name="applicable_to"
-                      value="specific"
-                      checked={formData.applicable_to === "specific"}
-                      onChange={(e) => setFormData({ ...formData, applicable_to: e.target.value as "specific" })}
-                      className="w-4 h-4"
+                      type="number"
+                      id="max_uses"
+                      min="1"
+                      step="1"
+                      value={formData.max_uses}
+                      onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
+                      className="input-brutalist w-full"
+                      placeholder="unlimited"
                     />
-                    <span className="text-sm tracking-wide">specific products</span>
-                  </label>
-                </div>
-
-                {formData.applicable_to === "specific" && (
-                  <div className="mt-3 brutalist-border bg-gray-50 p-4">
-                    <p className="text-xs tracking-wide mb-3 font-bold">select products:</p>
-                    <div className="space-y-2 max-h-60 overflow-y-auto">
-                      {products.map((product) => (
-                        <label key={product.id} className="flex items-center gap-2">
-                          <input
-                            type="checkbox"
-                            checked={formData.product_ids.includes(product.id)}
-                            onChange={(e) => {
-                              if (e.target.checked) {
-                                setFormData({
-                                  ...formData,
-                                  product_ids: [...formData.product_ids, product.id],
-                                });
-                              } else {
-                                setFormData({
-                                  ...formData,
-                                  product_ids: formData.product_ids.filter((id) => id !== product.id),
-                                });
-                              }
-                            }}
-                            className="w-4 h-4"
-                          />
-                          <span className="text-xs tracking-wide">{product.name}</span>
-                        </label>
-                      ))}
-                    </div>
+                    <p className="text-xs tracking-wide mt-1 opacity-60">
+                      leave empty for unlimited uses
+                    </p>
                   </div>
-                )}
-              </div>
+                }
+              />
 
               {/* Submit Buttons */}
               <div className="flex gap-3 pt-4">
@@ -524,6 +376,16 @@ function CouponsPageContent() {
                           ACTIVE
                         </span>
                       )}
+                      {coupon.automatic && (
+                        <span className="text-xs font-bold tracking-wide bg-black text-white px-2 py-1">
+                          AUTOMATIC · PRIORITY {coupon.priority}
+                        </span>
+                      )}
+                      {coupon.stackable && (
+                        <span className="text-xs font-bold tracking-wide bg-gray-100 px-2 py-1">
+                          STACKABLE
+                        </span>
+                      )}
                     </div>
 
                     {coupon.description && (
@@ -534,9 +396,8 @@ function CouponsPageContent() {
                       <div>
                         <div className="opacity-60">Discount:</div>
                         <div className="font-bold">
-                          {coupon.discount_type === "percentage"
-                            ? `${coupon.discount_value}%`
-                            : `$${coupon.discount_value.toFixed(2)}`}
+                          {describeCouponDiscount(coupon)}
+                          {coupon.max_discount_amount ? ` (max $${coupon.max_discount_amount.toFixed(2)})` : ""}
                         </div>
                       </div>
 
@@ -9,7 +9,7 @@ import AdminLogin from "~/components/AdminLogin";
 import { useToast } from "~/context/ToastContext";
 
 function LabTestsPageContent() {
-  const { isAuthenticated, isLoading, login, logout } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout, adminFetch } = useAdminAuth();
   const { showToast } = useToast();
   const params = useParams();
   const router = useRouter();
@@ -99,28 +99,22 @@ function LabTestsPageContent() {
     };
 
     try {
-      if (editingTest) {
-        // Update existing lab test
-        const { error } = await supabase
-          .from("lab_tests")
-          .update(testData)
-          .eq("id", editingTest.id);
-
-        if (error) throw error;
-      } else {
-        // Create new lab test
-        const { error } = await supabase
-          .from("lab_tests")
-          .insert([testData]);
-
-        if (error) throw error;
+      const response = editingTest
+        ? await adminFetch(`/api/admin/lab-tests/${editingTest.id}`, { method: "PATCH", body: testData })
+        : await adminFetch("/api/admin/lab-tests", { body: testData });
+
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to save lab test");
       }
 
       await fetchProductAndTests();
       handleCancel();
     } catch (error) {
       console.error("Error saving lab test:", error);
-      showToast("Failed to save lab test. Please try again.", "error");
+      showToast(error instanceof Error ? error.message : "Failed to save lab test. Please try again.", "error");
     }
   };
 
@@ -128,12 +122,14 @@ function LabTestsPageContent() {
     if (!confirm("are you sure you want to delete this lab test?")) return;
 
     try {
-      const { error } = await supabase
-        .from("lab_tests")
-        .delete()
-        .eq("id", id);
+      const response = await adminFetch(`/api/admin/lab-tests/${id}`, { method: "DELETE" });
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to delete lab test");
+      }
 
-      if (error) throw error;
       await fetchProductAndTests();
     } catch (error) {
       console.error("Error deleting lab test:", error);
@@ -155,7 +151,7 @@ function LabTestsPageContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   if (!product) {
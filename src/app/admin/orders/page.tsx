@@ -2,10 +2,11 @@
 
 import { useEffect, useState } from "react";
 import Navigation from "~/components/Navigation";
-import { supabase } from "~/lib/supabase";
 import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
 import AdminLogin from "~/components/AdminLogin";
 import { useToast } from "~/context/ToastContext";
+import { ORDER_TRANSITIONS, canTransition, isOrderStatus, type OrderEvent } from "~/lib/order-status";
+import { csrfFetch } from "~/lib/security/csrf-client";
 
 interface SelectedModifier {
   groupId: string;
@@ -15,12 +16,25 @@ interface SelectedModifier {
   priceAdjustment: number;
 }
 
+interface StockReservation {
+  product_id: string;
+  quantity: number;
+  status: "active" | "committed" | "released";
+  expires_at: string;
+}
+
 interface Order {
   id: string;
   order_number: string;
   btcpay_invoice_id: string | null;
   status: string;
+  payment_method: string | null;
   total_amount: number;
+  refunded_amount: number | null;
+  payment_exception: "underpaid" | "overpaid" | "paid_late" | null;
+  payment_exception_amount: number | null;
+  payment_exception_resolution: string | null;
+  payment_exception_resolved_at: string | null;
   items: Array<{
     id: string;
     name: string;
@@ -46,30 +60,100 @@ interface Order {
   created_at: string;
   paid_at: string | null;
   shipped_at: string | null;
+  stock_reservations?: StockReservation[];
+}
+
+// Statuses an order can be refunded from; only BTCPay payments can be refunded
+const REFUNDABLE_STATUSES = ["paid", "processing", "shipped", "delivered", "partially_refunded"];
+
+// Statuses the dropdown offers from the current one. Shipping goes through the
+// tracking form and refunds through the refund modal.
+function getStatusOptions(status: string): string[] {
+  const next = isOrderStatus(status) ? ORDER_TRANSITIONS[status] : [];
+  return [
+    status,
+    ...next.filter((s) => s !== "shipped" && s !== "partially_refunded" && s !== "refunded"),
+  ];
+}
+
+type PaymentExceptionAction = "accept" | "request_top_up" | "refund_excess";
+
+// Actions offered per exception, matching the server's rules
+const EXCEPTION_ACTIONS: Record<NonNullable<Order["payment_exception"]>, { action: PaymentExceptionAction; label: string }[]> = {
+  underpaid: [
+    { action: "accept", label: "accept underpayment" },
+    { action: "request_top_up", label: "request top-up" },
+  ],
+  overpaid: [
+    { action: "accept", label: "keep excess" },
+    { action: "refund_excess", label: "refund excess" },
+  ],
+  paid_late: [
+    { action: "accept", label: "accept late payment" },
+  ],
+};
+
+// Summarize an order's stock reservation for display
+function getReservationStatus(order: Order): string | null {
+  const reservations = order.stock_reservations ?? [];
+
+  if (reservations.length === 0) {
+    return null;
+  }
+
+  if (reservations.every((r) => r.status === "committed")) {
+    return "committed";
+  }
+
+  const active = reservations.filter((r) => r.status === "active");
+
+  if (active.length > 0) {
+    const expiresAt = new Date(
+      Math.min(...active.map((r) => new Date(r.expires_at).getTime()))
+    );
+
+    return expiresAt.getTime() > Date.now()
+      ? `reserved until ${expiresAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+      : "reservation lapsed";
+  }
+
+  return "released";
 }
 
 function AdminOrdersContent() {
-  const { isAuthenticated, isLoading, login, logout } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout, adminFetch, can } = useAdminAuth();
   const { showToast } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [refundTarget, setRefundTarget] = useState<Order | null>(null);
+  const [refundMode, setRefundMode] = useState<"full" | "items">("full");
+  const [refundQuantities, setRefundQuantities] = useState<Record<number, number>>({});
+  const [refundRestock, setRefundRestock] = useState(false);
+  const [refunding, setRefunding] = useState(false);
+  const [resolvingException, setResolvingException] = useState<string | null>(null);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
+  const [history, setHistory] = useState<OrderEvent[]>([]);
 
   useEffect(() => {
     if (isAuthenticated) {
       void fetchOrders();
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAuthenticated]);
 
   const fetchOrders = async () => {
     try {
-      const { data, error } = await supabase
-        .from("orders")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const response = await adminFetch("/api/admin/orders");
+      if (!response) return;
 
-      if (error) throw error;
-      setOrders(data ?? []);
+      const data = await response.json() as { orders?: Order[]; error?: string };
+
+      if (!response.ok || !data.orders) {
+        throw new Error(data.error ?? "Failed to fetch orders");
+      }
+
+      setOrders(data.orders);
     } catch (error) {
       console.error("Error fetching orders:", error);
     } finally {
@@ -77,50 +161,231 @@ function AdminOrdersContent() {
     }
   };
 
-  const updateOrderStatus = async (orderId: string, status: string) => {
+  // Status changes go through the server so they're checked and recorded
+  const changeStatus = async (
+    orderId: string,
+    status: string,
+    tracking?: { trackingNumber: string; trackingUrl: string }
+  ): Promise<boolean> => {
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      showToast("Authentication token not found. Please log in again.", "error");
+      logout();
+      return false;
+    }
+
     try {
-      const { error } = await supabase
-        .from("orders")
-        .update({ status })
-        .eq("id", orderId);
+      const response = await csrfFetch("/api/admin/orders/status", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ orderId, status, ...tracking }),
+      });
+
+      if (response.status === 401) {
+        showToast("Session expired. Please log in again.", "error");
+        logout();
+        return false;
+      }
+
+      const data = await response.json() as { success?: boolean; error?: string };
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error ?? "Failed to update order status");
+      }
 
-      if (error) throw error;
       await fetchOrders();
+      if (historyOrderId === orderId) {
+        await fetchHistory(orderId);
+      }
+      return true;
     } catch (error) {
       console.error("Error updating order:", error);
-      showToast("Failed to update order status", "error");
+      showToast(error instanceof Error ? error.message : "Failed to update order status", "error");
+      return false;
     }
   };
 
   const markAsShipped = async (orderId: string, trackingNumber: string, trackingUrl: string) => {
-    try {
-      // Schedule notification email for 24 hours from now
-      const notificationScheduledAt = new Date();
-      notificationScheduledAt.setHours(notificationScheduledAt.getHours() + 24);
-
-      const { error } = await supabase
-        .from("orders")
-        .update({
-          status: "shipped",
-          tracking_number: trackingNumber,
-          shipping_tracking_url: trackingUrl,
-          shipped_at: new Date().toISOString(),
-          shipping_notification_scheduled_at: notificationScheduledAt.toISOString(),
-        })
-        .eq("id", orderId);
-
-      if (error) throw error;
+    const shipped = await changeStatus(orderId, "shipped", { trackingNumber, trackingUrl });
 
+    if (shipped) {
       showToast("Order marked as shipped. Email will be sent in 24 hours.", "success");
+      setSelectedOrder(null);
+    }
+  };
 
+  const fetchHistory = async (orderId: string) => {
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      logout();
+      return;
+    }
+
+    try {
+      const response = await csrfFetch(`/api/admin/orders/events?orderId=${orderId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 401) {
+        showToast("Session expired. Please log in again.", "error");
+        logout();
+        return;
+      }
+
+      const data = await response.json() as { events?: OrderEvent[]; error?: string };
+
+      if (!response.ok || !data.events) {
+        throw new Error(data.error ?? "Failed to load order history");
+      }
+
+      setHistory(data.events);
+    } catch (error) {
+      console.error("Error fetching order history:", error);
+      showToast("Failed to load order history", "error");
+    }
+  };
+
+  const toggleHistory = (orderId: string) => {
+    if (historyOrderId === orderId) {
+      setHistoryOrderId(null);
+      return;
+    }
+
+    setHistoryOrderId(orderId);
+    setHistory([]);
+    void fetchHistory(orderId);
+  };
+
+  const openRefund = (order: Order) => {
+    setRefundTarget(order);
+    setRefundMode("full");
+    setRefundQuantities({});
+    setRefundRestock(false);
+  };
+
+  const submitRefund = async (order: Order) => {
+    const lines = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([index, quantity]) => ({ index: Number(index), quantity }));
+
+    if (refundMode === "items" && lines.length === 0) {
+      showToast("Select at least one item to refund", "warning");
+      return;
+    }
+
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      showToast("Authentication token not found. Please log in again.", "error");
+      logout();
+      return;
+    }
+
+    setRefunding(true);
+    try {
+      const response = await csrfFetch("/api/admin/orders/refund", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          orderId: order.id,
+          lines: refundMode === "items" ? lines : undefined,
+          restock: refundRestock,
+        }),
+      });
+
+      if (response.status === 401) {
+        showToast("Session expired. Please log in again.", "error");
+        logout();
+        return;
+      }
+
+      const data = await response.json() as {
+        refund?: { amount: number; emailSent: boolean; claimLink: string };
+        error?: string;
+      };
+
+      if (!response.ok || !data.refund) {
+        throw new Error(data.error ?? "Failed to create refund");
+      }
+
+      showToast(
+        data.refund.emailSent
+          ? `Refunded $${data.refund.amount.toFixed(2)}. Claim link emailed to the customer.`
+          : `Refunded $${data.refund.amount.toFixed(2)}. No email sent - share the claim link: ${data.refund.claimLink}`,
+        data.refund.emailSent ? "success" : "warning"
+      );
+
+      setRefundTarget(null);
       await fetchOrders();
-      setSelectedOrder(null);
     } catch (error) {
-      console.error("Error marking as shipped:", error);
-      showToast("Failed to mark as shipped", "error");
+      console.error("Error refunding order:", error);
+      showToast(error instanceof Error ? error.message : "Failed to create refund", "error");
+    } finally {
+      setRefunding(false);
     }
   };
 
+  const resolveException = async (order: Order, action: PaymentExceptionAction) => {
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      showToast("Authentication token not found. Please log in again.", "error");
+      logout();
+      return;
+    }
+
+    setResolvingException(order.id);
+    try {
+      const response = await csrfFetch("/api/admin/orders/payment-exception", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ orderId: order.id, action }),
+      });
+
+      if (response.status === 401) {
+        showToast("Session expired. Please log in again.", "error");
+        logout();
+        return;
+      }
+
+      const data = await response.json() as {
+        resolution?: string;
+        link?: string;
+        emailSent?: boolean;
+        error?: string;
+      };
+
+      if (!response.ok || !data.resolution) {
+        throw new Error(data.error ?? "Failed to resolve payment");
+      }
+
+      showToast(
+        data.link && !data.emailSent
+          ? `Done. No email sent - share this link with the customer: ${data.link}`
+          : `Order ${order.order_number}: ${data.resolution.replace(/_/g, " ")}`,
+        data.link && !data.emailSent ? "warning" : "success"
+      );
+
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error resolving payment exception:", error);
+      showToast(error instanceof Error ? error.message : "Failed to resolve payment", "error");
+    } finally {
+      setResolvingException(null);
+    }
+  };
+
+  const flaggedOrders = orders.filter(
+    (order) => order.payment_exception && !order.payment_exception_resolved_at
+  );
+
   if (isLoading || loading) {
     return (
       <main className="min-h-screen bg-white">
@@ -135,7 +400,7 @@ function AdminOrdersContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   return (
@@ -153,6 +418,46 @@ function AdminOrdersContent() {
           </button>
         </div>
 
+        {/* Flagged Payments */}
+        {flaggedOrders.length > 0 && can("payments:manage") && (
+          <div className="brutalist-border bg-yellow-50 p-6 mb-8">
+            <h2 className="text-lg font-bold tracking-wide mb-4">
+              flagged payments ({flaggedOrders.length})
+            </h2>
+            <div className="space-y-3">
+              {flaggedOrders.map((order) => (
+                <div key={order.id} className="brutalist-border bg-white p-4 flex items-center justify-between gap-4">
+                  <div className="text-xs tracking-wide space-y-1">
+                    <div className="text-sm font-bold">{order.order_number}</div>
+                    <div>
+                      <strong>{order.payment_exception?.replace("_", " ")}</strong>
+                      {order.payment_exception !== "paid_late" && (
+                        <> by ${Number(order.payment_exception_amount ?? 0).toFixed(2)}</>
+                      )}
+                      {" "}on ${order.total_amount.toFixed(2)} / status: {order.status}
+                    </div>
+                    {order.payment_exception_resolution === "top_up_requested" && (
+                      <div className="opacity-60">top-up requested, waiting for payment</div>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {order.payment_exception && EXCEPTION_ACTIONS[order.payment_exception].map(({ action, label }) => (
+                      <button
+                        key={action}
+                        onClick={() => void resolveException(order, action)}
+                        disabled={resolvingException === order.id}
+                        className={`${action === "accept" ? "btn-brutalist" : "btn-brutalist-black"} text-xs px-4 py-2`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Orders List */}
         <div className="space-y-4">
           {orders.length === 0 ? (
@@ -169,11 +474,20 @@ function AdminOrdersContent() {
                     <div className="flex gap-4 text-xs tracking-wide mt-2">
                       <span>status: <strong>{order.status}</strong></span>
                       <span>total: <strong>${order.total_amount.toFixed(2)}</strong></span>
+                      {order.payment_exception && (
+                        <span>payment: <strong>{order.payment_exception.replace("_", " ")}</strong></span>
+                      )}
+                      {Number(order.refunded_amount ?? 0) > 0 && (
+                        <span>refunded: <strong>${Number(order.refunded_amount).toFixed(2)}</strong></span>
+                      )}
                       <span>created: {new Date(order.created_at).toLocaleDateString()}</span>
+                      {getReservationStatus(order) && (
+                        <span>stock: <strong>{getReservationStatus(order)}</strong></span>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
-                    {order.status === "paid" && (
+                    {can("orders:update") && canTransition(order.status, "shipped") && (
                       <button
                         onClick={() => setSelectedOrder(order)}
                         className="btn-brutalist-black text-xs px-4 py-2"
@@ -181,16 +495,31 @@ function AdminOrdersContent() {
                         mark shipped
                       </button>
                     )}
+                    {can("orders:refund") && REFUNDABLE_STATUSES.includes(order.status) && (order.payment_method ?? "btcpay") === "btcpay" && (
+                      <button
+                        onClick={() => openRefund(order)}
+                        className="btn-brutalist text-xs px-4 py-2"
+                      >
+                        refund
+                      </button>
+                    )}
+                    <button
+                      onClick={() => toggleHistory(order.id)}
+                      className="btn-brutalist text-xs px-4 py-2"
+                    >
+                      {historyOrderId === order.id ? "hide history" : "history"}
+                    </button>
                     <select
                       value={order.status}
-                      onChange={(e) => updateOrderStatus(order.id, e.target.value)}
+                      onChange={(e) => void changeStatus(order.id, e.target.value)}
                       className="input-brutalist text-xs px-2 py-1"
+                      disabled={!can("orders:update")}
                     >
-                      <option value="pending">pending</option>
-                      <option value="paid">paid</option>
-                      <option value="shipped">shipped</option>
-                      <option value="delivered">delivered</option>
-                      <option value="cancelled">cancelled</option>
+                      {getStatusOptions(order.status).map((status) => (
+                        <option key={status} value={status}>
+                          {status.replace("_", " ")}
+                        </option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -239,6 +568,28 @@ function AdminOrdersContent() {
                   </div>
                 </div>
 
+                {/* Status History */}
+                {historyOrderId === order.id && (
+                  <div className="mt-4 pt-4 border-t-[2px] border-black">
+                    <h4 className="text-sm font-bold tracking-wide mb-2">history:</h4>
+                    {history.length === 0 ? (
+                      <div className="text-xs tracking-wide opacity-60">no status changes recorded</div>
+                    ) : (
+                      <div className="space-y-1 text-xs tracking-wide">
+                        {history.map((event) => (
+                          <div key={event.id}>
+                            <span className="opacity-60">{new Date(event.created_at).toLocaleString()}</span>
+                            {" "}{event.from_status ? `${event.from_status.replace("_", " ")} → ` : ""}
+                            <strong>{event.to_status.replace("_", " ")}</strong>
+                            {" "}by {event.actor}
+                            {event.note && <span className="opacity-60"> - {event.note}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Tracking Info */}
                 {(order.tracking_number ?? order.shipping_tracking_url) && (
                   <div className="mt-4 pt-4 border-t-[2px] border-black">
@@ -338,6 +689,94 @@ function AdminOrdersContent() {
           </div>
         </div>
       )}
+
+      {/* Refund Modal */}
+      {refundTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+          <div className="brutalist-border bg-white p-6 max-w-md w-full">
+            <h2 className="text-xl font-bold tracking-wide mb-4">refund {refundTarget.order_number}</h2>
+            <div className="h-[2px] w-full bg-black mb-4"></div>
+
+            <div className="text-xs tracking-wide mb-4">
+              refundable: <strong>${(refundTarget.total_amount - Number(refundTarget.refunded_amount ?? 0)).toFixed(2)}</strong>
+              {" "}of ${refundTarget.total_amount.toFixed(2)}
+            </div>
+
+            <div className="flex gap-2 mb-4">
+              <button
+                type="button"
+                onClick={() => setRefundMode("full")}
+                className={`${refundMode === "full" ? "btn-brutalist-black" : "btn-brutalist"} text-xs flex-1`}
+              >
+                full amount
+              </button>
+              <button
+                type="button"
+                onClick={() => setRefundMode("items")}
+                className={`${refundMode === "items" ? "btn-brutalist-black" : "btn-brutalist"} text-xs flex-1`}
+              >
+                selected items
+              </button>
+            </div>
+
+            {refundMode === "items" && (
+              <div className="space-y-2 mb-4">
+                {refundTarget.items.map((item, idx) => (
+                  <div key={idx} className="flex items-center justify-between gap-2 text-xs">
+                    <span>{item.name} (x{item.quantity})</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={item.quantity}
+                      value={refundQuantities[idx] ?? 0}
+                      onChange={(e) =>
+                        setRefundQuantities({
+                          ...refundQuantities,
+                          [idx]: Math.min(Math.max(Number(e.target.value) || 0, 0), item.quantity),
+                        })
+                      }
+                      className="input-brutalist w-20 text-xs px-2 py-1"
+                    />
+                  </div>
+                ))}
+                <p className="text-xs tracking-wide opacity-60">
+                  item refunds are priced after the order&apos;s coupon discount and exclude shipping
+                </p>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-xs tracking-wide mb-4">
+              <input
+                type="checkbox"
+                checked={refundRestock}
+                onChange={(e) => setRefundRestock(e.target.checked)}
+              />
+              put refunded items back in stock
+            </label>
+
+            <p className="text-xs tracking-wide opacity-60 mb-4">
+              the customer is emailed a link to claim the refund in bitcoin
+            </p>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => void submitRefund(refundTarget)}
+                className="btn-brutalist-black flex-1"
+                disabled={refunding}
+              >
+                {refunding ? "refunding..." : "confirm refund"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setRefundTarget(null)}
+                className="btn-brutalist flex-1"
+              >
+                cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </main>
   );
 }
@@ -11,7 +11,7 @@ import AdminLogin from "~/components/AdminLogin";
 import { useToast } from "~/context/ToastContext";
 
 function AdminPageContent() {
-  const { isAuthenticated, isLoading, login } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, adminFetch, can } = useAdminAuth();
   const { showToast } = useToast();
   const router = useRouter();
   const [products, setProducts] = useState<Product[]>([]);
@@ -41,12 +41,14 @@ function AdminPageContent() {
     if (!confirm("are you sure you want to delete this product?")) return;
 
     try {
-      const { error } = await supabase
-        .from("products")
-        .delete()
-        .eq("id", id);
+      const response = await adminFetch(`/api/admin/products/${id}`, { method: "DELETE" });
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to delete product");
+      }
 
-      if (error) throw error;
       await fetchProducts();
     } catch (error) {
       console.error("Error deleting product:", error);
@@ -68,7 +70,7 @@ function AdminPageContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   return (
@@ -83,21 +85,50 @@ function AdminPageContent() {
             <div className="h-[3px] w-20 bg-black mb-4"></div>
           </div>
           <div className="flex gap-3">
-            <Link href="/admin/coupons" className="btn-brutalist text-xs px-4 py-2">
-              manage coupons
+            {can("coupons:manage") && (
+              <Link href="/admin/coupons" className="btn-brutalist text-xs px-4 py-2">
+                manage coupons
+              </Link>
+            )}
+            {can("settings:edit") && (
+              <Link href="/admin/banner" className="btn-brutalist text-xs px-4 py-2">
+                manage banner
+              </Link>
+            )}
+            {can("orders:view") && (
+              <Link href="/admin/orders" className="btn-brutalist text-xs px-4 py-2">
+                view orders
+              </Link>
+            )}
+            {can("payments:manage") && (
+              <Link href="/admin/bisq" className="btn-brutalist text-xs px-4 py-2">
+                bisq trades
+              </Link>
+            )}
+            {can("staff:manage") && (
+              <Link href="/admin/staff" className="btn-brutalist text-xs px-4 py-2">
+                manage staff
+              </Link>
+            )}
+            {can("audit:view") && (
+              <Link href="/admin/audit" className="btn-brutalist text-xs px-4 py-2">
+                audit log
+              </Link>
+            )}
+            <Link href="/admin/security" className="btn-brutalist text-xs px-4 py-2">
+              security
             </Link>
-            <Link href="/admin/banner" className="btn-brutalist text-xs px-4 py-2">
-              manage banner
+            <Link href="/admin/sessions" className="btn-brutalist text-xs px-4 py-2">
+              sessions
             </Link>
-            <Link href="/admin/orders" className="btn-brutalist text-xs px-4 py-2">
-              view orders
-            </Link>
-            <button
-              onClick={() => router.push("/admin/new")}
-              className="btn-brutalist text-xs px-4 py-2"
-            >
-              + create new product
-            </button>
+            {can("catalog:edit") && (
+              <button
+                onClick={() => router.push("/admin/new")}
+                className="btn-brutalist text-xs px-4 py-2"
+              >
+                + create new product
+              </button>
+            )}
           </div>
         </div>
 
@@ -185,24 +216,30 @@ function AdminPageContent() {
                     >
                       preview
                     </Link>
-                    <button
-                      onClick={() => router.push(`/admin/${product.id}`)}
-                      className="btn-brutalist-black text-xs px-4 py-2"
-                    >
-                      edit
-                    </button>
-                    <Link
-                      href={`/admin/lab-tests/${product.id}`}
-                      className="btn-brutalist text-xs px-4 py-2 text-center"
-                    >
-                      lab tests
-                    </Link>
-                    <button
-                      onClick={() => handleDelete(product.id)}
-                      className="btn-brutalist text-xs px-4 py-2 hover:bg-red-50"
-                    >
-                      delete
-                    </button>
+                    {(can("catalog:edit") || can("stock:adjust")) && (
+                      <button
+                        onClick={() => router.push(`/admin/${product.id}`)}
+                        className="btn-brutalist-black text-xs px-4 py-2"
+                      >
+                        edit
+                      </button>
+                    )}
+                    {can("catalog:edit") && (
+                      <>
+                        <Link
+                          href={`/admin/lab-tests/${product.id}`}
+                          className="btn-brutalist text-xs px-4 py-2 text-center"
+                        >
+                          lab tests
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(product.id)}
+                          className="btn-brutalist text-xs px-4 py-2 hover:bg-red-50"
+                        >
+                          delete
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
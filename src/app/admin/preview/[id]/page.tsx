@@ -13,7 +13,7 @@ import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
 import AdminLogin from "~/components/AdminLogin";
 
 function AdminPreviewContent() {
-  const { isAuthenticated, isLoading, login } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor } = useAdminAuth();
   const params = useParams();
   const router = useRouter();
   const { addToCart } = useCart();
@@ -96,7 +96,7 @@ function AdminPreviewContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   if (!product) {
@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import Navigation from "~/components/Navigation";
+import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
+import AdminLogin from "~/components/AdminLogin";
+import { useToast } from "~/context/ToastContext";
+import type { TwoFactorSetup, TwoFactorStatus } from "~/lib/admin-two-factor";
+
+type TwoFactorAction = "setup" | "enable" | "disable" | "regenerate";
+
+interface TwoFactorResponse {
+  setup?: TwoFactorSetup;
+  backupCodes?: string[];
+  error?: string;
+}
+
+function SecurityPageContent() {
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, adminFetch } = useAdminAuth();
+  const { showToast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      void fetchStatus();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated]);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await adminFetch("/api/admin/two-factor");
+      if (!response) return;
+
+      const data = await response.json() as { status?: TwoFactorStatus; error?: string };
+
+      if (!response.ok || !data.status) {
+        throw new Error(data.error ?? "Failed to fetch two-factor status");
+      }
+
+      setStatus(data.status);
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      showToast("Failed to load security settings. Please try again.", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: TwoFactorAction): Promise<TwoFactorResponse | null> => {
+    setSubmitting(true);
+
+    try {
+      const response = await adminFetch("/api/admin/two-factor", {
+        body: action === "setup" ? { action } : { action, code: code.trim() },
+      });
+      if (!response) return null;
+
+      const data = await response.json() as TwoFactorResponse;
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to update two-factor authentication");
+      }
+
+      setCode("");
+      return data;
+    } catch (error) {
+      console.error("Error updating two-factor authentication:", error);
+      showToast(error instanceof Error ? error.message : "Failed to update two-factor authentication.", "error");
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    const data = await runAction("setup");
+    if (data?.setup) {
+      setSetup(data.setup);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await runAction("enable");
+    if (data?.backupCodes) {
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      showToast("Two-factor authentication is on", "success");
+      await fetchStatus();
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const data = await runAction("regenerate");
+    if (data?.backupCodes) {
+      setBackupCodes(data.backupCodes);
+      await fetchStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm("Turn off two-factor authentication? Your password alone will sign you in.")) return;
+
+    const data = await runAction("disable");
+    if (data) {
+      setBackupCodes(null);
+      showToast("Two-factor authentication is off", "success");
+      await fetchStatus();
+    }
+  };
+
+  const copyBackupCodes = async () => {
+    if (!backupCodes) return;
+
+    try {
+      await navigator.clipboard.writeText(backupCodes.join("\n"));
+      showToast("Backup codes copied", "success");
+    } catch {
+      showToast("Couldn't copy the codes; select and copy them instead.", "error");
+    }
+  };
+
+  if (isLoading || (isAuthenticated && loading)) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16">
+            <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
+  }
+
+  const codeInput = (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="input-brutalist w-48"
+      placeholder="123456"
+      autoComplete="one-time-code"
+      aria-label="authentication code"
+      disabled={submitting}
+    />
+  );
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide mb-2">admin panel - security</h1>
+            <div className="h-[3px] w-20 bg-black mb-4"></div>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/admin" className="btn-brutalist text-xs px-4 py-2">
+              back to products
+            </Link>
+          </div>
+        </div>
+
+        {/* Backup Codes */}
+        {backupCodes && (
+          <div className="brutalist-border bg-yellow-50 p-6 mb-8">
+            <p className="text-sm font-bold tracking-wide mb-2">your backup codes</p>
+            <p className="text-xs tracking-wide mb-4 opacity-60">
+              each code signs you in once if you lose your authenticator. store them somewhere safe; they won&apos;t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm mb-4 max-w-sm">
+              {backupCodes.map((backupCode) => (
+                <span key={backupCode}>{backupCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button onClick={copyBackupCodes} className="btn-brutalist text-xs px-4 py-2">
+                copy
+              </button>
+              <button onClick={() => setBackupCodes(null)} className="btn-brutalist text-xs px-4 py-2">
+                done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Two-Factor Authentication */}
+        <div className="brutalist-border bg-white p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <h2 className="text-xl font-bold tracking-wide">two-factor authentication</h2>
+            {status?.enabled ? (
+              <span className="text-xs font-bold tracking-wide bg-green-600 text-white px-2 py-1">ON</span>
+            ) : (
+              <span className="text-xs font-bold tracking-wide bg-gray-300 px-2 py-1">OFF</span>
+            )}
+          </div>
+
+          {status?.enabled ? (
+            <div className="space-y-4">
+              <p className="text-sm tracking-wide">
+                on since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "—"}
+                {" · "}
+                {status.backupCodesRemaining} backup code{status.backupCodesRemaining === 1 ? "" : "s"} left
+              </p>
+              <p className="text-xs tracking-wide opacity-60">
+                enter a current code to get new backup codes or turn two-factor authentication off.
+              </p>
+              <div className="flex gap-3 items-center">
+                {codeInput}
+                <button
+                  onClick={handleRegenerate}
+                  className="btn-brutalist text-xs px-4 py-2"
+                  disabled={submitting || !code.trim()}
+                >
+                  new backup codes
+                </button>
+                <button
+                  onClick={handleDisable}
+                  className="btn-brutalist text-xs px-4 py-2 hover:bg-red-50"
+                  disabled={submitting || !code.trim()}
+                >
+                  turn off
+                </button>
+              </div>
+            </div>
+          ) : setup ? (
+            <form onSubmit={handleEnable} className="space-y-4">
+              <p className="text-sm tracking-wide">
+                scan this with your authenticator app, then enter the code it shows.
+              </p>
+              <Image
+                src={setup.qrCode}
+                alt="two-factor authentication QR code"
+                width={240}
+                height={240}
+                className="brutalist-border"
+                unoptimized
+              />
+              <p className="text-xs tracking-wide opacity-60">
+                can&apos;t scan it? enter this key instead:{" "}
+                <span className="font-mono select-all">{setup.secret}</span>
+              </p>
+              <div className="flex gap-3 items-center">
+                {codeInput}
+                <button
+                  type="submit"
+                  className="btn-brutalist-black"
+                  disabled={submitting || !code.trim()}
+                >
+                  {submitting ? "verifying..." : "turn on"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSetup(null)}
+                  className="btn-brutalist text-xs px-4 py-2"
+                  disabled={submitting}
+                >
+                  cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm tracking-wide">
+                ask for a code from an authenticator app after your password when you sign in.
+              </p>
+              <button
+                onClick={handleStartSetup}
+                className="btn-brutalist-black"
+                disabled={submitting}
+              >
+                {submitting ? "starting..." : "set up"}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function SecurityPage() {
+  return (
+    <AdminAuthProvider>
+      <SecurityPageContent />
+    </AdminAuthProvider>
+  );
+}
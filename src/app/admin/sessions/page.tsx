@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Navigation from "~/components/Navigation";
+import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
+import AdminLogin from "~/components/AdminLogin";
+import { useToast } from "~/context/ToastContext";
+import type { AdminSession } from "~/lib/admin-sessions";
+
+function SessionsPageContent() {
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout, adminFetch, can } = useAdminAuth();
+  const { showToast } = useToast();
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const canManageStaff = can("staff:manage");
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      void fetchSessions();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated]);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await adminFetch("/api/admin/sessions");
+      if (!response) return;
+
+      const data = await response.json() as {
+        sessions?: AdminSession[];
+        currentSessionId?: string;
+        error?: string;
+      };
+
+      if (!response.ok || !data.sessions) {
+        throw new Error(data.error ?? "Failed to fetch sessions");
+      }
+
+      setSessions(data.sessions);
+      setCurrentSessionId(data.currentSessionId ?? null);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      showToast("Failed to load sessions. Please try again.", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeSession = async (session: AdminSession) => {
+    const isCurrent = session.id === currentSessionId;
+    if (isCurrent && !confirm("This is the session you're using. Sign out here?")) return;
+
+    setRevokingId(session.id);
+
+    try {
+      const response = await adminFetch(`/api/admin/sessions/${session.id}`, { method: "DELETE" });
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to revoke session");
+      }
+
+      if (isCurrent) {
+        logout();
+        return;
+      }
+
+      showToast("Session revoked", "success");
+      await fetchSessions();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      showToast(error instanceof Error ? error.message : "Failed to revoke session.", "error");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const signOutEverywhere = async (scope: "mine" | "everyone") => {
+    const message = scope === "everyone"
+      ? "Sign out every staff member on every device, including you?"
+      : "Sign out of all your sessions, including this one?";
+    if (!confirm(message)) return;
+
+    try {
+      const response = await adminFetch("/api/admin/sessions", {
+        method: "DELETE",
+        body: { scope },
+      });
+      if (!response) return;
+
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error ?? "Failed to sign out");
+      }
+
+      logout();
+    } catch (error) {
+      console.error("Error signing out everywhere:", error);
+      showToast(error instanceof Error ? error.message : "Failed to sign out.", "error");
+    }
+  };
+
+  if (isLoading || (isAuthenticated && loading)) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16">
+            <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide mb-2">admin panel - sessions</h1>
+            <div className="h-[3px] w-20 bg-black mb-4"></div>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/admin" className="btn-brutalist text-xs px-4 py-2">
+              back to products
+            </Link>
+            <button
+              onClick={() => void signOutEverywhere("mine")}
+              className="btn-brutalist text-xs px-4 py-2 hover:bg-red-50"
+            >
+              sign out of all my sessions
+            </button>
+            {canManageStaff && (
+              <button
+                onClick={() => void signOutEverywhere("everyone")}
+                className="btn-brutalist text-xs px-4 py-2 hover:bg-red-50"
+              >
+                sign out all staff everywhere
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Session List */}
+        <div className="space-y-4">
+          {sessions.length === 0 ? (
+            <div className="text-center py-16 brutalist-border bg-white">
+              <p className="text-sm tracking-wide">no active sessions.</p>
+            </div>
+          ) : (
+            sessions.map((session) => (
+              <div key={session.id} className="brutalist-border bg-white p-4">
+                <div className="flex gap-4 items-center">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-1">
+                      <h3 className="text-lg font-bold tracking-wide">
+                        {canManageStaff ? session.username : session.ip_address ?? "unknown address"}
+                      </h3>
+                      {session.id === currentSessionId && (
+                        <span className="text-xs font-bold tracking-wide bg-black text-white px-2 py-1">
+                          THIS DEVICE
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs tracking-wide opacity-60">
+                      {canManageStaff && <>{session.ip_address ?? "unknown address"} · </>}
+                      signed in {new Date(session.created_at).toLocaleString()}
+                      {" · "}
+                      last active {new Date(session.last_seen_at).toLocaleString()}
+                      {" · "}
+                      expires {new Date(session.expires_at).toLocaleString()}
+                    </p>
+                    <p className="text-xs tracking-wide opacity-60 mt-1 break-all">
+                      {session.user_agent ?? "unknown browser"}
+                    </p>
+                  </div>
+
+                  <button
+                    onClick={() => void revokeSession(session)}
+                    className="btn-brutalist text-xs px-4 py-2 hover:bg-red-50"
+                    disabled={revokingId === session.id}
+                  >
+                    {revokingId === session.id ? "revoking..." : "revoke"}
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function SessionsPage() {
+  return (
+    <AdminAuthProvider>
+      <SessionsPageContent />
+    </AdminAuthProvider>
+  );
+}
@@ -18,7 +18,7 @@ interface ShippingConfig {
 }
 
 function AdminShippingContent() {
-  const { isAuthenticated, isLoading, login, logout } = useAdminAuth();
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, logout, adminFetch } = useAdminAuth();
   const { showToast } = useToast();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -60,13 +60,8 @@ function AdminShippingContent() {
   const handleSave = async () => {
     setSaving(true);
     try {
-      const response = await fetch("/api/shipping/config", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(config),
-      });
+      const response = await adminFetch("/api/shipping/config", { body: config });
+      if (!response) return;
 
       if (!response.ok) {
         throw new Error("Failed to save configuration");
@@ -129,7 +124,7 @@ function AdminShippingContent() {
   }
 
   if (!isAuthenticated) {
-    return <AdminLogin onLogin={login} />;
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
   }
 
   return (
@@ -0,0 +1,363 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Navigation from "~/components/Navigation";
+import { AdminAuthProvider, useAdminAuth } from "~/context/AdminAuthContext";
+import AdminLogin from "~/components/AdminLogin";
+import { useToast } from "~/context/ToastContext";
+import type { AdminUser } from "~/lib/admin-users";
+import { ADMIN_ROLES, ROLE_PERMISSIONS, type AdminRole } from "~/lib/security/permissions";
+
+interface StaffUpdate {
+  role?: AdminRole;
+  disabled?: boolean;
+  resendInvite?: boolean;
+}
+
+function StaffPageContent() {
+  const { isAuthenticated, isLoading, login, verifyTwoFactor, adminFetch, can } = useAdminAuth();
+  const { showToast } = useToast();
+  const [staff, setStaff] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [inviteLink, setInviteLink] = useState<{ username: string; url: string } | null>(null);
+  const [formData, setFormData] = useState({
+    username: "",
+    email: "",
+    role: "fulfillment" as AdminRole,
+  });
+
+  const canManage = can("staff:manage");
+
+  useEffect(() => {
+    if (isAuthenticated && canManage) {
+      void fetchStaff();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, canManage]);
+
+  const fetchStaff = async () => {
+    try {
+      const response = await adminFetch("/api/admin/staff");
+      if (!response) return;
+
+      const data = await response.json() as { staff?: AdminUser[]; error?: string };
+
+      if (!response.ok || !data.staff) {
+        throw new Error(data.error ?? "Failed to fetch staff");
+      }
+
+      setStaff(data.staff);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      showToast("Failed to load staff. Please try again.", "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showInviteLink = (username: string, token: string) => {
+    setInviteLink({
+      username,
+      url: `${window.location.origin}/admin/accept-invite?token=${token}`,
+    });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+
+    try {
+      const response = await adminFetch("/api/admin/staff", {
+        body: {
+          username: formData.username.trim(),
+          email: formData.email.trim() || undefined,
+          role: formData.role,
+        },
+      });
+      if (!response) return;
+
+      const data = await response.json() as { inviteToken?: string; error?: string };
+
+      if (!response.ok || !data.inviteToken) {
+        throw new Error(data.error ?? "Failed to invite staff member");
+      }
+
+      showInviteLink(formData.username.trim(), data.inviteToken);
+      setFormData({ username: "", email: "", role: "fulfillment" });
+      await fetchStaff();
+    } catch (error) {
+      console.error("Error inviting staff member:", error);
+      showToast(error instanceof Error ? error.message : "Failed to invite staff member.", "error");
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const updateStaff = async (member: AdminUser, changes: StaffUpdate) => {
+    setUpdatingId(member.id);
+
+    try {
+      const response = await adminFetch(`/api/admin/staff/${member.id}`, {
+        method: "PATCH",
+        body: changes,
+      });
+      if (!response) return;
+
+      const data = await response.json() as { inviteToken?: string; error?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to update staff member");
+      }
+
+      if (data.inviteToken) {
+        showInviteLink(member.username, data.inviteToken);
+      }
+
+      await fetchStaff();
+    } catch (error) {
+      console.error("Error updating staff member:", error);
+      showToast(error instanceof Error ? error.message : "Failed to update staff member.", "error");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink.url);
+      showToast("Invite link copied", "success");
+    } catch {
+      showToast("Couldn't copy the link; select and copy it instead.", "error");
+    }
+  };
+
+  if (isLoading || (isAuthenticated && canManage && loading)) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16">
+            <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <AdminLogin onLogin={login} onVerifyTwoFactor={verifyTwoFactor} />;
+  }
+
+  if (!canManage) {
+    return (
+      <main className="min-h-screen bg-white">
+        <Navigation />
+        <div className="max-w-6xl mx-auto px-6 py-12">
+          <div className="text-center py-16 brutalist-border bg-white">
+            <p className="text-sm tracking-wide mb-6">only the owner can manage staff.</p>
+            <Link href="/admin" className="btn-brutalist text-xs px-4 py-2">
+              back to products
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide mb-2">admin panel - staff</h1>
+            <div className="h-[3px] w-20 bg-black mb-4"></div>
+          </div>
+          <div className="flex gap-3">
+            <Link href="/admin" className="btn-brutalist text-xs px-4 py-2">
+              back to products
+            </Link>
+          </div>
+        </div>
+
+        {/* Invite Form */}
+        <div className="brutalist-border bg-white p-6 mb-8">
+          <h2 className="text-xl font-bold tracking-wide mb-4">invite staff member</h2>
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="username" className="block text-sm font-bold tracking-wide mb-2">
+                  username *
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  value={formData.username}
+                  onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                  className="input-brutalist w-full"
+                  required
+                  placeholder="alex"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-bold tracking-wide mb-2">
+                  email
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="input-brutalist w-full"
+                  placeholder="alex@example.com"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="role" className="block text-sm font-bold tracking-wide mb-2">
+                  role *
+                </label>
+                <select
+                  id="role"
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value as AdminRole })}
+                  className="input-brutalist w-full"
+                >
+                  {ADMIN_ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <p className="text-xs tracking-wide opacity-60">
+              {formData.role} can: {ROLE_PERMISSIONS[formData.role].join(", ")}
+            </p>
+
+            <button type="submit" className="btn-brutalist-black" disabled={inviting}>
+              {inviting ? "inviting..." : "create invite link"}
+            </button>
+          </form>
+        </div>
+
+        {/* Invite Link */}
+        {inviteLink && (
+          <div className="brutalist-border bg-yellow-50 p-6 mb-8">
+            <p className="text-sm font-bold tracking-wide mb-2">
+              invite link for {inviteLink.username}
+            </p>
+            <p className="text-xs tracking-wide mb-3 opacity-60">
+              send this to them privately. it works once and expires in 7 days; it won&apos;t be shown again.
+            </p>
+            <div className="flex gap-3 items-center">
+              <input
+                type="text"
+                readOnly
+                value={inviteLink.url}
+                onFocus={(e) => e.target.select()}
+                className="input-brutalist w-full text-xs"
+              />
+              <button onClick={copyInviteLink} className="btn-brutalist text-xs px-4 py-2">
+                copy
+              </button>
+              <button onClick={() => setInviteLink(null)} className="btn-brutalist text-xs px-4 py-2">
+                done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Staff List */}
+        <div className="space-y-4">
+          {staff.map((member) => (
+            <div
+              key={member.id}
+              className={`brutalist-border bg-white p-4 ${member.disabled_at ? "opacity-60" : ""}`}
+            >
+              <div className="flex gap-4 items-center">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="text-lg font-bold tracking-wide">{member.username}</h3>
+                    {member.disabled_at ? (
+                      <span className="text-xs font-bold tracking-wide bg-red-600 text-white px-2 py-1">
+                        DISABLED
+                      </span>
+                    ) : !member.active ? (
+                      <span className="text-xs font-bold tracking-wide bg-yellow-400 px-2 py-1">
+                        INVITED
+                      </span>
+                    ) : null}
+                    {member.totp_enabled_at && (
+                      <span className="text-xs font-bold tracking-wide bg-black text-white px-2 py-1">
+                        2FA
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs tracking-wide opacity-60">
+                    {member.email ?? "no email"}
+                    {" · "}
+                    {member.last_login_at
+                      ? `last login ${new Date(member.last_login_at).toLocaleString()}`
+                      : "never logged in"}
+                    {!member.active && member.invite_expires_at && (
+                      <> · invite expires {new Date(member.invite_expires_at).toLocaleDateString()}</>
+                    )}
+                  </p>
+                </div>
+
+                <select
+                  value={member.role}
+                  onChange={(e) => void updateStaff(member, { role: e.target.value as AdminRole })}
+                  className="input-brutalist text-xs"
+                  disabled={updatingId === member.id}
+                  aria-label={`role for ${member.username}`}
+                >
+                  {ADMIN_ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+
+                {!member.active && !member.disabled_at && (
+                  <button
+                    onClick={() => void updateStaff(member, { resendInvite: true })}
+                    className="btn-brutalist text-xs px-4 py-2"
+                    disabled={updatingId === member.id}
+                  >
+                    new invite link
+                  </button>
+                )}
+
+                <button
+                  onClick={() => {
+                    if (!member.disabled_at && !confirm(`Disable ${member.username}? They'll be signed out straight away.`)) return;
+                    void updateStaff(member, { disabled: !member.disabled_at });
+                  }}
+                  className={`btn-brutalist text-xs px-4 py-2 ${member.disabled_at ? "" : "hover:bg-red-50"}`}
+                  disabled={updatingId === member.id}
+                >
+                  {member.disabled_at ? "enable" : "disable"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+export default function StaffPage() {
+  return (
+    <AdminAuthProvider>
+      <StaffPageContent />
+    </AdminAuthProvider>
+  );
+}
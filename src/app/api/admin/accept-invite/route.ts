@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { acceptAdminInvite } from "~/lib/admin-users";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import {
+  validateAndSanitize,
+  acceptInviteSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logRateLimitExceeded,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Invited staff member sets their password
+ * Guessing invite tokens is treated like guessing passwords, so this shares
+ * the login rate limit.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const rateLimit = await rateLimiter.check(
+      `invite:${clientId}`,
+      RateLimitPresets.LOGIN,
+      "/api/admin/accept-invite"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/accept-invite", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many attempts. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/accept-invite", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(acceptInviteSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/accept-invite", clientId, validation.error);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await acceptAdminInvite(validation.data.token, validation.data.password);
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    logApiRequest(
+      "POST",
+      "/api/admin/accept-invite",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { username: result.user.username }
+    );
+
+    return NextResponse.json({ success: true, username: result.user.username });
+  } catch (error) {
+    console.error("Error accepting invite:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Invite accept error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to accept invite", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
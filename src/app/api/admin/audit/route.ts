@@ -0,0 +1,114 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  AUDIT_ENTITY_TYPES,
+  auditEventsToCsv,
+  listAuditEvents,
+  type AuditEntityType,
+} from "~/lib/audit-log";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import {
+  logApiRequest,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+const PAGE_SIZE = 100;
+const MAX_EXPORT_ROWS = 10000;
+
+/**
+ * Audit log entries, newest first
+ * Query params: entityType, entityId, actor, from, to (ISO dates), page,
+ * format=csv
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/audit", ["audit:view"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const entityType = params.get("entityType");
+    const entityId = params.get("entityId");
+    const actor = params.get("actor")?.trim();
+    const from = params.get("from");
+    const to = params.get("to");
+    const page = Math.max(parseInt(params.get("page") ?? "1", 10) || 1, 1);
+    const asCsv = params.get("format") === "csv";
+
+    if (entityType && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+      return NextResponse.json(
+        { error: "Invalid entity type" },
+        { status: 400 }
+      );
+    }
+
+    if ((entityId && entityId.length > 100) || (actor && actor.length > 50)) {
+      return NextResponse.json(
+        { error: "Invalid filter" },
+        { status: 400 }
+      );
+    }
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: "Invalid date range" },
+        { status: 400 }
+      );
+    }
+
+    const filters = {
+      entityType: (entityType as AuditEntityType | null) ?? undefined,
+      entityId: entityId ?? undefined,
+      actor: actor ?? undefined,
+      from: from ?? undefined,
+      to: to ?? undefined,
+    };
+
+    const { entries, total } = asCsv
+      ? await listAuditEvents(filters, MAX_EXPORT_ROWS)
+      : await listAuditEvents(filters, PAGE_SIZE, (page - 1) * PAGE_SIZE);
+
+    logApiRequest(
+      "GET",
+      "/api/admin/audit",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { ...filters, count: entries.length, format: asCsv ? "csv" : "json", admin: admin.username }
+    );
+
+    if (!asCsv) {
+      return NextResponse.json({ entries, total, page, pageSize: PAGE_SIZE });
+    }
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(auditEventsToCsv(entries), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Audit log error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch audit log", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getBisqClient } from "~/lib/bisq";
+import { cancelBisqOffer, getBisqTrade, toTradeView } from "~/lib/bisq-trades";
+import { logTransaction } from "~/lib/orders";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  bisqTradeActionSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Withdraw an untaken Bisq offer and cancel its order
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["payments:manage"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized Bisq offer cancellation attempt",
+        { clientId, endpoint: "/api/admin/bisq/cancel-offer" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const rateLimit = await rateLimiter.check(
+      `admin:${adminPayload.username}`,
+      RateLimitPresets.ADMIN,
+      "/api/admin/bisq/cancel-offer"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/bisq/cancel-offer", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const client = getBisqClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { error: "Bisq is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/bisq/cancel-offer", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(bisqTradeActionSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/bisq/cancel-offer", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId } = validation.data;
+    const trade = await getBisqTrade(orderId);
+
+    if (!trade) {
+      return NextResponse.json(
+        { error: "Trade not found" },
+        { status: 404 }
+      );
+    }
+
+    const outcome = await cancelBisqOffer(trade, { client });
+
+    if (!outcome.cancelled) {
+      return NextResponse.json(
+        { error: "Offer has already been taken", trade: toTradeView(outcome.trade) },
+        { status: 409 }
+      );
+    }
+
+    await logTransaction(orderId, "bisq_offer_cancelled_by_admin", {
+      admin: adminPayload.username,
+    }, trade.id);
+
+    await recordAuditEvent(request, adminPayload, {
+      action: "bisq_trade.cancel_offer",
+      entityType: "bisq_trade",
+      entityId: trade.id,
+      before: { status: trade.status },
+      metadata: { orderId, offerId: trade.offer_id },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/bisq/cancel-offer",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, offerId: trade.offer_id, admin: adminPayload.username }
+    );
+
+    return NextResponse.json({ success: true, trade: toTradeView(outcome.trade) });
+  } catch (error) {
+    console.error("Error cancelling Bisq offer:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Bisq offer cancellation error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to cancel offer", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getBisqClient } from "~/lib/bisq";
+import { refreshOpenBisqTrades } from "~/lib/bisq-trades";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import {
+  logApiRequest,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Refresh every open Bisq trade from the daemon
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["payments:manage"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized Bisq sync attempt",
+        { clientId, endpoint: "/api/admin/bisq/sync" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const rateLimit = await rateLimiter.check(
+      `admin:${adminPayload.username}`,
+      RateLimitPresets.ADMIN,
+      "/api/admin/bisq/sync"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/bisq/sync", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const client = getBisqClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { error: "Bisq is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const results = await refreshOpenBisqTrades({ client });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/bisq/sync",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { checked: results.length, admin: adminPayload.username }
+    );
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error syncing Bisq trades:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Bisq sync error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to sync Bisq trades", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { OPEN_BISQ_TRADE_STATUSES } from "~/lib/bisq-trades";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import {
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Bisq trades with their orders, newest first
+ * ?filter=open limits the list to trades that are still in progress.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/bisq/trades", ["payments:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    let query = supabaseAdmin
+      .from("bisq_trades")
+      .select("*, orders(order_number, status, shipping_name)")
+      .order("created_at", { ascending: false });
+
+    if (request.nextUrl.searchParams.get("filter") === "open") {
+      query = query.in("status", OPEN_BISQ_TRADE_STATUSES);
+    }
+
+    const result = await query;
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    return NextResponse.json({ trades: (result.data ?? []) as unknown[] });
+  } catch (error) {
+    console.error("Error fetching Bisq trades:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Bisq trade list error",
+      {
+        clientId: auth.clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch trades", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
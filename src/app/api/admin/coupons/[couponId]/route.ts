@@ -0,0 +1,217 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  isValidUUID,
+  couponSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+type RouteContext = { params: Promise<{ couponId: string }> };
+
+/**
+ * Update a coupon
+ * The usage count is left alone; it only moves when a coupon is redeemed.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { couponId } = await params;
+
+    if (!isValidUUID(couponId)) {
+      return NextResponse.json(
+        { error: "Invalid coupon ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/coupons", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(couponSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/coupons", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await supabaseAdmin
+      .from("coupons")
+      .select("*")
+      .eq("id", couponId)
+      .maybeSingle();
+
+    if (existing.error) {
+      throw new Error(existing.error.message);
+    }
+
+    if (!existing.data) {
+      return NextResponse.json(
+        { error: "Coupon not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await supabaseAdmin
+      .from("coupons")
+      .update(validation.data)
+      .eq("id", couponId)
+      .select("*")
+      .maybeSingle();
+
+    const { error } = updated;
+    const data = updated.data as Record<string, unknown> | null;
+
+    if (error?.code === "23505") {
+      return NextResponse.json(
+        { error: "A coupon with this code already exists" },
+        { status: 409 }
+      );
+    }
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Coupon not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: "coupon.update",
+      entityType: "coupon",
+      entityId: couponId,
+      before: existing.data as Record<string, unknown>,
+      after: data,
+    });
+
+    logApiRequest(
+      "PATCH",
+      "/api/admin/coupons",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { couponId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating coupon:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon update error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to update coupon", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a coupon
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { couponId } = await params;
+
+    if (!isValidUUID(couponId)) {
+      return NextResponse.json(
+        { error: "Invalid coupon ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await supabaseAdmin
+      .from("coupons")
+      .delete()
+      .eq("id", couponId)
+      .select("*")
+      .maybeSingle();
+
+    const { error } = deleted;
+    const data = deleted.data as Record<string, unknown> | null;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (data) {
+      await recordAuditEvent(request, admin, {
+        action: "coupon.delete",
+        entityType: "coupon",
+        entityId: couponId,
+        before: data,
+      });
+    }
+
+    logApiRequest(
+      "DELETE",
+      "/api/admin/coupons",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { couponId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting coupon:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon delete error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to delete coupon", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { isValidUUID } from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Switch a coupon on or off
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ couponId: string }> }
+) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons/toggle-active", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { couponId } = await params;
+
+    if (!isValidUUID(couponId)) {
+      return NextResponse.json(
+        { error: "Invalid coupon ID" },
+        { status: 400 }
+      );
+    }
+
+    const current = await supabaseAdmin
+      .from("coupons")
+      .select("active")
+      .eq("id", couponId)
+      .maybeSingle();
+
+    if (current.error) {
+      throw new Error(current.error.message);
+    }
+
+    if (!current.data) {
+      return NextResponse.json(
+        { error: "Coupon not found" },
+        { status: 404 }
+      );
+    }
+
+    const active = !(current.data as { active: boolean }).active;
+
+    const { error } = await supabaseAdmin
+      .from("coupons")
+      .update({ active })
+      .eq("id", couponId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: active ? "coupon.activate" : "coupon.deactivate",
+      entityType: "coupon",
+      entityId: couponId,
+      before: { active: !active },
+      after: { active },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/coupons/toggle-active",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { couponId, active, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, active });
+  } catch (error) {
+    console.error("Error toggling coupon:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon toggle error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to update coupon status", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
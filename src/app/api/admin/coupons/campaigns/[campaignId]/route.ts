@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { campaignCodesToCsv, getCouponCampaign } from "~/lib/coupon-campaigns";
+import { isValidUUID } from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+type RouteContext = { params: Promise<{ campaignId: string }> };
+
+/**
+ * A campaign's codes
+ * Query params: format=csv
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons/campaigns", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { campaignId } = await params;
+
+    if (!isValidUUID(campaignId)) {
+      return NextResponse.json(
+        { error: "Invalid campaign ID" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getCouponCampaign(campaignId);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 }
+      );
+    }
+
+    const asCsv = request.nextUrl.searchParams.get("format") === "csv";
+
+    logApiRequest(
+      "GET",
+      "/api/admin/coupons/campaigns",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { campaignId, count: result.codes.length, format: asCsv ? "csv" : "json", admin: admin.username }
+    );
+
+    if (!asCsv) {
+      return NextResponse.json(result);
+    }
+
+    const slug = result.campaign.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    const filename = `coupons-${slug || "campaign"}-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(campaignCodesToCsv(result.campaign, result.codes), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching coupon campaign:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon campaign fetch error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch campaign", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
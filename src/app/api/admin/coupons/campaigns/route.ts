@@ -0,0 +1,128 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { createCouponCampaign, listCouponCampaigns } from "~/lib/coupon-campaigns";
+import {
+  validateAndSanitize,
+  couponCampaignSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * All coupon campaigns, newest first, with redemption counts and revenue
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons/campaigns", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const campaigns = await listCouponCampaigns();
+
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error("Error fetching coupon campaigns:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon campaign list error",
+      {
+        clientId: auth.clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch campaigns", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a campaign and generate its single-use codes
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons/campaigns", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/coupons/campaigns", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(couponCampaignSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/coupons/campaigns", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await createCouponCampaign(validation.data, admin.username);
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { campaign, codes } = result;
+
+    await recordAuditEvent(request, admin, {
+      action: "coupon_campaign.create",
+      entityType: "coupon_campaign",
+      entityId: campaign.id,
+      after: { ...campaign },
+      metadata: { codeCount: codes.length },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/coupons/campaigns",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { campaignId: campaign.id, codeCount: codes.length, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, id: campaign.id, count: codes.length });
+  } catch (error) {
+    console.error("Error creating coupon campaign:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon campaign create error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to create campaign", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import type { Coupon } from "~/lib/supabase";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  couponSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * All coupons, newest first
+ * Coupon codes aren't readable with the anon key, so the admin list comes
+ * from here. Campaign codes are listed with their campaign instead.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const result = await supabaseAdmin
+      .from("coupons")
+      .select("*")
+      .is("campaign_id", null)
+      .order("created_at", { ascending: false });
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    return NextResponse.json({ coupons: (result.data ?? []) as Coupon[] });
+  } catch (error) {
+    console.error("Error fetching coupons:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon list error",
+      {
+        clientId: auth.clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch coupons", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a coupon
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/coupons", ["coupons:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/coupons", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(couponSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/coupons", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await supabaseAdmin
+      .from("coupons")
+      .insert([{ ...validation.data, current_uses: 0 }])
+      .select("*")
+      .single();
+
+    if (result.error?.code === "23505") {
+      return NextResponse.json(
+        { error: "A coupon with this code already exists" },
+        { status: 409 }
+      );
+    }
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const coupon = result.data as Record<string, unknown> & { id: string };
+    const { id } = coupon;
+
+    await recordAuditEvent(request, admin, {
+      action: "coupon.create",
+      entityType: "coupon",
+      entityId: id,
+      after: coupon,
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/coupons",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { couponId: id, code: validation.data.code, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Error creating coupon:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Coupon create error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to create coupon", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,209 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  isValidUUID,
+  labTestSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+type RouteContext = { params: Promise<{ testId: string }> };
+
+/**
+ * Update a lab test
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/lab-tests", ["catalog:edit"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { testId } = await params;
+
+    if (!isValidUUID(testId)) {
+      return NextResponse.json(
+        { error: "Invalid lab test ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/lab-tests", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(labTestSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/lab-tests", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await supabaseAdmin
+      .from("lab_tests")
+      .select("*")
+      .eq("id", testId)
+      .maybeSingle();
+
+    if (existing.error) {
+      throw new Error(existing.error.message);
+    }
+
+    if (!existing.data) {
+      return NextResponse.json(
+        { error: "Lab test not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await supabaseAdmin
+      .from("lab_tests")
+      .update(validation.data)
+      .eq("id", testId)
+      .select("*")
+      .maybeSingle();
+
+    const { error } = updated;
+    const data = updated.data as Record<string, unknown> | null;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Lab test not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: "lab_test.update",
+      entityType: "lab_test",
+      entityId: testId,
+      before: existing.data as Record<string, unknown>,
+      after: data,
+    });
+
+    logApiRequest(
+      "PATCH",
+      "/api/admin/lab-tests",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { labTestId: testId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating lab test:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Lab test update error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to update lab test", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a lab test
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/lab-tests", ["catalog:edit"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { testId } = await params;
+
+    if (!isValidUUID(testId)) {
+      return NextResponse.json(
+        { error: "Invalid lab test ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await supabaseAdmin
+      .from("lab_tests")
+      .delete()
+      .eq("id", testId)
+      .select("*")
+      .maybeSingle();
+
+    const { error } = deleted;
+    const data = deleted.data as Record<string, unknown> | null;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (data) {
+      await recordAuditEvent(request, admin, {
+        action: "lab_test.delete",
+        entityType: "lab_test",
+        entityId: testId,
+        before: data,
+      });
+    }
+
+    logApiRequest(
+      "DELETE",
+      "/api/admin/lab-tests",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { labTestId: testId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting lab test:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Lab test delete error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to delete lab test", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  labTestSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Add a lab test to a product
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/lab-tests", ["catalog:edit"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/lab-tests", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(labTestSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/lab-tests", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await supabaseAdmin
+      .from("lab_tests")
+      .insert([validation.data])
+      .select("*")
+      .single();
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const labTest = result.data as Record<string, unknown> & { id: string };
+    const { id } = labTest;
+
+    await recordAuditEvent(request, admin, {
+      action: "lab_test.create",
+      entityType: "lab_test",
+      entityId: id,
+      after: labTest,
+      metadata: { productId: validation.data.product_id },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/lab-tests",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { labTestId: id, productId: validation.data.product_id, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Error creating lab test:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Lab test create error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to create lab test", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
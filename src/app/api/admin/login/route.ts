@@ -1,12 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { env } from "~/env";
 import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
 import {
   validateAndSanitize,
   adminLoginSchema,
   containsSuspiciousPatterns,
 } from "~/lib/security/input-validation";
-import { generateAdminToken } from "~/lib/security/jwt";
+import { generateAdminToken, generateTwoFactorChallenge } from "~/lib/security/jwt";
+import { createAdminSession } from "~/lib/admin-sessions";
+import { authenticateAdmin } from "~/lib/admin-users";
 import {
   logAuthSuccess,
   logAuthFailure,
@@ -14,16 +15,17 @@ import {
   logSuspiciousActivity,
   SecurityEventType,
 } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   const clientId = rateLimiter.getClientId(request);
 
   try {
     // Rate limiting - strict for login attempts
-    const rateLimit = rateLimiter.check(clientId, RateLimitPresets.LOGIN);
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.LOGIN, "/api/admin/login");
 
     if (!rateLimit.isAllowed) {
-      logRateLimitExceeded("/api/admin/login", clientId, RateLimitPresets.LOGIN.maxRequests);
+      logRateLimitExceeded("/api/admin/login", clientId, rateLimit.limit);
       return NextResponse.json(
         {
           error: "Too many login attempts. Please try again later.",
@@ -33,7 +35,7 @@ export async function POST(request: NextRequest) {
           status: 429,
           headers: {
             "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
-            "X-RateLimit-Limit": RateLimitPresets.LOGIN.maxRequests.toString(),
+            "X-RateLimit-Limit": rateLimit.limit.toString(),
             "X-RateLimit-Remaining": "0",
             "X-RateLimit-Reset": new Date(rateLimit.resetTime).toISOString(),
           },
@@ -80,13 +82,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Constant-time comparison to prevent timing attacks
-    const usernameMatch = username === env.ADMIN_USERNAME;
-    const passwordMatch = password === env.ADMIN_PASSWORD;
+    const admin = await authenticateAdmin(username, password);
 
-    if (usernameMatch && passwordMatch) {
+    if (admin?.totp_enabled_at) {
+      // Password is right; the token waits for the second step
+      return NextResponse.json(
+        {
+          success: true,
+          twoFactorRequired: true,
+          challengeToken: await generateTwoFactorChallenge(admin),
+        },
+        {
+          headers: {
+            "X-RateLimit-Limit": rateLimit.limit.toString(),
+            "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+          },
+        }
+      );
+    }
+
+    if (admin) {
       // Generate secure JWT token
-      const token = await generateAdminToken(username);
+      const sessionId = await createAdminSession(admin.id, request);
+      const token = await generateAdminToken(admin, sessionId);
 
       logAuthSuccess(username, clientId);
 
@@ -94,11 +112,12 @@ export async function POST(request: NextRequest) {
         {
           success: true,
           token,
+          role: admin.role,
           expiresIn: 28800, // 8 hours in seconds
         },
         {
           headers: {
-            "X-RateLimit-Limit": RateLimitPresets.LOGIN.maxRequests.toString(),
+            "X-RateLimit-Limit": rateLimit.limit.toString(),
             "X-RateLimit-Remaining": rateLimit.remaining.toString(),
           },
         }
@@ -116,7 +135,7 @@ export async function POST(request: NextRequest) {
       {
         status: 401,
         headers: {
-          "X-RateLimit-Limit": RateLimitPresets.LOGIN.maxRequests.toString(),
+          "X-RateLimit-Limit": rateLimit.limit.toString(),
           "X-RateLimit-Remaining": rateLimit.remaining.toString(),
         },
       }
@@ -126,7 +145,7 @@ export async function POST(request: NextRequest) {
     logAuthFailure("unknown", clientId, "Internal server error");
 
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
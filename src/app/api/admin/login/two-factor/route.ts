@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { verifyTwoFactorLogin } from "~/lib/security/admin-route";
+import { generateAdminToken } from "~/lib/security/jwt";
+import { createAdminSession } from "~/lib/admin-sessions";
+import { logAuthFailure, logAuthSuccess } from "~/lib/security/logger";
+import { rateLimiter } from "~/lib/security/rate-limiter";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Second login step for accounts with two-factor authentication
+ * Exchanges the challenge token from /api/admin/login and a code for an
+ * admin token.
+ */
+export async function POST(request: NextRequest) {
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyTwoFactorLogin(request, "/api/admin/login/two-factor");
+
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { admin } = auth;
+    const sessionId = await createAdminSession(admin.id, request);
+    const token = await generateAdminToken(admin, sessionId);
+
+    logAuthSuccess(admin.username, clientId);
+
+    return NextResponse.json({
+      success: true,
+      token,
+      role: admin.role,
+      expiresIn: 28800, // 8 hours in seconds
+    });
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    logAuthFailure("unknown", clientId, "Internal server error");
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { revokeAdminSession } from "~/lib/admin-sessions";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { rateLimiter } from "~/lib/security/rate-limiter";
+import {
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Revoke the session behind the current token
+ * A token that is already invalid has nothing left to sign out, so that
+ * still counts as success.
+ */
+export async function POST(request: NextRequest) {
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request);
+
+    if (auth.admin) {
+      await revokeAdminSession(auth.admin.jti, auth.admin.sub);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Logout error:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Logout error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to sign out", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
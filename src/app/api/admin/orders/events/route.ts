@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getOrderEvents } from "~/lib/orders";
+import { rateLimiter } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { isValidUUID } from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * An order's status history, oldest first
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["orders:view"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized order history access attempt",
+        { clientId, endpoint: "/api/admin/orders/events" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const orderId = request.nextUrl.searchParams.get("orderId");
+
+    if (!orderId || !isValidUUID(orderId)) {
+      return NextResponse.json(
+        { error: "Invalid order ID" },
+        { status: 400 }
+      );
+    }
+
+    const events = await getOrderEvents(orderId);
+
+    logApiRequest(
+      "GET",
+      "/api/admin/orders/events",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, count: events.length }
+    );
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching order history:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Order history fetch error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
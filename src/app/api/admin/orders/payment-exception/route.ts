@@ -0,0 +1,139 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { resolvePaymentException } from "~/lib/payment-exceptions";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  paymentExceptionActionSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Resolve an underpaid, overpaid or late-paid order from the admin queue
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["payments:manage"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized payment exception action",
+        { clientId, endpoint: "/api/admin/orders/payment-exception" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const rateLimit = await rateLimiter.check(
+      `admin:${adminPayload.username}`,
+      RateLimitPresets.ADMIN,
+      "/api/admin/orders/payment-exception"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/orders/payment-exception", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/orders/payment-exception", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(paymentExceptionActionSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/orders/payment-exception", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId, action } = validation.data;
+
+    const outcome = await resolvePaymentException(orderId, action, adminPayload.username);
+
+    if ("error" in outcome) {
+      if (outcome.status >= 500) {
+        logSecurityEvent(
+          SecurityEventType.API_ERROR,
+          "Payment exception action failed",
+          { clientId, orderId, status: outcome.status, error: outcome.error }
+        );
+      }
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    await recordAuditEvent(request, adminPayload, {
+      action: "order.payment_exception",
+      entityType: "order",
+      entityId: orderId,
+      after: { resolution: outcome.resolution },
+      metadata: { action },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/orders/payment-exception",
+      clientId,
+      200,
+      Date.now() - startTime,
+      {
+        orderId,
+        action,
+        resolution: outcome.resolution,
+        admin: adminPayload.username,
+      }
+    );
+
+    return NextResponse.json({ success: true, ...outcome });
+  } catch (error) {
+    console.error("Error resolving payment exception:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Payment exception action error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
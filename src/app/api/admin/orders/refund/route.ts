@@ -0,0 +1,148 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { refundOrder } from "~/lib/refunds";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  refundOrderSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Refund a paid order in full or by line item
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["orders:refund"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized refund attempt",
+        { clientId, endpoint: "/api/admin/orders/refund" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const rateLimit = await rateLimiter.check(
+      `admin:${adminPayload.username}`,
+      RateLimitPresets.ADMIN,
+      "/api/admin/orders/refund"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/orders/refund", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/orders/refund", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(refundOrderSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/orders/refund", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId, lines, restock } = validation.data;
+
+    const outcome = await refundOrder(orderId, {
+      lines,
+      restock: restock ?? false,
+      actor: adminPayload.username,
+    });
+
+    if ("error" in outcome) {
+      if (outcome.status >= 500) {
+        logSecurityEvent(
+          SecurityEventType.API_ERROR,
+          "Refund failed",
+          { clientId, orderId, status: outcome.status, error: outcome.error }
+        );
+      }
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    await recordAuditEvent(request, adminPayload, {
+      action: "order.refund",
+      entityType: "order",
+      entityId: orderId,
+      after: {
+        refundId: outcome.refund.refundId,
+        amount: outcome.refund.amount,
+        lines: outcome.refund.lines,
+        orderStatus: outcome.refund.orderStatus,
+        restocked: outcome.refund.restocked,
+      },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/orders/refund",
+      clientId,
+      200,
+      Date.now() - startTime,
+      {
+        orderId,
+        refundId: outcome.refund.refundId,
+        amount: outcome.refund.amount,
+        admin: adminPayload.username,
+      }
+    );
+
+    return NextResponse.json({ success: true, refund: outcome.refund });
+  } catch (error) {
+    console.error("Error refunding order:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Refund error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import {
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * All orders with their stock reservations, newest first
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/orders", ["orders:view"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const result = await supabaseAdmin
+      .from("orders")
+      .select("*, stock_reservations(product_id, quantity, status, expires_at)")
+      .order("created_at", { ascending: false });
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    return NextResponse.json({ orders: (result.data ?? []) as unknown[] });
+  } catch (error) {
+    console.error("Error fetching orders:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Order list error",
+      {
+        clientId: auth.clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch orders", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { transitionOrder } from "~/lib/orders";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  updateOrderStatusSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+// Shipping emails go out this long after an order is marked shipped
+const SHIPPING_NOTIFICATION_DELAY_HOURS = 24;
+
+/**
+ * Move an order to another status, if the state machine allows it
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["orders:update"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized order status change attempt",
+        { clientId, endpoint: "/api/admin/orders/status" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const rateLimit = await rateLimiter.check(
+      `admin:${adminPayload.username}`,
+      RateLimitPresets.ADMIN,
+      "/api/admin/orders/status"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/orders/status", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/orders/status", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(updateOrderStatusSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/orders/status", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId, status, note, trackingNumber, trackingUrl } = validation.data;
+
+    // Refund states carry an amount, so they're only reached through a refund
+    if (status === "refunded" || status === "partially_refunded") {
+      return NextResponse.json(
+        { error: "Use a refund to refund an order" },
+        { status: 400 }
+      );
+    }
+
+    let updates: Record<string, unknown> | undefined;
+    if (status === "shipped") {
+      const notificationScheduledAt = new Date(
+        Date.now() + SHIPPING_NOTIFICATION_DELAY_HOURS * 60 * 60 * 1000
+      );
+
+      updates = {
+        tracking_number: trackingNumber,
+        shipping_tracking_url: trackingUrl,
+        shipped_at: new Date().toISOString(),
+        shipping_notification_scheduled_at: notificationScheduledAt.toISOString(),
+      };
+    }
+
+    const result = await transitionOrder(orderId, status, {
+      actor: adminPayload.username,
+      note,
+      metadata: trackingNumber ? { trackingNumber } : undefined,
+      updates,
+    });
+
+    if (result.error) {
+      if (result.error === "Order not found") {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 404 }
+        );
+      }
+      throw new Error(result.error);
+    }
+
+    if (!result.updated) {
+      return NextResponse.json(
+        { error: `Can't move an order from ${result.from?.replace("_", " ")} to ${status.replace("_", " ")}` },
+        { status: 409 }
+      );
+    }
+
+    await recordAuditEvent(request, adminPayload, {
+      action: "order.status_change",
+      entityType: "order",
+      entityId: orderId,
+      before: { status: result.from },
+      after: { status, ...updates },
+      metadata: note ? { note } : undefined,
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/orders/status",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, from: result.from, to: status, admin: adminPayload.username }
+    );
+
+    return NextResponse.json({ success: true, from: result.from, status });
+  } catch (error) {
+    console.error("Error updating order status:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Order status update error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
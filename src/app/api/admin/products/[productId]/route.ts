@@ -0,0 +1,210 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  isValidUUID,
+  productSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+type RouteContext = { params: Promise<{ productId: string }> };
+
+/**
+ * Update a product's details
+ * Stock isn't accepted here; it changes through the stock ledger.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/products", ["catalog:edit"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { productId } = await params;
+
+    if (!isValidUUID(productId)) {
+      return NextResponse.json(
+        { error: "Invalid product ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/products", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(productSchema.omit({ stock: true }), body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/products", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await supabaseAdmin
+      .from("products")
+      .select("*")
+      .eq("id", productId)
+      .maybeSingle();
+
+    if (existing.error) {
+      throw new Error(existing.error.message);
+    }
+
+    if (!existing.data) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await supabaseAdmin
+      .from("products")
+      .update(validation.data)
+      .eq("id", productId)
+      .select("*")
+      .maybeSingle();
+
+    const { error } = updated;
+    const data = updated.data as Record<string, unknown> | null;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: "product.update",
+      entityType: "product",
+      entityId: productId,
+      before: existing.data as Record<string, unknown>,
+      after: data,
+    });
+
+    logApiRequest(
+      "PATCH",
+      "/api/admin/products",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { productId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating product:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Product update error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to update product", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a product
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/products", ["catalog:edit"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { productId } = await params;
+
+    if (!isValidUUID(productId)) {
+      return NextResponse.json(
+        { error: "Invalid product ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await supabaseAdmin
+      .from("products")
+      .delete()
+      .eq("id", productId)
+      .select("*")
+      .maybeSingle();
+
+    const { error } = deleted;
+    const data = deleted.data as Record<string, unknown> | null;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (data) {
+      await recordAuditEvent(request, admin, {
+        action: "product.delete",
+        entityType: "product",
+        entityId: productId,
+        before: data,
+      });
+    }
+
+    logApiRequest(
+      "DELETE",
+      "/api/admin/products",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { productId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting product:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Product delete error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to delete product", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  productSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Create a product
+ * Its initial stock is recorded in the ledger by the products trigger.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/products", ["catalog:edit"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/products", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(productSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/products", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await supabaseAdmin
+      .from("products")
+      .insert([{ ...validation.data, stock: validation.data.stock ?? 0 }])
+      .select("*")
+      .single();
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const product = result.data as Record<string, unknown> & { id: string };
+    const { id } = product;
+
+    await recordAuditEvent(request, admin, {
+      action: "product.create",
+      entityType: "product",
+      entityId: id,
+      after: product,
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/products",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { productId: id, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error("Error creating product:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Product create error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to create product", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { extendAdminSession } from "~/lib/admin-sessions";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { generateAdminToken, isTokenExpiringSoon } from "~/lib/security/jwt";
+import {
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Sliding token refresh
+ * Once the current token is close to expiring, swaps it for a new one on the
+ * same session. Sessions can be refreshed until they reach their maximum age.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/refresh", []);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    if (!isTokenExpiringSoon(admin)) {
+      return NextResponse.json({ refreshed: false, expiresAt: admin.exp });
+    }
+
+    const expiresIn = await extendAdminSession(admin.jti);
+
+    if (expiresIn === null) {
+      return NextResponse.json({ refreshed: false, expiresAt: admin.exp });
+    }
+
+    const token = await generateAdminToken(
+      { id: admin.sub, username: admin.username, role: admin.role },
+      admin.jti,
+      `${expiresIn}s`
+    );
+
+    return NextResponse.json({
+      refreshed: true,
+      token,
+      expiresIn,
+    });
+  } catch (error) {
+    console.error("Token refresh error:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Token refresh error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to refresh token", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { revokeAdminSession } from "~/lib/admin-sessions";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { hasPermission } from "~/lib/security/permissions";
+import { isValidUUID } from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+/**
+ * Revoke one session
+ * Staff can revoke their own; the owner can revoke anyone's.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/sessions", []);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { sessionId } = await params;
+
+    if (!isValidUUID(sessionId)) {
+      return NextResponse.json(
+        { error: "Invalid session ID" },
+        { status: 400 }
+      );
+    }
+
+    const result = await revokeAdminSession(
+      sessionId,
+      hasPermission(admin.role, "staff:manage") ? undefined : admin.sub
+    );
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: "session.revoke",
+      entityType: "session",
+      entityId: sessionId,
+    });
+
+    logApiRequest(
+      "DELETE",
+      "/api/admin/sessions",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { sessionId, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Session revoke error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to revoke session", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { listAdminSessions, revokeAdminSessions } from "~/lib/admin-sessions";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { hasPermission } from "~/lib/security/permissions";
+import {
+  validateAndSanitize,
+  revokeSessionsSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Live sessions: every staff member's for the owner, otherwise the admin's own
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/sessions", []);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const everyone = hasPermission(admin.role, "staff:manage");
+
+    return NextResponse.json({
+      sessions: await listAdminSessions(everyone ? undefined : admin.sub),
+      currentSessionId: admin.jti,
+    });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Session list error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch sessions", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign out everywhere
+ * "mine" revokes all of the admin's own sessions, this one included;
+ * "everyone" revokes every staff member's and needs staff:manage.
+ */
+export async function DELETE(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/sessions", []);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/sessions", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(revokeSessionsSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/sessions", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { scope } = validation.data;
+
+    if (scope === "everyone" && !hasPermission(admin.role, "staff:manage")) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Admin API access without permission",
+        { clientId, endpoint: "/api/admin/sessions", method: "DELETE", required: ["staff:manage"] }
+      );
+      return NextResponse.json(
+        { error: "Forbidden" },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await revokeAdminSessions(scope === "everyone" ? undefined : admin.sub);
+
+    await recordAuditEvent(request, admin, {
+      action: scope === "everyone" ? "session.revoke_everyone" : "session.revoke_mine",
+      entityType: "session",
+      entityId: scope === "everyone" ? null : admin.sub,
+      metadata: { revoked },
+    });
+
+    logApiRequest(
+      "DELETE",
+      "/api/admin/sessions",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { scope, revoked, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Session revoke error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to revoke sessions", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getAdminUser, updateAdminUser, type AdminUser } from "~/lib/admin-users";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  isValidUUID,
+  staffUpdateSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// The fields a staff change can touch, for the audit log
+function auditFields(user: AdminUser | null) {
+  return user
+    ? { role: user.role, disabled_at: user.disabled_at, invite_expires_at: user.invite_expires_at }
+    : null;
+}
+
+/**
+ * Change a staff member's role, disable or re-enable them, or issue a new
+ * invite link
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/staff", ["staff:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const { userId } = await params;
+
+    if (!isValidUUID(userId)) {
+      return NextResponse.json(
+        { error: "Invalid staff ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/staff", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(staffUpdateSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/staff", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const before = await getAdminUser(userId);
+    const result = await updateAdminUser(userId, validation.data, admin.sub);
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: "staff.update",
+      entityType: "staff",
+      entityId: userId,
+      before: auditFields(before),
+      after: auditFields(result.user),
+      metadata: { username: result.user.username },
+    });
+
+    logApiRequest(
+      "PATCH",
+      "/api/admin/staff",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { userId, changes: validation.data, admin: admin.username }
+    );
+
+    return NextResponse.json({
+      success: true,
+      user: result.user,
+      inviteToken: result.inviteToken,
+    });
+  } catch (error) {
+    console.error("Error updating staff member:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Staff update error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to update staff member", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { inviteAdminUser, listAdminUsers } from "~/lib/admin-users";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  staffInviteSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Every staff account, oldest first
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/staff", ["staff:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    return NextResponse.json({ staff: await listAdminUsers() });
+  } catch (error) {
+    console.error("Error fetching staff:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Staff list error",
+      {
+        clientId: auth.clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch staff", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Invite a staff member
+ * Returns the invite token once; the owner passes the link on.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/staff", ["staff:manage"]);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/staff", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(staffInviteSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/staff", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await inviteAdminUser({
+      ...validation.data,
+      invitedBy: admin.username,
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await recordAuditEvent(request, admin, {
+      action: "staff.invite",
+      entityType: "staff",
+      entityId: result.user.id,
+      after: { username: result.user.username, email: result.user.email, role: result.user.role },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/staff",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { username: result.user.username, role: result.user.role, admin: admin.username }
+    );
+
+    return NextResponse.json({
+      success: true,
+      user: result.user,
+      inviteToken: result.inviteToken,
+    });
+  } catch (error) {
+    console.error("Error inviting staff member:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Staff invite error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to invite staff member", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,274 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  stockAdjustmentSchema,
+  isValidUUID,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import {
+  recordStockMovement,
+  stockMovementsToCsv,
+  STOCK_MOVEMENT_TYPES,
+  type StockMovement,
+  type StockMovementType,
+} from "~/lib/stock";
+import { getRequestId } from "~/lib/security/request-id";
+
+const MAX_HISTORY_ROWS = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+/**
+ * List stock movements, newest first
+ * Query params: productId, type, from, to (ISO dates), format=csv
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["stock:view"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized stock history access attempt",
+        { clientId, endpoint: "/api/admin/stock-movements" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const params = request.nextUrl.searchParams;
+    const productId = params.get("productId");
+    const type = params.get("type");
+    const from = params.get("from");
+    const to = params.get("to");
+    const asCsv = params.get("format") === "csv";
+
+    if (productId && !isValidUUID(productId)) {
+      return NextResponse.json(
+        { error: "Invalid product ID" },
+        { status: 400 }
+      );
+    }
+
+    if (type && !STOCK_MOVEMENT_TYPES.includes(type as StockMovementType)) {
+      return NextResponse.json(
+        { error: "Invalid movement type" },
+        { status: 400 }
+      );
+    }
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: "Invalid date range" },
+        { status: 400 }
+      );
+    }
+
+    let query = supabaseAdmin
+      .from("stock_movements")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(asCsv ? MAX_EXPORT_ROWS : MAX_HISTORY_ROWS);
+
+    if (productId) query = query.eq("product_id", productId);
+    if (type) query = query.eq("movement_type", type);
+    if (from) query = query.gte("created_at", new Date(from).toISOString());
+    if (to) query = query.lte("created_at", new Date(to).toISOString());
+
+    const result = await query;
+
+    if (result.error) {
+      console.error("Supabase error:", result.error);
+      return NextResponse.json(
+        { error: "Failed to fetch stock movements", requestId: getRequestId(request) },
+        { status: 500 }
+      );
+    }
+
+    const movements = (result.data ?? []) as StockMovement[];
+
+    logApiRequest(
+      "GET",
+      "/api/admin/stock-movements",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { productId, count: movements.length, format: asCsv ? "csv" : "json", admin: adminPayload.username }
+    );
+
+    if (!asCsv) {
+      return NextResponse.json({ movements });
+    }
+
+    const productIds = [...new Set(movements.map((m) => m.product_id))];
+    const { data: products } = await supabaseAdmin
+      .from("products")
+      .select("id, name")
+      .in("id", productIds);
+
+    const productNames = Object.fromEntries(
+      ((products ?? []) as { id: string; name: string }[]).map((p) => [p.id, p.name])
+    );
+
+    const filename = `stock-movements-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(stockMovementsToCsv(movements, productNames), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching stock movements:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Stock history error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Record a manual stock movement (restock, adjustment, return, write-off)
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyAdminAuth(request, ["stock:adjust"]);
+
+    if (!auth.admin) {
+      logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        "Unauthorized stock adjustment attempt",
+        { clientId, endpoint: "/api/admin/stock-movements" }
+      );
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
+    const adminPayload = auth.admin;
+
+    const rateLimit = await rateLimiter.check(
+      `admin:${adminPayload.username}`,
+      RateLimitPresets.ADMIN,
+      "/api/admin/stock-movements"
+    );
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/admin/stock-movements", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/stock-movements", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(stockAdjustmentSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/stock-movements", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { productId, movementType, quantity, reason, orderId } = validation.data;
+
+    const { stock, error } = await recordStockMovement({
+      productId,
+      movementType,
+      quantity,
+      reason,
+      actor: adminPayload.username,
+      orderId,
+    });
+
+    if (error) {
+      // Raised by record_stock_movement, e.g. stock would go below zero
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent(request, adminPayload, {
+      action: "stock.adjust",
+      entityType: "stock",
+      entityId: productId,
+      after: { stock },
+      metadata: { movementType, quantity, reason, orderId },
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/admin/stock-movements",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { productId, movementType, quantity, newStock: stock, admin: adminPayload.username }
+    );
+
+    return NextResponse.json({
+      success: true,
+      stock,
+    });
+  } catch (error) {
+    console.error("Error recording stock movement:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Stock adjustment error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
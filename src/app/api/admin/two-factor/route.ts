@@ -0,0 +1,146 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateBackupCodes,
+  startTwoFactorSetup,
+} from "~/lib/admin-two-factor";
+import { authorizeAdminRequest } from "~/lib/security/admin-route";
+import { recordAuditEvent } from "~/lib/audit-log";
+import {
+  validateAndSanitize,
+  twoFactorActionSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logAuthFailure,
+  logValidationError,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Whether two-factor authentication is on for the signed-in admin
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdminRequest(request, "/api/admin/two-factor", []);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    return NextResponse.json({ status: await getTwoFactorStatus(auth.admin.sub) });
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Two-factor status error",
+      {
+        clientId: auth.clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to fetch two-factor status", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Set up, turn on, turn off, or get new backup codes for the signed-in
+ * admin's two-factor authentication
+ * Every action except setup needs a current code.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const auth = await authorizeAdminRequest(request, "/api/admin/two-factor", []);
+
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { admin, clientId } = auth;
+
+  try {
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/admin/two-factor", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(twoFactorActionSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/admin/two-factor", clientId, validation.error);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { action, code = "" } = validation.data;
+
+    const result =
+      action === "setup"
+        ? await startTwoFactorSetup(admin.sub)
+        : action === "enable"
+          ? await enableTwoFactor(admin.sub, code)
+          : action === "disable"
+            ? await disableTwoFactor(admin.sub, code)
+            : await regenerateBackupCodes(admin.sub, code);
+
+    if ("error" in result) {
+      if (result.status === 400 && action !== "enable") {
+        logAuthFailure(admin.username, clientId, "Invalid two-factor code");
+      }
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    // Setup alone changes nothing until a code confirms it
+    if (action !== "setup") {
+      await recordAuditEvent(request, admin, {
+        action: `two_factor.${action}`,
+        entityType: "two_factor",
+        entityId: admin.sub,
+      });
+    }
+
+    logApiRequest(
+      "POST",
+      "/api/admin/two-factor",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { action, admin: admin.username }
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error updating two-factor authentication:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Two-factor update error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to update two-factor authentication", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
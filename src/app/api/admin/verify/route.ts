@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
 import { verifyAdminToken } from "~/lib/security/jwt";
+import { getAdminUser } from "~/lib/admin-users";
 import {
   logSecurityEvent,
   SecurityEventType,
@@ -12,10 +13,10 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting - moderate for verify endpoint
-    const rateLimit = rateLimiter.check(clientId, RateLimitPresets.API);
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.API, "/api/admin/verify");
 
     if (!rateLimit.isAllowed) {
-      logRateLimitExceeded("/api/admin/verify", clientId, RateLimitPresets.API.maxRequests);
+      logRateLimitExceeded("/api/admin/verify", clientId, rateLimit.limit);
       return NextResponse.json(
         { valid: false, error: "Too many requests" },
         {
@@ -40,11 +41,14 @@ export async function POST(request: NextRequest) {
 
     // Verify JWT token
     const payload = await verifyAdminToken(token);
+    const account = payload ? await getAdminUser(payload.sub) : null;
 
-    if (payload) {
+    // Disabled or re-roled since the token was issued
+    if (payload && account && !account.disabled_at && account.role === payload.role) {
       return NextResponse.json({
         valid: true,
         username: payload.username,
+        role: payload.role,
         expiresAt: payload.exp,
       });
     }
@@ -1,6 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { env } from "~/env";
-import { generateAdminToken } from "~/lib/security/jwt";
+import { generateAdminToken, generateTwoFactorChallenge } from "~/lib/security/jwt";
+import { createAdminSession } from "~/lib/admin-sessions";
+import { authenticateAdmin } from "~/lib/admin-users";
+import { validateAndSanitize, adminLoginSchema } from "~/lib/security/input-validation";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,29 +17,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if password is provided
-    if (!("password" in body) || typeof body.password !== "string") {
+    const validation = validateAndSanitize(adminLoginSchema, body);
+
+    if (!validation.success) {
       return NextResponse.json(
-        { error: "Password is required" },
+        { error: validation.error },
         { status: 400 }
       );
     }
 
-    const { password } = body as { password: string };
+    const { username, password } = validation.data;
+    const admin = await authenticateAdmin(username, password);
 
-    // Verify password
-    if (password !== env.ADMIN_PASSWORD) {
+    if (!admin) {
       // Add artificial delay to prevent timing attacks
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
       return NextResponse.json(
-        { error: "Invalid password" },
+        { error: "Invalid username or password" },
         { status: 401 }
       );
     }
 
-    // Generate JWT token (using admin username for consistency)
-    const token = await generateAdminToken(env.ADMIN_USERNAME);
+    if (admin.totp_enabled_at) {
+      // Password is right; the cookie waits for the second step
+      return NextResponse.json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: await generateTwoFactorChallenge(admin),
+      });
+    }
+
+    const sessionId = await createAdminSession(admin.id, request);
+    const token = await generateAdminToken(admin, sessionId);
 
     // Create response with token in cookie
     const response = NextResponse.json({
@@ -58,7 +71,7 @@ export async function POST(request: NextRequest) {
     console.error("Login error:", error);
 
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { verifyTwoFactorLogin } from "~/lib/security/admin-route";
+import { generateAdminToken } from "~/lib/security/jwt";
+import { createAdminSession } from "~/lib/admin-sessions";
+import { logAuthFailure, logAuthSuccess } from "~/lib/security/logger";
+import { rateLimiter } from "~/lib/security/rate-limiter";
+import { getRequestId } from "~/lib/security/request-id";
+
+export async function POST(request: NextRequest) {
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const auth = await verifyTwoFactorLogin(request, "/api/auth/login/two-factor");
+
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { admin } = auth;
+    const sessionId = await createAdminSession(admin.id, request);
+    const token = await generateAdminToken(admin, sessionId);
+
+    logAuthSuccess(admin.username, clientId);
+
+    // Create response with token in cookie
+    const response = NextResponse.json({
+      success: true,
+      message: "Authentication successful",
+    });
+
+    // Set secure HTTP-only cookie
+    response.cookies.set("auth_token", token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      maxAge: 28800, // 8 hours in seconds
+      path: "/",
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    logAuthFailure("unknown", clientId, "Internal server error");
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
-import { NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { getRequestId } from "~/lib/security/request-id";
 
 interface BannerData {
   id: string;
@@ -10,9 +11,9 @@ interface BannerData {
 }
 
 // GET - Fetch current banner
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const response = await supabase
+    const response = await supabaseAdmin
       .from("banner")
       .select("*")
       .order("created_at", { ascending: false })
@@ -23,7 +24,7 @@ export async function GET() {
       // PGRST116 is "no rows returned"
       console.error("Supabase fetch error:", response.error);
       return NextResponse.json(
-        { error: "Failed to fetch banner" },
+        { error: "Failed to fetch banner", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
@@ -33,7 +34,7 @@ export async function GET() {
   } catch (error) {
     console.error("Error fetching banner:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -1,6 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
+import { supabaseAdmin } from "~/lib/supabase-admin";
 import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { getRequestId } from "~/lib/security/request-id";
 
 interface BannerUpdateRequest {
   text: string;
@@ -11,12 +13,12 @@ interface BannerUpdateRequest {
 export async function POST(request: NextRequest) {
   try {
     // Verify admin authentication
-    const adminPayload = await verifyAdminAuth(request);
+    const auth = await verifyAdminAuth(request, ["settings:edit"]);
 
-    if (!adminPayload) {
+    if (!auth.admin) {
       return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
       );
     }
 
@@ -49,15 +51,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if a banner already exists
-    const { data: existingBanner } = await supabase
+    const { data } = await supabaseAdmin
       .from("banner")
-      .select("id")
+      .select("id, text, color")
       .limit(1)
       .single();
 
+    const existingBanner = data as { id: string; text: string; color: string } | null;
+
     if (existingBanner) {
       // Update existing banner
-      const { error: updateError } = await supabase
+      const { error: updateError } = await supabaseAdmin
         .from("banner")
         .update({ text: text.trim(), color })
         .eq("id", existingBanner.id);
@@ -65,30 +69,38 @@ export async function POST(request: NextRequest) {
       if (updateError) {
         console.error("Supabase update error:", updateError);
         return NextResponse.json(
-          { error: "Failed to update banner" },
+          { error: "Failed to update banner", requestId: getRequestId(request) },
           { status: 500 }
         );
       }
     } else {
       // Create new banner
-      const { error: insertError } = await supabase
+      const { error: insertError } = await supabaseAdmin
         .from("banner")
         .insert([{ text: text.trim(), color }]);
 
       if (insertError) {
         console.error("Supabase insert error:", insertError);
         return NextResponse.json(
-          { error: "Failed to create banner" },
+          { error: "Failed to create banner", requestId: getRequestId(request) },
           { status: 500 }
         );
       }
     }
 
+    await recordAuditEvent(request, auth.admin, {
+      action: "banner.update",
+      entityType: "banner",
+      entityId: existingBanner?.id ?? null,
+      before: existingBanner,
+      after: { text: text.trim(), color },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error updating banner:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -0,0 +1,110 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getBisqClient } from "~/lib/bisq";
+import { confirmBisqPayment, getBisqTrade, toTradeView } from "~/lib/bisq-trades";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import {
+  validateAndSanitize,
+  bisqTradeActionSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Shopper reports the fiat payment to the seller as sent
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const rateLimit = await rateLimiter.check(`bisq:${clientId}`, RateLimitPresets.PUBLIC, "/api/bisq/confirm-payment");
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/bisq/confirm-payment", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        { status: 429 }
+      );
+    }
+
+    const client = getBisqClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { error: "Bisq payments are not available" },
+        { status: 503 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/bisq/confirm-payment", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(bisqTradeActionSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/bisq/confirm-payment", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId } = validation.data;
+    const trade = await getBisqTrade(orderId);
+
+    if (!trade) {
+      return NextResponse.json(
+        { error: "Trade not found" },
+        { status: 404 }
+      );
+    }
+
+    const outcome = await confirmBisqPayment(trade, { client });
+
+    if (!outcome.confirmed) {
+      return NextResponse.json(
+        { error: "Trade is not waiting for your payment", trade: toTradeView(outcome.trade) },
+        { status: 409 }
+      );
+    }
+
+    logApiRequest(
+      "POST",
+      "/api/bisq/confirm-payment",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, tradeId: trade.trade_id }
+    );
+
+    return NextResponse.json(toTradeView(outcome.trade));
+  } catch (error) {
+    console.error("Error confirming Bisq payment:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Bisq payment confirmation error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to confirm payment", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
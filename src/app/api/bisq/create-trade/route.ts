@@ -0,0 +1,150 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { getBisqClient } from "~/lib/bisq";
+import { openBisqOffer, toTradeView } from "~/lib/bisq-trades";
+import { UNPAID_STATUSES, type OrderStatus } from "~/lib/order-status";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import {
+  validateAndSanitize,
+  createBisqTradeSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    // Rate limiting - same budget as BTCPay invoice creation
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.ORDER_CREATE, "/api/bisq/create-trade");
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/bisq/create-trade", clientId, rateLimit.limit);
+      return NextResponse.json(
+        {
+          error: "Too many payment attempts. Please wait before trying again.",
+          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const client = getBisqClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { error: "Bisq payments are not available" },
+        { status: 503 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/bisq/create-trade", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(createBisqTradeSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/bisq/create-trade", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId, paymentAccountId } = validation.data;
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from("orders")
+      .select("id, order_number, total_amount, status, payment_method")
+      .eq("id", orderId)
+      .single();
+
+    if (orderError || !order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const orderData = order as {
+      id: string;
+      order_number: string;
+      total_amount: number;
+      status: string;
+      payment_method: string;
+    };
+
+    if (orderData.payment_method !== "bisq") {
+      logSecurityEvent(
+        SecurityEventType.SUSPICIOUS_INPUT,
+        "Bisq trade requested for non-Bisq order",
+        { clientId, orderId, paymentMethod: orderData.payment_method }
+      );
+      return NextResponse.json(
+        { error: "Order was not placed for Bisq payment" },
+        { status: 400 }
+      );
+    }
+
+    if (!UNPAID_STATUSES.includes(orderData.status as OrderStatus)) {
+      return NextResponse.json(
+        { error: "Order is no longer awaiting payment" },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await openBisqOffer(orderData, paymentAccountId, { client });
+
+    if ("error" in outcome) {
+      return NextResponse.json(
+        { error: outcome.message },
+        { status: 400 }
+      );
+    }
+
+    logApiRequest(
+      "POST",
+      "/api/bisq/create-trade",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, offerId: outcome.trade.offer_id }
+    );
+
+    return NextResponse.json(toTradeView(outcome.trade));
+  } catch (error) {
+    console.error("Error creating Bisq offer:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Bisq offer creation error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to create Bisq offer", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
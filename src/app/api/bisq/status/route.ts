@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { isBisqEnabled } from "~/lib/bisq";
+import { getBisqPaymentOptions } from "~/lib/bisq-trades";
+
+/**
+ * Whether checkout should offer Bisq, and with which fiat payment methods
+ */
+export async function GET() {
+  if (!isBisqEnabled()) {
+    return NextResponse.json({ enabled: false, paymentMethods: [] });
+  }
+
+  try {
+    const paymentMethods = await getBisqPaymentOptions();
+
+    return NextResponse.json({
+      enabled: paymentMethods.length > 0,
+      paymentMethods,
+    });
+  } catch (error) {
+    console.error("Error loading Bisq payment methods:", error);
+    return NextResponse.json({ enabled: false, paymentMethods: [] });
+  }
+}
@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getBisqClient } from "~/lib/bisq";
+import { getBisqTrade, refreshBisqTrade, toTradeView } from "~/lib/bisq-trades";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { isValidUUID } from "~/lib/security/input-validation";
+import {
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Current state of an order's Bisq trade
+ * Each call reads the trade from the daemon, so the checkout's polling keeps
+ * the trade moving even without the background job.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const rateLimit = await rateLimiter.check(`bisq:${clientId}`, RateLimitPresets.PUBLIC, "/api/bisq/trade");
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/bisq/trade", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        { status: 429 }
+      );
+    }
+
+    const { orderId } = await params;
+
+    if (!orderId || !isValidUUID(orderId)) {
+      return NextResponse.json(
+        { error: "Invalid order ID" },
+        { status: 400 }
+      );
+    }
+
+    const client = getBisqClient();
+
+    if (!client) {
+      return NextResponse.json(
+        { error: "Bisq payments are not available" },
+        { status: 503 }
+      );
+    }
+
+    const trade = await getBisqTrade(orderId);
+
+    if (!trade) {
+      return NextResponse.json(
+        { error: "Trade not found" },
+        { status: 404 }
+      );
+    }
+
+    const refreshed = await refreshBisqTrade(trade, { client });
+
+    return NextResponse.json(toTradeView(refreshed));
+  } catch (error) {
+    console.error("Error checking Bisq trade:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Bisq trade check error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to check trade", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
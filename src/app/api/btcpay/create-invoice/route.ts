@@ -1,6 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server";
-import https from "https";
-import { env } from "~/env";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import { PaymentProviderError } from "~/lib/payments/types";
+import { markAwaitingPayment } from "~/lib/orders";
+import { UNPAID_STATUSES, type OrderStatus } from "~/lib/order-status";
 import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
 import {
   validateAndSanitize,
@@ -13,6 +16,7 @@ import {
   logSecurityEvent,
   SecurityEventType,
 } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -20,10 +24,10 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting - moderate for invoice creation
-    const rateLimit = rateLimiter.check(clientId, RateLimitPresets.ORDER_CREATE);
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.ORDER_CREATE, "/api/btcpay/create-invoice");
 
     if (!rateLimit.isAllowed) {
-      logRateLimitExceeded("/api/btcpay/create-invoice", clientId, RateLimitPresets.ORDER_CREATE.maxRequests);
+      logRateLimitExceeded("/api/btcpay/create-invoice", clientId, rateLimit.limit);
       return NextResponse.json(
         {
           error: "Too many invoice creation attempts. Please wait before trying again.",
@@ -60,91 +64,83 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { amount, currency, orderId, buyerEmail, preferredCrypto } = validation.data;
-
-    // Determine payment methods based on user preference
-    let paymentMethods: string[];
-    if (preferredCrypto === "monero") {
-      paymentMethods = ["XMR"];
-    } else if (preferredCrypto === "bitcoin") {
-      paymentMethods = ["BTC"];
-    } else {
-      // Default: offer all payment methods
-      paymentMethods = ["BTC", "XMR"];
+    const { amount, orderId, buyerEmail, preferredCrypto } = validation.data;
+
+    // The invoice is always issued for the server-priced order total
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from("orders")
+      .select("order_number, total_amount, status")
+      .eq("id", orderId)
+      .single();
+
+    if (orderError || !order) {
+      logValidationError("/api/btcpay/create-invoice", clientId, "Order not found", { orderId });
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
     }
 
-    // Create HTTPS agent that allows self-signed certificates in development
-    const httpsAgent = env.BTCPAY_ALLOW_INSECURE === "true"
-      ? new https.Agent({ rejectUnauthorized: false })
-      : undefined;
+    const orderData = order as { order_number: string; total_amount: number; status: string };
 
-    // Create invoice using BTCPay Server API
-    const response = await fetch(
-      `${env.BTCPAY_HOST}/api/v1/stores/${env.BTCPAY_STORE_ID}/invoices`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `token ${env.BTCPAY_API_KEY}`,
-        },
-        body: JSON.stringify({
-          amount: amount.toString(),
-          currency,
-          metadata: {
-            orderId,
-            buyerEmail,
-          },
-          checkout: {
-            speedPolicy: "HighSpeed",
-            paymentMethods,
-            expirationMinutes: 60,
-          },
-        }),
-        // @ts-expect-error - agent is valid but not in Node fetch types
-        agent: httpsAgent,
-      }
-    );
+    if (!UNPAID_STATUSES.includes(orderData.status as OrderStatus)) {
+      return NextResponse.json(
+        { error: "Order is no longer awaiting payment" },
+        { status: 400 }
+      );
+    }
+
+    const invoiceAmount = Number(orderData.total_amount);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("BTCPay API error:", errorText);
-
-      // Parse BTCPay error response to provide more helpful error messages
-      let errorMessage = "Failed to create invoice";
-      try {
-        const errorJson = JSON.parse(errorText) as { message?: string; code?: string };
-        if (errorJson.message?.includes("Payment method unavailable")) {
-          errorMessage = "The requested payment method is currently unavailable. Please try a different payment option.";
-        } else if (errorJson.message) {
-          errorMessage = errorJson.message;
+    if (Math.abs(invoiceAmount - amount) > 0.01) {
+      logSecurityEvent(
+        SecurityEventType.SUSPICIOUS_INPUT,
+        "Invoice amount does not match order total",
+        {
+          clientId,
+          orderId,
+          orderTotal: invoiceAmount,
+          providedAmount: amount,
         }
-      } catch {
-        // If error text is not JSON, keep default message
-      }
+      );
+    }
+
+    let invoice;
+    try {
+      invoice = await btcpayProvider.createCharge(
+        { id: orderId, order_number: orderData.order_number, total_amount: invoiceAmount },
+        { buyerEmail, preferredCrypto }
+      );
+    } catch (error) {
+      if (!(error instanceof PaymentProviderError)) throw error;
 
       logSecurityEvent(
         SecurityEventType.API_ERROR,
         "BTCPay invoice creation failed",
         {
           clientId,
-          status: response.status,
+          status: error.status,
           orderId,
-          error: errorText.substring(0, 200), // Log first 200 chars of error
+          error: error.message,
         }
       );
       return NextResponse.json(
-        { error: errorMessage },
-        { status: response.status }
+        { error: error.publicMessage ?? "Failed to create invoice" },
+        { status: error.status }
       );
     }
 
-    const invoice = await response.json() as {
-      id: string;
-      checkoutLink: string;
-      amount: string;
-      currency: string;
-      status: string;
-    };
+    // Link the invoice so the webhook can find the order
+    const { error: linkError } = await supabaseAdmin
+      .from("orders")
+      .update({ btcpay_invoice_id: invoice.id })
+      .eq("id", orderId);
+
+    if (linkError) {
+      console.error("Failed to link invoice to order:", linkError);
+    }
+
+    await markAwaitingPayment(orderId, "btcpay");
 
     logApiRequest(
       "POST",
@@ -161,11 +157,11 @@ export async function POST(request: NextRequest) {
         checkoutLink: invoice.checkoutLink,
         amount: invoice.amount,
         currency: invoice.currency,
-        status: invoice.status,
+        status: invoice.providerStatus,
       },
       {
         headers: {
-          "X-RateLimit-Limit": RateLimitPresets.ORDER_CREATE.maxRequests.toString(),
+          "X-RateLimit-Limit": rateLimit.limit.toString(),
           "X-RateLimit-Remaining": rateLimit.remaining.toString(),
         },
       }
@@ -182,7 +178,7 @@ export async function POST(request: NextRequest) {
     );
 
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -1,6 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server";
-import https from "https";
-import { env } from "~/env";
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import { PaymentProviderError } from "~/lib/payments/types";
+import { getRequestId } from "~/lib/security/request-id";
+
+function toUnixSeconds(iso: string | null): number | null {
+  return iso ? Math.floor(new Date(iso).getTime() / 1000) : null;
+}
 
 export async function GET(
   request: NextRequest,
@@ -16,57 +21,31 @@ export async function GET(
       );
     }
 
-    // Create HTTPS agent that allows self-signed certificates in development
-    const httpsAgent = env.BTCPAY_ALLOW_INSECURE === "true"
-      ? new https.Agent({ rejectUnauthorized: false })
-      : undefined;
-
-    // Get invoice details from BTCPay Server API
-    const response = await fetch(
-      `${env.BTCPAY_HOST}/api/v1/stores/${env.BTCPAY_STORE_ID}/invoices/${invoiceId}`,
-      {
-        headers: {
-          Authorization: `token ${env.BTCPAY_API_KEY}`,
-        },
-        // @ts-expect-error - agent is valid but not in Node fetch types
-        agent: httpsAgent,
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("BTCPay API error:", errorText);
-      return NextResponse.json(
-        { error: "Failed to fetch invoice" },
-        { status: response.status }
-      );
-    }
-
-    const invoice = await response.json() as {
-      id: string;
-      status: string;
-      amount: string;
-      currency: string;
-      createdTime: number;
-      expirationTime: number;
-      checkoutLink: string;
-      metadata: Record<string, unknown>;
-    };
+    const invoice = await btcpayProvider.getStatus(invoiceId);
 
     return NextResponse.json({
       id: invoice.id,
-      status: invoice.status,
+      status: invoice.providerStatus,
+      // underpaid / overpaid / paid_late, from BTCPay's additionalStatus
+      paymentException: invoice.paymentException,
       amount: invoice.amount,
       currency: invoice.currency,
-      createdTime: invoice.createdTime,
-      expirationTime: invoice.expirationTime,
+      createdTime: toUnixSeconds(invoice.createdAt),
+      expirationTime: toUnixSeconds(invoice.expiresAt),
       checkoutLink: invoice.checkoutLink,
       metadata: invoice.metadata,
     });
   } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { error: "Failed to fetch invoice" },
+        { status: error.status }
+      );
+    }
+
     console.error("Error fetching invoice:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server";
-import https from "https";
-import { env } from "~/env";
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import { PaymentProviderError } from "~/lib/payments/types";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function GET(
   request: NextRequest,
@@ -16,49 +17,20 @@ export async function GET(
       );
     }
 
-    // Create HTTPS agent that allows self-signed certificates in development
-    const httpsAgent = env.BTCPAY_ALLOW_INSECURE === "true"
-      ? new https.Agent({ rejectUnauthorized: false })
-      : undefined;
+    const paymentMethods = await btcpayProvider.listMethods(invoiceId);
 
-    // Get payment methods for the invoice
-    const response = await fetch(
-      `${env.BTCPAY_HOST}/api/v1/stores/${env.BTCPAY_STORE_ID}/invoices/${invoiceId}/payment-methods`,
-      {
-        headers: {
-          Authorization: `token ${env.BTCPAY_API_KEY}`,
-        },
-        // @ts-expect-error - agent is valid but not in Node fetch types
-        agent: httpsAgent,
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("BTCPay API error:", errorText);
+    return NextResponse.json(paymentMethods);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
       return NextResponse.json(
         { error: "Failed to fetch payment methods" },
-        { status: response.status }
+        { status: error.status }
       );
     }
 
-    const paymentMethods = await response.json() as Array<{
-      paymentMethod: string;
-      cryptoCode: string;
-      destination: string;
-      paymentLink: string;
-      rate: string;
-      totalPaid: string;
-      due: string;
-      amount: string;
-      networkFee: string;
-    }>;
-
-    return NextResponse.json(paymentMethods);
-  } catch (error) {
     console.error("Error fetching payment methods:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -0,0 +1,197 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { markOrderPaid, closeUnpaidOrder, logTransaction } from "~/lib/orders";
+import { checkInvoiceOutcome } from "~/lib/payment-exceptions";
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import type { WebhookEffect } from "~/lib/payments/types";
+import { rateLimiter } from "~/lib/security/rate-limiter";
+import {
+  logApiRequest,
+  logSecurityEvent,
+  logValidationError,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    // Signature is computed over the raw body, so read it before parsing
+    const rawBody = await request.text();
+    const parsed = btcpayProvider.parseWebhook(rawBody, request.headers);
+
+    if (!parsed.ok) {
+      if (parsed.status === 401) {
+        logSecurityEvent(
+          SecurityEventType.UNAUTHORIZED_ACCESS,
+          "BTCPay webhook with invalid signature",
+          { clientId, endpoint: "/api/btcpay/webhook" }
+        );
+      } else if (parsed.status === 400) {
+        logValidationError("/api/btcpay/webhook", clientId, parsed.error);
+      }
+
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const event = parsed.event;
+
+    if (!event) {
+      return NextResponse.json({ received: true, ignored: parsed.ignored });
+    }
+
+    const match = await findOrderForInvoice(event.chargeId);
+
+    if (!match) {
+      // Acknowledge so BTCPay doesn't keep retrying invoices we didn't create
+      logSecurityEvent(
+        SecurityEventType.API_ERROR,
+        "BTCPay webhook for unknown invoice",
+        { clientId, invoiceId: event.chargeId, type: event.type }
+      );
+      return NextResponse.json({ received: true, ignored: "unknown invoice" });
+    }
+
+    const { orderId } = match;
+
+    // Paying a top-up settles the order; its other events leave the order alone
+    const effect = match.invoice === "top_up" && event.effect !== "paid" ? null : event.effect;
+
+    const { data: existingDelivery } = await supabaseAdmin
+      .from("transaction_log")
+      .select("id")
+      .eq("event_data->>deliveryId", event.deliveryId)
+      .limit(1)
+      .maybeSingle();
+
+    if (existingDelivery) {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    const outcome = await applyWebhookEffect(orderId, effect);
+
+    if (outcome.error) {
+      console.error("Failed to apply BTCPay webhook:", outcome.error);
+      logSecurityEvent(
+        SecurityEventType.API_ERROR,
+        "Failed to apply BTCPay webhook event",
+        { clientId, orderId, type: event.type, error: outcome.error }
+      );
+      // Non-2xx makes BTCPay retry the delivery later
+      return NextResponse.json(
+        { error: "Failed to update order", requestId: getRequestId(request) },
+        { status: 500 }
+      );
+    }
+
+    // Flag under/overpayments and settle top-ups once the invoice is final
+    if (effect === "paid" || effect === "expired") {
+      const check = await checkInvoiceOutcome(orderId, event.chargeId).catch((error: unknown) => ({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+
+      if (check.error) {
+        console.error("Failed to check invoice payment:", check.error);
+      }
+    }
+
+    const { error: logError } = await logTransaction(orderId, `btcpay_${event.type}`, {
+      deliveryId: event.deliveryId,
+      ...event.details,
+      invoice: match.invoice,
+      orderUpdated: outcome.updated,
+    });
+
+    // 23505: a concurrent delivery of the same event got logged first
+    if (logError && logError.code !== "23505") {
+      console.error("Failed to log BTCPay webhook:", logError.message);
+    }
+
+    logApiRequest(
+      "POST",
+      "/api/btcpay/webhook",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, type: event.type, orderUpdated: outcome.updated }
+    );
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("Error handling BTCPay webhook:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "BTCPay webhook error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Resolve the order an invoice belongs to, as its own invoice or as the
+ * top-up for an underpayment
+ * Invoices stored on no order (replaced or never saved) resolve to nothing,
+ * whatever orderId their metadata names.
+ */
+async function findOrderForInvoice(
+  invoiceId: string
+): Promise<{ orderId: string; invoice: "order" | "top_up" } | null> {
+  for (const [column, invoice] of [
+    ["btcpay_invoice_id", "order"],
+    ["top_up_invoice_id", "top_up"],
+  ] as const) {
+    const { data, error } = await supabaseAdmin
+      .from("orders")
+      .select("id")
+      .eq(column, invoiceId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up invoice: ${error.message}`);
+    }
+
+    if (data) {
+      return { orderId: (data as { id: string }).id, invoice };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a webhook event to its order
+ * Every branch is conditional on the current order status, so replays are no-ops.
+ */
+async function applyWebhookEffect(
+  orderId: string,
+  effect: WebhookEffect | null
+): Promise<{ updated: boolean; error?: string }> {
+  switch (effect) {
+    case "paid":
+      return markOrderPaid(orderId, "btcpay-webhook");
+
+    case "expired":
+      return closeUnpaidOrder(orderId, "expired", "btcpay-webhook");
+
+    case "invalid":
+      return closeUnpaidOrder(orderId, "cancelled", "btcpay-webhook");
+
+    // Events that don't change the order are only logged
+    default:
+      return { updated: false };
+  }
+}
@@ -1,86 +1,107 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { supabase, validateCoupon, type Coupon } from "~/lib/supabase";
+import { applyPromotions, priceCartLines } from "~/lib/pricing";
+import {
+  validateAndSanitize,
+  validateCouponSchema,
+} from "~/lib/security/input-validation";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { logRateLimitExceeded } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
 
+/**
+ * Check coupon codes and automatic promotions against the cart
+ * The cart is priced from the catalog, the same way /api/orders/create will
+ * price it, and each promotion's discount is returned per line. With no
+ * codes, this reports the automatic promotions alone. Codes left out for a
+ * better promotion come back under skipped. Limited per client so
+ * codes can't be guessed by trying them here.
+ */
 export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json() as {
-      code: string;
-      orderTotal: number;
-      customerEmail?: string;
-      cartProductIds?: string[];
-    };
+  const clientId = rateLimiter.getClientId(req);
+  const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.API, "/api/coupons/validate");
+
+  if (!rateLimit.isAllowed) {
+    logRateLimitExceeded("/api/coupons/validate", clientId, rateLimit.limit);
+    return NextResponse.json(
+      { error: "Too many requests" },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          "X-RateLimit-Limit": rateLimit.limit.toString(),
+          "X-RateLimit-Remaining": "0",
+        },
+      }
+    );
+  }
 
-    const { code, orderTotal, customerEmail, cartProductIds } = body;
+  try {
+    const body = (await req.json().catch(() => null)) as unknown;
 
-    if (!code || !orderTotal) {
+    if (!body || typeof body !== "object") {
       return NextResponse.json(
-        { error: "Coupon code and order total are required" },
+        { error: "Invalid request body" },
         { status: 400 }
       );
     }
 
-    // Fetch coupon from database
-    const result = await supabase
-      .from("coupons")
-      .select("*")
-      .eq("code", code.toUpperCase())
-      .single();
+    const validation = validateAndSanitize(validateCouponSchema, body);
 
-    if (result.error || !result.data) {
+    if (!validation.success) {
       return NextResponse.json(
-        { error: "Invalid coupon code" },
-        { status: 404 }
+        { error: validation.error },
+        { status: 400 }
       );
     }
 
-    const coupon = result.data as Coupon;
+    const { codes, items, customerEmail } = validation.data;
 
-    // Check if customer has already used this coupon (if one_per_customer is enabled)
-    if (coupon.one_per_customer && customerEmail) {
-      const usageResult = await supabase
-        .from("coupon_usage")
-        .select("*")
-        .eq("coupon_id", coupon.id)
-        .eq("customer_email", customerEmail)
-        .single();
+    const priced = await priceCartLines(items);
 
-      if (usageResult.data) {
-        return NextResponse.json(
-          { error: "You have already used this coupon" },
-          { status: 400 }
-        );
-      }
+    if (!priced.success) {
+      return NextResponse.json(
+        { error: priced.error, code: priced.code },
+        { status: 400 }
+      );
     }
 
-    // Validate coupon
-    const validation = validateCoupon(
-      coupon,
-      orderTotal,
-      customerEmail,
-      cartProductIds
-    );
+    const promotionsResult = await applyPromotions(codes, priced.lines, customerEmail);
 
-    if (!validation.valid) {
+    if ("error" in promotionsResult) {
       return NextResponse.json(
-        { error: validation.error },
+        { error: promotionsResult.error },
         { status: 400 }
       );
     }
 
+    const { applied, skipped, discount, lineDiscounts, freeShipping } = promotionsResult;
+
     return NextResponse.json({
       success: true,
-      coupon: {
-        id: coupon.id,
-        code: coupon.code,
+      promotions: applied.map(({ coupon, promotion }) => ({
+        ...promotion,
         discount_type: coupon.discount_type,
         discount_value: coupon.discount_value,
-        discount: validation.discount,
-      },
+        discount_mode: coupon.discount_mode,
+        max_discount_amount: coupon.max_discount_amount ?? null,
+        buy_quantity: coupon.buy_quantity ?? null,
+        get_quantity: coupon.get_quantity ?? null,
+        tiers: coupon.tiers ?? null,
+      })),
+      skipped,
+      discount,
+      freeShipping,
+      lines: priced.lines.map((line, index) => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        lineTotal: line.lineTotal,
+        couponDiscount: lineDiscounts[index] ?? 0,
+      })),
     });
   } catch (error) {
-    console.error("Error validating coupon:", error);
+    console.error("Error validating promotions:", error);
     return NextResponse.json(
-      { error: "Failed to validate coupon" },
+      { error: "Failed to validate coupon", requestId: getRequestId(req) },
       { status: 500 }
     );
   }
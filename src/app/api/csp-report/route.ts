@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  MAX_CSP_REPORT_BYTES,
+  parseCspReports,
+  storeCspViolations,
+} from "~/lib/security/csp-reports";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import {
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+
+/**
+ * Content Security Policy violation reports
+ * Sent by browsers, not our own pages, so there is no CSRF token (see the
+ * exemption in middleware.ts). Accepts both the report-uri and Reporting API
+ * formats and always answers 204, so a broken report tells the sender nothing.
+ */
+export async function POST(request: NextRequest) {
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const rateLimit = await rateLimiter.check(`csp:${clientId}`, RateLimitPresets.API, "/api/csp-report");
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/csp-report", clientId, rateLimit.limit);
+      return new NextResponse(null, { status: 204 });
+    }
+
+    const raw = await request.text();
+
+    if (raw.length > MAX_CSP_REPORT_BYTES) {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    const violations = parseCspReports(body);
+
+    if (!violations || violations.length === 0) {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    await storeCspViolations(violations, {
+      clientId,
+      userAgent: request.headers.get("user-agent"),
+    });
+
+    for (const violation of violations) {
+      logSecurityEvent(
+        SecurityEventType.CSP_VIOLATION,
+        `Content Security Policy blocked ${violation.effectiveDirective ?? "a resource"}`,
+        {
+          clientId,
+          documentUri: violation.documentUri,
+          blockedUri: violation.blockedUri,
+          disposition: violation.disposition,
+        }
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error storing CSP report:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "CSP report error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return new NextResponse(null, { status: 204 });
+  }
+}
@@ -12,6 +12,7 @@ import {
   logSecurityEvent,
   SecurityEventType,
 } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
 
 // Maximum file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -30,16 +31,17 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting - moderate for document upload
-    const rateLimit = rateLimiter.check(
+    const rateLimit = await rateLimiter.check(
       clientId,
-      RateLimitPresets.ORDER_CREATE
+      RateLimitPresets.ORDER_CREATE,
+      "/api/documents/upload"
     );
 
     if (!rateLimit.isAllowed) {
       logRateLimitExceeded(
         "/api/documents/upload",
         clientId,
-        RateLimitPresets.ORDER_CREATE.maxRequests
+        rateLimit.limit
       );
       return NextResponse.json(
         {
@@ -143,8 +145,7 @@ export async function POST(request: NextRequest) {
       },
       {
         headers: {
-          "X-RateLimit-Limit":
-            RateLimitPresets.ORDER_CREATE.maxRequests.toString(),
+          "X-RateLimit-Limit": rateLimit.limit.toString(),
           "X-RateLimit-Remaining": rateLimit.remaining.toString(),
         },
       }
@@ -157,7 +158,7 @@ export async function POST(request: NextRequest) {
     });
 
     return NextResponse.json(
-      { error: "Failed to upload document" },
+      { error: "Failed to upload document", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from "next/server";
 import formData from "form-data";
 import Mailgun from "mailgun.js";
 import { env } from "~/env";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   try {
@@ -124,7 +125,7 @@ questions? email jane@symphonylabs.cc
   } catch (error) {
     console.error("Error sending email:", error);
     return NextResponse.json(
-      { error: "Failed to send email" },
+      { error: "Failed to send email", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -0,0 +1,146 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { getMoneroWallet, getRateSource } from "~/lib/monero";
+import { createMoneroPayment, toPaymentView } from "~/lib/monero-payments";
+import { UNPAID_STATUSES, type OrderStatus } from "~/lib/order-status";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import {
+  validateAndSanitize,
+  createMoneroPaymentSchema,
+} from "~/lib/security/input-validation";
+import {
+  logApiRequest,
+  logValidationError,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    // Rate limiting - same budget as BTCPay invoice creation
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.ORDER_CREATE, "/api/monero/create-payment");
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/monero/create-payment", clientId, rateLimit.limit);
+      return NextResponse.json(
+        {
+          error: "Too many payment attempts. Please wait before trying again.",
+          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const wallet = getMoneroWallet();
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "Monero payments are not available" },
+        { status: 503 }
+      );
+    }
+
+    const body = (await request.json().catch(() => null)) as unknown;
+
+    if (!body || typeof body !== "object") {
+      logValidationError("/api/monero/create-payment", clientId, "Invalid JSON body");
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(createMoneroPaymentSchema, body);
+
+    if (!validation.success) {
+      logValidationError("/api/monero/create-payment", clientId, validation.error, body);
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { orderId } = validation.data;
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from("orders")
+      .select("id, order_number, total_amount, status, payment_method")
+      .eq("id", orderId)
+      .single();
+
+    if (orderError || !order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const orderData = order as {
+      id: string;
+      order_number: string;
+      total_amount: number;
+      status: string;
+      payment_method: string;
+    };
+
+    if (orderData.payment_method !== "monero") {
+      logSecurityEvent(
+        SecurityEventType.SUSPICIOUS_INPUT,
+        "Monero payment requested for non-Monero order",
+        { clientId, orderId, paymentMethod: orderData.payment_method }
+      );
+      return NextResponse.json(
+        { error: "Order was not placed for Monero payment" },
+        { status: 400 }
+      );
+    }
+
+    if (!UNPAID_STATUSES.includes(orderData.status as OrderStatus)) {
+      return NextResponse.json(
+        { error: "Order is no longer awaiting payment" },
+        { status: 400 }
+      );
+    }
+
+    const payment = await createMoneroPayment(orderData, {
+      wallet,
+      rateSource: getRateSource(),
+    });
+
+    logApiRequest(
+      "POST",
+      "/api/monero/create-payment",
+      clientId,
+      200,
+      Date.now() - startTime,
+      { orderId, addressIndex: payment.address_index }
+    );
+
+    return NextResponse.json(toPaymentView(payment, orderData.order_number));
+  } catch (error) {
+    console.error("Error creating Monero payment:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Monero payment creation error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to create Monero payment", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
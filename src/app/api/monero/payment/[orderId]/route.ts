@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getMoneroWallet } from "~/lib/monero";
+import {
+  getMoneroPayment,
+  refreshMoneroPayment,
+  toPaymentView,
+} from "~/lib/monero-payments";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { isValidUUID } from "~/lib/security/input-validation";
+import {
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Current state of an order's Monero payment
+ * Each call checks the wallet for new transfers, so the checkout's polling
+ * keeps the payment moving even without the background job.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const clientId = rateLimiter.getClientId(request);
+
+  try {
+    const rateLimit = await rateLimiter.check(`monero:${clientId}`, RateLimitPresets.PUBLIC, "/api/monero/payment");
+
+    if (!rateLimit.isAllowed) {
+      logRateLimitExceeded("/api/monero/payment", clientId, rateLimit.limit);
+      return NextResponse.json(
+        { error: "Too many requests" },
+        { status: 429 }
+      );
+    }
+
+    const { orderId } = await params;
+
+    if (!orderId || !isValidUUID(orderId)) {
+      return NextResponse.json(
+        { error: "Invalid order ID" },
+        { status: 400 }
+      );
+    }
+
+    const wallet = getMoneroWallet();
+
+    if (!wallet) {
+      return NextResponse.json(
+        { error: "Monero payments are not available" },
+        { status: 503 }
+      );
+    }
+
+    const payment = await getMoneroPayment(orderId);
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: "Payment not found" },
+        { status: 404 }
+      );
+    }
+
+    const refreshed = await refreshMoneroPayment(payment, { wallet });
+
+    return NextResponse.json(toPaymentView(refreshed));
+  } catch (error) {
+    console.error("Error checking Monero payment:", error);
+    logSecurityEvent(
+      SecurityEventType.API_ERROR,
+      "Monero payment check error",
+      {
+        clientId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+
+    return NextResponse.json(
+      { error: "Failed to check payment", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { priceOrder } from "~/lib/pricing";
+import { reserveOrderStock, redeemOrderCoupon, closeUnpaidOrder, recordOrderEvent } from "~/lib/orders";
+import { getPaymentProvider } from "~/lib/payments/registry";
 import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
 import {
   validateAndSanitize,
@@ -12,6 +15,7 @@ import {
   logSecurityEvent,
   SecurityEventType,
 } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -19,10 +23,10 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting - prevent order spam
-    const rateLimit = rateLimiter.check(clientId, RateLimitPresets.ORDER_CREATE);
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.ORDER_CREATE, "/api/orders/create");
 
     if (!rateLimit.isAllowed) {
-      logRateLimitExceeded("/api/orders/create", clientId, RateLimitPresets.ORDER_CREATE.maxRequests);
+      logRateLimitExceeded("/api/orders/create", clientId, rateLimit.limit);
       return NextResponse.json(
         {
           error: "Too many order creation attempts. Please wait before trying again.",
@@ -32,7 +36,7 @@ export async function POST(request: NextRequest) {
           status: 429,
           headers: {
             "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
-            "X-RateLimit-Limit": RateLimitPresets.ORDER_CREATE.maxRequests.toString(),
+            "X-RateLimit-Limit": rateLimit.limit.toString(),
             "X-RateLimit-Remaining": "0",
           },
         }
@@ -61,108 +65,118 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { items, totalAmount, shippingAddress, shippingCost, couponCode, couponDiscount } = validation.data;
+    const { items, totalAmount, shippingAddress, couponCodes, promotions, paymentMethod } = validation.data;
 
-    // Check stock availability for all items
-    for (const item of items) {
-      const { data: product, error: productError } = await supabase
-        .from("products")
-        .select("stock")
-        .eq("id", item.id)
-        .single();
-
-      if (productError || !product) {
-        logSecurityEvent(
-          SecurityEventType.SUSPICIOUS_INPUT,
-          "Order contains non-existent product",
-          {
-            clientId,
-            productId: item.id,
-          }
-        );
-        return NextResponse.json(
-          { error: `Product ${item.name} not found` },
-          { status: 400 }
-        );
-      }
+    if (!getPaymentProvider(paymentMethod ?? "btcpay")?.isEnabled()) {
+      return NextResponse.json(
+        { error: "This payment method is not available" },
+        { status: 400 }
+      );
+    }
 
-      interface ProductStock {
-        stock: number;
-      }
+    // Price the order from the catalog; client prices, shipping cost and
+    // promotion discounts are ignored and only the promotions applied and the
+    // total are compared below
+    const pricing = await priceOrder(
+      items,
+      shippingAddress.country,
+      couponCodes,
+      shippingAddress.email
+    );
 
-      const productStock = product as ProductStock;
+    if (!pricing.success) {
+      logSecurityEvent(
+        SecurityEventType.SUSPICIOUS_INPUT,
+        "Order rejected during pricing",
+        {
+          clientId,
+          endpoint: "/api/orders/create",
+          code: pricing.code,
+          productId: pricing.productId,
+        }
+      );
 
-      if (productStock.stock < item.quantity) {
-        logSecurityEvent(
-          SecurityEventType.SUSPICIOUS_INPUT,
-          "Insufficient stock for order",
-          {
-            clientId,
-            productId: item.id,
-            requestedQuantity: item.quantity,
-            availableStock: productStock.stock,
-          }
-        );
+      if (pricing.code === "insufficient_stock") {
         return NextResponse.json(
           {
-            error: `Insufficient stock for ${item.name}. Only ${productStock.stock} available.`,
+            error: pricing.error,
             insufficientStock: true,
-            productName: item.name,
-            availableStock: productStock.stock,
+            productName: pricing.productName,
+            availableStock: pricing.availableStock,
           },
           { status: 400 }
         );
       }
+
+      return NextResponse.json(
+        { error: pricing.error, code: pricing.code },
+        { status: 400 }
+      );
     }
 
-    // Additional business logic validation
-    // Verify total amount matches sum of items (including modifiers) + shipping - coupon discount
-    const calculatedSubtotal = items.reduce(
-      (sum, item) => {
-        // Calculate modifier price adjustments
-        const modifierTotal = item.selectedModifiers?.reduce(
-          (modSum, mod) => modSum + mod.priceAdjustment,
-          0
-        ) ?? 0;
-
-        // Item total = (base price + modifiers) * quantity
-        return sum + (item.price + modifierTotal) * item.quantity;
-      },
-      0
-    );
-    const calculatedTotal = calculatedSubtotal + (shippingCost ?? 0) - (couponDiscount ?? 0);
+    const breakdown = pricing.breakdown;
+    const appliedCodes = breakdown.promotions.map((promotion) => promotion.code);
 
-    if (Math.abs(calculatedTotal - totalAmount) > 0.01) {
+    // An automatic promotion started or ended since the customer last saw
+    // their cart
+    if (promotions && promotions.map((promotion) => promotion.code).join(",") !== appliedCodes.join(",")) {
+      return NextResponse.json(
+        {
+          error: "Promotions have changed since your cart was loaded. Please review your order.",
+          code: "promotions_changed",
+          calculatedTotal: breakdown.total,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (Math.abs(breakdown.total - totalAmount) > 0.01) {
       logSecurityEvent(
         SecurityEventType.SUSPICIOUS_INPUT,
         "Order total mismatch detected",
         {
           clientId,
           endpoint: "/api/orders/create",
-          calculatedTotal,
+          calculatedTotal: breakdown.total,
           providedTotal: totalAmount,
-          couponDiscount,
+          couponCodes: appliedCodes,
         }
       );
       return NextResponse.json(
-        { error: "Order total validation failed" },
+        {
+          error: "Prices have changed since your cart was loaded. Please review your order.",
+          calculatedTotal: breakdown.total,
+        },
         { status: 400 }
       );
     }
 
+    // Stored items keep the shape the admin and email views expect, but every
+    // value comes from the server-side pricing
+    const orderItems = breakdown.lines.map((line) => ({
+      id: line.productId,
+      name: line.name,
+      price: line.discountedPrice,
+      originalPrice: line.basePrice,
+      discount: line.productDiscount,
+      quantity: line.quantity,
+      selectedModifiers: line.selectedModifiers,
+    }));
+
     // Generate secure order number
     const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 9).toUpperCase()}`;
 
     // Create order in Supabase
-    const result = await supabase
+    const result = await supabaseAdmin
       .from("orders")
       .insert([
         {
           order_number: orderNumber,
-          payment_method: "btcpay", // Explicitly set payment method for BTCPay orders
+          payment_method: paymentMethod ?? "btcpay",
           status: "pending",
-          total_amount: totalAmount,
-          items: items,
+          total_amount: breakdown.total,
+          items: orderItems,
+          price_breakdown: breakdown,
           shipping_name: shippingAddress.name,
           shipping_email: shippingAddress.email,
           shipping_address_line1: shippingAddress.addressLine1,
@@ -172,9 +186,10 @@ export async function POST(request: NextRequest) {
           shipping_zip: shippingAddress.zip,
           shipping_country: shippingAddress.country,
           shipping_phone: shippingAddress.phone,
-          shipping_cost: shippingCost,
-          coupon_code: couponCode,
-          coupon_discount: couponDiscount,
+          shipping_cost: breakdown.shippingCost,
+          coupon_code: appliedCodes.length > 0 ? appliedCodes.join(", ") : null,
+          coupon_discount: breakdown.couponDiscount,
+          promotions: breakdown.promotions,
         },
       ])
       .select()
@@ -191,7 +206,7 @@ export async function POST(request: NextRequest) {
         }
       );
       return NextResponse.json(
-        { error: "Failed to create order" },
+        { error: "Failed to create order", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
@@ -203,6 +218,95 @@ export async function POST(request: NextRequest) {
 
     const data = result.data as OrderData;
 
+    await recordOrderEvent({ orderId: data.id, from: null, to: "pending", actor: "checkout" });
+
+    // Hold the stock while the invoice is open. If someone else got there
+    // first, cancel the order we just created so it never reaches payment.
+    const reservation = await reserveOrderStock(data.id, orderItems);
+
+    if (!reservation.reserved) {
+      await closeUnpaidOrder(data.id, "cancelled", "checkout");
+
+      if (reservation.error) {
+        console.error("Stock reservation error:", reservation.error);
+        logSecurityEvent(
+          SecurityEventType.API_ERROR,
+          "Failed to reserve stock for order",
+          {
+            clientId,
+            orderId: data.id,
+            error: reservation.error,
+          }
+        );
+        return NextResponse.json(
+          { error: "Failed to create order", requestId: getRequestId(request) },
+          { status: 500 }
+        );
+      }
+
+      const productName = reservation.productName ?? "an item in your cart";
+
+      return NextResponse.json(
+        {
+          error: `Insufficient stock for ${productName}. Only ${reservation.available} available.`,
+          insufficientStock: true,
+          productName,
+          availableStock: reservation.available,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Count each promotion's use now, against the coupon's current state.
+    // Losing the race for a last use cancels the order, which also frees the
+    // stock and gives back the uses already counted.
+    for (const promotion of breakdown.promotions) {
+      const redemption = await redeemOrderCoupon(
+        data.id,
+        promotion.couponId,
+        shippingAddress.email
+      );
+
+      if (!redemption.redeemed) {
+        await closeUnpaidOrder(data.id, "cancelled", "checkout");
+
+        if (redemption.error) {
+          console.error("Coupon redemption error:", redemption.error);
+          logSecurityEvent(
+            SecurityEventType.API_ERROR,
+            "Failed to redeem coupon for order",
+            {
+              clientId,
+              orderId: data.id,
+              couponCode: promotion.code,
+              error: redemption.error,
+            }
+          );
+          return NextResponse.json(
+            { error: "Failed to create order", requestId: getRequestId(request) },
+            { status: 500 }
+          );
+        }
+
+        // An automatic promotion running out wasn't anything the customer
+        // entered, so they are sent back to review the order instead
+        if (promotion.automatic) {
+          return NextResponse.json(
+            {
+              error: "Promotions have changed since your cart was loaded. Please review your order.",
+              code: "promotions_changed",
+            },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json(
+          { error: redemption.reason, code: "invalid_coupon" },
+          { status: 400 }
+        );
+      }
+    }
+
     logApiRequest(
       "POST",
       "/api/orders/create",
@@ -216,10 +320,11 @@ export async function POST(request: NextRequest) {
       {
         orderId: data.id,
         orderNumber: data.order_number,
+        totalAmount: breakdown.total,
       },
       {
         headers: {
-          "X-RateLimit-Limit": RateLimitPresets.ORDER_CREATE.maxRequests.toString(),
+          "X-RateLimit-Limit": rateLimit.limit.toString(),
           "X-RateLimit-Remaining": rateLimit.remaining.toString(),
         },
       }
@@ -236,7 +341,7 @@ export async function POST(request: NextRequest) {
     );
 
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
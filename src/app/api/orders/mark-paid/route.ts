@@ -1,5 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { markOrderPaid } from "~/lib/orders";
+import { flagPaymentException } from "~/lib/payment-exceptions";
+import { getOrderChargeId, getPaymentProvider } from "~/lib/payments/registry";
+import { PaymentProviderError } from "~/lib/payments/types";
 import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
 import {
   logApiRequest,
@@ -9,6 +13,7 @@ import {
   SecurityEventType,
 } from "~/lib/security/logger";
 import { z } from "zod";
+import { getRequestId } from "~/lib/security/request-id";
 
 const markPaidSchema = z.object({
   orderId: z.string().uuid("Invalid order ID"),
@@ -20,10 +25,10 @@ export async function POST(request: NextRequest) {
 
   try {
     // Rate limiting - moderate to prevent abuse
-    const rateLimit = rateLimiter.check(clientId, RateLimitPresets.API);
+    const rateLimit = await rateLimiter.check(clientId, RateLimitPresets.API, "/api/orders/mark-paid");
 
     if (!rateLimit.isAllowed) {
-      logRateLimitExceeded("/api/orders/mark-paid", clientId, RateLimitPresets.API.maxRequests);
+      logRateLimitExceeded("/api/orders/mark-paid", clientId, rateLimit.limit);
       return NextResponse.json(
         { error: "Too many requests" },
         {
@@ -61,9 +66,9 @@ export async function POST(request: NextRequest) {
     const { orderId } = validation.data;
 
     // Verify order exists and is in correct state
-    const { data: existingOrder, error: fetchError } = await supabase
+    const { data: existingOrder, error: fetchError } = await supabaseAdmin
       .from("orders")
-      .select("status, btcpay_invoice_id, items")
+      .select("id, status, payment_method, btcpay_invoice_id")
       .eq("id", orderId)
       .single();
 
@@ -79,83 +84,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const order = existingOrder as {
+      id: string;
+      status: string;
+      payment_method: string | null;
+      btcpay_invoice_id: string | null;
+    };
+
     // Check if order is already paid
-    if (existingOrder.status === "paid") {
+    if (order.status === "paid") {
       return NextResponse.json(
         { success: true, message: "Order already marked as paid" }
       );
     }
 
-    // Decrement stock for each item in the order
-    interface OrderItem {
-      id: string;
-      quantity: number;
-      name: string;
+    // Only the payment provider can say the order was paid
+    const provider = getPaymentProvider(order.payment_method ?? "btcpay");
+    const chargeId = getOrderChargeId(order);
+
+    if (!provider || !chargeId) {
+      return NextResponse.json(
+        { error: "Order has no payment to confirm" },
+        { status: 409 }
+      );
     }
 
-    const items = existingOrder.items as OrderItem[];
-
-    for (const item of items) {
-      // Get current stock
-      const { data: product, error: productError } = await supabase
-        .from("products")
-        .select("stock")
-        .eq("id", item.id)
-        .single();
-
-      if (productError || !product) {
-        console.error("Product not found for stock decrement:", item.id);
-        logSecurityEvent(
-          SecurityEventType.API_ERROR,
-          "Product not found during stock decrement",
-          { clientId, orderId, productId: item.id }
-        );
-        // Continue processing other items even if one fails
-        continue;
-      }
+    let charge;
+    try {
+      charge = await provider.getStatus(chargeId);
+    } catch (error) {
+      if (!(error instanceof PaymentProviderError)) throw error;
+      return NextResponse.json(
+        { error: "Could not confirm payment" },
+        { status: 502 }
+      );
+    }
 
-      // Calculate new stock (ensure it doesn't go below 0)
-      const newStock = Math.max(0, product.stock - item.quantity);
-
-      // Update product stock
-      const { error: updateError } = await supabase
-        .from("products")
-        .update({ stock: newStock })
-        .eq("id", item.id);
-
-      if (updateError) {
-        console.error("Failed to update stock:", updateError);
-        logSecurityEvent(
-          SecurityEventType.API_ERROR,
-          "Failed to decrement stock",
-          { clientId, orderId, productId: item.id, error: updateError.message }
-        );
-        // Continue processing other items even if one fails
-      }
+    if (charge.state !== "paid" && charge.state !== "processing") {
+      logSecurityEvent(
+        SecurityEventType.SUSPICIOUS_INPUT,
+        "Attempt to mark unpaid order as paid",
+        { clientId, orderId, chargeState: charge.state, providerStatus: charge.providerStatus }
+      );
+      return NextResponse.json(
+        { error: "Payment has not been received" },
+        { status: 409 }
+      );
     }
 
-    // Update order status to paid
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        status: "paid",
-        paid_at: new Date().toISOString(),
-      })
-      .eq("id", orderId);
-
-    if (error) {
-      console.error("Supabase error:", error);
+    // Mark paid and decrement stock (no-op if a webhook already settled it)
+    const result = await markOrderPaid(orderId, "checkout");
+
+    const flag = await flagPaymentException(orderId, charge);
+    if (flag.error) {
+      console.error("Failed to flag payment exception:", flag.error);
+    }
+
+    if (result.error) {
+      console.error("Supabase error:", result.error);
       logSecurityEvent(
         SecurityEventType.API_ERROR,
         "Failed to mark order as paid",
-        { clientId, orderId, error: error.message }
+        { clientId, orderId, error: result.error }
       );
       return NextResponse.json(
-        { error: "Failed to update order" },
+        { error: "Failed to update order", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
 
+    if (!result.updated) {
+      return NextResponse.json(
+        { success: true, message: "Order is no longer awaiting payment" }
+      );
+    }
+
     logApiRequest(
       "POST",
       "/api/orders/mark-paid",
@@ -178,7 +181,7 @@ export async function POST(request: NextRequest) {
     );
 
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
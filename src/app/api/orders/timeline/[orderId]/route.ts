@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getOrderEvents } from "~/lib/orders";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { isValidUUID } from "~/lib/security/input-validation";
+import { logRateLimitExceeded } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Customer-facing order timeline
+ * Only statuses and times are returned; actors and admin notes stay internal.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const clientId = rateLimiter.getClientId(request);
+  const rateLimit = await rateLimiter.check(`timeline:${clientId}`, RateLimitPresets.PUBLIC, "/api/orders/timeline");
+
+  if (!rateLimit.isAllowed) {
+    logRateLimitExceeded("/api/orders/timeline", clientId, rateLimit.limit);
+    return NextResponse.json(
+      { error: "Too many requests" },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+        },
+      }
+    );
+  }
+
+  try {
+    const { orderId } = await params;
+
+    if (!isValidUUID(orderId)) {
+      return NextResponse.json(
+        { error: "Invalid order ID" },
+        { status: 400 }
+      );
+    }
+
+    const events = await getOrderEvents(orderId);
+
+    return NextResponse.json({
+      timeline: events.map((event) => ({
+        status: event.to_status,
+        at: event.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching order timeline:", error);
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import { isValidUUID } from "~/lib/security/input-validation";
+import { logRateLimitExceeded } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
+
+/**
+ * Customer-facing order lookup for the track-order page
+ * The order ID is the shopper's secret, so only status, totals and tracking
+ * are returned; no address or contact details.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  const clientId = rateLimiter.getClientId(request);
+  const rateLimit = await rateLimiter.check(`track:${clientId}`, RateLimitPresets.PUBLIC, "/api/orders/track");
+
+  if (!rateLimit.isAllowed) {
+    logRateLimitExceeded("/api/orders/track", clientId, rateLimit.limit);
+    return NextResponse.json(
+      { error: "Too many requests" },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+        },
+      }
+    );
+  }
+
+  try {
+    const { orderId } = await params;
+
+    if (!isValidUUID(orderId)) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await supabaseAdmin
+      .from("orders")
+      .select("id, order_number, status, total_amount, shipping_tracking_url, created_at, paid_at, shipped_at")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    if (!result.data) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result.data as Record<string, unknown>);
+  } catch (error) {
+    console.error("Error fetching order:", error);
+    return NextResponse.json(
+      { error: "Internal server error", requestId: getRequestId(request) },
+      { status: 500 }
+    );
+  }
+}
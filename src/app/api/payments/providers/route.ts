@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { getEnabledPaymentProviders } from "~/lib/payments/registry";
+
+/**
+ * Payment providers checkout can offer
+ */
+export function GET() {
+  return NextResponse.json({
+    providers: getEnabledPaymentProviders().map((provider) => provider.describe()),
+  });
+}
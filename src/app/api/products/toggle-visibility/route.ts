@@ -1,7 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
+import { supabaseAdmin } from "~/lib/supabase-admin";
 import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
 import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
 import {
   validateAndSanitize,
   productIdSchema,
@@ -13,6 +14,7 @@ import {
   logSecurityEvent,
   SecurityEventType,
 } from "~/lib/security/logger";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -20,28 +22,31 @@ export async function POST(request: NextRequest) {
 
   try {
     // Verify admin authentication
-    const adminPayload = await verifyAdminAuth(request);
+    const auth = await verifyAdminAuth(request, ["catalog:edit"]);
 
-    if (!adminPayload) {
+    if (!auth.admin) {
       logSecurityEvent(
         SecurityEventType.UNAUTHORIZED_ACCESS,
         "Unauthorized product visibility toggle attempt",
         { clientId, endpoint: "/api/products/toggle-visibility" }
       );
       return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
       );
     }
 
+    const adminPayload = auth.admin;
+
     // Rate limiting - moderate for admin operations
-    const rateLimit = rateLimiter.check(
+    const rateLimit = await rateLimiter.check(
       `admin:${adminPayload.username}`,
-      RateLimitPresets.ADMIN
+      RateLimitPresets.ADMIN,
+      "/api/products/toggle-visibility"
     );
 
     if (!rateLimit.isAllowed) {
-      logRateLimitExceeded("/api/products/toggle-visibility", clientId, RateLimitPresets.ADMIN.maxRequests);
+      logRateLimitExceeded("/api/products/toggle-visibility", clientId, rateLimit.limit);
       return NextResponse.json(
         { error: "Too many requests" },
         {
@@ -78,7 +83,7 @@ export async function POST(request: NextRequest) {
     const { productId } = validation.data;
 
     // Get current product to check its hidden status
-    const { data: product, error: fetchError } = await supabase
+    const { data: product, error: fetchError } = await supabaseAdmin
       .from("products")
       .select("hidden")
       .eq("id", productId)
@@ -92,13 +97,13 @@ export async function POST(request: NextRequest) {
         { clientId, productId, error: fetchError.message }
       );
       return NextResponse.json(
-        { error: "Failed to fetch product" },
+        { error: "Failed to fetch product", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
 
     // Toggle the hidden status
-    const { error: updateError } = await supabase
+    const { error: updateError } = await supabaseAdmin
       .from("products")
       .update({
         hidden: !product.hidden,
@@ -113,11 +118,19 @@ export async function POST(request: NextRequest) {
         { clientId, productId, error: updateError.message }
       );
       return NextResponse.json(
-        { error: "Failed to update product visibility" },
+        { error: "Failed to update product visibility", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
 
+    await recordAuditEvent(request, adminPayload, {
+      action: product.hidden ? "product.show" : "product.hide",
+      entityType: "product",
+      entityId: productId,
+      before: { hidden: product.hidden },
+      after: { hidden: !product.hidden },
+    });
+
     logApiRequest(
       "POST",
       "/api/products/toggle-visibility",
@@ -143,7 +156,7 @@ export async function POST(request: NextRequest) {
     );
 
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
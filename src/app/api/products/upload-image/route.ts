@@ -1,12 +1,24 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import { env } from "~/env";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { getRequestId } from "~/lib/security/request-id";
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const ALLOWED_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp", "image/gif"];
 
 export async function POST(request: NextRequest) {
   try {
+    // Verify admin authentication
+    const auth = await verifyAdminAuth(request, ["catalog:edit"]);
+
+    if (!auth.admin) {
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
 
@@ -33,12 +45,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize Supabase client
-    const supabase = createClient(
-      env.NEXT_PUBLIC_SUPABASE_URL,
-      env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-    );
-
     // Generate unique filename
     const timestamp = Date.now();
     const fileExt = file.name.split('.').pop();
@@ -50,7 +56,7 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(bytes);
 
     // Upload to Supabase storage
-    const { data, error } = await supabase.storage
+    const { data, error } = await supabaseAdmin.storage
       .from("products")
       .upload(fileName, buffer, {
         contentType: file.type,
@@ -61,16 +67,24 @@ export async function POST(request: NextRequest) {
     if (error) {
       console.error("Supabase upload error:", error);
       return NextResponse.json(
-        { error: `Upload failed: ${error.message}` },
+        { error: `Upload failed: ${error.message}`, requestId: getRequestId(request) },
         { status: 500 }
       );
     }
 
     // Get public URL
-    const { data: urlData } = supabase.storage
+    const { data: urlData } = supabaseAdmin.storage
       .from("products")
       .getPublicUrl(fileName);
 
+    // Attached to a product when the product is saved; this records the upload
+    await recordAuditEvent(request, auth.admin, {
+      action: "product.image_upload",
+      entityType: "product",
+      after: { path: data.path, url: urlData.publicUrl },
+      metadata: { originalName: file.name, size: file.size, type: file.type },
+    });
+
     return NextResponse.json({
       success: true,
       url: urlData.publicUrl,
@@ -80,7 +94,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Error uploading image:", error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to upload image" },
+      { error: error instanceof Error ? error.message : "Failed to upload image", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -1,69 +1,72 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
-
-interface ShippingConfig {
-  mode: "basic" | "advanced";
-  domestic_rate: number;
-  international_rate: number;
-  domestic_countries: string[];
-  country_rates: Record<string, number>;
-  default_rate: number;
-}
+import { fetchShippingConfig, calculateShippingCost } from "~/lib/shipping";
+import { applyPromotions, priceCartLines } from "~/lib/pricing";
+import {
+  validateAndSanitize,
+  calculateShippingSchema,
+} from "~/lib/security/input-validation";
+import { getRequestId } from "~/lib/security/request-id";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = (await request.json()) as {
-      country: string;
-    };
+    const body = (await request.json().catch(() => null)) as unknown;
 
-    const country = body.country;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAndSanitize(calculateShippingSchema, body);
 
-    if (!country) {
+    if (!validation.success) {
       return NextResponse.json(
-        { error: "Country is required" },
+        { error: validation.error },
         { status: 400 }
       );
     }
 
+    const { country, couponCodes, items } = validation.data;
+
     // Fetch shipping configuration
-    const result = await supabase
-      .from("shipping_config")
-      .select("*")
-      .single();
+    const shippingConfig = await fetchShippingConfig();
 
-    if (result.error || !result.data) {
-      console.error("Error fetching shipping config:", result.error);
+    if (!shippingConfig) {
       return NextResponse.json(
-        { error: "Failed to fetch shipping configuration" },
+        { error: "Failed to fetch shipping configuration", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
 
-    const shippingConfig = result.data as unknown as ShippingConfig;
-    let shippingCost = 0;
+    const shippingCost = calculateShippingCost(shippingConfig, country);
+
+    // Free shipping only counts if the coupon or automatic promotion is valid
+    // for this cart; invalid coupons just quote the normal rate
+    if (items && shippingCost > 0) {
+      const priced = await priceCartLines(items);
+      const promotionsResult = priced.success
+        ? await applyPromotions(couponCodes ?? [], priced.lines)
+        : null;
 
-    if (shippingConfig.mode === "basic") {
-      // Basic mode: domestic vs international
-      const isDomestic = (shippingConfig.domestic_countries ?? ["US"]).includes(country);
-      shippingCost = isDomestic
-        ? (shippingConfig.domestic_rate ?? 0)
-        : (shippingConfig.international_rate ?? 0);
-    } else if (shippingConfig.mode === "advanced") {
-      // Advanced mode: per-country rates
-      const countryRates = shippingConfig.country_rates ?? {};
-      shippingCost = countryRates[country] !== undefined
-        ? countryRates[country] ?? 0
-        : (shippingConfig.default_rate ?? 0);
+      if (promotionsResult && !("error" in promotionsResult) && promotionsResult.freeShipping) {
+        return NextResponse.json({
+          shippingCost: 0,
+          shippingDiscount: shippingCost,
+          country,
+        });
+      }
     }
 
     return NextResponse.json({
       shippingCost,
+      shippingDiscount: 0,
       country,
     });
   } catch (error) {
     console.error("Error calculating shipping cost:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
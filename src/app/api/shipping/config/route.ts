@@ -1,5 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { supabase } from "~/lib/supabase";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { verifyAdminAuth } from "~/lib/security/jwt";
+import { recordAuditEvent } from "~/lib/audit-log";
+import { getRequestId } from "~/lib/security/request-id";
 
 interface ShippingConfig {
   id: string;
@@ -11,9 +14,9 @@ interface ShippingConfig {
   default_rate: number;
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const result = await supabase
+    const result = await supabaseAdmin
       .from("shipping_config")
       .select("*")
       .single();
@@ -21,7 +24,7 @@ export async function GET() {
     if (result.error) {
       console.error("Error fetching shipping config:", result.error);
       return NextResponse.json(
-        { error: "Failed to fetch shipping configuration" },
+        { error: "Failed to fetch shipping configuration", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
@@ -30,7 +33,7 @@ export async function GET() {
   } catch (error) {
     console.error("Error in shipping config GET:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
@@ -38,6 +41,16 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    // Verify admin authentication
+    const auth = await verifyAdminAuth(request, ["settings:edit"]);
+
+    if (!auth.admin) {
+      return NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      );
+    }
+
     const body = await request.json() as {
       mode: string;
       domestic_rate?: number;
@@ -48,15 +61,17 @@ export async function POST(request: NextRequest) {
     };
 
     // First, try to get existing config
-    const { data: existingConfig } = await supabase
+    const existing = await supabaseAdmin
       .from("shipping_config")
-      .select("id")
+      .select("*")
       .single();
 
+    const existingConfig = existing.data as (Record<string, unknown> & { id: string }) | null;
+
     let result;
     if (existingConfig) {
       // Update existing config
-      result = await supabase
+      result = await supabaseAdmin
         .from("shipping_config")
         .update({
           mode: body.mode,
@@ -71,7 +86,7 @@ export async function POST(request: NextRequest) {
         .single();
     } else {
       // Insert new config
-      result = await supabase
+      result = await supabaseAdmin
         .from("shipping_config")
         .insert({
           mode: body.mode,
@@ -88,16 +103,24 @@ export async function POST(request: NextRequest) {
     if (result.error) {
       console.error("Error saving shipping config:", result.error);
       return NextResponse.json(
-        { error: "Failed to save shipping configuration" },
+        { error: "Failed to save shipping configuration", requestId: getRequestId(request) },
         { status: 500 }
       );
     }
 
+    await recordAuditEvent(request, auth.admin, {
+      action: "shipping_config.update",
+      entityType: "shipping_config",
+      entityId: (result.data as { id: string }).id,
+      before: existingConfig,
+      after: result.data as Record<string, unknown>,
+    });
+
     return NextResponse.json({ success: true, data: result.data as unknown as ShippingConfig });
   } catch (error) {
     console.error("Error in shipping config POST:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { error: "Internal server error", requestId: getRequestId(request) },
       { status: 500 }
     );
   }
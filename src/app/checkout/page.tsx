@@ -7,8 +7,85 @@ import { useCart } from "~/context/CartContext";
 import { useToast } from "~/context/ToastContext";
 import Image from "next/image";
 import CustomBTCPayCheckout from "~/components/CustomBTCPayCheckout";
+import MoneroCheckout from "~/components/MoneroCheckout";
+import BisqCheckout from "~/components/BisqCheckout";
 import ShippingAddressForm, { type ShippingAddress } from "~/components/ShippingAddressForm";
-import { calculateDiscountedPrice, hasDiscount } from "~/lib/supabase";
+import {
+  calculateDiscountedPrice,
+  hasDiscount,
+  type CouponDiscountMode,
+  type CouponDiscountType,
+  type CouponTier,
+} from "~/lib/supabase";
+import type { PaymentProviderId, PaymentProviderSummary } from "~/lib/payments/types";
+import { csrfFetch } from "~/lib/security/csrf-client";
+
+interface QuotedPromotion {
+  couponId: string;
+  code: string;
+  description: string | null;
+  automatic: boolean;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  discount_mode: CouponDiscountMode;
+  max_discount_amount: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  tiers: CouponTier[] | null;
+  discount: number;
+  // This promotion's share of each line, in cart order
+  lineDiscounts: number[];
+  freeShipping: boolean;
+}
+
+// Coupons and automatic promotions as the server applied them to the cart
+interface PromotionsQuote {
+  promotions: QuotedPromotion[];
+  // Entered codes left out because a better promotion applies
+  skipped: { code: string; reason: string }[];
+  discount: number;
+  freeShipping: boolean;
+  lines: {
+    productId: string;
+    quantity: number;
+    lineTotal: number;
+    couponDiscount: number;
+  }[];
+}
+
+function describeCoupon(coupon: QuotedPromotion): string {
+  if (coupon.discount_type === "free_shipping") {
+    return "free shipping";
+  }
+
+  if (coupon.discount_type === "buy_x_get_y") {
+    const reward = coupon.discount_value >= 100 ? "free" : `${coupon.discount_value}% off`;
+    return `buy ${coupon.buy_quantity ?? 0} get ${coupon.get_quantity ?? 0} ${reward}`;
+  }
+
+  if (coupon.discount_type === "tiered") {
+    return (coupon.tiers ?? [])
+      .map((tier) => `${tier.percentage}% over $${tier.minimum.toFixed(2)}`)
+      .join(", ");
+  }
+
+  const amount = coupon.discount_type === "percentage"
+    ? `${coupon.discount_value}%`
+    : `$${coupon.discount_value.toFixed(2)}`;
+  const target = coupon.discount_mode === "cheapest_item"
+    ? " off the cheapest item"
+    : coupon.discount_mode === "per_unit"
+      ? " off each item"
+      : " discount";
+  const cap = coupon.max_discount_amount
+    ? ` (up to $${coupon.max_discount_amount.toFixed(2)})`
+    : "";
+
+  return `${amount}${target}${cap}`;
+}
+
+// Matches the limit /api/orders/create accepts
+const MAX_COUPON_CODES = 5;
 
 export default function CheckoutPage() {
   const router = useRouter();
@@ -21,7 +98,9 @@ export default function CheckoutPage() {
   const [orderNumber, setOrderNumber] = useState<string | null>(null);
   const [paymentComplete, setPaymentComplete] = useState(false);
   const paymentProcessedRef = useRef(false);
-  const [selectedCrypto, setSelectedCrypto] = useState<"bitcoin" | "monero">("bitcoin");
+  const [selectedCrypto, setSelectedCrypto] = useState<"bitcoin" | "monero" | "bisq">("bitcoin");
+  const [providers, setProviders] = useState<PaymentProviderSummary[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentProviderId>("btcpay");
   const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
     name: "",
     email: "",
@@ -38,30 +117,54 @@ export default function CheckoutPage() {
   const [shippingCost, setShippingCost] = useState(0);
   const [loadingShipping, setLoadingShipping] = useState(false);
 
-  // Coupon state
+  // Coupon state: the codes the customer entered and the promotions the
+  // server applied for them, automatic ones included
   const [couponCode, setCouponCode] = useState("");
-  const [appliedCoupon, setAppliedCoupon] = useState<{
-    id: string;
-    code: string;
-    discount_type: string;
-    discount_value: number;
-    discount: number;
-  } | null>(null);
+  const [couponCodes, setCouponCodes] = useState<string[]>([]);
+  const [promotionsQuote, setPromotionsQuote] = useState<PromotionsQuote | null>(null);
   const [couponError, setCouponError] = useState("");
   const [applyingCoupon, setApplyingCoupon] = useState(false);
 
   const subtotal = getTotalPrice();
 
-  // Recalculate coupon discount based on current subtotal
-  const couponDiscount = appliedCoupon
-    ? appliedCoupon.discount_type === "percentage"
-      ? subtotal * (appliedCoupon.discount_value / 100)
-      : Math.min(appliedCoupon.discount_value, subtotal) // Cap fixed discount at subtotal
-    : 0;
+  // The discount is calculated per line by the server for the cart as it was
+  // when the promotions were checked; they are checked again whenever the
+  // cart changes
+  const couponDiscount = promotionsQuote?.discount ?? 0;
+  const freeShipping = promotionsQuote?.freeShipping ?? false;
 
   const totalPrice = Math.max(subtotal - couponDiscount + shippingCost, 0); // Ensure total never goes negative
 
-  // Calculate shipping cost when country changes
+  // When the shop runs its own monero wallet, monero skips BTCPay entirely
+  const moneroProvider = providers.find((provider) => provider.id === "monero");
+  const moneroDirect = !!moneroProvider;
+  const moneroConfirmations = moneroProvider?.confirmations ?? 10;
+  const bisqEnabled = providers.some((provider) => provider.id === "bisq");
+
+  useEffect(() => {
+    const fetchProviders = async () => {
+      try {
+        const response = await csrfFetch("/api/payments/providers");
+        if (!response.ok) return;
+        const data = await response.json() as { providers: PaymentProviderSummary[] };
+        setProviders(data.providers);
+      } catch (error) {
+        console.error("Error fetching payment providers:", error);
+      }
+    };
+
+    void fetchProviders();
+  }, []);
+
+  const cartItems = () =>
+    cart.map((item) => ({
+      id: item.id,
+      quantity: item.quantity,
+      selectedModifiers: item.selectedModifiers,
+    }));
+
+  // Calculate shipping cost for the country; a free shipping coupon or
+  // promotion brings it to zero
   const calculateShipping = async (country: string) => {
     if (!country) {
       setShippingCost(0);
@@ -70,12 +173,18 @@ export default function CheckoutPage() {
 
     setLoadingShipping(true);
     try {
-      const response = await fetch("/api/shipping/calculate", {
+      const response = await csrfFetch("/api/shipping/calculate", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ country }),
+        body: JSON.stringify({
+          country,
+          ...(freeShipping && {
+            couponCodes,
+            items: cartItems(),
+          }),
+        }),
       });
 
       if (response.ok) {
@@ -97,67 +206,105 @@ export default function CheckoutPage() {
     }
   };
 
-  // Calculate initial shipping cost on mount
+  // Calculate shipping cost on mount and again whenever free shipping is
+  // gained or lost, since that changes the quote
   useEffect(() => {
     void calculateShipping(shippingAddress.country);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Only run on mount
-
-  const handleApplyCoupon = async () => {
-    if (!couponCode.trim()) {
-      setCouponError("Please enter a coupon code");
-      return;
+  }, [freeShipping]);
+
+  // Ask the server which promotions apply to the cart with these codes.
+  // Returns an error message when one of the codes can't be applied, and
+  // leaves the current promotions as they were.
+  const checkPromotions = async (codes: string[]): Promise<string | null> => {
+    if (cart.length === 0) {
+      setPromotionsQuote(null);
+      return null;
     }
 
-    setApplyingCoupon(true);
-    setCouponError("");
-
     try {
-      const response = await fetch("/api/coupons/validate", {
+      const response = await csrfFetch("/api/coupons/validate", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          code: couponCode,
-          orderTotal: subtotal,
+          codes,
           customerEmail: shippingAddress.email,
-          cartProductIds: cart.map((item) => item.id),
+          items: cartItems(),
         }),
       });
 
-      const data = await response.json() as {
+      const data = await response.json() as Partial<PromotionsQuote> & {
         success?: boolean;
-        coupon?: {
-          id: string;
-          code: string;
-          discount_type: string;
-          discount_value: number;
-          discount: number;
-        };
         error?: string;
       };
 
       if (!response.ok || !data.success) {
-        setCouponError(data.error ?? "Invalid coupon code");
-        setAppliedCoupon(null);
-      } else if (data.coupon) {
-        setAppliedCoupon(data.coupon);
-        setCouponError("");
+        return data.error ?? "Invalid coupon code";
       }
+
+      setCouponCodes(codes);
+      setPromotionsQuote({
+        promotions: data.promotions ?? [],
+        skipped: data.skipped ?? [],
+        discount: data.discount ?? 0,
+        freeShipping: data.freeShipping ?? false,
+        lines: data.lines ?? [],
+      });
+      return null;
     } catch (error) {
-      console.error("Error applying coupon:", error);
-      setCouponError("Failed to apply coupon. Please try again.");
-      setAppliedCoupon(null);
-    } finally {
-      setApplyingCoupon(false);
+      console.error("Error checking promotions:", error);
+      return "Failed to apply coupon. Please try again.";
     }
   };
 
-  const handleRemoveCoupon = () => {
-    setAppliedCoupon(null);
-    setCouponCode("");
+  const handleApplyCoupon = async () => {
+    const code = couponCode.trim();
+
+    if (!code) {
+      setCouponError("Please enter a coupon code");
+      return;
+    }
+
+    setApplyingCoupon(true);
     setCouponError("");
+
+    const error = await checkPromotions([...couponCodes, code]);
+
+    if (error) {
+      setCouponError(error);
+    } else {
+      setCouponCode("");
+    }
+
+    setApplyingCoupon(false);
+  };
+
+  // Re-check the promotions when the cart changes, so the per-line discounts
+  // match what the order will be priced at. A code that no longer applies is
+  // dropped.
+  const cartKey = cart
+    .map((item) => `${item.cartItemId}:${item.quantity}`)
+    .join(",");
+
+  const refreshPromotions = async () => {
+    const error = await checkPromotions(couponCodes);
+
+    if (error && couponCodes.length > 0) {
+      setCouponError(error);
+      await checkPromotions([]);
+    }
+  };
+
+  useEffect(() => {
+    void refreshPromotions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cartKey]); // Only when the cart contents change
+
+  const handleRemoveCoupon = async (code: string) => {
+    setCouponError("");
+    await checkPromotions(couponCodes.filter((entered) => entered !== code));
   };
 
   const handleCheckout = async () => {
@@ -170,9 +317,14 @@ export default function CheckoutPage() {
 
     setIsProcessing(true);
 
+    const method: PaymentProviderId =
+      selectedCrypto === "bisq" ? "bisq"
+      : selectedCrypto === "monero" && moneroDirect ? "monero"
+      : "btcpay";
+
     try {
       // Step 1: Create order in database
-      const orderResponse = await fetch("/api/orders/create", {
+      const orderResponse = await csrfFetch("/api/orders/create", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -190,14 +342,18 @@ export default function CheckoutPage() {
           totalAmount: totalPrice,
           subtotal: subtotal,
           shippingCost: shippingCost,
-          couponCode: appliedCoupon?.code,
-          couponDiscount: couponDiscount,
+          couponCodes,
+          promotions: promotionsQuote?.promotions.map((promotion) => ({
+            code: promotion.code,
+            discount: promotion.discount,
+          })) ?? [],
           shippingAddress,
+          paymentMethod: method,
         }),
       });
 
       if (!orderResponse.ok) {
-        const errorData = await orderResponse.json() as { error: string; insufficientStock?: boolean; productName?: string; availableStock?: number };
+        const errorData = await orderResponse.json() as { error: string; code?: string; insufficientStock?: boolean; productName?: string; availableStock?: number };
         if (errorData.insufficientStock) {
           showToast(`Sorry, ${errorData.productName} is out of stock or has insufficient quantity. Only ${errorData.availableStock} available. Please update your cart.`, "error");
           // Optionally refresh the page to update cart with current stock
@@ -206,6 +362,19 @@ export default function CheckoutPage() {
           }, 3000);
           return;
         }
+        // A coupon ran out or changed since it was applied
+        if (errorData.code === "invalid_coupon") {
+          setCouponError(errorData.error);
+          await checkPromotions([]);
+          showToast(`${errorData.error}. Your total has been updated without your coupons.`, "warning");
+          return;
+        }
+        // An automatic promotion started, ended or ran out
+        if (errorData.code === "promotions_changed") {
+          await refreshPromotions();
+          showToast(errorData.error, "warning");
+          return;
+        }
         // Check for rate limiting (429)
         if (orderResponse.status === 429) {
           showToast("Too many order requests. Please wait before trying again.", "warning");
@@ -217,35 +386,28 @@ export default function CheckoutPage() {
       interface OrderResponse {
         orderId: string;
         orderNumber: string;
+        totalAmount: number;
       }
 
       const orderData = await orderResponse.json() as OrderResponse;
       setOrderId(orderData.orderId);
       setOrderNumber(orderData.orderNumber);
 
-      // Apply coupon usage if a coupon was used
-      if (appliedCoupon && shippingAddress.email) {
-        await fetch("/api/coupons/apply", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            couponId: appliedCoupon.id,
-            customerEmail: shippingAddress.email,
-            orderId: orderData.orderId,
-          }),
-        });
+      // Direct monero and bisq: the payment component sets up payment itself
+      if (method === "monero" || method === "bisq") {
+        setPaymentMethod(method);
+        setShowPayment(true);
+        return;
       }
 
       // Step 2: Create BTCPay invoice
-      const invoiceResponse = await fetch("/api/btcpay/create-invoice", {
+      const invoiceResponse = await csrfFetch("/api/btcpay/create-invoice", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          amount: totalPrice,
+          amount: orderData.totalAmount,
           currency: "USD",
           orderId: orderData.orderId,
           preferredCrypto: selectedCrypto,
@@ -260,20 +422,9 @@ export default function CheckoutPage() {
         invoiceId: string;
       }
 
+      // The invoice is linked to the order when it is created
       const invoiceData = await invoiceResponse.json() as InvoiceResponse;
 
-      // Step 3: Link invoice to order
-      await fetch("/api/orders/update-invoice", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          orderId: orderData.orderId,
-          invoiceId: invoiceData.invoiceId,
-        }),
-      });
-
       setInvoiceId(invoiceData.invoiceId);
       setShowPayment(true);
     } catch (error) {
@@ -292,7 +443,7 @@ export default function CheckoutPage() {
 
     if (orderId) {
       // Mark order as paid
-      await fetch("/api/orders/mark-paid", {
+      await csrfFetch("/api/orders/mark-paid", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -303,7 +454,7 @@ export default function CheckoutPage() {
       // Send order confirmation email if email was provided
       if (shippingAddress.email && orderNumber) {
         try {
-          await fetch("/api/email/order-confirmation", {
+          await csrfFetch("/api/email/order-confirmation", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
@@ -336,6 +487,7 @@ export default function CheckoutPage() {
   const handleCancelPayment = () => {
     setShowPayment(false);
     setInvoiceId(null);
+    setPaymentMethod("btcpay");
   };
 
   // This fallback is kept in case redirect fails, but should rarely be shown
@@ -364,6 +516,36 @@ export default function CheckoutPage() {
     );
   }
 
+  if (showPayment && paymentMethod === "monero" && orderId) {
+    return (
+      <main className="min-h-screen bg-white">
+        <NavigationWrapper />
+        <div className="max-w-5xl mx-auto px-6 py-12">
+          <MoneroCheckout
+            orderId={orderId}
+            onComplete={handlePaymentComplete}
+            onCancel={handleCancelPayment}
+          />
+        </div>
+      </main>
+    );
+  }
+
+  if (showPayment && paymentMethod === "bisq" && orderId) {
+    return (
+      <main className="min-h-screen bg-white">
+        <NavigationWrapper />
+        <div className="max-w-5xl mx-auto px-6 py-12">
+          <BisqCheckout
+            orderId={orderId}
+            onComplete={handlePaymentComplete}
+            onCancel={handleCancelPayment}
+          />
+        </div>
+      </main>
+    );
+  }
+
   if (showPayment && invoiceId) {
     return (
       <main className="min-h-screen bg-white">
@@ -510,7 +692,7 @@ export default function CheckoutPage() {
               <h2 className="text-xl font-bold tracking-wide mb-4">payment method</h2>
               <p className="text-xs tracking-wide mb-4">choose your preferred cryptocurrency</p>
 
-              <div className="grid grid-cols-2 gap-4">
+              <div className={`grid gap-4 ${bisqEnabled ? "grid-cols-3" : "grid-cols-2"}`}>
                 {/* Bitcoin Option */}
                 <button
                   onClick={() => setSelectedCrypto("bitcoin")}
@@ -548,6 +730,27 @@ export default function CheckoutPage() {
                     • 20-30 min confirmation time
                   </div>
                 </button>
+
+                {/* Bisq Option */}
+                {bisqEnabled && (
+                  <button
+                    onClick={() => setSelectedCrypto("bisq")}
+                    className={`brutalist-border p-6 text-left transition-all ${
+                      selectedCrypto === "bisq"
+                        ? "bg-black text-white"
+                        : "bg-white hover:translate-x-1 hover:translate-y-1"
+                    }`}
+                  >
+                    <div className="text-2xl mb-2">⇄</div>
+                    <div className="text-lg font-bold tracking-wide mb-2">bisq</div>
+                    <div className="text-xs tracking-wide opacity-80">
+                      pay in fiat, p2p
+                    </div>
+                    <div className="text-xs tracking-wide opacity-80 mt-2">
+                      • hours to days, by payment method
+                    </div>
+                  </button>
+                )}
               </div>
 
               {/* Monero Info Box */}
@@ -556,9 +759,24 @@ export default function CheckoutPage() {
                   <div className="flex items-start gap-3">
                     <div className="text-xl">ℹ️</div>
                     <div className="text-xs tracking-wide leading-relaxed">
-                      <strong>note:</strong> monero transactions require 10 network confirmations,
-                      which typically takes 20-30 minutes. you can close the payment window after
-                      sending and your order will be confirmed automatically.
+                      <strong>note:</strong> monero transactions require {moneroDirect ? moneroConfirmations : 10} network
+                      confirmations, which typically takes {moneroDirect ? moneroConfirmations * 2 : "20-30"} minutes.
+                      you can close the payment window after sending and your order will be confirmed
+                      automatically.
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Bisq Info Box */}
+              {selectedCrypto === "bisq" && (
+                <div className="mt-4 brutalist-border bg-yellow-50 p-4">
+                  <div className="flex items-start gap-3">
+                    <div className="text-xl">ℹ️</div>
+                    <div className="text-xs tracking-wide leading-relaxed">
+                      <strong>note:</strong> we open an offer to buy bitcoin on the bisq network and you
+                      pay the seller who takes it with your bank or payment app. your order is confirmed
+                      once the seller confirms your payment, which can take a few days for bank transfers.
                     </div>
                   </div>
                 </div>
@@ -573,13 +791,24 @@ export default function CheckoutPage() {
               <div className="h-[2px] w-full bg-black mb-4"></div>
 
               <div className="space-y-2 mb-4">
-                {cart.map((item) => {
+                {cart.map((item, index) => {
                   const basePrice = calculateDiscountedPrice(item.price, item.discount);
                   const modifiersPrice = item.selectedModifiers?.reduce(
                     (sum, mod) => sum + mod.priceAdjustment,
                     0
                   ) ?? 0;
                   const itemTotal = (basePrice + modifiersPrice) * item.quantity;
+                  // Lines come back in cart order; ignore a stale entry while
+                  // the promotions are being re-checked
+                  const isCurrentLine = promotionsQuote?.lines[index]?.productId === item.id;
+                  const linePromotions = isCurrentLine
+                    ? (promotionsQuote?.promotions ?? [])
+                        .map((promotion) => ({
+                          code: promotion.code,
+                          discount: promotion.lineDiscounts[index] ?? 0,
+                        }))
+                        .filter((promotion) => promotion.discount > 0)
+                    : [];
 
                   return (
                     <div key={item.cartItemId}>
@@ -587,6 +816,15 @@ export default function CheckoutPage() {
                         <span>{item.name} x{item.quantity}</span>
                         <span>${itemTotal.toFixed(2)}</span>
                       </div>
+                      {linePromotions.map((promotion) => (
+                        <div
+                          key={promotion.code}
+                          className="flex justify-between text-xs text-green-600 font-bold ml-2 mt-1"
+                        >
+                          <span>{promotion.code}</span>
+                          <span>-${promotion.discount.toFixed(2)}</span>
+                        </div>
+                      ))}
                       {item.selectedModifiers && item.selectedModifiers.length > 0 && (
                         <div className="ml-2 mt-1 space-y-0.5">
                           {item.selectedModifiers.map((modifier, idx) => (
@@ -611,7 +849,51 @@ export default function CheckoutPage() {
                 <label className="block text-sm font-bold tracking-wide mb-2">
                   coupon code
                 </label>
-                {!appliedCoupon ? (
+                {(promotionsQuote?.promotions.length ?? 0) > 0 && (
+                  <div className="space-y-2 mb-2">
+                    {promotionsQuote?.promotions.map((promotion) => (
+                      <div key={promotion.couponId} className="brutalist-border bg-green-50 p-3">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-sm font-bold tracking-wide">{promotion.code}</span>
+                          {promotion.automatic ? (
+                            <span className="text-xs tracking-wide opacity-60">applied automatically</span>
+                          ) : (
+                            <button
+                              onClick={() => void handleRemoveCoupon(promotion.code)}
+                              className="text-xs hover:opacity-50"
+                            >
+                              ✕ remove
+                            </button>
+                          )}
+                        </div>
+                        <p className="text-xs tracking-wide opacity-60">
+                          {promotion.description ?? describeCoupon(promotion)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {(promotionsQuote?.skipped.length ?? 0) > 0 && (
+                  <div className="space-y-2 mb-2">
+                    {promotionsQuote?.skipped.map((skipped) => (
+                      <div key={skipped.code} className="brutalist-border p-3">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-sm font-bold tracking-wide line-through opacity-60">{skipped.code}</span>
+                          <button
+                            onClick={() => void handleRemoveCoupon(skipped.code)}
+                            className="text-xs hover:opacity-50"
+                          >
+                            ✕ remove
+                          </button>
+                        </div>
+                        <p className="text-xs tracking-wide opacity-60">
+                          not applied: {skipped.reason}, and the better discount was kept
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {couponCodes.length < MAX_COUPON_CODES && (
                   <div className="space-y-2">
                     <div className="flex gap-2">
                       <input
@@ -629,7 +911,7 @@ export default function CheckoutPage() {
                         disabled={applyingCoupon}
                       />
                       <button
-                        onClick={handleApplyCoupon}
+                        onClick={() => void handleApplyCoupon()}
                         disabled={applyingCoupon || !couponCode.trim()}
                         className="btn-brutalist text-xs px-2 py-2 whitespace-nowrap flex-shrink-0"
                       >
@@ -640,23 +922,6 @@ export default function CheckoutPage() {
                       <p className="text-xs text-red-600">{couponError}</p>
                     )}
                   </div>
-                ) : (
-                  <div className="brutalist-border bg-green-50 p-3">
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="text-sm font-bold tracking-wide">{appliedCoupon.code}</span>
-                      <button
-                        onClick={handleRemoveCoupon}
-                        className="text-xs hover:opacity-50"
-                      >
-                        ✕ remove
-                      </button>
-                    </div>
-                    <p className="text-xs tracking-wide opacity-60">
-                      {appliedCoupon.discount_type === "percentage"
-                        ? `${appliedCoupon.discount_value}% discount`
-                        : `$${appliedCoupon.discount_value.toFixed(2)} discount`}
-                    </p>
-                  </div>
                 )}
               </div>
 
@@ -668,9 +933,9 @@ export default function CheckoutPage() {
                   <span>subtotal</span>
                   <span>${subtotal.toFixed(2)}</span>
                 </div>
-                {appliedCoupon && (
+                {couponDiscount > 0 && (
                   <div className="flex justify-between text-sm text-green-600 font-bold">
-                    <span>coupon discount</span>
+                    <span>discounts</span>
                     <span>-${couponDiscount.toFixed(2)}</span>
                   </div>
                 )}
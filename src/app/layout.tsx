@@ -2,6 +2,8 @@ import "~/styles/globals.css";
 
 import { type Metadata, type Viewport } from "next";
 import { Space_Mono } from "next/font/google";
+import { headers } from "next/headers";
+import { NonceProvider } from "~/context/NonceContext";
 import { CartProvider } from "~/context/CartContext";
 import { ToastProvider } from "~/context/ToastContext";
 import { ToastContainer } from "~/components/ToastContainer";
@@ -25,19 +27,25 @@ const spaceMono = Space_Mono({
   variable: "--font-mono",
 });
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{ children: React.ReactNode }>) {
+  // Reading the request makes every page render per request, so each one is
+  // served with scripts carrying the nonce in its Content-Security-Policy
+  const nonce = (await headers()).get("x-nonce") ?? undefined;
+
   return (
     <html lang="en" className={`${spaceMono.variable}`}>
       <body className="bg-white text-black antialiased">
-        <ToastProvider>
-          <Banner />
-          <CartProvider>
-            {children}
-          </CartProvider>
-          <ToastContainer />
-        </ToastProvider>
+        <NonceProvider nonce={nonce}>
+          <ToastProvider>
+            <Banner />
+            <CartProvider>
+              {children}
+            </CartProvider>
+            <ToastContainer />
+          </ToastProvider>
+        </NonceProvider>
       </body>
     </html>
   );
@@ -2,9 +2,13 @@
 
 import { useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import { csrfFetch } from "~/lib/security/csrf-client";
 
 function LoginForm() {
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
@@ -16,18 +20,39 @@ function LoginForm() {
     setIsLoading(true);
 
     try {
-      const response = await fetch("/api/auth/login", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ password }),
-      });
+      const response = challengeToken
+        ? await csrfFetch("/api/auth/login/two-factor", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ challengeToken, code }),
+        })
+        : await csrfFetch("/api/auth/login", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ username, password }),
+        });
+
+      const data = await response.json() as {
+        error?: string;
+        twoFactorRequired?: boolean;
+        challengeToken?: string;
+      };
 
       if (!response.ok) {
-        const data = await response.json() as { error?: string };
         setError(data.error ?? "authentication failed");
         setPassword("");
+        setCode("");
+        setIsLoading(false);
+        return;
+      }
+
+      if (data.twoFactorRequired && data.challengeToken) {
+        setChallengeToken(data.challengeToken);
+        setPassword("");
         setIsLoading(false);
         return;
       }
@@ -52,27 +77,67 @@ function LoginForm() {
           <div className="mb-8">
             <h1 className="text-2xl font-semibold text-gray-900 mb-2">symphony labs</h1>
             <p className="text-sm text-gray-600">
-              enter password to access the site
+              sign in with your staff account to access the site
             </p>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-5">
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                password
-              </label>
-              <input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="input-brutalist w-full"
-                required
-                disabled={isLoading}
-                autoComplete="current-password"
-                autoFocus
-              />
-            </div>
+            {challengeToken ? (
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                  authentication code
+                </label>
+                <input
+                  type="text"
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input-brutalist w-full"
+                  required
+                  disabled={isLoading}
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  the 6-digit code from your authenticator app, or a backup code
+                </p>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                    username
+                  </label>
+                  <input
+                    type="text"
+                    id="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="input-brutalist w-full"
+                    required
+                    disabled={isLoading}
+                    autoComplete="username"
+                    autoFocus
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                    password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input-brutalist w-full"
+                    required
+                    disabled={isLoading}
+                    autoComplete="current-password"
+                  />
+                </div>
+              </>
+            )}
 
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
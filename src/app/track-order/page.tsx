@@ -2,7 +2,6 @@
 
 import { useState } from "react";
 import NavigationWrapper from "~/components/NavigationWrapper";
-import { supabase } from "~/lib/supabase";
 
 interface Order {
   id: string;
@@ -15,9 +14,15 @@ interface Order {
   shipped_at: string | null;
 }
 
+interface TimelineEntry {
+  status: string;
+  at: string;
+}
+
 export default function TrackOrderPage() {
   const [orderId, setOrderId] = useState("");
   const [order, setOrder] = useState<Order | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,22 +37,30 @@ export default function TrackOrderPage() {
     setLoading(true);
     setError(null);
     setOrder(null);
+    setTimeline([]);
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from("orders")
-        .select("id, order_number, status, total_amount, shipping_tracking_url, created_at, paid_at, shipped_at")
-        .eq("id", orderId.trim())
-        .single();
-
-      if (fetchError || !data) {
-        setError("Order not found. Please check your order ID and try again.");
+      const response = await fetch(`/api/orders/track/${encodeURIComponent(orderId.trim())}`);
+
+      if (!response.ok) {
+        setError(
+          response.status === 404
+            ? "Order not found. Please check your order ID and try again."
+            : "Failed to fetch order. Please try again."
+        );
         return;
       }
 
-      const orderData = data as Order;
+      const orderData = await response.json() as Order;
       setOrder(orderData);
 
+      // The timeline is a nice-to-have; the order details stand on their own
+      const timelineResponse = await fetch(`/api/orders/timeline/${orderData.id}`);
+      if (timelineResponse.ok) {
+        const timelineData = await timelineResponse.json() as { timeline: TimelineEntry[] };
+        setTimeline(timelineData.timeline);
+      }
+
       // If there's a tracking URL, open it
       if (orderData.shipping_tracking_url) {
         window.open(orderData.shipping_tracking_url, "_blank");
@@ -129,12 +142,12 @@ export default function TrackOrderPage() {
                         ? "bg-green-100 text-green-800"
                         : order.status === "paid"
                         ? "bg-blue-100 text-blue-800"
-                        : order.status === "pending"
+                        : order.status === "pending" || order.status === "awaiting_payment"
                         ? "bg-yellow-100 text-yellow-800"
                         : "bg-gray-100 text-gray-800"
                     }`}
                   >
-                    {order.status}
+                    {order.status.replace("_", " ")}
                   </span>
                 </div>
               </div>
@@ -169,6 +182,20 @@ export default function TrackOrderPage() {
                 </div>
               )}
 
+              {timeline.length > 0 && (
+                <div>
+                  <div className="text-xs tracking-wide opacity-60 mb-1">history</div>
+                  <div className="space-y-1">
+                    {timeline.map((entry, idx) => (
+                      <div key={idx} className="flex justify-between text-sm tracking-wide">
+                        <span className="font-bold">{entry.status.replace("_", " ")}</span>
+                        <span className="opacity-60">{new Date(entry.at).toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {order.shipping_tracking_url && (
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <a
@@ -1,14 +1,18 @@
 "use client";
 
 import { useState } from "react";
+import type { LoginResult } from "~/context/AdminAuthContext";
 
 interface AdminLoginProps {
-  onLogin: (username: string, password: string) => Promise<boolean>;
+  onLogin: (username: string, password: string) => Promise<LoginResult>;
+  onVerifyTwoFactor: (code: string) => Promise<boolean>;
 }
 
-export default function AdminLogin({ onLogin }: AdminLoginProps) {
+export default function AdminLogin({ onLogin, onVerifyTwoFactor }: AdminLoginProps) {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [needsCode, setNeedsCode] = useState(false);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
@@ -17,16 +21,39 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
     setError("");
     setIsLoading(true);
 
-    const success = await onLogin(username, password);
+    const result = await onLogin(username, password);
 
-    if (!success) {
+    if (result === "two-factor") {
+      setNeedsCode(true);
+    } else if (result === "invalid") {
       setError("invalid username or password");
-      setPassword("");
+    }
+
+    setPassword("");
+    setIsLoading(false);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    const success = await onVerifyTwoFactor(code);
+
+    if (!success) {
+      setError("invalid code. if this keeps happening, start again.");
+      setCode("");
     }
 
     setIsLoading(false);
   };
 
+  const startOver = () => {
+    setNeedsCode(false);
+    setCode("");
+    setError("");
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
       <div className="w-full max-w-md">
@@ -38,53 +65,101 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
             </p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-5">
-            <div>
-              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-                username
-              </label>
-              <input
-                type="text"
-                id="username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className="input-brutalist w-full"
-                required
+          {needsCode ? (
+            <form onSubmit={handleVerify} className="space-y-5">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                  authentication code
+                </label>
+                <input
+                  type="text"
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input-brutalist w-full"
+                  required
+                  disabled={isLoading}
+                  autoComplete="one-time-code"
+                  inputMode="text"
+                  autoFocus
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  the 6-digit code from your authenticator app, or a backup code
+                </p>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
                 disabled={isLoading}
-                autoComplete="username"
-              />
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                password
-              </label>
-              <input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="input-brutalist w-full"
-                required
+                className="btn-brutalist-black w-full"
+              >
+                {isLoading ? "verifying..." : "verify"}
+              </button>
+
+              <button
+                type="button"
+                onClick={startOver}
                 disabled={isLoading}
-                autoComplete="current-password"
-              />
-            </div>
+                className="btn-brutalist w-full"
+              >
+                start again
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                  username
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="input-brutalist w-full"
+                  required
+                  disabled={isLoading}
+                  autoComplete="username"
+                />
+              </div>
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
-                {error}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input-brutalist w-full"
+                  required
+                  disabled={isLoading}
+                  autoComplete="current-password"
+                />
               </div>
-            )}
-
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="btn-brutalist-black w-full"
-            >
-              {isLoading ? "logging in..." : "login"}
-            </button>
-          </form>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-brutalist-black w-full"
+              >
+                {isLoading ? "logging in..." : "login"}
+              </button>
+            </form>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,352 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { csrfFetch } from "~/lib/security/csrf-client";
+
+type BisqTradeProgress =
+  | "offer_open"
+  | "deposit_pending"
+  | "awaiting_payment"
+  | "payment_sent"
+  | "payment_received"
+  | "completed";
+
+interface BisqTradeView {
+  orderId: string;
+  shortId: string;
+  status: "offer_open" | "trading" | "completed" | "expired" | "cancelled";
+  progress: BisqTradeProgress;
+  paymentMethod: string;
+  fiatAmount: number;
+  currencyCode: string;
+  btcAmount: number;
+  sellerPaymentDetails: string | null;
+  offerExpiresAt: string | null;
+}
+
+interface PaymentOption {
+  id: string;
+  paymentMethodId: string;
+  name: string;
+}
+
+interface BisqCheckoutProps {
+  orderId: string;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+const STEPS: { progress: BisqTradeProgress; label: string }[] = [
+  { progress: "offer_open", label: "offer published" },
+  { progress: "deposit_pending", label: "seller found" },
+  { progress: "awaiting_payment", label: "send payment" },
+  { progress: "payment_sent", label: "payment sent" },
+  { progress: "payment_received", label: "payment received" },
+  { progress: "completed", label: "complete" },
+];
+
+export default function BisqCheckout({
+  orderId,
+  onComplete,
+  onCancel,
+}: BisqCheckoutProps) {
+  const [trade, setTrade] = useState<BisqTradeView | null>(null);
+  const [paymentOptions, setPaymentOptions] = useState<PaymentOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [completionTriggered, setCompletionTriggered] = useState(false);
+
+  const applyTrade = useCallback((data: BisqTradeView) => {
+    setTrade(data);
+
+    // Only trigger completion once to prevent duplicate emails
+    if (data.status === "completed" && !completionTriggered) {
+      setCompletionTriggered(true);
+      onComplete();
+    }
+  }, [onComplete, completionTriggered]);
+
+  const fetchTrade = useCallback(async () => {
+    try {
+      const response = await csrfFetch(`/api/bisq/trade/${orderId}`);
+
+      // No offer yet: the shopper still has to pick a payment method
+      if (response.status === 404) {
+        const statusResponse = await csrfFetch("/api/bisq/status");
+        const status = await statusResponse.json() as { paymentMethods: PaymentOption[] };
+        setPaymentOptions(status.paymentMethods);
+        return;
+      }
+
+      if (!response.ok) throw new Error("Failed to fetch trade status");
+
+      applyTrade(await response.json() as BisqTradeView);
+    } catch (err) {
+      console.error("Error fetching trade status:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, applyTrade]);
+
+  const hasTrade = trade !== null;
+
+  // Initial load only; polling below takes over once the offer exists
+  useEffect(() => {
+    if (!hasTrade) void fetchTrade();
+  }, [hasTrade, fetchTrade]);
+
+  const isOpen = trade !== null && (trade.status === "offer_open" || trade.status === "trading");
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const interval = setInterval(() => {
+      void fetchTrade();
+    }, 30000);
+
+    return () => clearInterval(interval);
+  }, [isOpen, fetchTrade]);
+
+  const openOffer = async (paymentAccountId: string) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await csrfFetch("/api/bisq/create-trade", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ orderId, paymentAccountId }),
+      });
+
+      const data = await response.json() as BisqTradeView & { error?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to create offer");
+      }
+
+      applyTrade(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create offer");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const confirmPaymentSent = async () => {
+    setSubmitting(true);
+    try {
+      const response = await csrfFetch("/api/bisq/confirm-payment", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ orderId }),
+      });
+
+      const data = await response.json() as BisqTradeView & { error?: string; trade?: BisqTradeView };
+
+      if (!response.ok) {
+        if (data.trade) applyTrade(data.trade);
+        throw new Error(data.error ?? "Failed to confirm payment");
+      }
+
+      applyTrade(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to confirm payment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    void navigator.clipboard.writeText(text);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <div className="text-center">
+          <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          <p className="text-sm tracking-wide">preparing bisq trade...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!trade) {
+    return (
+      <div className="brutalist-border bg-white">
+        <div className="border-b-[3px] border-black p-6">
+          <h2 className="text-2xl font-bold tracking-wide mb-2">pay with bisq</h2>
+          <p className="text-sm tracking-wide">
+            we publish an offer to buy bitcoin on the bisq p2p network. a seller takes it and you
+            pay them directly in fiat - no account or kyc with us.
+          </p>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="text-sm font-bold tracking-wide">how will you pay?</div>
+          {paymentOptions.length === 0 ? (
+            <p className="text-sm tracking-wide">no bisq payment methods are available right now.</p>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              {paymentOptions.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => void openOffer(option.id)}
+                  disabled={submitting}
+                  className="brutalist-border p-4 text-left bg-white hover:translate-x-1 hover:translate-y-1 transition-transform"
+                >
+                  <div className="text-lg font-bold tracking-wide">{option.name.toLowerCase()}</div>
+                </button>
+              ))}
+            </div>
+          )}
+          {error && <p className="text-sm tracking-wide text-red-600">{error}</p>}
+        </div>
+        <div className="border-t-[3px] border-black p-4 flex justify-end">
+          <button onClick={onCancel} className="btn-brutalist text-xs">
+            go back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (trade.status === "expired" || trade.status === "cancelled") {
+    return (
+      <div className="brutalist-border bg-white p-8 text-center">
+        <div className="text-4xl mb-4">[ {trade.status} ]</div>
+        <p className="text-sm tracking-wide mb-4">
+          {trade.status === "expired"
+            ? "no seller took the offer in time. please create a new order."
+            : "this trade was cancelled. please create a new order."}
+        </p>
+        <button onClick={onCancel} className="btn-brutalist text-sm">
+          go back
+        </button>
+      </div>
+    );
+  }
+
+  const currentStep = STEPS.findIndex((step) => step.progress === trade.progress);
+
+  return (
+    <div className="brutalist-border bg-white">
+      {/* Header */}
+      <div className="border-b-[3px] border-black p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-2xl font-bold tracking-wide mb-2">bisq trade {trade.shortId}</h2>
+            <p className="text-sm tracking-wide">paying with {trade.paymentMethod.toLowerCase()}</p>
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-bold tracking-wide">
+              {trade.fiatAmount.toFixed(2)} {trade.currencyCode}
+            </div>
+            <div className="text-xs tracking-wide">{trade.btcAmount.toFixed(8)} BTC</div>
+          </div>
+        </div>
+
+        {/* Progress */}
+        <div className="flex flex-wrap gap-2">
+          {STEPS.map((step, index) => (
+            <span
+              key={step.progress}
+              className={`brutalist-border px-2 py-1 text-xs tracking-wide ${
+                index <= currentStep ? "bg-black text-white" : "bg-white"
+              }`}
+            >
+              {step.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {trade.progress === "offer_open" && (
+          <div className="text-sm tracking-wide">
+            <p className="animate-pulse mb-2">waiting for a seller to take the offer...</p>
+            {trade.offerExpiresAt && (
+              <p className="text-xs">
+                the offer stays open until {new Date(trade.offerExpiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {trade.progress === "deposit_pending" && (
+          <p className="text-sm tracking-wide animate-pulse">
+            a seller took the offer. waiting for the trade deposit to confirm on the bitcoin network
+            (usually 10-30 minutes)...
+          </p>
+        )}
+
+        {trade.progress === "awaiting_payment" && trade.sellerPaymentDetails && (
+          <>
+            <div>
+              <div className="text-sm font-bold tracking-wide mb-2">
+                send exactly {trade.fiatAmount.toFixed(2)} {trade.currencyCode} to
+              </div>
+              <div className="brutalist-border p-3 bg-white flex items-start justify-between gap-2">
+                <pre className="text-xs font-mono whitespace-pre-wrap break-all flex-1">
+                  {trade.sellerPaymentDetails}
+                </pre>
+                <button
+                  onClick={() => copyToClipboard(trade.sellerPaymentDetails ?? "")}
+                  className="brutalist-border px-3 py-1 text-xs font-bold bg-white hover:translate-x-1 hover:translate-y-1 transition-transform flex-shrink-0"
+                >
+                  copy
+                </button>
+              </div>
+            </div>
+            <div className="brutalist-border bg-yellow-50 p-4 text-xs tracking-wide leading-relaxed space-y-2">
+              <p>• use reference <strong>{trade.shortId}</strong> and nothing else</p>
+              <p>• never mention bitcoin, btc or bisq in the payment</p>
+              <p>• click the button below once the payment has left your account</p>
+            </div>
+            <button
+              onClick={() => void confirmPaymentSent()}
+              disabled={submitting}
+              className="btn-brutalist-black text-sm w-full"
+            >
+              {submitting ? "confirming..." : "i've sent the payment"}
+            </button>
+          </>
+        )}
+
+        {trade.progress === "payment_sent" && (
+          <p className="text-sm tracking-wide animate-pulse">
+            waiting for the seller to confirm your payment arrived. bank transfers can take a few
+            days - you can close this window and we&apos;ll email you when your order is confirmed.
+          </p>
+        )}
+
+        {trade.progress === "payment_received" && (
+          <p className="text-sm tracking-wide animate-pulse">
+            the seller received your payment. waiting for the trade payout...
+          </p>
+        )}
+
+        {trade.progress === "completed" && (
+          <p className="text-sm tracking-wide font-bold">payment complete</p>
+        )}
+
+        {error && <p className="text-sm tracking-wide text-red-600">{error}</p>}
+      </div>
+
+      {/* Footer - Only show before the offer is taken */}
+      {trade.progress === "offer_open" && (
+        <div className="border-t-[3px] border-black p-4 flex justify-between items-center">
+          <p className="text-xs tracking-wide">
+            peer-to-peer via the bisq network
+          </p>
+          <button onClick={onCancel} className="btn-brutalist text-xs">
+            cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,530 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { Coupon, CouponDiscountMode, CouponDiscountType } from "~/lib/supabase";
+
+// Form state for a coupon's rules: everything except the code itself, so
+// single coupons and generated campaign codes share the same controls.
+// Numbers are kept as the strings typed into the inputs.
+export interface CouponRulesForm {
+  discount_type: CouponDiscountType;
+  discount_value: string;
+  discount_mode: CouponDiscountMode;
+  max_discount_amount: string;
+  buy_quantity: string;
+  get_quantity: string;
+  tiers: { minimum: string; percentage: string }[];
+  minimum_order_amount: string;
+  one_per_customer: boolean;
+  valid_from: string;
+  valid_until: string;
+  active: boolean;
+  applicable_to: "all" | "specific";
+  product_ids: string[];
+  stackable: boolean;
+  combines_with_product_discount: boolean;
+}
+
+interface CouponRulesFieldsProps {
+  value: CouponRulesForm;
+  onChange: (value: CouponRulesForm) => void;
+  products: { id: string; name: string }[];
+  // Shown next to the minimum order amount
+  maxUsesField?: ReactNode;
+}
+
+export function emptyCouponRules(): CouponRulesForm {
+  return {
+    discount_type: "percentage",
+    discount_value: "",
+    discount_mode: "total",
+    max_discount_amount: "",
+    buy_quantity: "",
+    get_quantity: "",
+    tiers: [],
+    minimum_order_amount: "",
+    one_per_customer: false,
+    valid_from: new Date().toISOString().split('T')[0] ?? "",
+    valid_until: "",
+    active: true,
+    applicable_to: "all",
+    product_ids: [],
+    stackable: false,
+    combines_with_product_discount: true,
+  };
+}
+
+export function couponRulesFromCoupon(coupon: Coupon): CouponRulesForm {
+  return {
+    discount_type: coupon.discount_type,
+    discount_value: coupon.discount_value.toString(),
+    discount_mode: coupon.discount_mode,
+    max_discount_amount: coupon.max_discount_amount?.toString() ?? "",
+    buy_quantity: coupon.buy_quantity?.toString() ?? "",
+    get_quantity: coupon.get_quantity?.toString() ?? "",
+    tiers: (coupon.tiers ?? []).map((tier) => ({
+      minimum: tier.minimum.toString(),
+      percentage: tier.percentage.toString(),
+    })),
+    minimum_order_amount: coupon.minimum_order_amount?.toString() ?? "",
+    one_per_customer: coupon.one_per_customer,
+    valid_from: coupon.valid_from.split('T')[0] ?? "",
+    valid_until: coupon.valid_until?.split('T')[0] ?? "",
+    active: coupon.active,
+    applicable_to: coupon.applicable_to,
+    product_ids: coupon.product_ids ?? [],
+    stackable: coupon.stackable,
+    combines_with_product_discount: coupon.combines_with_product_discount,
+  };
+}
+
+/**
+ * One-line summary of what a coupon gives, for admin lists
+ */
+export function describeCouponDiscount(
+  coupon: Pick<
+    Coupon,
+    "discount_type" | "discount_value" | "discount_mode" | "buy_quantity" | "get_quantity" | "tiers"
+  >
+): string {
+  switch (coupon.discount_type) {
+    case "free_shipping":
+      return "Free shipping";
+    case "buy_x_get_y":
+      return `Buy ${coupon.buy_quantity ?? 0} get ${coupon.get_quantity ?? 0}` +
+        (coupon.discount_value >= 100 ? " free" : ` ${coupon.discount_value}% off`);
+    case "tiered":
+      return (coupon.tiers ?? [])
+        .map((tier) => `${tier.percentage}% over $${tier.minimum.toFixed(2)}`)
+        .join(", ");
+    case "percentage":
+    case "fixed": {
+      const amount = coupon.discount_type === "percentage"
+        ? `${coupon.discount_value}%`
+        : `$${coupon.discount_value.toFixed(2)}`;
+      return amount +
+        (coupon.discount_mode === "per_unit" ? " per unit" : "") +
+        (coupon.discount_mode === "cheapest_item" ? " on cheapest item" : "");
+    }
+  }
+}
+
+function usesDiscountValue(discountType: CouponDiscountType): boolean {
+  return discountType === "percentage" || discountType === "fixed" || discountType === "buy_x_get_y";
+}
+
+/**
+ * The rules as the admin coupon APIs expect them
+ */
+export function toCouponRules(form: CouponRulesForm) {
+  return {
+    discount_type: form.discount_type,
+    // Free shipping and tiered coupons don't use a single discount value
+    discount_value: usesDiscountValue(form.discount_type) ? parseFloat(form.discount_value) : 0,
+    discount_mode: form.discount_mode,
+    max_discount_amount: form.max_discount_amount && form.discount_type !== "free_shipping"
+      ? parseFloat(form.max_discount_amount)
+      : null,
+    buy_quantity: form.discount_type === "buy_x_get_y" ? parseInt(form.buy_quantity) : null,
+    get_quantity: form.discount_type === "buy_x_get_y" ? parseInt(form.get_quantity) : null,
+    tiers: form.discount_type === "tiered"
+      ? form.tiers
+          .map((tier) => ({ minimum: parseFloat(tier.minimum), percentage: parseFloat(tier.percentage) }))
+          .sort((a, b) => a.minimum - b.minimum)
+      : null,
+    minimum_order_amount: form.minimum_order_amount ? parseFloat(form.minimum_order_amount) : null,
+    one_per_customer: form.one_per_customer,
+    valid_from: form.valid_from,
+    valid_until: form.valid_until || null,
+    active: form.active,
+    applicable_to: form.applicable_to,
+    product_ids: form.applicable_to === "specific" && form.product_ids.length > 0 ? form.product_ids : null,
+    stackable: form.stackable,
+    combines_with_product_discount: form.combines_with_product_discount,
+  };
+}
+
+export default function CouponRulesFields({ value, onChange, products, maxUsesField }: CouponRulesFieldsProps) {
+  const hasDiscountValue = usesDiscountValue(value.discount_type);
+
+  const updateTier = (index: number, field: "minimum" | "percentage", text: string) => {
+    onChange({
+      ...value,
+      tiers: value.tiers.map((tier, i) => (i === index ? { ...tier, [field]: text } : tier)),
+    });
+  };
+
+  return (
+    <>
+      {/* Discount Type and Value */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="discount_type" className="block text-sm font-bold tracking-wide mb-2">
+            discount type *
+          </label>
+          <select
+            id="discount_type"
+            value={value.discount_type}
+            onChange={(e) => onChange({ ...value, discount_type: e.target.value as CouponDiscountType })}
+            className="input-brutalist w-full"
+            required
+          >
+            <option value="percentage">Percentage (%)</option>
+            <option value="fixed">Fixed Amount ($)</option>
+            <option value="free_shipping">Free Shipping</option>
+            <option value="buy_x_get_y">Buy X Get Y</option>
+            <option value="tiered">Tiered Spend (%)</option>
+          </select>
+        </div>
+
+        {hasDiscountValue && (
+          <div>
+            <label htmlFor="discount_value" className="block text-sm font-bold tracking-wide mb-2">
+              {value.discount_type === "buy_x_get_y" ? "discount on Y items *" : "discount value *"}
+            </label>
+            <input
+              type="number"
+              id="discount_value"
+              step="0.01"
+              min="0"
+              max={value.discount_type === "fixed" ? undefined : "100"}
+              value={value.discount_value}
+              onChange={(e) => onChange({ ...value, discount_value: e.target.value })}
+              className="input-brutalist w-full"
+              required
+              placeholder={value.discount_type === "fixed" ? "20.00" : value.discount_type === "buy_x_get_y" ? "100" : "10"}
+            />
+            <p className="text-xs tracking-wide mt-1 opacity-60">
+              {value.discount_type === "fixed"
+                ? "dollar amount"
+                : value.discount_type === "buy_x_get_y"
+                  ? "1-100% (100 = free)"
+                  : "1-100%"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Buy X Get Y */}
+      {value.discount_type === "buy_x_get_y" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="buy_quantity" className="block text-sm font-bold tracking-wide mb-2">
+              buy (X) *
+            </label>
+            <input
+              type="number"
+              id="buy_quantity"
+              min="1"
+              step="1"
+              value={value.buy_quantity}
+              onChange={(e) => onChange({ ...value, buy_quantity: e.target.value })}
+              className="input-brutalist w-full"
+              required
+              placeholder="1"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="get_quantity" className="block text-sm font-bold tracking-wide mb-2">
+              get (Y) *
+            </label>
+            <input
+              type="number"
+              id="get_quantity"
+              min="1"
+              step="1"
+              value={value.get_quantity}
+              onChange={(e) => onChange({ ...value, get_quantity: e.target.value })}
+              className="input-brutalist w-full"
+              required
+              placeholder="1"
+            />
+            <p className="text-xs tracking-wide mt-1 opacity-60">
+              the cheapest eligible items are discounted
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Spend Tiers */}
+      {value.discount_type === "tiered" && (
+        <div>
+          <label className="block text-sm font-bold tracking-wide mb-2">
+            spend tiers *
+          </label>
+          <div className="space-y-2">
+            {value.tiers.map((tier, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-xs tracking-wide">over $</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={tier.minimum}
+                  onChange={(e) => updateTier(index, "minimum", e.target.value)}
+                  className="input-brutalist w-28"
+                  required
+                  placeholder="100.00"
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max="100"
+                  value={tier.percentage}
+                  onChange={(e) => updateTier(index, "percentage", e.target.value)}
+                  className="input-brutalist w-20"
+                  required
+                  placeholder="10"
+                />
+                <span className="text-xs tracking-wide">% off</span>
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...value, tiers: value.tiers.filter((_, i) => i !== index) })}
+                  className="text-xs hover:opacity-50"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, tiers: [...value.tiers, { minimum: "", percentage: "" }] })}
+            className="btn-brutalist text-xs px-3 py-1 mt-2"
+            disabled={value.tiers.length >= 10}
+          >
+            + add tier
+          </button>
+          <p className="text-xs tracking-wide mt-1 opacity-60">
+            the highest tier reached by eligible items applies
+          </p>
+        </div>
+      )}
+
+      {/* Discount Mode and Maximum Discount */}
+      {value.discount_type !== "free_shipping" && (
+        <div className="grid grid-cols-2 gap-4">
+          {(value.discount_type === "percentage" || value.discount_type === "fixed") ? (
+            <div>
+              <label htmlFor="discount_mode" className="block text-sm font-bold tracking-wide mb-2">
+                apply discount to *
+              </label>
+              <select
+                id="discount_mode"
+                value={value.discount_mode}
+                onChange={(e) => onChange({ ...value, discount_mode: e.target.value as CouponDiscountMode })}
+                className="input-brutalist w-full"
+                required
+              >
+                <option value="total">Eligible items&apos; total</option>
+                <option value="per_unit">Each eligible unit</option>
+                <option value="cheapest_item">Cheapest eligible item</option>
+              </select>
+              <p className="text-xs tracking-wide mt-1 opacity-60">
+                {value.discount_mode === "per_unit"
+                  ? "fixed amounts are taken off every unit"
+                  : value.discount_mode === "cheapest_item"
+                    ? "one unit of the cheapest eligible item"
+                    : "eligible items include their selected options"}
+              </p>
+            </div>
+          ) : (
+            <div />
+          )}
+
+          <div>
+            <label htmlFor="max_discount_amount" className="block text-sm font-bold tracking-wide mb-2">
+              maximum discount
+            </label>
+            <input
+              type="number"
+              id="max_discount_amount"
+              step="0.01"
+              min="0.01"
+              value={value.max_discount_amount}
+              onChange={(e) => onChange({ ...value, max_discount_amount: e.target.value })}
+              className="input-brutalist w-full"
+              placeholder="no cap"
+            />
+            <p className="text-xs tracking-wide mt-1 opacity-60">
+              leave empty for no cap
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Minimum Order Amount (and Max Uses) */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="minimum_order_amount" className="block text-sm font-bold tracking-wide mb-2">
+            minimum order amount
+          </label>
+          <input
+            type="number"
+            id="minimum_order_amount"
+            step="0.01"
+            min="0"
+            value={value.minimum_order_amount}
+            onChange={(e) => onChange({ ...value, minimum_order_amount: e.target.value })}
+            className="input-brutalist w-full"
+            placeholder="0.00 (optional)"
+          />
+          <p className="text-xs tracking-wide mt-1 opacity-60">
+            leave empty for no minimum
+          </p>
+        </div>
+
+        {maxUsesField}
+      </div>
+
+      {/* Valid From and Valid Until */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="valid_from" className="block text-sm font-bold tracking-wide mb-2">
+            valid from *
+          </label>
+          <input
+            type="date"
+            id="valid_from"
+            value={value.valid_from}
+            onChange={(e) => onChange({ ...value, valid_from: e.target.value })}
+            className="input-brutalist w-full"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="valid_until" className="block text-sm font-bold tracking-wide mb-2">
+            valid until
+          </label>
+          <input
+            type="date"
+            id="valid_until"
+            value={value.valid_until}
+            onChange={(e) => onChange({ ...value, valid_until: e.target.value })}
+            className="input-brutalist w-full"
+          />
+          <p className="text-xs tracking-wide mt-1 opacity-60">
+            leave empty for no expiration
+          </p>
+        </div>
+      </div>
+
+      {/* Checkboxes */}
+      <div className="space-y-3">
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={value.one_per_customer}
+            onChange={(e) => onChange({ ...value, one_per_customer: e.target.checked })}
+            className="w-5 h-5"
+          />
+          <span className="text-sm font-bold tracking-wide">
+            one per customer (each customer can only use once)
+          </span>
+        </label>
+
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={value.active}
+            onChange={(e) => onChange({ ...value, active: e.target.checked })}
+            className="w-5 h-5"
+          />
+          <span className="text-sm font-bold tracking-wide">
+            active (coupon is enabled)
+          </span>
+        </label>
+
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={value.stackable}
+            onChange={(e) => onChange({ ...value, stackable: e.target.checked })}
+            className="w-5 h-5"
+          />
+          <span className="text-sm font-bold tracking-wide">
+            stackable (can be combined with other stackable coupons and promotions)
+          </span>
+        </label>
+
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={value.combines_with_product_discount}
+            onChange={(e) => onChange({ ...value, combines_with_product_discount: e.target.checked })}
+            className="w-5 h-5"
+          />
+          <span className="text-sm font-bold tracking-wide">
+            applies to discounted products (on top of the product&apos;s own discount)
+          </span>
+        </label>
+      </div>
+
+      {/* Product Applicability */}
+      <div>
+        <label className="block text-sm font-bold tracking-wide mb-2">
+          applicable to
+        </label>
+        <div className="space-y-3">
+          <label className="flex items-center gap-3">
+            <input
+              type="radio"
+              name="applicable_to"
+              value="all"
+              checked={value.applicable_to === "all"}
+              onChange={(e) => onChange({ ...value, applicable_to: e.target.value as "all" })}
+              className="w-4 h-4"
+            />
+            <span className="text-sm tracking-wide">all products</span>
+          </label>
+
+          <label className="flex items-center gap-3">
+            <input
+              type="radio"
+              name="applicable_to"
+              value="specific"
+              checked={value.applicable_to === "specific"}
+              onChange={(e) => onChange({ ...value, applicable_to: e.target.value as "specific" })}
+              className="w-4 h-4"
+            />
+            <span className="text-sm tracking-wide">specific products</span>
+          </label>
+        </div>
+
+        {value.applicable_to === "specific" && (
+          <div className="mt-3 brutalist-border bg-gray-50 p-4">
+            <p className="text-xs tracking-wide mb-3 font-bold">select products:</p>
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {products.map((product) => (
+                <label key={product.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={value.product_ids.includes(product.id)}
+                    onChange={(e) => {
+                      if (e.target.checked) {
+                        onChange({
+                          ...value,
+                          product_ids: [...value.product_ids, product.id],
+                        });
+                      } else {
+                        onChange({
+                          ...value,
+                          product_ids: value.product_ids.filter((id) => id !== product.id),
+                        });
+                      }
+                    }}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-xs tracking-wide">{product.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
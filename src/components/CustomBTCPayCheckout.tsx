@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import Image from "next/image";
+import PaymentQrCode from "~/components/PaymentQrCode";
 
 interface PaymentMethod {
   paymentMethod: string;
@@ -9,6 +9,7 @@ interface PaymentMethod {
   destination: string;
   paymentLink: string;
   rate: string;
+  totalPaid: string;
   due: string;
   amount: string;
 }
@@ -29,6 +30,7 @@ export default function CustomBTCPayCheckout({
   onCancel,
 }: CustomBTCPayCheckoutProps) {
   const [status, setStatus] = useState<string>("new");
+  const [paymentException, setPaymentException] = useState<string | null>(null);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
   const [loading, setLoading] = useState(true);
@@ -43,10 +45,12 @@ export default function CustomBTCPayCheckout({
 
       const data = await response.json() as {
         status: string;
+        paymentException: "underpaid" | "overpaid" | "paid_late" | null;
         expirationTime: number;
       };
 
       setStatus(data.status);
+      setPaymentException(data.paymentException);
 
       // Calculate time left
       const now = Date.now() / 1000;
@@ -70,9 +74,10 @@ export default function CustomBTCPayCheckout({
 
       const methods = await response.json() as PaymentMethod[];
       setPaymentMethods(methods);
-      if (methods.length > 0 && methods[0]) {
-        setSelectedMethod(methods[0]);
-      }
+      // Keep the shopper's choice; refreshed methods carry the new amount due
+      setSelectedMethod((current) =>
+        methods.find((m) => m.paymentMethod === current?.paymentMethod) ?? methods[0] ?? null
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load payment methods");
     } finally {
@@ -100,6 +105,23 @@ export default function CustomBTCPayCheckout({
     };
   }, [fetchPaymentMethods, fetchInvoiceStatus]);
 
+  const partiallyPaid = paymentException === "underpaid";
+
+  // After a partial payment the amount due and the payment link (and so the
+  // QR code) change with every further payment, so keep them fresh
+  useEffect(() => {
+    if (!partiallyPaid) return;
+
+    void fetchPaymentMethods();
+    const interval = setInterval(() => {
+      void fetchPaymentMethods();
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [partiallyPaid, fetchPaymentMethods]);
+
+  const amountToPay = partiallyPaid && selectedMethod ? selectedMethod.due : selectedMethod?.amount;
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -138,7 +160,9 @@ export default function CustomBTCPayCheckout({
       <div className="brutalist-border bg-white p-8 text-center">
         <div className="text-4xl mb-4">[ expired ]</div>
         <p className="text-sm tracking-wide mb-4">
-          this invoice has expired. please create a new order.
+          {partiallyPaid
+            ? "this invoice expired before it was paid in full. we've kept your order and will email you about the remaining balance."
+            : "this invoice has expired. please create a new order."}
         </p>
         <button onClick={onCancel} className="btn-brutalist text-sm">
           go back
@@ -155,7 +179,7 @@ export default function CustomBTCPayCheckout({
           <div>
             <h2 className="text-2xl font-bold tracking-wide mb-2">payment</h2>
             <p className="text-sm tracking-wide">
-              {status === "New" && "awaiting payment"}
+              {status === "New" && (partiallyPaid ? "partial payment received" : "awaiting payment")}
               {status === "Processing" && "processing payment"}
               {status === "Settled" && "payment complete"}
             </p>
@@ -221,6 +245,20 @@ export default function CustomBTCPayCheckout({
         </div>
       )}
 
+      {/* Partial Payment */}
+      {partiallyPaid && status === "New" && selectedMethod && (
+        <div className="border-b-[3px] border-black p-6 bg-yellow-50">
+          <div className="text-sm font-bold tracking-wide mb-2">
+            payment incomplete
+          </div>
+          <div className="text-xs tracking-wide leading-relaxed space-y-1">
+            <p>• received: <strong>{selectedMethod.totalPaid} {selectedMethod.cryptoCode}</strong></p>
+            <p>• still due: <strong>{selectedMethod.due} {selectedMethod.cryptoCode}</strong></p>
+            <p>• send the remaining balance below before the timer runs out</p>
+          </div>
+        </div>
+      )}
+
       {/* Payment Details */}
       {selectedMethod && (
         <div className="p-6">
@@ -231,13 +269,7 @@ export default function CustomBTCPayCheckout({
                 scan qr code
               </div>
               <div className="brutalist-border p-4 bg-white">
-                <Image
-                  src={`https://api.qrserver.com/v1/create-qr-code/?size=256x256&data=${encodeURIComponent(selectedMethod.paymentLink)}`}
-                  alt="Payment QR Code"
-                  width={256}
-                  height={256}
-                  className="block"
-                />
+                <PaymentQrCode value={selectedMethod.paymentLink} />
               </div>
             </div>
 
@@ -245,11 +277,11 @@ export default function CustomBTCPayCheckout({
             <div className="space-y-4">
               <div>
                 <div className="text-sm font-bold tracking-wide mb-2">
-                  amount to pay
+                  {partiallyPaid ? "remaining to pay" : "amount to pay"}
                 </div>
                 <div className="brutalist-border p-3 bg-white">
                   <div className="text-lg font-bold tracking-wide">
-                    {selectedMethod.amount} {selectedMethod.cryptoCode}
+                    {amountToPay} {selectedMethod.cryptoCode}
                   </div>
                 </div>
               </div>
@@ -291,7 +323,7 @@ export default function CustomBTCPayCheckout({
           <div className="mt-6 brutalist-border p-4 bg-white">
             <div className="text-xs tracking-wide leading-relaxed space-y-2">
               <p>
-                • send exactly <strong>{selectedMethod.amount} {selectedMethod.cryptoCode}</strong> to the address above
+                • send exactly <strong>{amountToPay} {selectedMethod.cryptoCode}</strong> to the address above
               </p>
               <p>
                 • payment will be confirmed automatically
@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { csrfFetch } from "~/lib/security/csrf-client";
+import PaymentQrCode from "~/components/PaymentQrCode";
+
+interface MoneroPaymentView {
+  orderId: string;
+  address: string;
+  amountXmr: string;
+  receivedXmr: string;
+  usdAmount: number;
+  rate: number;
+  paymentUri: string;
+  status: "waiting" | "confirming" | "paid" | "expired" | "underpaid";
+  confirmations: number;
+  confirmationsRequired: number;
+  expiresAt: string;
+}
+
+interface MoneroCheckoutProps {
+  orderId: string;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+export default function MoneroCheckout({
+  orderId,
+  onComplete,
+  onCancel,
+}: MoneroCheckoutProps) {
+  const [payment, setPayment] = useState<MoneroPaymentView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [timeLeft, setTimeLeft] = useState<number>(0);
+  const [completionTriggered, setCompletionTriggered] = useState(false);
+
+  const applyPayment = useCallback((data: MoneroPaymentView) => {
+    setPayment(data);
+    setTimeLeft(Math.max(0, Math.floor((new Date(data.expiresAt).getTime() - Date.now()) / 1000)));
+  }, []);
+
+  const createPayment = useCallback(async () => {
+    try {
+      const response = await csrfFetch("/api/monero/create-payment", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ orderId }),
+      });
+
+      const data = await response.json() as MoneroPaymentView & { error?: string };
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to create payment");
+      }
+
+      applyPayment(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create payment");
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, applyPayment]);
+
+  const fetchPaymentStatus = useCallback(async () => {
+    try {
+      const response = await csrfFetch(`/api/monero/payment/${orderId}`);
+      if (!response.ok) throw new Error("Failed to fetch payment status");
+
+      const data = await response.json() as MoneroPaymentView;
+      applyPayment(data);
+
+      // Only trigger completion once to prevent duplicate emails
+      if (data.status === "paid" && !completionTriggered) {
+        setCompletionTriggered(true);
+        onComplete();
+      }
+    } catch (err) {
+      console.error("Error fetching payment status:", err);
+    }
+  }, [orderId, onComplete, completionTriggered, applyPayment]);
+
+  useEffect(() => {
+    void createPayment();
+  }, [createPayment]);
+
+  const hasPayment = payment !== null;
+
+  useEffect(() => {
+    if (!hasPayment) return;
+
+    // Monero blocks come every ~2 minutes, so poll less often than BTCPay
+    const interval = setInterval(() => {
+      void fetchPaymentStatus();
+    }, 15000);
+
+    // Update timer every second
+    const timerInterval = setInterval(() => {
+      setTimeLeft((prev) => Math.max(0, prev - 1));
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      clearInterval(timerInterval);
+    };
+  }, [hasPayment, fetchPaymentStatus]);
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const copyToClipboard = (text: string) => {
+    void navigator.clipboard.writeText(text);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-32">
+        <div className="text-center">
+          <div className="text-4xl mb-4 animate-pulse">[ loading ]</div>
+          <p className="text-sm tracking-wide">preparing monero payment...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !payment) {
+    return (
+      <div className="brutalist-border bg-white p-8 text-center">
+        <div className="text-4xl mb-4">[ error ]</div>
+        <p className="text-sm tracking-wide mb-4">{error ?? "Failed to create payment"}</p>
+        <button onClick={onCancel} className="btn-brutalist text-sm">
+          go back
+        </button>
+      </div>
+    );
+  }
+
+  if (payment.status === "expired") {
+    return (
+      <div className="brutalist-border bg-white p-8 text-center">
+        <div className="text-4xl mb-4">[ expired ]</div>
+        <p className="text-sm tracking-wide mb-4">
+          this payment request has expired. please create a new order.
+        </p>
+        <button onClick={onCancel} className="btn-brutalist text-sm">
+          go back
+        </button>
+      </div>
+    );
+  }
+
+  if (payment.status === "underpaid") {
+    return (
+      <div className="brutalist-border bg-white p-8 text-center">
+        <div className="text-4xl mb-4">[ underpaid ]</div>
+        <p className="text-sm tracking-wide mb-4">
+          only {payment.receivedXmr} of {payment.amountXmr} XMR arrived before this payment request
+          expired. contact us with your order number to settle the rest or get a refund.
+        </p>
+        <button onClick={onCancel} className="btn-brutalist text-sm">
+          go back
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="brutalist-border bg-white">
+      {/* Header */}
+      <div className="border-b-[3px] border-black p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-2xl font-bold tracking-wide mb-2">monero payment</h2>
+            <p className="text-sm tracking-wide">
+              {payment.status === "waiting" && "awaiting payment"}
+              {payment.status === "confirming" &&
+                `confirming (${Math.min(payment.confirmations, payment.confirmationsRequired)}/${payment.confirmationsRequired})`}
+              {payment.status === "paid" && "payment complete"}
+            </p>
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-bold tracking-wide">
+              ${payment.usdAmount.toFixed(2)}
+            </div>
+            <div className="text-xs tracking-wide">USD @ ${payment.rate.toFixed(2)}/XMR</div>
+          </div>
+        </div>
+
+        {/* Timer */}
+        {payment.status === "waiting" && (
+          <div className="brutalist-border px-4 py-2 inline-block">
+            <span className="text-sm font-bold tracking-wide">
+              time remaining: {formatTime(timeLeft)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Payment Details */}
+      <div className="p-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* QR Code */}
+          <div className="flex flex-col items-center">
+            <div className="text-sm font-bold tracking-wide mb-4">
+              scan qr code
+            </div>
+            <div className="brutalist-border p-4 bg-white">
+              <PaymentQrCode value={payment.paymentUri} />
+            </div>
+          </div>
+
+          {/* Payment Info */}
+          <div className="space-y-4">
+            <div>
+              <div className="text-sm font-bold tracking-wide mb-2">
+                amount to pay
+              </div>
+              <div className="brutalist-border p-3 bg-white flex items-center justify-between gap-2">
+                <div className="text-lg font-bold tracking-wide">
+                  {payment.amountXmr} XMR
+                </div>
+                <button
+                  onClick={() => copyToClipboard(payment.amountXmr)}
+                  className="brutalist-border px-3 py-1 text-xs font-bold bg-white hover:translate-x-1 hover:translate-y-1 transition-transform flex-shrink-0"
+                >
+                  copy
+                </button>
+              </div>
+              {payment.receivedXmr !== "0" && payment.status === "waiting" && (
+                <p className="text-xs tracking-wide mt-2">
+                  received so far: <strong>{payment.receivedXmr} XMR</strong>
+                </p>
+              )}
+            </div>
+
+            <div>
+              <div className="text-sm font-bold tracking-wide mb-2">
+                XMR address
+              </div>
+              <div className="brutalist-border p-3 bg-white flex items-center justify-between gap-2">
+                <div className="text-xs font-mono break-all flex-1">
+                  {payment.address}
+                </div>
+                <button
+                  onClick={() => copyToClipboard(payment.address)}
+                  className="brutalist-border px-3 py-1 text-xs font-bold bg-white hover:translate-x-1 hover:translate-y-1 transition-transform flex-shrink-0"
+                >
+                  copy
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm font-bold tracking-wide mb-2">
+                payment link
+              </div>
+              <button
+                onClick={() => {
+                  window.open(payment.paymentUri, "_blank");
+                }}
+                className="btn-brutalist-black text-xs w-full"
+              >
+                open in wallet
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Instructions */}
+        <div className="mt-6 brutalist-border p-4 bg-white">
+          <div className="text-xs tracking-wide leading-relaxed space-y-2">
+            <p>
+              • send exactly <strong>{payment.amountXmr} XMR</strong> to the address above
+            </p>
+            <p>
+              • this address is unique to your order
+            </p>
+            <p>
+              • your order is confirmed after <strong>{payment.confirmationsRequired} confirmations</strong>
+              {" "}(about {payment.confirmationsRequired * 2} minutes) - you can close this window after sending
+            </p>
+          </div>
+        </div>
+
+        {/* Status Indicator */}
+        <div className="mt-6 text-center">
+          {payment.status === "waiting" && (
+            <div className="animate-pulse text-sm tracking-wide">
+              waiting for payment...
+            </div>
+          )}
+          {payment.status === "confirming" && (
+            <div className="text-sm tracking-wide font-bold">
+              payment received, waiting for confirmations...
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer - Only show before payment is seen */}
+      {payment.status === "waiting" && (
+        <div className="border-t-[3px] border-black p-4 flex justify-between items-center">
+          <p className="text-xs tracking-wide">
+            paid directly to our monero wallet
+          </p>
+          <button onClick={onCancel} className="btn-brutalist text-xs">
+            cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import QRCode from "qrcode";
+
+interface PaymentQrCodeProps {
+  value: string;
+  size?: number;
+}
+
+/**
+ * QR code drawn in the browser, so payment addresses never leave the page
+ */
+export default function PaymentQrCode({ value, size = 256 }: PaymentQrCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    QRCode.toDataURL(value, { margin: 1, width: size })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch((error) => {
+        console.error("Error generating QR code:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size]);
+
+  if (!dataUrl) {
+    return <div className="block animate-pulse bg-gray-100" style={{ width: size, height: size }} />;
+  }
+
+  return (
+    <Image
+      src={dataUrl}
+      alt="Payment QR Code"
+      width={size}
+      height={size}
+      className="block"
+      unoptimized
+    />
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "~/context/ToastContext";
+import {
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  type ManualStockMovementType,
+  type StockMovement,
+} from "~/lib/stock-types";
+import { csrfFetch } from "~/lib/security/csrf-client";
+
+interface StockHistoryProps {
+  productId: string;
+  onStockChange: (stock: number) => void;
+  onUnauthorized: () => void;
+}
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  restock: "restock",
+  sale: "sale",
+  reservation: "reserved",
+  release: "released",
+  adjustment: "adjustment",
+  return: "return",
+  write_off: "write-off",
+};
+
+export default function StockHistory({ productId, onStockChange, onUnauthorized }: StockHistoryProps) {
+  const { showToast } = useToast();
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [movementType, setMovementType] = useState<ManualStockMovementType>("restock");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+
+  const getToken = () => {
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      showToast("Authentication token not found. Please log in again.", "error");
+      onUnauthorized();
+    }
+    return token;
+  };
+
+  const fetchMovements = useCallback(async () => {
+    const token = localStorage.getItem("admin_token");
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const response = await csrfFetch(`/api/admin/stock-movements?productId=${productId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load stock history");
+      }
+
+      const data = await response.json() as { movements: StockMovement[] };
+      setMovements(data.movements);
+    } catch (error) {
+      console.error("Error fetching stock history:", error);
+      showToast("Failed to load stock history", "error");
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, showToast]);
+
+  useEffect(() => {
+    void fetchMovements();
+  }, [fetchMovements]);
+
+  const handleSubmit = async () => {
+    const amount = parseInt(quantity);
+
+    if (!amount || !reason.trim()) {
+      showToast("Enter a quantity and a reason", "warning");
+      return;
+    }
+
+    const token = getToken();
+    if (!token) return;
+
+    setSubmitting(true);
+    try {
+      const response = await csrfFetch("/api/admin/stock-movements", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          productId,
+          movementType,
+          quantity: amount,
+          reason: reason.trim(),
+        }),
+      });
+
+      const data = await response.json() as { success?: boolean; stock?: number; error?: string };
+
+      if (!response.ok || data.stock === undefined) {
+        throw new Error(data.error ?? "Failed to record stock movement");
+      }
+
+      onStockChange(data.stock);
+      setQuantity("");
+      setReason("");
+      showToast(`Stock updated. New stock: ${data.stock}`, "success");
+      await fetchMovements();
+    } catch (error) {
+      console.error("Error recording stock movement:", error);
+      showToast(error instanceof Error ? error.message : "Failed to record stock movement", "error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    const token = getToken();
+    if (!token) return;
+
+    setExporting(true);
+    try {
+      const response = await csrfFetch(`/api/admin/stock-movements?productId=${productId}&format=csv`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to export stock history");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `stock-movements-${productId}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting stock history:", error);
+      showToast("Failed to export stock history", "error");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="brutalist-border bg-white p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold tracking-wide">stock history</h2>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="btn-brutalist text-xs px-4 py-2"
+          disabled={exporting || movements.length === 0}
+        >
+          {exporting ? "exporting..." : "export csv"}
+        </button>
+      </div>
+
+      {/* Manual movement */}
+      <div className="grid grid-cols-4 gap-4 mb-6">
+        <div>
+          <label htmlFor="movement_type" className="block text-sm font-bold tracking-wide mb-2">
+            movement
+          </label>
+          <select
+            id="movement_type"
+            value={movementType}
+            onChange={(e) => setMovementType(e.target.value as ManualStockMovementType)}
+            className="input-brutalist w-full"
+          >
+            {MANUAL_STOCK_MOVEMENT_TYPES.map((type) => (
+              <option key={type} value={type}>{MOVEMENT_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="movement_quantity" className="block text-sm font-bold tracking-wide mb-2">
+            quantity
+          </label>
+          <input
+            type="number"
+            id="movement_quantity"
+            step="1"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="input-brutalist w-full"
+            placeholder={movementType === "adjustment" ? "+/- units" : "units"}
+          />
+        </div>
+        <div className="col-span-2">
+          <label htmlFor="movement_reason" className="block text-sm font-bold tracking-wide mb-2">
+            reason
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              id="movement_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="input-brutalist w-full"
+              placeholder="e.g. supplier delivery, damaged in storage"
+            />
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="btn-brutalist-black text-xs px-4 py-2"
+              disabled={submitting}
+            >
+              {submitting ? "saving..." : "record"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      {loading ? (
+        <div className="text-center py-8 text-sm tracking-wide animate-pulse">[ loading ]</div>
+      ) : movements.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 brutalist-border">
+          <p className="text-sm tracking-wide opacity-60">no stock movements yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+          <table className="w-full text-xs tracking-wide">
+            <thead>
+              <tr className="border-b-2 border-black text-left">
+                <th className="py-2 pr-4">date</th>
+                <th className="py-2 pr-4">type</th>
+                <th className="py-2 pr-4 text-right">change</th>
+                <th className="py-2 pr-4 text-right">stock</th>
+                <th className="py-2 pr-4">reason</th>
+                <th className="py-2 pr-4">by</th>
+                <th className="py-2">order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => (
+                <tr key={movement.id} className="border-b border-gray-200">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {new Date(movement.created_at).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-4">{MOVEMENT_LABELS[movement.movement_type] ?? movement.movement_type}</td>
+                  <td className="py-2 pr-4 text-right font-bold">
+                    {movement.stock_delta === 0
+                      ? `(${movement.quantity})`
+                      : `${movement.stock_delta > 0 ? "+" : ""}${movement.stock_delta}`}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{movement.stock_after}</td>
+                  <td className="py-2 pr-4">{movement.reason}</td>
+                  <td className="py-2 pr-4">{movement.actor}</td>
+                  <td className="py-2 font-mono">{movement.order_id?.slice(0, 8)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,40 @@
 "use client";
 
-import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { csrfFetch } from "~/lib/security/csrf-client";
+import { hasPermission, type AdminPermission, type AdminRole } from "~/lib/security/permissions";
 
 interface AdminAuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  role: AdminRole | null;
+  // Whether the signed-in role may use a feature; the API enforces the same rules
+  can: (permission: AdminPermission) => boolean;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  // Second step when login returned "two-factor"
+  verifyTwoFactor: (code: string) => Promise<boolean>;
   logout: () => void;
+  adminFetch: (path: string, options?: AdminFetchOptions) => Promise<Response | null>;
+}
+
+export type LoginResult = "success" | "two-factor" | "invalid";
+
+interface LoginResponse {
+  token?: string;
+  role?: AdminRole;
+  expiresIn?: number;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+}
+
+const TOKEN_KEY = "admin_token";
+const TOKEN_EXPIRY_KEY = "admin_token_expires_at";
+// Same window /api/admin/refresh uses to decide a token is worth replacing
+const REFRESH_WINDOW_MS = 30 * 60 * 1000;
+
+interface AdminFetchOptions {
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  body?: unknown;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
@@ -14,13 +42,16 @@ const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefin
 export function AdminAuthProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const refreshing = useRef<Promise<void> | null>(null);
 
   useEffect(() => {
     void checkAuth();
   }, []);
 
   const checkAuth = async () => {
-    const token = localStorage.getItem("admin_token");
+    const token = localStorage.getItem(TOKEN_KEY);
 
     if (!token) {
       setIsAuthenticated(false);
@@ -29,7 +60,7 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const response = await fetch("/api/admin/verify", {
+      const response = await csrfFetch("/api/admin/verify", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -37,8 +68,13 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
         body: JSON.stringify({ token }),
       });
 
-      const data = await response.json() as { valid: boolean };
+      const data = await response.json() as { valid: boolean; role?: AdminRole; expiresAt?: number };
       setIsAuthenticated(data.valid);
+      setRole(data.valid ? data.role ?? null : null);
+
+      if (data.valid && data.expiresAt) {
+        localStorage.setItem(TOKEN_EXPIRY_KEY, (data.expiresAt * 1000).toString());
+      }
     } catch (error) {
       console.error("Auth check error:", error);
       setIsAuthenticated(false);
@@ -47,9 +83,26 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  const storeToken = (token: string, expiresIn: number) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    localStorage.setItem(TOKEN_EXPIRY_KEY, (Date.now() + expiresIn * 1000).toString());
+  };
+
+  const signIn = (data: LoginResponse) => {
+    if (!data.token || !data.role || !data.expiresIn) {
+      return false;
+    }
+
+    storeToken(data.token, data.expiresIn);
+    setChallengeToken(null);
+    setRole(data.role);
+    setIsAuthenticated(true);
+    return true;
+  };
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     try {
-      const response = await fetch("/api/admin/login", {
+      const response = await csrfFetch("/api/admin/login", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -58,26 +111,141 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
       });
 
       if (!response.ok) {
-        return false;
+        return "invalid";
+      }
+
+      const data = await response.json() as LoginResponse;
+
+      if (data.twoFactorRequired && data.challengeToken) {
+        setChallengeToken(data.challengeToken);
+        return "two-factor";
       }
 
-      const data = await response.json() as { token: string };
-      localStorage.setItem("admin_token", data.token);
-      setIsAuthenticated(true);
-      return true;
+      return signIn(data) ? "success" : "invalid";
     } catch (error) {
       console.error("Login error:", error);
+      return "invalid";
+    }
+  };
+
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    if (!challengeToken) {
+      return false;
+    }
+
+    try {
+      const response = await csrfFetch("/api/admin/login/two-factor", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      if (!response.ok) {
+        return false;
+      }
+
+      return signIn(await response.json() as LoginResponse);
+    } catch (error) {
+      console.error("Two-factor login error:", error);
       return false;
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem("admin_token");
+  const clearSession = () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(TOKEN_EXPIRY_KEY);
     setIsAuthenticated(false);
+    setRole(null);
+  };
+
+  // Revoke the session server-side too, so the token stops working even if
+  // a copy of it is still around
+  const logout = () => {
+    const token = localStorage.getItem(TOKEN_KEY);
+
+    if (token) {
+      void csrfFetch("/api/admin/logout", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }).catch((error) => console.error("Logout error:", error));
+    }
+
+    clearSession();
+  };
+
+  // Swap the token for a fresh one when it is close to expiring, so an admin
+  // who keeps working isn't signed out mid-task
+  const refreshIfExpiring = (token: string): Promise<void> => {
+    const expiresAt = Number(localStorage.getItem(TOKEN_EXPIRY_KEY) ?? 0);
+
+    if (expiresAt - Date.now() > REFRESH_WINDOW_MS) {
+      return Promise.resolve();
+    }
+
+    refreshing.current ??= (async () => {
+      try {
+        const response = await csrfFetch("/api/admin/refresh", {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) return;
+
+        const data = await response.json() as { refreshed: boolean; token?: string; expiresIn?: number };
+
+        if (data.refreshed && data.token && data.expiresIn) {
+          storeToken(data.token, data.expiresIn);
+        }
+      } catch (error) {
+        console.error("Token refresh error:", error);
+      } finally {
+        refreshing.current = null;
+      }
+    })();
+
+    return refreshing.current;
+  };
+
+  const can = (permission: AdminPermission) => role !== null && hasPermission(role, permission);
+
+  // Call an admin API route with the stored token. Resolves to null, and logs
+  // out, when there is no token or the server no longer accepts it.
+  const adminFetch = async (path: string, options: AdminFetchOptions = {}): Promise<Response | null> => {
+    const storedToken = localStorage.getItem(TOKEN_KEY);
+
+    if (!storedToken) {
+      clearSession();
+      return null;
+    }
+
+    await refreshIfExpiring(storedToken);
+    const token = localStorage.getItem(TOKEN_KEY) ?? storedToken;
+
+    const response = await csrfFetch(path, {
+      method: options.method ?? (options.body === undefined ? "GET" : "POST"),
+      headers: {
+        ...(options.body === undefined ? {} : { "Content-Type": "application/json" }),
+        Authorization: `Bearer ${token}`,
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    if (response.status === 401) {
+      clearSession();
+      return null;
+    }
+
+    return response;
   };
 
   return (
-    <AdminAuthContext.Provider value={{ isAuthenticated, isLoading, login, logout }}>
+    <AdminAuthContext.Provider value={{ isAuthenticated, isLoading, role, can, login, verifyTwoFactor, logout, adminFetch }}>
       {children}
     </AdminAuthContext.Provider>
   );
@@ -0,0 +1,15 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+
+// The Content Security Policy nonce middleware generated for this request.
+// Any <Script> we add has to carry it or the browser won't run it.
+const NonceContext = createContext<string | undefined>(undefined);
+
+export function NonceProvider({ nonce, children }: { nonce: string | undefined; children: ReactNode }) {
+  return <NonceContext.Provider value={nonce}>{children}</NonceContext.Provider>;
+}
+
+export function useNonce() {
+  return useContext(NonceContext);
+}
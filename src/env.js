@@ -12,13 +12,34 @@ export const env = createEnv({
     BTCPAY_STORE_ID: z.string().min(1),
     BTCPAY_HOST: z.string().min(1),
     BTCPAY_ALLOW_INSECURE: z.string().optional(),
-    ADMIN_USERNAME: z.string().min(1),
-    ADMIN_PASSWORD: z.string().min(1),
+    BTCPAY_WEBHOOK_SECRET: z.string().min(1).optional(),
+    ADMIN_USERNAME: z.string().min(1).optional(),
+    ADMIN_PASSWORD: z.string().min(1).optional(),
     MAILGUN_API_KEY: z.string().min(1),
     MAILGUN_DOMAIN: z.string().min(1),
     JWT_SECRET: z.string().min(32, "JWT secret must be at least 32 characters"),
+    SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
+    RATE_LIMIT_STORE: z.enum(["memory", "postgres"]).default("memory"),
+    RATE_LIMIT_OVERRIDES: z.string().optional(),
     MONERO_WALLET_RPC_URL: z.string().url().optional(),
     MONERO_WALLET_ADDRESS: z.string().min(1).optional(),
+    MONERO_WALLET_RPC_USERNAME: z.string().min(1).optional(),
+    MONERO_WALLET_RPC_PASSWORD: z.string().min(1).optional(),
+    MONERO_ACCOUNT_INDEX: z.coerce.number().int().min(0).default(0),
+    MONERO_CONFIRMATIONS: z.coerce.number().int().min(0).default(10),
+    MONERO_RATE_SOURCE: z.enum(["kraken", "coingecko"]).default("kraken"),
+    BISQ_API_URL: z.string().url().optional(),
+    BISQ_API_PASSWORD: z.string().min(1).optional(),
+    BISQ_SECURITY_DEPOSIT_PCT: z.coerce.number().min(15).max(50).default(15),
+    LOG_SINKS: z.string().default("stdout"),
+    LOG_FILE_PATH: z.string().min(1).default("logs/app.log"),
+    LOG_FILE_MAX_BYTES: z.coerce.number().int().positive().default(10 * 1024 * 1024),
+    LOG_FILE_MAX_FILES: z.coerce.number().int().min(1).default(5),
+    LOG_WEBHOOK_URL: z.string().url().optional(),
+    SECURITY_ALERT_EMAIL: z.string().email().optional(),
+    SECURITY_ALERT_WEBHOOK_URL: z.string().url().optional(),
+    SECURITY_ALERT_DEDUPE_MINUTES: z.coerce.number().int().min(1).default(15),
+    SECURITY_ALERT_MAX_PER_HOUR: z.coerce.number().int().min(1).default(20),
   },
 
   /**
@@ -41,13 +62,34 @@ export const env = createEnv({
     BTCPAY_STORE_ID: process.env.BTCPAY_STORE_ID,
     BTCPAY_HOST: process.env.BTCPAY_HOST,
     BTCPAY_ALLOW_INSECURE: process.env.BTCPAY_ALLOW_INSECURE,
+    BTCPAY_WEBHOOK_SECRET: process.env.BTCPAY_WEBHOOK_SECRET,
     ADMIN_USERNAME: process.env.ADMIN_USERNAME,
     ADMIN_PASSWORD: process.env.ADMIN_PASSWORD,
     MAILGUN_API_KEY: process.env.MAILGUN_API_KEY,
     MAILGUN_DOMAIN: process.env.MAILGUN_DOMAIN,
     JWT_SECRET: process.env.JWT_SECRET,
+    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+    RATE_LIMIT_OVERRIDES: process.env.RATE_LIMIT_OVERRIDES,
     MONERO_WALLET_RPC_URL: process.env.MONERO_WALLET_RPC_URL,
     MONERO_WALLET_ADDRESS: process.env.MONERO_WALLET_ADDRESS,
+    MONERO_WALLET_RPC_USERNAME: process.env.MONERO_WALLET_RPC_USERNAME,
+    MONERO_WALLET_RPC_PASSWORD: process.env.MONERO_WALLET_RPC_PASSWORD,
+    MONERO_ACCOUNT_INDEX: process.env.MONERO_ACCOUNT_INDEX,
+    MONERO_CONFIRMATIONS: process.env.MONERO_CONFIRMATIONS,
+    MONERO_RATE_SOURCE: process.env.MONERO_RATE_SOURCE,
+    BISQ_API_URL: process.env.BISQ_API_URL,
+    BISQ_API_PASSWORD: process.env.BISQ_API_PASSWORD,
+    BISQ_SECURITY_DEPOSIT_PCT: process.env.BISQ_SECURITY_DEPOSIT_PCT,
+    LOG_SINKS: process.env.LOG_SINKS,
+    LOG_FILE_PATH: process.env.LOG_FILE_PATH,
+    LOG_FILE_MAX_BYTES: process.env.LOG_FILE_MAX_BYTES,
+    LOG_FILE_MAX_FILES: process.env.LOG_FILE_MAX_FILES,
+    LOG_WEBHOOK_URL: process.env.LOG_WEBHOOK_URL,
+    SECURITY_ALERT_EMAIL: process.env.SECURITY_ALERT_EMAIL,
+    SECURITY_ALERT_WEBHOOK_URL: process.env.SECURITY_ALERT_WEBHOOK_URL,
+    SECURITY_ALERT_DEDUPE_MINUTES: process.env.SECURITY_ALERT_DEDUPE_MINUTES,
+    SECURITY_ALERT_MAX_PER_HOUR: process.env.SECURITY_ALERT_MAX_PER_HOUR,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
   },
@@ -0,0 +1,221 @@
+/**
+ * Admin Sessions
+ *
+ * Every admin token carries the id of an admin_sessions row as its jti.
+ * Tokens are only accepted while their row is unrevoked and unexpired, so
+ * staff can be signed out before the token itself runs out. Refreshing a
+ * token slides the expiry forward, up to a maximum session age.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+
+// Matches the lifetime of a token from generateAdminToken
+export const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60;
+const ADMIN_SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+// Don't write last_seen_at on every request
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface AdminSession {
+  id: string;
+  admin_user_id: string;
+  username: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+}
+
+interface AdminSessionRow extends Omit<AdminSession, "username"> {
+  admin_users: { username: string } | null;
+}
+
+const ADMIN_SESSION_COLUMNS =
+  "id, admin_user_id, ip_address, user_agent, created_at, last_seen_at, expires_at, admin_users(username)";
+
+/**
+ * Start a session for a login
+ * @returns The session id, to be used as the token's jti
+ */
+export async function createAdminSession(userId: string, request: Request): Promise<string> {
+  const forwarded = request.headers.get("x-forwarded-for");
+
+  const result = await supabaseAdmin
+    .from("admin_sessions")
+    .insert({
+      admin_user_id: userId,
+      ip_address: forwarded?.split(",")[0]?.trim() ?? null,
+      user_agent: request.headers.get("user-agent")?.slice(0, 500) ?? null,
+      expires_at: new Date(Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000).toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return (result.data as { id: string }).id;
+}
+
+/**
+ * Whether a token's session is still live
+ */
+export async function isAdminSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const result = await supabaseAdmin
+    .from("admin_sessions")
+    .select("last_seen_at, expires_at, revoked_at")
+    .eq("id", sessionId)
+    .eq("admin_user_id", userId)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  const session = result.data as Pick<AdminSession, "last_seen_at" | "expires_at"> & {
+    revoked_at: string | null;
+  } | null;
+
+  if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+    return false;
+  }
+
+  if (Date.now() - new Date(session.last_seen_at).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await supabaseAdmin
+      .from("admin_sessions")
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("id", sessionId);
+  }
+
+  return true;
+}
+
+/**
+ * Push a live session's expiry forward for a refreshed token
+ * @returns Seconds the refreshed token should last, or null once the session
+ * has reached its maximum age and the admin has to sign in again
+ */
+export async function extendAdminSession(sessionId: string): Promise<number | null> {
+  const result = await supabaseAdmin
+    .from("admin_sessions")
+    .select("created_at")
+    .eq("id", sessionId)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  if (!result.data) {
+    return null;
+  }
+
+  const now = Date.now();
+  const maxExpiry =
+    new Date((result.data as { created_at: string }).created_at).getTime() +
+    ADMIN_SESSION_MAX_AGE_SECONDS * 1000;
+  const expiresAt = Math.min(now + ADMIN_SESSION_TTL_SECONDS * 1000, maxExpiry);
+  const expiresIn = Math.floor((expiresAt - now) / 1000);
+
+  // Not worth a token that is about to lapse anyway
+  if (expiresIn < 60) {
+    return null;
+  }
+
+  const updateResult = await supabaseAdmin
+    .from("admin_sessions")
+    .update({ expires_at: new Date(expiresAt).toISOString() })
+    .eq("id", sessionId);
+
+  if (updateResult.error) {
+    throw new Error(updateResult.error.message);
+  }
+
+  return expiresIn;
+}
+
+/**
+ * Live sessions, newest first
+ * @param userId - Only this account's sessions; every account's when omitted
+ */
+export async function listAdminSessions(userId?: string): Promise<AdminSession[]> {
+  let query = supabaseAdmin
+    .from("admin_sessions")
+    .select(ADMIN_SESSION_COLUMNS)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (userId) {
+    query = query.eq("admin_user_id", userId);
+  }
+
+  const result = await query;
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return ((result.data ?? []) as unknown as AdminSessionRow[]).map(({ admin_users, ...row }) => ({
+    ...row,
+    username: admin_users?.username ?? "unknown",
+  }));
+}
+
+/**
+ * Revoke one session
+ * @param userId - Only revoke it if it belongs to this account
+ */
+export async function revokeAdminSession(
+  sessionId: string,
+  userId?: string
+): Promise<{ revoked: true } | { error: string; status: number }> {
+  let query = supabaseAdmin
+    .from("admin_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .is("revoked_at", null);
+
+  if (userId) {
+    query = query.eq("admin_user_id", userId);
+  }
+
+  const result = await query.select("id");
+
+  if (result.error) {
+    return { error: result.error.message, status: 500 };
+  }
+
+  if ((result.data ?? []).length === 0) {
+    return { error: "Session not found", status: 404 };
+  }
+
+  return { revoked: true };
+}
+
+/**
+ * Sign out everywhere
+ * @param userId - Only this account's sessions; every account's when omitted
+ * @returns How many sessions were revoked
+ */
+export async function revokeAdminSessions(userId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from("admin_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString());
+
+  if (userId) {
+    query = query.eq("admin_user_id", userId);
+  }
+
+  const result = await query.select("id");
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return (result.data ?? []).length;
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { enableTwoFactor, verifySecondFactor } from "~/lib/admin-two-factor";
+import { totpCode, totpStep } from "~/lib/security/totp";
+import { installFakeSupabase, type FakeSupabase } from "~/lib/testing/fake-supabase";
+
+const USER_ID = "5a4c1d8e-0000-4000-8000-000000000004";
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+void describe("admin two-factor", () => {
+  let db: FakeSupabase;
+
+  beforeEach(() => {
+    db = installFakeSupabase();
+    db.table("admin_users").push({
+      id: USER_ID,
+      username: "alice",
+      totp_secret: null,
+      totp_pending_secret: SECRET,
+      totp_enabled_at: null,
+      totp_last_step: null,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function enable(): Promise<{ step: number; backupCodes: string[] }> {
+    const step = totpStep();
+    const outcome = await enableTwoFactor(USER_ID, totpCode(SECRET, step));
+
+    assert.ok(!("error" in outcome));
+    return { step, backupCodes: outcome.backupCodes };
+  }
+
+  void test("turning it on stores only hashes of the backup codes", async () => {
+    const { backupCodes } = await enable();
+
+    assert.equal(backupCodes.length, 10);
+    assert.equal(new Set(backupCodes).size, 10);
+
+    const stored = db.table("admin_backup_codes").map((row) => row.code_hash);
+    assert.equal(stored.length, 10);
+    assert.ok(backupCodes.every((code) => !stored.includes(code)));
+  });
+
+  void test("a code from the authenticator is only accepted once", async () => {
+    const { step } = await enable();
+
+    // The code that confirmed setup is already used up
+    assert.equal(await verifySecondFactor(USER_ID, totpCode(SECRET, step)), false);
+
+    const next = totpCode(SECRET, step + 1);
+    assert.equal(await verifySecondFactor(USER_ID, next), true);
+    assert.equal(await verifySecondFactor(USER_ID, next), false);
+
+    // Nor is an older code still inside the drift window
+    assert.equal(await verifySecondFactor(USER_ID, totpCode(SECRET, step - 1)), false);
+  });
+
+  void test("a backup code works once, in any case and with or without its dash", async () => {
+    const { backupCodes } = await enable();
+    const [first = "", second = ""] = backupCodes;
+
+    assert.equal(await verifySecondFactor(USER_ID, first.toUpperCase()), true);
+    assert.equal(await verifySecondFactor(USER_ID, first), false);
+    assert.equal(await verifySecondFactor(USER_ID, second.replace("-", "")), true);
+    assert.equal(await verifySecondFactor(USER_ID, "00000-00000"), false);
+  });
+
+  void test("codes are refused while two-factor is off", async () => {
+    assert.equal(await verifySecondFactor(USER_ID, totpCode(SECRET, totpStep())), false);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Admin Two-Factor Authentication
+ *
+ * Optional TOTP enrollment for staff accounts. Setup stores a pending secret
+ * and returns it as a QR code; confirming a code from the authenticator app
+ * turns it on and hands out one-time backup codes. Once on, login needs a
+ * code from the app or an unused backup code after the password.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { generateTotpSecret, totpUri, verifyTotp } from "~/lib/security/totp";
+
+const TOTP_ISSUER = "Symphony Labs";
+const BACKUP_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL, rendered here so the secret never leaves the server
+  qrCode: string;
+}
+
+interface TwoFactorRow {
+  id: string;
+  username: string;
+  totp_secret: string | null;
+  totp_pending_secret: string | null;
+  totp_enabled_at: string | null;
+}
+
+type TwoFactorOutcome<T> = T | { error: string; status: number };
+
+function normalizeBackupCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashBackupCode(code: string): string {
+  return createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+}
+
+async function getTwoFactorRow(userId: string): Promise<TwoFactorRow | null> {
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .select("id, username, totp_secret, totp_pending_secret, totp_enabled_at")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return result.data as TwoFactorRow | null;
+}
+
+/**
+ * Accept a TOTP code at most once
+ * The step is only recorded if it is newer than the last one accepted, so two
+ * requests racing with the same code can't both succeed.
+ */
+async function consumeTotpStep(userId: string, step: number): Promise<boolean> {
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .update({ totp_last_step: step })
+    .eq("id", userId)
+    .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+    .select("id");
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return (result.data ?? []).length > 0;
+}
+
+async function consumeBackupCode(userId: string, code: string): Promise<boolean> {
+  const result = await supabaseAdmin
+    .from("admin_backup_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("admin_user_id", userId)
+    .eq("code_hash", hashBackupCode(code))
+    .is("used_at", null)
+    .select("id");
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return (result.data ?? []).length > 0;
+}
+
+/**
+ * Replace all of an account's backup codes
+ * @returns The new codes; only their hashes are stored
+ */
+async function replaceBackupCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  const deleteResult = await supabaseAdmin
+    .from("admin_backup_codes")
+    .delete()
+    .eq("admin_user_id", userId);
+
+  if (deleteResult.error) {
+    throw new Error(deleteResult.error.message);
+  }
+
+  const insertResult = await supabaseAdmin
+    .from("admin_backup_codes")
+    .insert(codes.map((code) => ({
+      admin_user_id: userId,
+      code_hash: hashBackupCode(code),
+    })));
+
+  if (insertResult.error) {
+    throw new Error(insertResult.error.message);
+  }
+
+  return codes;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const row = await getTwoFactorRow(userId);
+
+  const countResult = await supabaseAdmin
+    .from("admin_backup_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("admin_user_id", userId)
+    .is("used_at", null);
+
+  if (countResult.error) {
+    throw new Error(countResult.error.message);
+  }
+
+  return {
+    enabled: Boolean(row?.totp_secret),
+    enabledAt: row?.totp_enabled_at ?? null,
+    backupCodesRemaining: countResult.count ?? 0,
+  };
+}
+
+/**
+ * Check a second-factor code during login
+ * Accepts a current authenticator code or an unused backup code, and uses it
+ * up either way.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const row = await getTwoFactorRow(userId);
+
+  if (!row?.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(row.totp_secret, code);
+
+  if (step !== null) {
+    return consumeTotpStep(userId, step);
+  }
+
+  return consumeBackupCode(userId, code);
+}
+
+/**
+ * Start enrollment with a fresh secret
+ * Nothing changes for login until enableTwoFactor confirms a code.
+ */
+export async function startTwoFactorSetup(
+  userId: string
+): Promise<TwoFactorOutcome<{ setup: TwoFactorSetup }>> {
+  const row = await getTwoFactorRow(userId);
+
+  if (!row) {
+    return { error: "Account not found", status: 404 };
+  }
+
+  if (row.totp_secret) {
+    return { error: "Two-factor authentication is already on", status: 409 };
+  }
+
+  const secret = generateTotpSecret();
+
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .update({ totp_pending_secret: secret })
+    .eq("id", userId);
+
+  if (result.error) {
+    return { error: result.error.message, status: 500 };
+  }
+
+  const otpauthUrl = totpUri(secret, row.username, TOTP_ISSUER);
+
+  return {
+    setup: {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 }),
+    },
+  };
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ * @returns Backup codes, shown to the user once
+ */
+export async function enableTwoFactor(
+  userId: string,
+  code: string
+): Promise<TwoFactorOutcome<{ backupCodes: string[] }>> {
+  const row = await getTwoFactorRow(userId);
+
+  if (!row) {
+    return { error: "Account not found", status: 404 };
+  }
+
+  if (row.totp_secret) {
+    return { error: "Two-factor authentication is already on", status: 409 };
+  }
+
+  if (!row.totp_pending_secret) {
+    return { error: "Start setup first", status: 400 };
+  }
+
+  const step = verifyTotp(row.totp_pending_secret, code);
+
+  if (step === null) {
+    return { error: "That code isn't right; check the time on your device", status: 400 };
+  }
+
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .update({
+      totp_secret: row.totp_pending_secret,
+      totp_pending_secret: null,
+      totp_enabled_at: new Date().toISOString(),
+      totp_last_step: step,
+    })
+    .eq("id", userId);
+
+  if (result.error) {
+    return { error: result.error.message, status: 500 };
+  }
+
+  return { backupCodes: await replaceBackupCodes(userId) };
+}
+
+/**
+ * Turn two-factor authentication off; needs a current code
+ */
+export async function disableTwoFactor(
+  userId: string,
+  code: string
+): Promise<TwoFactorOutcome<{ disabled: true }>> {
+  if (!(await verifySecondFactor(userId, code))) {
+    return { error: "Invalid two-factor code", status: 400 };
+  }
+
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .update({
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_enabled_at: null,
+      totp_last_step: null,
+    })
+    .eq("id", userId);
+
+  if (result.error) {
+    return { error: result.error.message, status: 500 };
+  }
+
+  const deleteResult = await supabaseAdmin
+    .from("admin_backup_codes")
+    .delete()
+    .eq("admin_user_id", userId);
+
+  if (deleteResult.error) {
+    return { error: deleteResult.error.message, status: 500 };
+  }
+
+  return { disabled: true };
+}
+
+/**
+ * Issue a new set of backup codes, voiding the old ones; needs a current code
+ */
+export async function regenerateBackupCodes(
+  userId: string,
+  code: string
+): Promise<TwoFactorOutcome<{ backupCodes: string[] }>> {
+  if (!(await verifySecondFactor(userId, code))) {
+    return { error: "Invalid two-factor code", status: 400 };
+  }
+
+  return { backupCodes: await replaceBackupCodes(userId) };
+}
@@ -0,0 +1,358 @@
+/**
+ * Admin Staff Accounts
+ *
+ * One admin_users row per staff member, with a bcrypt password hash and a
+ * role from ~/lib/security/permissions. Staff join through an invite link the
+ * owner shares with them; the link sets their password. While the table is
+ * empty, ADMIN_USERNAME/ADMIN_PASSWORD log in once to create the owner.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { compare, hash } from "bcryptjs";
+import { env } from "~/env";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { revokeAdminSessions } from "~/lib/admin-sessions";
+import type { AdminRole } from "~/lib/security/permissions";
+
+const BCRYPT_ROUNDS = 12;
+const INVITE_EXPIRATION_DAYS = 7;
+
+// Compared against when the account doesn't exist, so a wrong username takes
+// as long as a wrong password
+const DUMMY_HASH = "$2b$12$rhSyZ9NR5icx8UM2gkT6me.4RrWIkWA4ZNgIQ2mTDY7qVrAQv4ldy";
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  email: string | null;
+  role: AdminRole;
+  invite_expires_at: string | null;
+  invited_by: string | null;
+  disabled_at: string | null;
+  last_login_at: string | null;
+  // Set while two-factor authentication is turned on
+  totp_enabled_at: string | null;
+  created_at: string;
+  // True once the invite has been accepted
+  active: boolean;
+}
+
+interface AdminUserRow extends Omit<AdminUser, "active"> {
+  password_hash: string | null;
+}
+
+const ADMIN_USER_COLUMNS =
+  "id, username, email, role, password_hash, invite_expires_at, invited_by, disabled_at, last_login_at, totp_enabled_at, created_at";
+
+type AdminUserOutcome =
+  | { user: AdminUser }
+  | { error: string; status: number };
+
+function toAdminUser({ password_hash, ...row }: AdminUserRow): AdminUser {
+  return { ...row, active: password_hash !== null };
+}
+
+function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  // Hash first so the comparison doesn't leak the length
+  return timingSafeEqual(
+    createHash("sha256").update(a).digest(),
+    createHash("sha256").update(b).digest()
+  );
+}
+
+export function hashPassword(password: string): Promise<string> {
+  return hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Create the owner account from ADMIN_USERNAME/ADMIN_PASSWORD
+ * Only while there are no accounts at all.
+ */
+async function bootstrapOwner(username: string, password: string): Promise<AdminUser | null> {
+  if (!env.ADMIN_USERNAME || !env.ADMIN_PASSWORD) {
+    return null;
+  }
+
+  const usernameMatch = safeEqual(username, env.ADMIN_USERNAME);
+  const passwordMatch = safeEqual(password, env.ADMIN_PASSWORD);
+
+  if (!usernameMatch || !passwordMatch) {
+    return null;
+  }
+
+  const countResult = await supabaseAdmin
+    .from("admin_users")
+    .select("id", { count: "exact", head: true });
+
+  if (countResult.error) {
+    throw new Error(countResult.error.message);
+  }
+
+  if ((countResult.count ?? 0) > 0) {
+    return null;
+  }
+
+  const insertResult = await supabaseAdmin
+    .from("admin_users")
+    .insert({
+      username,
+      role: "owner",
+      password_hash: await hashPassword(password),
+      invited_by: "bootstrap",
+      last_login_at: new Date().toISOString(),
+    })
+    .select(ADMIN_USER_COLUMNS)
+    .single();
+
+  if (insertResult.error) {
+    throw new Error(insertResult.error.message);
+  }
+
+  return toAdminUser(insertResult.data as AdminUserRow);
+}
+
+/**
+ * Check a staff member's username and password
+ * @returns The account, or null when the credentials are wrong or the account
+ * is disabled or hasn't accepted its invite
+ */
+export async function authenticateAdmin(
+  username: string,
+  password: string
+): Promise<AdminUser | null> {
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .select(ADMIN_USER_COLUMNS)
+    .eq("username", username)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  const row = result.data as AdminUserRow | null;
+
+  if (!row?.password_hash || row.disabled_at) {
+    await compare(password, DUMMY_HASH);
+    return row ? null : await bootstrapOwner(username, password);
+  }
+
+  if (!(await compare(password, row.password_hash))) {
+    return null;
+  }
+
+  await supabaseAdmin
+    .from("admin_users")
+    .update({ last_login_at: new Date().toISOString() })
+    .eq("id", row.id);
+
+  return toAdminUser(row);
+}
+
+/**
+ * The account behind a token, to catch staff disabled or re-roled since
+ * the token was issued
+ */
+export async function getAdminUser(id: string): Promise<AdminUser | null> {
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .select(ADMIN_USER_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return result.data ? toAdminUser(result.data as AdminUserRow) : null;
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .select(ADMIN_USER_COLUMNS)
+    .order("created_at", { ascending: true });
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return ((result.data ?? []) as AdminUserRow[]).map(toAdminUser);
+}
+
+function newInvite() {
+  const token = randomBytes(32).toString("hex");
+  return {
+    token,
+    invite_token_hash: hashInviteToken(token),
+    invite_expires_at: new Date(
+      Date.now() + INVITE_EXPIRATION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  };
+}
+
+/**
+ * Create an account that is activated through an invite link
+ * The token is returned once; only its hash is stored.
+ */
+export async function inviteAdminUser(params: {
+  username: string;
+  email?: string;
+  role: AdminRole;
+  invitedBy: string;
+}): Promise<{ user: AdminUser; inviteToken: string } | { error: string; status: number }> {
+  const { token, ...invite } = newInvite();
+
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .insert({
+      username: params.username,
+      email: params.email ?? null,
+      role: params.role,
+      invited_by: params.invitedBy,
+      ...invite,
+    })
+    .select(ADMIN_USER_COLUMNS)
+    .single();
+
+  if (result.error) {
+    if (result.error.code === "23505") {
+      return { error: "That username is already taken", status: 409 };
+    }
+    return { error: result.error.message, status: 500 };
+  }
+
+  return { user: toAdminUser(result.data as AdminUserRow), inviteToken: token };
+}
+
+/**
+ * Set the password for an invited account
+ */
+export async function acceptAdminInvite(
+  token: string,
+  password: string
+): Promise<AdminUserOutcome> {
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .select(ADMIN_USER_COLUMNS)
+    .eq("invite_token_hash", hashInviteToken(token))
+    .maybeSingle();
+
+  if (result.error) {
+    return { error: result.error.message, status: 500 };
+  }
+
+  const row = result.data as AdminUserRow | null;
+
+  if (!row || row.disabled_at) {
+    return { error: "This invite link is not valid", status: 404 };
+  }
+
+  if (!row.invite_expires_at || new Date(row.invite_expires_at) < new Date()) {
+    return { error: "This invite link has expired; ask for a new one", status: 410 };
+  }
+
+  const updateResult = await supabaseAdmin
+    .from("admin_users")
+    .update({
+      password_hash: await hashPassword(password),
+      invite_token_hash: null,
+      invite_expires_at: null,
+    })
+    .eq("id", row.id)
+    .select(ADMIN_USER_COLUMNS)
+    .single();
+
+  if (updateResult.error) {
+    return { error: updateResult.error.message, status: 500 };
+  }
+
+  return { user: toAdminUser(updateResult.data as AdminUserRow) };
+}
+
+/**
+ * Change a staff member's role, disable or re-enable them, or issue a fresh
+ * invite link. There must always be an active owner left.
+ * @param actorId - Account making the change; staff can't change themselves
+ */
+export async function updateAdminUser(
+  id: string,
+  changes: { role?: AdminRole; disabled?: boolean; resendInvite?: boolean },
+  actorId: string
+): Promise<{ user: AdminUser; inviteToken?: string } | { error: string; status: number }> {
+  if (id === actorId) {
+    return { error: "You can't change your own account", status: 400 };
+  }
+
+  const existing = await getAdminUser(id);
+
+  if (!existing) {
+    return { error: "Staff member not found", status: 404 };
+  }
+
+  const losesOwner =
+    existing.role === "owner" &&
+    !existing.disabled_at &&
+    ((changes.role !== undefined && changes.role !== "owner") || changes.disabled === true);
+
+  if (losesOwner) {
+    const ownersResult = await supabaseAdmin
+      .from("admin_users")
+      .select("id", { count: "exact", head: true })
+      .eq("role", "owner")
+      .is("disabled_at", null)
+      .not("password_hash", "is", null);
+
+    if (ownersResult.error) {
+      return { error: ownersResult.error.message, status: 500 };
+    }
+
+    if ((ownersResult.count ?? 0) <= 1) {
+      return { error: "There must be at least one active owner", status: 409 };
+    }
+  }
+
+  if (changes.resendInvite && existing.active) {
+    return { error: "This account has already accepted its invite", status: 409 };
+  }
+
+  const invite = changes.resendInvite ? newInvite() : null;
+  const updates: Record<string, unknown> = {};
+
+  if (changes.role !== undefined) {
+    updates.role = changes.role;
+  }
+
+  if (changes.disabled !== undefined) {
+    updates.disabled_at = changes.disabled ? new Date().toISOString() : null;
+  }
+
+  if (invite) {
+    updates.invite_token_hash = invite.invite_token_hash;
+    updates.invite_expires_at = invite.invite_expires_at;
+  }
+
+  const result = await supabaseAdmin
+    .from("admin_users")
+    .update(updates)
+    .eq("id", id)
+    .select(ADMIN_USER_COLUMNS)
+    .single();
+
+  if (result.error) {
+    return { error: result.error.message, status: 500 };
+  }
+
+  if (changes.disabled) {
+    await revokeAdminSessions(id);
+  }
+
+  return {
+    user: toAdminUser(result.data as AdminUserRow),
+    ...(invite ? { inviteToken: invite.token } : {}),
+  };
+}
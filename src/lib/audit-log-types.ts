@@ -0,0 +1,38 @@
+/**
+ * Audit Log Types
+ *
+ * The shape of audit_log entries, kept apart from ~/lib/audit-log so the
+ * admin UI can use them without pulling in the service-role client.
+ */
+
+export const AUDIT_ENTITY_TYPES = [
+  "product",
+  "lab_test",
+  "coupon",
+  "coupon_campaign",
+  "banner",
+  "shipping_config",
+  "order",
+  "stock",
+  "staff",
+  "session",
+  "two_factor",
+  "bisq_trade",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_username: string;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  changes: AuditChanges;
+  metadata: Record<string, unknown> | null;
+  ip_address: string | null;
+  created_at: string;
+}
@@ -0,0 +1,162 @@
+/**
+ * Admin Audit Log
+ *
+ * Every admin change is appended to audit_log with the admin who made it,
+ * the record it touched and the fields that changed. Recording never fails
+ * the change itself: a write error is logged and the request carries on.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { toCsvCell } from "~/lib/stock";
+import { logSecurityEvent, SecurityEventType } from "~/lib/security/logger";
+import type { AuditChanges, AuditEntityType, AuditLogEntry } from "~/lib/audit-log-types";
+
+export {
+  AUDIT_ENTITY_TYPES,
+  type AuditEntityType,
+  type AuditChanges,
+  type AuditLogEntry,
+} from "~/lib/audit-log-types";
+
+export interface AuditEvent {
+  // "<entity>.<verb>", e.g. product.update
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  // Record before and after the change; omit before for creates and after
+  // for deletes
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Bumped by triggers on every write, so never interesting on its own
+const IGNORED_FIELDS = new Set(["updated_at"]);
+
+/**
+ * The fields that differ between two versions of a record
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+
+    const beforeValue = before?.[key] ?? null;
+    const afterValue = after?.[key] ?? null;
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[key] = { before: beforeValue, after: afterValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append an admin change to the audit log
+ * @param actor - Admin token payload of whoever made the change
+ */
+export async function recordAuditEvent(
+  request: Request,
+  actor: { sub: string; username: string },
+  event: AuditEvent
+): Promise<void> {
+  const forwarded = request.headers.get("x-forwarded-for");
+
+  const { error } = await supabaseAdmin.from("audit_log").insert({
+    actor_id: actor.sub,
+    actor_username: actor.username,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId ?? null,
+    changes: diffRecords(event.before, event.after),
+    metadata: event.metadata ?? null,
+    ip_address: forwarded?.split(",")[0]?.trim() ?? null,
+  });
+
+  if (error) {
+    console.error("Failed to write audit log:", error);
+    logSecurityEvent(SecurityEventType.API_ERROR, "Audit log write failed", {
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      error: error.message,
+    });
+  }
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Audit entries matching the filters, newest first
+ */
+export async function listAuditEvents(
+  filters: AuditLogFilters,
+  limit: number,
+  offset = 0
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  let query = supabaseAdmin
+    .from("audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+  if (filters.entityId) query = query.eq("entity_id", filters.entityId);
+  if (filters.actor) query = query.eq("actor_username", filters.actor);
+  if (filters.from) query = query.gte("created_at", new Date(filters.from).toISOString());
+  if (filters.to) query = query.lte("created_at", new Date(filters.to).toISOString());
+
+  const result = await query;
+
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+
+  return {
+    entries: (result.data ?? []) as AuditLogEntry[],
+    total: result.count ?? 0,
+  };
+}
+
+/**
+ * Render audit entries as CSV, one row per entry with the changes as JSON
+ */
+export function auditEventsToCsv(entries: AuditLogEntry[]): string {
+  const header = [
+    "date",
+    "actor",
+    "action",
+    "entity_type",
+    "entity_id",
+    "changes",
+    "metadata",
+    "ip_address",
+  ];
+
+  const rows = entries.map((entry) => [
+    entry.created_at,
+    entry.actor_username,
+    entry.action,
+    entry.entity_type,
+    entry.entity_id,
+    entry.changes,
+    entry.metadata,
+    entry.ip_address,
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\n");
+}
@@ -0,0 +1,539 @@
+/**
+ * Bisq P2P Payments
+ *
+ * Order-level flow on top of the Bisq daemon client. For each order the shop
+ * publishes an offer to buy BTC worth the order total, paid with one of its
+ * fiat payment accounts. Whoever takes the offer sells the shop BTC; the
+ * shopper pays that seller in fiat using the seller's payment details, and the
+ * order is paid once Bisq publishes the payout to the shop's wallet.
+ *
+ * Trade state is mirrored into bisq_trades on every refresh, so the checkout,
+ * the admin monitor and the background job all read the same row.
+ */
+
+import { env } from "~/env";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import {
+  markOrderPaid,
+  markAwaitingPayment,
+  closeUnpaidOrder,
+  extendStockReservation,
+  logTransaction,
+  RESERVATION_GRACE_MINUTES,
+} from "~/lib/orders";
+import {
+  fiatToSats,
+  getTradeProgress,
+  satsToBtc,
+  type BisqClient,
+  type BisqTradeProgress,
+} from "~/lib/bisq";
+
+const CURRENCY_CODE = "USD";
+
+export type BisqTradeStatus = "offer_open" | "trading" | "completed" | "expired" | "cancelled";
+
+// Statuses that still need polling
+export const OPEN_BISQ_TRADE_STATUSES: BisqTradeStatus[] = ["offer_open", "trading"];
+
+export interface BisqTrade {
+  id: string;
+  order_id: string;
+  trade_id: string;
+  offer_id: string;
+  direction: string;
+  payment_method: string;
+  payment_account_id: string | null;
+  btc_amount: number;
+  btc_price: number | null;
+  fiat_amount: number;
+  currency_code: string;
+  status: BisqTradeStatus;
+  trade_state: string;
+  phase: string | null;
+  deposit_published: boolean;
+  deposit_confirmed: boolean;
+  fiat_sent: boolean;
+  fiat_received: boolean;
+  payout_published: boolean;
+  deposit_tx_id: string | null;
+  payout_tx_id: string | null;
+  seller_payment_details: { paymentMethodId?: string; paymentDetails?: string } | null;
+  contract_json: Record<string, unknown> | null;
+  offer_expires_at: string | null;
+  last_checked_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BisqPaymentOption {
+  id: string;
+  paymentMethodId: string;
+  name: string;
+}
+
+/**
+ * What the checkout needs to show the shopper
+ */
+export interface BisqTradeView {
+  orderId: string;
+  shortId: string;
+  status: BisqTradeStatus;
+  progress: BisqTradeProgress;
+  paymentMethod: string;
+  fiatAmount: number;
+  currencyCode: string;
+  btcAmount: number;
+  // Only shown once the seller's deposit is confirmed
+  sellerPaymentDetails: string | null;
+  offerExpiresAt: string | null;
+}
+
+interface BisqConfig {
+  orderExpiryHours: number;
+  minTradeBtc: number;
+  maxTradeBtc: number;
+  tradeWindowHours: number;
+}
+
+interface BisqDeps {
+  client: BisqClient;
+}
+
+/**
+ * Bisq limits from system_config, with the defaults bisq-migration.sql seeds
+ */
+export async function getBisqConfig(): Promise<BisqConfig> {
+  const { data } = await supabaseAdmin
+    .from("system_config")
+    .select("key, value")
+    .in("key", ["order_expiry_hours", "min_trade_amount_btc", "max_trade_amount_btc", "trade_window_hours"]);
+
+  const values = new Map(
+    ((data ?? []) as { key: string; value: string }[]).map((row) => [row.key, parseFloat(row.value)])
+  );
+  const read = (key: string, fallback: number) => {
+    const value = values.get(key);
+    return value !== undefined && Number.isFinite(value) ? value : fallback;
+  };
+
+  return {
+    orderExpiryHours: read("order_expiry_hours", 2),
+    minTradeBtc: read("min_trade_amount_btc", 0.001),
+    maxTradeBtc: read("max_trade_amount_btc", 0.1),
+    tradeWindowHours: read("trade_window_hours", 72),
+  };
+}
+
+/**
+ * Fiat payment methods the shop has a Bisq account for
+ */
+export async function getBisqPaymentOptions(): Promise<BisqPaymentOption[]> {
+  const { data, error } = await supabaseAdmin
+    .from("payment_accounts")
+    .select("id, payment_method_id, payment_method_name")
+    .eq("is_active", true)
+    .order("payment_method_name");
+
+  if (error) {
+    throw new Error(`Failed to load payment accounts: ${error.message}`);
+  }
+
+  return ((data ?? []) as { id: string; payment_method_id: string; payment_method_name: string }[])
+    .map((account) => ({
+      id: account.id,
+      paymentMethodId: account.payment_method_id,
+      name: account.payment_method_name,
+    }));
+}
+
+/**
+ * Shape a trade row for the checkout
+ */
+export function toTradeView(trade: BisqTrade): BisqTradeView {
+  const progress = getTradeProgress(
+    trade.status === "offer_open"
+      ? null
+      : {
+          tradeId: trade.trade_id,
+          isDepositConfirmed: trade.deposit_confirmed,
+          isPaymentStartedMessageSent: trade.fiat_sent,
+          isPaymentReceivedMessageSent: trade.fiat_received,
+          isPayoutPublished: trade.payout_published,
+        }
+  );
+
+  return {
+    orderId: trade.order_id,
+    shortId: trade.trade_id.slice(0, 8),
+    status: trade.status,
+    progress,
+    paymentMethod: trade.payment_method,
+    fiatAmount: Number(trade.fiat_amount),
+    currencyCode: trade.currency_code,
+    btcAmount: Number(trade.btc_amount),
+    sellerPaymentDetails: trade.deposit_confirmed
+      ? trade.seller_payment_details?.paymentDetails ?? null
+      : null,
+    offerExpiresAt: trade.offer_expires_at,
+  };
+}
+
+/**
+ * Find the Bisq trade for an order
+ */
+export async function getBisqTrade(orderId: string): Promise<BisqTrade | null> {
+  const result = await supabaseAdmin
+    .from("bisq_trades")
+    .select("*")
+    .eq("order_id", orderId)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Failed to load Bisq trade: ${result.error.message}`);
+  }
+
+  return result.data as BisqTrade | null;
+}
+
+/**
+ * Publish a Bisq offer for an order
+ * Calling it again for the same order returns the existing trade.
+ * @param order - The order's id, number and server-computed total
+ * @param paymentAccountId - payment_accounts row the shopper will pay with
+ */
+export async function openBisqOffer(
+  order: { id: string; order_number: string; total_amount: number },
+  paymentAccountId: string,
+  { client }: BisqDeps
+): Promise<
+  | { trade: BisqTrade }
+  | { error: "payment_method_unavailable" | "amount_out_of_range"; message: string }
+> {
+  const existing = await getBisqTrade(order.id);
+
+  if (existing) {
+    return { trade: existing };
+  }
+
+  const accountResult = await supabaseAdmin
+    .from("payment_accounts")
+    .select("id, payment_method_id, payment_method_name, bisq_account_id")
+    .eq("id", paymentAccountId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  const account = accountResult.data as {
+    id: string;
+    payment_method_id: string;
+    payment_method_name: string;
+    bisq_account_id: string;
+  } | null;
+
+  if (!account) {
+    return { error: "payment_method_unavailable", message: "Payment method is not available" };
+  }
+
+  const config = await getBisqConfig();
+  const fiatAmount = Number(order.total_amount);
+  const price = await client.getMarketPrice(CURRENCY_CODE);
+  const amountSats = fiatToSats(fiatAmount, price);
+  const btcAmount = satsToBtc(amountSats);
+
+  if (btcAmount < config.minTradeBtc || btcAmount > config.maxTradeBtc) {
+    return {
+      error: "amount_out_of_range",
+      message: `Bisq trades must be between ${config.minTradeBtc} and ${config.maxTradeBtc} BTC`,
+    };
+  }
+
+  const offer = await client.createBuyOffer({
+    currencyCode: CURRENCY_CODE,
+    price,
+    amountSats,
+    securityDepositPct: env.BISQ_SECURITY_DEPOSIT_PCT,
+    paymentAccountId: account.bisq_account_id,
+  });
+
+  const offerExpiresAt = new Date(Date.now() + config.orderExpiryHours * 60 * 60 * 1000);
+
+  const result = await supabaseAdmin
+    .from("bisq_trades")
+    .insert([
+      {
+        order_id: order.id,
+        // Bisq reuses the offer ID as the trade ID once the offer is taken
+        trade_id: offer.id,
+        offer_id: offer.id,
+        direction: "BUY",
+        payment_method: account.payment_method_name,
+        payment_account_id: account.id,
+        btc_amount: btcAmount,
+        btc_price: price,
+        fiat_amount: fiatAmount,
+        currency_code: CURRENCY_CODE,
+        status: "offer_open",
+        trade_state: "OFFER_OPEN",
+        offer_expires_at: offerExpiresAt.toISOString(),
+      },
+    ])
+    .select()
+    .single();
+
+  if (result.error || !result.data) {
+    // Don't leave an offer on the market that nothing tracks
+    await client.cancelOffer(offer.id).catch(() => undefined);
+
+    // 23505: a concurrent request opened the offer first
+    if (result.error?.code === "23505") {
+      const concurrent = await getBisqTrade(order.id);
+      if (concurrent) return { trade: concurrent };
+    }
+    throw new Error(`Failed to store Bisq trade: ${result.error?.message}`);
+  }
+
+  const trade = result.data as BisqTrade;
+
+  await supabaseAdmin
+    .from("orders")
+    .update({ btc_amount: btcAmount, expires_at: offerExpiresAt.toISOString() })
+    .eq("id", order.id);
+
+  await extendStockReservation(
+    order.id,
+    new Date(offerExpiresAt.getTime() + RESERVATION_GRACE_MINUTES * 60 * 1000)
+  );
+
+  await markAwaitingPayment(order.id, "bisq");
+
+  await logTransaction(order.id, "bisq_offer_created", {
+    offerId: offer.id,
+    paymentMethod: account.payment_method_id,
+    btcAmount,
+    price,
+  }, trade.id);
+
+  return { trade };
+}
+
+/**
+ * Close an open trade row, guarded so it only happens once
+ */
+async function closeTrade(
+  trade: BisqTrade,
+  status: "expired" | "cancelled"
+): Promise<BisqTrade> {
+  const result = await supabaseAdmin
+    .from("bisq_trades")
+    .update({ status, trade_state: status === "expired" ? "OFFER_EXPIRED" : "OFFER_CANCELLED" })
+    .eq("id", trade.id)
+    .eq("status", "offer_open")
+    .select()
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Failed to update Bisq trade: ${result.error.message}`);
+  }
+
+  if (!result.data) {
+    return (await getBisqTrade(trade.order_id)) ?? trade;
+  }
+
+  await closeUnpaidOrder(trade.order_id, status, "bisq");
+  await logTransaction(trade.order_id, `bisq_offer_${status}`, { offerId: trade.offer_id }, trade.id);
+
+  return result.data as BisqTrade;
+}
+
+/**
+ * Read the trade from the daemon and apply it
+ * Extends the stock reservation once the offer is taken, marks the order paid
+ * when the payout is published, and expires the order when nobody takes the
+ * offer in time.
+ */
+export async function refreshBisqTrade(
+  trade: BisqTrade,
+  { client }: BisqDeps
+): Promise<BisqTrade> {
+  if (!OPEN_BISQ_TRADE_STATUSES.includes(trade.status)) {
+    return trade;
+  }
+
+  const info = await client.getTrade(trade.trade_id);
+
+  if (!info) {
+    const isExpired =
+      !!trade.offer_expires_at && new Date(trade.offer_expires_at).getTime() <= Date.now();
+
+    if (trade.status === "offer_open" && isExpired) {
+      await client.cancelOffer(trade.offer_id).catch(() => undefined);
+      return closeTrade(trade, "expired");
+    }
+
+    return trade;
+  }
+
+  const progress = getTradeProgress(info);
+  const status: BisqTradeStatus = progress === "completed" ? "completed" : "trading";
+  const now = new Date().toISOString();
+  const seller = info.contract?.sellerPaymentAccountPayload;
+
+  let contract: Record<string, unknown> | null = trade.contract_json;
+  if (info.contractAsJson) {
+    try {
+      contract = JSON.parse(info.contractAsJson) as Record<string, unknown>;
+    } catch {
+      // Keep whatever was stored before
+    }
+  }
+
+  const result = await supabaseAdmin
+    .from("bisq_trades")
+    .update({
+      status,
+      trade_state: info.state ?? trade.trade_state,
+      phase: info.phase ?? null,
+      deposit_published: info.isDepositPublished ?? false,
+      deposit_confirmed: info.isDepositConfirmed ?? false,
+      fiat_sent: info.isPaymentStartedMessageSent ?? false,
+      fiat_received: info.isPaymentReceivedMessageSent ?? false,
+      payout_published: info.isPayoutPublished ?? false,
+      deposit_tx_id: info.depositTxId ?? null,
+      payout_tx_id: info.payoutTxId ?? null,
+      ...(info.tradeAmountAsLong ? { btc_amount: satsToBtc(Number(info.tradeAmountAsLong)) } : {}),
+      ...(info.tradeVolume ? { fiat_amount: parseFloat(info.tradeVolume) } : {}),
+      seller_payment_details: seller
+        ? { paymentMethodId: seller.paymentMethodId, paymentDetails: seller.paymentDetails }
+        : trade.seller_payment_details,
+      contract_json: contract,
+      last_checked_at: now,
+      ...(status === "completed" ? { completed_at: now } : {}),
+    })
+    .eq("id", trade.id)
+    .in("status", OPEN_BISQ_TRADE_STATUSES)
+    .select()
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Failed to update Bisq trade: ${result.error.message}`);
+  }
+
+  // Another poll already settled it
+  if (!result.data) {
+    return (await getBisqTrade(trade.order_id)) ?? trade;
+  }
+
+  const updated = result.data as BisqTrade;
+
+  if (trade.status === "offer_open") {
+    // Bank transfers can take days; hold the stock for the whole trade
+    const config = await getBisqConfig();
+    await extendStockReservation(
+      trade.order_id,
+      new Date(Date.now() + config.tradeWindowHours * 60 * 60 * 1000)
+    );
+    await logTransaction(trade.order_id, "bisq_offer_taken", { tradeId: info.tradeId }, trade.id);
+  }
+
+  if (updated.fiat_received && !trade.fiat_received) {
+    await logTransaction(trade.order_id, "bisq_payment_received", { tradeId: info.tradeId }, trade.id);
+  }
+
+  if (status === "completed") {
+    const outcome = await markOrderPaid(trade.order_id, "bisq");
+    if (outcome.error) {
+      throw new Error(`Failed to mark order paid: ${outcome.error}`);
+    }
+
+    // Funds stay in the daemon's wallet; this only files the trade away
+    await client.closeTrade(info.tradeId).catch((error: unknown) => {
+      console.error("Failed to close Bisq trade:", error);
+    });
+
+    await logTransaction(trade.order_id, "bisq_trade_completed", {
+      tradeId: info.tradeId,
+      payoutTxId: info.payoutTxId,
+      btcAmount: updated.btc_amount,
+    }, trade.id);
+  }
+
+  return updated;
+}
+
+/**
+ * Tell the seller the shopper has sent the fiat payment
+ * @returns confirmed=false when the trade isn't waiting on the shopper
+ */
+export async function confirmBisqPayment(
+  trade: BisqTrade,
+  { client }: BisqDeps
+): Promise<{ confirmed: boolean; trade: BisqTrade }> {
+  const current = await refreshBisqTrade(trade, { client });
+
+  if (current.status !== "trading" || !current.deposit_confirmed || current.fiat_sent) {
+    return { confirmed: false, trade: current };
+  }
+
+  await client.confirmPaymentStarted(current.trade_id);
+  await logTransaction(current.order_id, "bisq_payment_sent", { tradeId: current.trade_id }, current.id);
+
+  return { confirmed: true, trade: await refreshBisqTrade(current, { client }) };
+}
+
+/**
+ * Withdraw an offer nobody has taken yet and cancel its order
+ * @returns cancelled=false once the offer has been taken
+ */
+export async function cancelBisqOffer(
+  trade: BisqTrade,
+  { client }: BisqDeps
+): Promise<{ cancelled: boolean; trade: BisqTrade }> {
+  const current = await refreshBisqTrade(trade, { client });
+
+  if (current.status !== "offer_open") {
+    return { cancelled: false, trade: current };
+  }
+
+  await client.cancelOffer(current.offer_id);
+
+  const closed = await closeTrade(current, "cancelled");
+  return { cancelled: closed.status === "cancelled", trade: closed };
+}
+
+/**
+ * Refresh every trade that is still open
+ * Used by the background job and the admin monitor's sync button.
+ * @returns One entry per trade, with the status before and after
+ */
+export async function refreshOpenBisqTrades(
+  { client }: BisqDeps
+): Promise<{ orderId: string; from: BisqTradeStatus; to: BisqTradeStatus; error?: string }[]> {
+  const result = await supabaseAdmin
+    .from("bisq_trades")
+    .select("*")
+    .in("status", OPEN_BISQ_TRADE_STATUSES);
+
+  if (result.error) {
+    throw new Error(`Failed to load open Bisq trades: ${result.error.message}`);
+  }
+
+  const trades = (result.data ?? []) as BisqTrade[];
+  const outcomes = [];
+
+  for (const trade of trades) {
+    try {
+      const updated = await refreshBisqTrade(trade, { client });
+      outcomes.push({ orderId: trade.order_id, from: trade.status, to: updated.status });
+    } catch (error) {
+      outcomes.push({
+        orderId: trade.order_id,
+        from: trade.status,
+        to: trade.status,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,264 @@
+/**
+ * Bisq Daemon API Client
+ *
+ * The Bisq daemon only speaks gRPC, so it is reached through a gRPC-JSON
+ * gateway (e.g. Envoy's grpc_json_transcoder loaded with Bisq's grpc.proto).
+ * Every call is POST /io.bisq.protobuffer.<Service>/<Method> with a JSON body;
+ * the daemon's API password travels as the "password" header, which the
+ * gateway forwards as call metadata.
+ *
+ * Fields follow the proto3 JSON mapping: camelCase names, 64-bit integers as
+ * strings, and false/empty values left out.
+ */
+
+import { env } from "~/env";
+
+export const SATOSHIS_PER_BTC = 100_000_000;
+
+const PROTO_PACKAGE = "io.bisq.protobuffer";
+
+type FetchLike = typeof fetch;
+
+interface BisqClientOptions {
+  url: string;
+  password: string;
+  fetch?: FetchLike;
+}
+
+export interface BisqOfferInfo {
+  id: string;
+  direction: string; // "BUY" or "SELL"
+  price?: string;
+  amount?: string; // Satoshis
+  volume?: string;
+  paymentAccountId?: string;
+  paymentMethodId?: string;
+  paymentMethodShortName?: string;
+  counterCurrencyCode?: string;
+  state?: string;
+  date?: string;
+}
+
+export interface BisqPaymentAccountPayload {
+  id?: string;
+  paymentMethodId?: string;
+  address?: string;
+  paymentDetails?: string;
+}
+
+export interface BisqTradeInfo {
+  tradeId: string;
+  shortId?: string;
+  offer?: BisqOfferInfo;
+  role?: string;
+  tradeAmountAsLong?: string; // Satoshis
+  tradePrice?: string;
+  tradeVolume?: string; // Fiat amount actually traded
+  state?: string;
+  phase?: string;
+  tradePeriodState?: string;
+  isDepositPublished?: boolean;
+  isDepositConfirmed?: boolean;
+  isPaymentStartedMessageSent?: boolean;
+  isPaymentReceivedMessageSent?: boolean;
+  isPayoutPublished?: boolean;
+  isCompleted?: boolean;
+  depositTxId?: string;
+  payoutTxId?: string;
+  contractAsJson?: string;
+  contract?: {
+    sellerPaymentAccountPayload?: BisqPaymentAccountPayload;
+    buyerPaymentAccountPayload?: BisqPaymentAccountPayload;
+  };
+}
+
+export interface BisqPaymentAccount {
+  id: string;
+  accountName?: string;
+  paymentMethod?: { id: string };
+}
+
+export class BisqApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "BisqApiError";
+  }
+}
+
+export class BisqClient {
+  private readonly baseUrl: string;
+  private readonly password: string;
+  private readonly fetchFn: FetchLike;
+
+  constructor(options: BisqClientOptions) {
+    this.baseUrl = options.url.replace(/\/$/, "");
+    this.password = options.password;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  /**
+   * Call a daemon gRPC method through the gateway
+   */
+  async call<T>(service: string, method: string, request: Record<string, unknown> = {}): Promise<T> {
+    const response = await this.fetchFn(`${this.baseUrl}/${PROTO_PACKAGE}.${service}/${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        password: this.password,
+      },
+      body: JSON.stringify(request),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null) as { message?: string } | null;
+      throw new BisqApiError(
+        error?.message ?? `Bisq ${service}.${method} failed with HTTP ${response.status}`,
+        response.status
+      );
+    }
+
+    return await response.json() as T;
+  }
+
+  /**
+   * Market price of 1 BTC in the given fiat currency
+   */
+  async getMarketPrice(currencyCode: string): Promise<number> {
+    const reply = await this.call<{ price?: number }>("Price", "GetMarketPrice", {
+      currencyCode,
+    });
+
+    if (!reply.price || reply.price <= 0) {
+      throw new BisqApiError(`No ${currencyCode} market price available`);
+    }
+
+    return reply.price;
+  }
+
+  async getPaymentAccounts(): Promise<BisqPaymentAccount[]> {
+    const reply = await this.call<{ paymentAccounts?: BisqPaymentAccount[] }>(
+      "PaymentAccounts",
+      "GetPaymentAccounts"
+    );
+
+    return reply.paymentAccounts ?? [];
+  }
+
+  /**
+   * Publish a fixed-price offer to buy BTC for fiat
+   * The daemon funds the maker fee and our security deposit from its wallet.
+   */
+  async createBuyOffer(params: {
+    currencyCode: string;
+    price: number;
+    amountSats: number;
+    securityDepositPct: number;
+    paymentAccountId: string;
+  }): Promise<BisqOfferInfo> {
+    const reply = await this.call<{ offer: BisqOfferInfo }>("Offers", "CreateOffer", {
+      currencyCode: params.currencyCode,
+      direction: "BUY",
+      price: params.price.toFixed(4),
+      useMarketBasedPrice: false,
+      amount: String(params.amountSats),
+      minAmount: String(params.amountSats),
+      buyerSecurityDepositPct: params.securityDepositPct,
+      paymentAccountId: params.paymentAccountId,
+      makerFeeCurrencyCode: "BTC",
+    });
+
+    return reply.offer;
+  }
+
+  async cancelOffer(offerId: string): Promise<void> {
+    await this.call("Offers", "CancelOffer", { id: offerId });
+  }
+
+  /**
+   * Trade for a taken offer (Bisq uses the offer ID as the trade ID)
+   * @returns null while the offer has not been taken
+   */
+  async getTrade(tradeId: string): Promise<BisqTradeInfo | null> {
+    try {
+      const reply = await this.call<{ trade: BisqTradeInfo }>("Trades", "GetTrade", { tradeId });
+      return reply.trade;
+    } catch (error) {
+      if (error instanceof BisqApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Tell the seller the fiat payment has been sent
+   */
+  async confirmPaymentStarted(tradeId: string): Promise<void> {
+    await this.call("Trades", "ConfirmPaymentStarted", { tradeId });
+  }
+
+  /**
+   * Move a finished trade to the closed trades list, keeping its funds in the
+   * daemon's wallet
+   */
+  async closeTrade(tradeId: string): Promise<void> {
+    await this.call("Trades", "CloseTrade", { tradeId });
+  }
+}
+
+/**
+ * Whether Bisq payments are configured
+ */
+export function isBisqEnabled(): boolean {
+  return !!env.BISQ_API_URL && !!env.BISQ_API_PASSWORD;
+}
+
+/**
+ * Daemon client built from the environment, or null when not configured
+ */
+export function getBisqClient(): BisqClient | null {
+  if (!env.BISQ_API_URL || !env.BISQ_API_PASSWORD) {
+    return null;
+  }
+
+  return new BisqClient({
+    url: env.BISQ_API_URL,
+    password: env.BISQ_API_PASSWORD,
+  });
+}
+
+/**
+ * Convert a fiat amount to satoshis at the given BTC price
+ * Rounded up to Bisq's 10,000 sat granularity so the shop is never short.
+ */
+export function fiatToSats(amount: number, price: number): number {
+  return Math.ceil((amount / price) * SATOSHIS_PER_BTC / 10_000) * 10_000;
+}
+
+export function satsToBtc(sats: number): number {
+  return sats / SATOSHIS_PER_BTC;
+}
+
+export type BisqTradeProgress =
+  | "offer_open"
+  | "deposit_pending"
+  | "awaiting_payment"
+  | "payment_sent"
+  | "payment_received"
+  | "completed";
+
+/**
+ * Where a trade is from the shopper's point of view
+ */
+export function getTradeProgress(trade: BisqTradeInfo | null): BisqTradeProgress {
+  if (!trade) return "offer_open";
+  if (trade.isPayoutPublished) return "completed";
+  if (trade.isPaymentReceivedMessageSent) return "payment_received";
+  if (trade.isPaymentStartedMessageSent) return "payment_sent";
+  if (trade.isDepositConfirmed) return "awaiting_payment";
+  return "deposit_pending";
+}
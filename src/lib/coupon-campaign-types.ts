@@ -0,0 +1,59 @@
+/**
+ * Coupon Campaign Types
+ *
+ * The shape of coupon campaigns and their codes, kept apart from
+ * ~/lib/coupon-campaigns so the admin UI can use them without pulling in the
+ * service-role client.
+ */
+
+import type { Coupon } from "~/lib/supabase";
+
+// Rules every code in a campaign shares
+export type CouponCampaignRules = Pick<
+  Coupon,
+  | "discount_type"
+  | "discount_value"
+  | "discount_mode"
+  | "max_discount_amount"
+  | "buy_quantity"
+  | "get_quantity"
+  | "tiers"
+  | "minimum_order_amount"
+  | "one_per_customer"
+  | "valid_from"
+  | "valid_until"
+  | "active"
+  | "applicable_to"
+  | "product_ids"
+  | "stackable"
+  | "combines_with_product_discount"
+>;
+
+export interface CouponCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  code_prefix: string;
+  code_template: string;
+  rules: CouponCampaignRules;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CouponCampaignStats {
+  code_count: number;
+  redeemed_count: number;
+  paid_order_count: number;
+  revenue: number; // Paid orders' totals, less refunds
+  discount_total: number;
+}
+
+export type CouponCampaignSummary = CouponCampaign & CouponCampaignStats;
+
+export interface CouponCampaignCode {
+  id: string;
+  code: string;
+  active: boolean;
+  current_uses: number;
+  created_at: string;
+}
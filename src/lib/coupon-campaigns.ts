@@ -0,0 +1,280 @@
+/**
+ * Coupon Campaigns
+ *
+ * Batches of single-use coupon codes for giveaways and influencer drops.
+ * Every generated code is an ordinary coupon (max_uses = 1) carrying the
+ * campaign's rules, so pricing and redemption treat it like any other
+ * coupon; the campaign only groups the codes and reports on them.
+ */
+
+import { randomInt } from "crypto";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { toCsvCell } from "~/lib/stock";
+import type { CouponCampaignInput } from "~/lib/security/input-validation";
+import type {
+  CouponCampaign,
+  CouponCampaignCode,
+  CouponCampaignStats,
+  CouponCampaignSummary,
+} from "~/lib/coupon-campaign-types";
+
+export type {
+  CouponCampaign,
+  CouponCampaignCode,
+  CouponCampaignRules,
+  CouponCampaignSummary,
+} from "~/lib/coupon-campaign-types";
+
+// No 0/O or 1/I, so codes survive being read aloud or retyped
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const TEMPLATE_PLACEHOLDER = "X";
+
+// Require far more possible codes than requested, so a valid code can't be
+// found by guessing and collisions stay rare. With the 32 character alphabet,
+// even a single code needs 6 Xs.
+const MIN_COMBINATIONS_PER_CODE = 1e9;
+
+const INSERT_BATCH_SIZE = 500;
+const CODE_PAGE_SIZE = 1000;
+const MAX_GENERATION_ROUNDS = 5;
+
+/**
+ * Fill each X in the template with a random character
+ */
+function generateCode(prefix: string, template: string): string {
+  const body = [...template]
+    .map((char) =>
+      char === TEMPLATE_PLACEHOLDER ? CODE_ALPHABET.charAt(randomInt(CODE_ALPHABET.length)) : char
+    )
+    .join("");
+
+  return `${prefix}${body}`;
+}
+
+/**
+ * Create a campaign and generate its codes
+ * Codes that collide with an existing coupon are skipped and generated
+ * again, a few rounds at most. A campaign that can't be generated in full is
+ * removed again, so no half-made campaign is left behind.
+ * @param actor - Admin username, recorded as the campaign's creator
+ */
+export async function createCouponCampaign(
+  input: CouponCampaignInput,
+  actor: string
+): Promise<{ campaign: CouponCampaign; codes: string[] } | { error: string; status: number }> {
+  const placeholders = [...input.code_template].filter((char) => char === TEMPLATE_PLACEHOLDER).length;
+
+  if (CODE_ALPHABET.length ** placeholders < input.count * MIN_COMBINATIONS_PER_CODE) {
+    return {
+      error: "Code template needs more X characters for this many codes",
+      status: 400,
+    };
+  }
+
+  const campaignResult = await supabaseAdmin
+    .from("coupon_campaigns")
+    .insert([
+      {
+        name: input.name,
+        description: input.description,
+        code_prefix: input.code_prefix,
+        code_template: input.code_template,
+        rules: input.rules,
+        created_by: actor,
+      },
+    ])
+    .select("*")
+    .single();
+
+  if (campaignResult.error) {
+    throw new Error(`Failed to create campaign: ${campaignResult.error.message}`);
+  }
+
+  const campaign = campaignResult.data as CouponCampaign;
+
+  try {
+    const codes = await generateCampaignCodes(campaign, input);
+
+    if (codes.length < input.count) {
+      await deleteCampaign(campaign.id);
+      return {
+        error: `Only ${codes.length} of ${input.count} codes could be generated. Use a longer template.`,
+        status: 409,
+      };
+    }
+
+    return { campaign, codes };
+  } catch (error) {
+    await deleteCampaign(campaign.id);
+    throw error;
+  }
+}
+
+/**
+ * Insert the campaign's codes
+ * @returns The codes inserted, which may be fewer than requested if too many
+ *   collided
+ */
+async function generateCampaignCodes(
+  campaign: CouponCampaign,
+  input: CouponCampaignInput
+): Promise<string[]> {
+  const codes: string[] = [];
+
+  for (let round = 0; round < MAX_GENERATION_ROUNDS && codes.length < input.count; round++) {
+    const batch = new Set<string>();
+    while (batch.size < input.count - codes.length) {
+      batch.add(generateCode(input.code_prefix, input.code_template));
+    }
+
+    const candidates = [...batch];
+
+    for (let start = 0; start < candidates.length; start += INSERT_BATCH_SIZE) {
+      const rows = candidates.slice(start, start + INSERT_BATCH_SIZE).map((code) => ({
+        ...input.rules,
+        code,
+        description: input.name,
+        max_uses: 1,
+        current_uses: 0,
+        campaign_id: campaign.id,
+      }));
+
+      const result = await supabaseAdmin
+        .from("coupons")
+        .upsert(rows, { onConflict: "code", ignoreDuplicates: true })
+        .select("code");
+
+      if (result.error) {
+        throw new Error(`Failed to create campaign codes: ${result.error.message}`);
+      }
+
+      codes.push(...((result.data ?? []) as { code: string }[]).map((row) => row.code));
+    }
+  }
+
+  return codes;
+}
+
+/**
+ * Remove a campaign that couldn't be generated in full, along with any codes
+ * already inserted for it
+ */
+async function deleteCampaign(campaignId: string): Promise<void> {
+  const result = await supabaseAdmin
+    .from("coupon_campaigns")
+    .delete()
+    .eq("id", campaignId);
+
+  if (result.error) {
+    console.error("Failed to remove incomplete campaign:", result.error.message);
+  }
+}
+
+/**
+ * All campaigns, newest first, with redemption and revenue figures
+ */
+export async function listCouponCampaigns(): Promise<CouponCampaignSummary[]> {
+  const [campaignsResult, statsResult] = await Promise.all([
+    supabaseAdmin
+      .from("coupon_campaigns")
+      .select("*")
+      .order("created_at", { ascending: false }),
+    supabaseAdmin.rpc("coupon_campaign_stats"),
+  ]);
+
+  if (campaignsResult.error) {
+    throw new Error(`Failed to load campaigns: ${campaignsResult.error.message}`);
+  }
+
+  if (statsResult.error) {
+    throw new Error(`Failed to load campaign stats: ${statsResult.error.message}`);
+  }
+
+  const stats = new Map(
+    ((statsResult.data ?? []) as (CouponCampaignStats & { campaign_id: string })[]).map((row) => [
+      row.campaign_id,
+      row,
+    ])
+  );
+
+  return ((campaignsResult.data ?? []) as CouponCampaign[]).map((campaign) => {
+    const row = stats.get(campaign.id);
+
+    // Postgres bigint and numeric columns come back as strings
+    return {
+      ...campaign,
+      code_count: Number(row?.code_count ?? 0),
+      redeemed_count: Number(row?.redeemed_count ?? 0),
+      paid_order_count: Number(row?.paid_order_count ?? 0),
+      revenue: Number(row?.revenue ?? 0),
+      discount_total: Number(row?.discount_total ?? 0),
+    };
+  });
+}
+
+/**
+ * A campaign and all of its codes
+ * @returns null when the campaign doesn't exist
+ */
+export async function getCouponCampaign(
+  campaignId: string
+): Promise<{ campaign: CouponCampaign; codes: CouponCampaignCode[] } | null> {
+  const campaignResult = await supabaseAdmin
+    .from("coupon_campaigns")
+    .select("*")
+    .eq("id", campaignId)
+    .maybeSingle();
+
+  if (campaignResult.error) {
+    throw new Error(`Failed to load campaign: ${campaignResult.error.message}`);
+  }
+
+  if (!campaignResult.data) {
+    return null;
+  }
+
+  // Read in pages: campaigns can be larger than one Supabase response
+  const codes: CouponCampaignCode[] = [];
+
+  for (let from = 0; ; from += CODE_PAGE_SIZE) {
+    const codesResult = await supabaseAdmin
+      .from("coupons")
+      .select("id, code, active, current_uses, created_at")
+      .eq("campaign_id", campaignId)
+      .order("code", { ascending: true })
+      .range(from, from + CODE_PAGE_SIZE - 1);
+
+    if (codesResult.error) {
+      throw new Error(`Failed to load campaign codes: ${codesResult.error.message}`);
+    }
+
+    const page = (codesResult.data ?? []) as CouponCampaignCode[];
+    codes.push(...page);
+
+    if (page.length < CODE_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return { campaign: campaignResult.data as CouponCampaign, codes };
+}
+
+/**
+ * Render a campaign's codes as CSV for handing out
+ */
+export function campaignCodesToCsv(campaign: CouponCampaign, codes: CouponCampaignCode[]): string {
+  const header = ["code", "campaign", "valid_from", "valid_until", "active", "redeemed"];
+
+  const rows = codes.map((code) => [
+    code.code,
+    campaign.name,
+    campaign.rules.valid_from,
+    campaign.rules.valid_until,
+    code.active ? "yes" : "no",
+    code.current_uses > 0 ? "yes" : "no",
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\n");
+}
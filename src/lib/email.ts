@@ -0,0 +1,175 @@
+/**
+ * Server-side Emails
+ *
+ * Emails sent from server code rather than requested by the browser.
+ * Templates follow the ones in /api/email.
+ */
+
+import formData from "form-data";
+import Mailgun from "mailgun.js";
+import { env } from "~/env";
+
+function getMailgunClient() {
+  const mailgun = new Mailgun(formData);
+  return mailgun.client({
+    username: "api",
+    key: env.MAILGUN_API_KEY,
+  });
+}
+
+/**
+ * Send the customer the link to claim a refund
+ */
+export async function sendRefundEmail(params: {
+  email: string;
+  shippingName: string | null;
+  orderNumber: string;
+  amount: number;
+  kind: "full" | "partial" | "overpayment";
+  claimLink: string;
+}): Promise<void> {
+  const { email, shippingName, orderNumber, amount, kind, claimLink } = params;
+  const refundLabel =
+    kind === "full" ? "full refund"
+    : kind === "partial" ? "partial refund"
+    : "refund of your overpayment";
+
+  await getMailgunClient().messages.create(env.MAILGUN_DOMAIN, {
+    from: `Symphony Labs <noreply@${env.MAILGUN_DOMAIN}>`,
+    to: email,
+    subject: `Your Refund - ${orderNumber}`,
+    text: `
+Hi ${shippingName ?? "there"},
+
+We've issued a ${refundLabel} of $${amount.toFixed(2)} for your order ${orderNumber}.
+
+Claim Your Refund:
+${claimLink}
+
+Open the link and enter a bitcoin address to receive the refund. The amount in BTC is fixed when you claim it.
+
+--
+Symphony Labs
+questions? email jane@symphonylabs.cc
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: monospace; line-height: 1.6; color: #000; background: #fff; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { border: 3px solid #000; border-radius: 8px; padding: 20px; margin-bottom: 20px; background: #000; color: #fff; }
+    .content { border: 3px solid #000; border-radius: 8px; padding: 20px; margin-bottom: 20px; background: #fff; }
+    .footer { text-align: center; font-size: 12px; color: #666; }
+    h1 { margin: 0 0 10px 0; font-size: 24px; }
+    .amount { font-size: 18px; font-weight: bold; margin: 10px 0; }
+    .button { display: inline-block; background: #000; color: #fff; padding: 12px 24px; text-decoration: none; margin: 10px 0; border: 3px solid #000; border-radius: 6px; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>[ REFUND ISSUED ]</h1>
+      <p>Order ${orderNumber}</p>
+    </div>
+
+    <div class="content">
+      <p>Hi ${shippingName ?? "there"},</p>
+      <p>We've issued a ${refundLabel} for your order <strong>${orderNumber}</strong>.</p>
+      <div class="amount">$${amount.toFixed(2)}</div>
+
+      <a href="${claimLink}" class="button">
+        Claim Your Refund →
+      </a>
+
+      <p style="font-size: 12px; color: #666; margin-top: 15px;">
+        Open the link and enter a bitcoin address to receive the refund. The amount in BTC is fixed when you claim it.
+      </p>
+    </div>
+
+    <div class="footer">
+      <p>questions? email <a href="mailto:jane@symphonylabs.cc" style="color: #000; font-weight: bold;">jane@symphonylabs.cc</a></p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  });
+}
+
+/**
+ * Ask the customer to pay the rest of an underpaid order
+ */
+export async function sendTopUpEmail(params: {
+  email: string;
+  shippingName: string | null;
+  orderNumber: string;
+  amountDue: number;
+  paymentLink: string;
+}): Promise<void> {
+  const { email, shippingName, orderNumber, amountDue, paymentLink } = params;
+
+  await getMailgunClient().messages.create(env.MAILGUN_DOMAIN, {
+    from: `Symphony Labs <noreply@${env.MAILGUN_DOMAIN}>`,
+    to: email,
+    subject: `Payment Incomplete - ${orderNumber}`,
+    text: `
+Hi ${shippingName ?? "there"},
+
+The payment we received for your order ${orderNumber} was short of the order total. $${amountDue.toFixed(2)} is still due.
+
+Pay The Remaining Balance:
+${paymentLink}
+
+We'll confirm your order as soon as the rest arrives.
+
+--
+Symphony Labs
+questions? email jane@symphonylabs.cc
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: monospace; line-height: 1.6; color: #000; background: #fff; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { border: 3px solid #000; border-radius: 8px; padding: 20px; margin-bottom: 20px; background: #000; color: #fff; }
+    .content { border: 3px solid #000; border-radius: 8px; padding: 20px; margin-bottom: 20px; background: #fff; }
+    .footer { text-align: center; font-size: 12px; color: #666; }
+    h1 { margin: 0 0 10px 0; font-size: 24px; }
+    .amount { font-size: 18px; font-weight: bold; margin: 10px 0; }
+    .button { display: inline-block; background: #000; color: #fff; padding: 12px 24px; text-decoration: none; margin: 10px 0; border: 3px solid #000; border-radius: 6px; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>[ PAYMENT INCOMPLETE ]</h1>
+      <p>Order ${orderNumber}</p>
+    </div>
+
+    <div class="content">
+      <p>Hi ${shippingName ?? "there"},</p>
+      <p>The payment we received for your order <strong>${orderNumber}</strong> was short of the order total.</p>
+      <div class="amount">$${amountDue.toFixed(2)} still due</div>
+
+      <a href="${paymentLink}" class="button">
+        Pay Remaining Balance →
+      </a>
+
+      <p style="font-size: 12px; color: #666; margin-top: 15px;">
+        We'll confirm your order as soon as the rest arrives.
+      </p>
+    </div>
+
+    <div class="footer">
+      <p>questions? email <a href="mailto:jane@symphonylabs.cc" style="color: #000; font-weight: bold;">jane@symphonylabs.cc</a></p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  });
+}
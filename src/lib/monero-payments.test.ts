@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { MoneroWalletRpc, type MoneroTransfer } from "~/lib/monero";
+import { refreshMoneroPayment, type MoneroPayment } from "~/lib/monero-payments";
+import { installFakeSupabase, type FakeSupabase } from "~/lib/testing/fake-supabase";
+
+const ORDER_ID = "5a4c1d8e-0000-4000-8000-000000000002";
+const AMOUNT = 2_000_000_000_000;
+
+/**
+ * Wallet RPC client whose get_transfers answers with `transfers`
+ */
+function stubWallet(transfers: MoneroTransfer[]): MoneroWalletRpc {
+  const fetchStub = (_input: string | URL | Request, init?: RequestInit) => {
+    const request = JSON.parse(init?.body as string) as { id: string; method: string };
+    assert.equal(request.method, "get_transfers");
+
+    return Promise.resolve(
+      Response.json({
+        jsonrpc: "2.0",
+        id: request.id,
+        result: {
+          in: transfers.filter((t) => t.type === "in"),
+          pool: transfers.filter((t) => t.type === "pool"),
+        },
+      })
+    );
+  };
+
+  return new MoneroWalletRpc({ url: "http://wallet.test", fetch: fetchStub as typeof fetch });
+}
+
+function transfer(
+  txid: string,
+  amount: number,
+  confirmations: number,
+  overrides: Partial<MoneroTransfer> = {}
+): MoneroTransfer {
+  return {
+    txid,
+    amount,
+    confirmations,
+    height: 3000000,
+    timestamp: 1700000000,
+    type: confirmations > 0 ? "in" : "pool",
+    unlock_time: 0,
+    double_spend_seen: false,
+    subaddr_index: { major: 0, minor: 7 },
+    ...overrides,
+  };
+}
+
+void describe("refreshMoneroPayment", () => {
+  let db: FakeSupabase;
+  let transfers: MoneroTransfer[];
+
+  beforeEach(() => {
+    db = installFakeSupabase();
+    transfers = [];
+    seed(new Date(Date.now() + 60 * 60 * 1000));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function seed(expiresAt: Date) {
+    db.table("orders").push({ id: ORDER_ID, order_number: "ORD-2", status: "awaiting_payment" });
+    db.table("monero_payments").push({
+      id: "payment-1",
+      order_id: ORDER_ID,
+      address: "8subaddress",
+      account_index: 0,
+      address_index: 7,
+      usd_amount: 300,
+      xmr_rate: 150,
+      rate_source: "kraken",
+      amount_atomic: AMOUNT,
+      status: "waiting",
+      received_atomic: 0,
+      confirmed_atomic: 0,
+      confirmations: 0,
+      confirmations_required: 10,
+      txids: [],
+      expires_at: expiresAt.toISOString(),
+      last_checked_at: null,
+      paid_at: null,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  function expire() {
+    db.table("orders").length = 0;
+    db.table("monero_payments").length = 0;
+    seed(new Date(Date.now() - 1000));
+  }
+
+  // A copy, like a row read back from the database
+  const payment = () => ({ ...db.table("monero_payments")[0] }) as unknown as MoneroPayment;
+  const orderStatus = () => db.table("orders")[0]?.status;
+  const refresh = () => refreshMoneroPayment(payment(), { wallet: stubWallet(transfers) });
+
+  void test("moves from waiting through confirming to paid", async () => {
+    assert.equal((await refresh()).status, "waiting");
+
+    transfers.push(transfer("tx-1", AMOUNT, 0));
+    const confirming = await refresh();
+    assert.equal(confirming.status, "confirming");
+    assert.equal(confirming.confirmations, 0);
+    assert.equal(orderStatus(), "awaiting_payment");
+
+    transfers[0] = transfer("tx-1", AMOUNT, 10);
+    const paid = await refresh();
+    assert.equal(paid.status, "paid");
+    assert.ok(paid.paid_at);
+    assert.deepEqual(paid.txids, ["tx-1"]);
+    assert.equal(orderStatus(), "paid");
+
+    const events = db.table("transaction_log").map((row) => row.event_type);
+    assert.ok(events.includes("monero_payment_confirming"));
+    assert.ok(events.includes("monero_payment_paid"));
+  });
+
+  void test("ignores double-spent and time-locked transfers", async () => {
+    transfers.push(
+      transfer("tx-1", AMOUNT, 20, { double_spend_seen: true }),
+      transfer("tx-2", AMOUNT, 20, { unlock_time: 3100000 })
+    );
+
+    const refreshed = await refresh();
+
+    assert.equal(refreshed.status, "waiting");
+    assert.equal(Number(refreshed.received_atomic), 0);
+    assert.equal(orderStatus(), "awaiting_payment");
+  });
+
+  void test("expires the order when nothing arrived in time", async () => {
+    expire();
+
+    const refreshed = await refresh();
+
+    assert.equal(refreshed.status, "expired");
+    assert.equal(orderStatus(), "expired");
+  });
+
+  void test("marks a short payment underpaid once the quote runs out", async () => {
+    expire();
+    transfers.push(transfer("tx-1", AMOUNT / 2, 15));
+
+    const refreshed = await refresh();
+
+    assert.equal(refreshed.status, "underpaid");
+    assert.equal(Number(refreshed.received_atomic), AMOUNT / 2);
+    assert.equal(orderStatus(), "expired");
+  });
+
+  void test("still honours a full payment that lands after expiry", async () => {
+    expire();
+    transfers.push(transfer("tx-1", AMOUNT, 10));
+
+    assert.equal((await refresh()).status, "paid");
+    assert.equal(orderStatus(), "paid");
+  });
+
+  void test("keeps the payment open when the order can't be marked paid", async () => {
+    const order = db.table("orders")[0];
+    assert.ok(order);
+    order.status = "cancelled";
+    transfers.push(transfer("tx-1", AMOUNT, 10));
+
+    await assert.rejects(refresh(), /can't be marked paid/);
+    assert.equal(payment().status, "waiting");
+  });
+});
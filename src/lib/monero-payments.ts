@@ -0,0 +1,295 @@
+/**
+ * Direct Monero Payments
+ *
+ * Order-level flow on top of the wallet RPC client: quote an order in XMR on
+ * its own subaddress, then poll the wallet until the payment has enough
+ * confirmations and mark the order paid. The wallet and rate source are
+ * passed in, so the whole flow can run against a mocked wallet.
+ */
+
+import { env } from "~/env";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import {
+  markOrderPaid,
+  markAwaitingPayment,
+  closeUnpaidOrder,
+  logTransaction,
+  INVOICE_EXPIRATION_MINUTES,
+} from "~/lib/orders";
+import {
+  buildPaymentUri,
+  formatXmr,
+  summarizeTransfers,
+  usdToAtomicUnits,
+  type MoneroWalletRpc,
+  type XmrRateSource,
+} from "~/lib/monero";
+
+// underpaid: the quote ran out with only part of the amount received
+export type MoneroPaymentStatus = "waiting" | "confirming" | "paid" | "expired" | "underpaid";
+
+export interface MoneroPayment {
+  id: string;
+  order_id: string;
+  address: string;
+  account_index: number;
+  address_index: number;
+  usd_amount: number;
+  xmr_rate: number;
+  rate_source: string;
+  amount_atomic: number;
+  status: MoneroPaymentStatus;
+  received_atomic: number;
+  confirmed_atomic: number;
+  confirmations: number;
+  confirmations_required: number;
+  txids: string[];
+  expires_at: string;
+  last_checked_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+/**
+ * What the checkout needs to show the buyer
+ */
+export interface MoneroPaymentView {
+  orderId: string;
+  address: string;
+  amountXmr: string;
+  receivedXmr: string;
+  usdAmount: number;
+  rate: number;
+  paymentUri: string;
+  status: MoneroPaymentStatus;
+  confirmations: number;
+  confirmationsRequired: number;
+  expiresAt: string;
+}
+
+interface MoneroDeps {
+  wallet: MoneroWalletRpc;
+  rateSource: XmrRateSource;
+}
+
+// Checked once per process: the RPC must serve the wallet we expect
+let walletAddressVerified = false;
+
+async function verifyWallet(wallet: MoneroWalletRpc): Promise<void> {
+  if (walletAddressVerified || !env.MONERO_WALLET_ADDRESS) {
+    return;
+  }
+
+  const primary = await wallet.getAddress(0);
+
+  if (primary !== env.MONERO_WALLET_ADDRESS) {
+    throw new Error("Monero wallet RPC is serving a different wallet than MONERO_WALLET_ADDRESS");
+  }
+
+  walletAddressVerified = true;
+}
+
+/**
+ * Shape a payment row for the checkout
+ */
+export function toPaymentView(payment: MoneroPayment, orderNumber?: string): MoneroPaymentView {
+  const amount = BigInt(payment.amount_atomic);
+
+  return {
+    orderId: payment.order_id,
+    address: payment.address,
+    amountXmr: formatXmr(amount),
+    receivedXmr: formatXmr(BigInt(payment.received_atomic)),
+    usdAmount: Number(payment.usd_amount),
+    rate: Number(payment.xmr_rate),
+    paymentUri: buildPaymentUri(
+      payment.address,
+      amount,
+      orderNumber ? `Order ${orderNumber}` : undefined
+    ),
+    status: payment.status,
+    confirmations: payment.confirmations,
+    confirmationsRequired: payment.confirmations_required,
+    expiresAt: payment.expires_at,
+  };
+}
+
+/**
+ * Find the Monero payment for an order
+ */
+export async function getMoneroPayment(orderId: string): Promise<MoneroPayment | null> {
+  const result = await supabaseAdmin
+    .from("monero_payments")
+    .select("*")
+    .eq("order_id", orderId)
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Failed to load Monero payment: ${result.error.message}`);
+  }
+
+  return result.data as MoneroPayment | null;
+}
+
+/**
+ * Quote an order in XMR on a fresh subaddress
+ * Calling it again for the same order returns the existing payment.
+ * @param order - The order's id, number and server-computed total
+ */
+export async function createMoneroPayment(
+  order: { id: string; order_number: string; total_amount: number },
+  { wallet, rateSource }: MoneroDeps
+): Promise<MoneroPayment> {
+  const existing = await getMoneroPayment(order.id);
+
+  if (existing) {
+    return existing;
+  }
+
+  await verifyWallet(wallet);
+
+  const usdAmount = Number(order.total_amount);
+  const rate = await rateSource.getUsdRate();
+  const amountAtomic = usdToAtomicUnits(usdAmount, rate);
+
+  const { address, addressIndex } = await wallet.createAddress(
+    env.MONERO_ACCOUNT_INDEX,
+    order.order_number
+  );
+
+  const expiresAt = new Date(Date.now() + INVOICE_EXPIRATION_MINUTES * 60 * 1000);
+
+  const result = await supabaseAdmin
+    .from("monero_payments")
+    .insert([
+      {
+        order_id: order.id,
+        address,
+        account_index: env.MONERO_ACCOUNT_INDEX,
+        address_index: addressIndex,
+        usd_amount: usdAmount,
+        xmr_rate: rate,
+        rate_source: rateSource.name,
+        // BigInt isn't JSON-serializable; Postgres accepts the string
+        amount_atomic: amountAtomic.toString(),
+        confirmations_required: env.MONERO_CONFIRMATIONS,
+        expires_at: expiresAt.toISOString(),
+      },
+    ])
+    .select()
+    .single();
+
+  if (result.error || !result.data) {
+    // 23505: a concurrent request created the payment first
+    if (result.error?.code === "23505") {
+      const concurrent = await getMoneroPayment(order.id);
+      if (concurrent) return concurrent;
+    }
+    throw new Error(`Failed to store Monero payment: ${result.error?.message}`);
+  }
+
+  await logTransaction(order.id, "monero_payment_created", {
+    address,
+    addressIndex,
+    amountXmr: formatXmr(amountAtomic),
+    rate,
+    rateSource: rateSource.name,
+  });
+
+  await markAwaitingPayment(order.id, "monero");
+
+  return result.data as MoneroPayment;
+}
+
+/**
+ * Check the wallet for transfers to a payment's subaddress and apply them
+ * Marks the order paid once enough confirmations cover the amount, and
+ * expires the order when the quote runs out short, which releases its stock:
+ * the payment ends up expired with nothing received, or underpaid with part
+ * of the amount. Payments that arrive after expiry are still honoured.
+ */
+export async function refreshMoneroPayment(
+  payment: MoneroPayment,
+  { wallet }: Pick<MoneroDeps, "wallet">
+): Promise<MoneroPayment> {
+  if (payment.status === "paid") {
+    return payment;
+  }
+
+  const transfers = await wallet.getIncomingTransfers(
+    payment.account_index,
+    payment.address_index
+  );
+
+  const summary = summarizeTransfers(
+    transfers,
+    BigInt(payment.amount_atomic),
+    payment.confirmations_required
+  );
+
+  let status: MoneroPaymentStatus = summary.progress;
+  const isExpired = new Date(payment.expires_at).getTime() <= Date.now();
+
+  if (status === "waiting" && isExpired) {
+    status = summary.receivedAtomic === 0n ? "expired" : "underpaid";
+  }
+
+  // Settle the order before recording the payment as paid, so if that fails
+  // the payment stays open and the next poll tries again
+  if (status === "paid") {
+    const outcome = await markOrderPaid(payment.order_id, "monero");
+
+    if (outcome.error) {
+      throw new Error(`Failed to mark order paid: ${outcome.error}`);
+    }
+
+    // Anything but a cancelled order was already paid by an earlier poll
+    if (!outcome.updated && (!outcome.from || outcome.from === "cancelled")) {
+      throw new Error(`Order ${payment.order_id} can't be marked paid: it is ${outcome.from ?? "missing"}`);
+    }
+  }
+
+  const now = new Date().toISOString();
+
+  const result = await supabaseAdmin
+    .from("monero_payments")
+    .update({
+      status,
+      received_atomic: summary.receivedAtomic.toString(),
+      confirmed_atomic: summary.confirmedAtomic.toString(),
+      confirmations: summary.confirmations,
+      txids: summary.txids,
+      last_checked_at: now,
+      ...(status === "paid" ? { paid_at: now } : {}),
+    })
+    .eq("id", payment.id)
+    .neq("status", "paid")
+    .select()
+    .maybeSingle();
+
+  if (result.error) {
+    throw new Error(`Failed to update Monero payment: ${result.error.message}`);
+  }
+
+  // Another poll already settled it
+  if (!result.data) {
+    return (await getMoneroPayment(payment.order_id)) ?? payment;
+  }
+
+  const updated = result.data as MoneroPayment;
+
+  if (status !== payment.status) {
+    if (status === "expired" || status === "underpaid") {
+      await closeUnpaidOrder(payment.order_id, "expired", "monero");
+    }
+
+    await logTransaction(payment.order_id, `monero_payment_${status}`, {
+      address: payment.address,
+      receivedXmr: formatXmr(summary.receivedAtomic),
+      confirmations: summary.confirmations,
+      txids: summary.txids,
+    });
+  }
+
+  return updated;
+}
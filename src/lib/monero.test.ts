@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  ATOMIC_UNITS_PER_XMR,
+  formatXmr,
+  summarizeTransfers,
+  usdToAtomicUnits,
+  type MoneroTransfer,
+} from "~/lib/monero";
+
+function transfer(overrides: Partial<MoneroTransfer> & Pick<MoneroTransfer, "txid" | "amount">): MoneroTransfer {
+  return {
+    confirmations: 0,
+    height: 3000000,
+    timestamp: 1700000000,
+    type: "in",
+    unlock_time: 0,
+    double_spend_seen: false,
+    subaddr_index: { major: 0, minor: 1 },
+    ...overrides,
+  };
+}
+
+void describe("usdToAtomicUnits", () => {
+  void test("converts at the given rate", () => {
+    assert.equal(usdToAtomicUnits(150, 150), ATOMIC_UNITS_PER_XMR);
+    assert.equal(usdToAtomicUnits(75, 150), ATOMIC_UNITS_PER_XMR / 2n);
+  });
+
+  void test("rounds up to 8 decimal places", () => {
+    // 10 / 3 = 3.333333333... XMR
+    assert.equal(usdToAtomicUnits(10, 3), 3_333_333_340_000n);
+  });
+});
+
+void describe("formatXmr", () => {
+  void test("drops trailing zeros", () => {
+    assert.equal(formatXmr(ATOMIC_UNITS_PER_XMR), "1");
+    assert.equal(formatXmr(1_500_000_000_000n), "1.5");
+    assert.equal(formatXmr(0n), "0");
+  });
+
+  void test("keeps every significant digit", () => {
+    assert.equal(formatXmr(1n), "0.000000000001");
+    assert.equal(formatXmr(3_333_333_340_000n), "3.33333334");
+  });
+});
+
+void describe("summarizeTransfers", () => {
+  const expected = 1_000_000n;
+
+  void test("waits while nothing covers the amount", () => {
+    const summary = summarizeTransfers([transfer({ txid: "a", amount: 400_000 })], expected, 10);
+
+    assert.equal(summary.progress, "waiting");
+    assert.equal(summary.receivedAtomic, 400_000n);
+  });
+
+  void test("confirms once the amount is received, and is paid once it is confirmed", () => {
+    const transfers = [
+      transfer({ txid: "a", amount: 600_000, confirmations: 12 }),
+      transfer({ txid: "b", amount: 400_000, confirmations: 3 }),
+    ];
+
+    const confirming = summarizeTransfers(transfers, expected, 10);
+    assert.equal(confirming.progress, "confirming");
+    assert.equal(confirming.confirmedAtomic, 600_000n);
+    assert.equal(confirming.confirmations, 3);
+
+    const paid = summarizeTransfers(transfers, expected, 3);
+    assert.equal(paid.progress, "paid");
+    assert.deepEqual(paid.txids, ["a", "b"]);
+  });
+
+  void test("ignores double-spent and time-locked transfers", () => {
+    const summary = summarizeTransfers(
+      [
+        transfer({ txid: "a", amount: 1_000_000, confirmations: 20, double_spend_seen: true }),
+        transfer({ txid: "b", amount: 1_000_000, confirmations: 20, unlock_time: 3100000 }),
+      ],
+      expected,
+      10
+    );
+
+    assert.equal(summary.progress, "waiting");
+    assert.equal(summary.receivedAtomic, 0n);
+    assert.deepEqual(summary.txids, []);
+  });
+
+  void test("counts pool transfers without confirmations as unconfirmed", () => {
+    const summary = summarizeTransfers(
+      [transfer({ txid: "a", amount: 1_000_000, confirmations: undefined, type: "pool" })],
+      expected,
+      1
+    );
+
+    assert.equal(summary.progress, "confirming");
+    assert.equal(summary.confirmations, 0);
+  });
+});
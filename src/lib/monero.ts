@@ -0,0 +1,380 @@
+/**
+ * Monero Wallet RPC Client
+ *
+ * Talks JSON-RPC to a monero-wallet-rpc instance: one subaddress per order,
+ * incoming transfers read back with get_transfers. Also holds the XMR/USD rate
+ * sources and the atomic-unit math used to price and check payments.
+ *
+ * Nothing here touches the database, and both the wallet's fetch and the rate
+ * source can be swapped out, so the payment flow can run against a mocked
+ * wallet (see scripts/mock-monero-wallet-rpc.ts).
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { env } from "~/env";
+
+// 1 XMR = 10^12 atomic units (piconero)
+export const ATOMIC_UNITS_PER_XMR = 1_000_000_000_000n;
+
+export interface MoneroTransfer {
+  txid: string;
+  amount: number; // Atomic units
+  confirmations?: number; // Missing for transfers still in the pool
+  height: number;
+  timestamp: number;
+  type: string; // "in" or "pool"
+  unlock_time: number;
+  double_spend_seen: boolean;
+  subaddr_index: { major: number; minor: number };
+}
+
+type FetchLike = typeof fetch;
+
+interface WalletRpcOptions {
+  url: string;
+  username?: string;
+  password?: string;
+  fetch?: FetchLike;
+}
+
+export class MoneroRpcError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = "MoneroRpcError";
+  }
+}
+
+export class MoneroWalletRpc {
+  private readonly endpoint: string;
+  private readonly username?: string;
+  private readonly password?: string;
+  private readonly fetchFn: FetchLike;
+  private requestId = 0;
+
+  constructor(options: WalletRpcOptions) {
+    this.endpoint = `${options.url.replace(/\/$/, "")}/json_rpc`;
+    this.username = options.username;
+    this.password = options.password;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  /**
+   * Call a wallet RPC method
+   * monero-wallet-rpc protects its RPC with HTTP digest auth when started
+   * with --rpc-login, so a 401 is answered once with a digest response.
+   */
+  async call<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: String(++this.requestId),
+      method,
+      params,
+    });
+
+    const send = (authorization?: string) =>
+      this.fetchFn(this.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(authorization ? { Authorization: authorization } : {}),
+        },
+        body,
+        cache: "no-store",
+      });
+
+    let response = await send();
+
+    if (response.status === 401 && this.username && this.password) {
+      const challenge = response.headers.get("WWW-Authenticate");
+      if (challenge) {
+        response = await send(this.digestAuthorization(challenge));
+      }
+    }
+
+    if (!response.ok) {
+      throw new MoneroRpcError(`Wallet RPC ${method} failed with HTTP ${response.status}`);
+    }
+
+    const payload = await response.json() as {
+      result?: T;
+      error?: { code: number; message: string };
+    };
+
+    if (payload.error) {
+      throw new MoneroRpcError(payload.error.message, payload.error.code);
+    }
+
+    return payload.result as T;
+  }
+
+  /**
+   * Create a new subaddress for incoming payments
+   */
+  async createAddress(
+    accountIndex: number,
+    label: string
+  ): Promise<{ address: string; addressIndex: number }> {
+    const result = await this.call<{ address: string; address_index: number }>(
+      "create_address",
+      { account_index: accountIndex, label }
+    );
+
+    return { address: result.address, addressIndex: result.address_index };
+  }
+
+  /**
+   * Primary address of an account
+   */
+  async getAddress(accountIndex: number): Promise<string> {
+    const result = await this.call<{ address: string }>("get_address", {
+      account_index: accountIndex,
+    });
+
+    return result.address;
+  }
+
+  /**
+   * Incoming transfers (confirmed and still in the pool) to one subaddress
+   */
+  async getIncomingTransfers(
+    accountIndex: number,
+    addressIndex: number
+  ): Promise<MoneroTransfer[]> {
+    const result = await this.call<{ in?: MoneroTransfer[]; pool?: MoneroTransfer[] }>(
+      "get_transfers",
+      {
+        in: true,
+        pool: true,
+        account_index: accountIndex,
+        subaddr_indices: [addressIndex],
+      }
+    );
+
+    return [...(result.in ?? []), ...(result.pool ?? [])];
+  }
+
+  private digestAuthorization(challenge: string): string {
+    const fields = Object.fromEntries(
+      [...challenge.matchAll(/(\w+)="?([^",]+)"?/g)].map((match) => [match[1], match[2]])
+    ) as Record<string, string | undefined>;
+
+    const realm = fields.realm ?? "";
+    const nonce = fields.nonce ?? "";
+    const qop = fields.qop?.split(",")[0]?.trim();
+    const uri = new URL(this.endpoint).pathname;
+    const nc = "00000001";
+    const cnonce = randomBytes(8).toString("hex");
+    const md5 = (value: string) => createHash("md5").update(value).digest("hex");
+
+    const ha1 = md5(`${this.username}:${realm}:${this.password}`);
+    const ha2 = md5(`POST:${uri}`);
+    const response = qop
+      ? md5(`${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+      : md5(`${ha1}:${nonce}:${ha2}`);
+
+    const parts = [
+      `username="${this.username}"`,
+      `realm="${realm}"`,
+      `nonce="${nonce}"`,
+      `uri="${uri}"`,
+      `algorithm=MD5`,
+      `response="${response}"`,
+    ];
+
+    if (qop) {
+      parts.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+    }
+
+    if (fields.opaque) {
+      parts.push(`opaque="${fields.opaque}"`);
+    }
+
+    return `Digest ${parts.join(", ")}`;
+  }
+}
+
+/**
+ * Whether direct Monero payments are configured
+ */
+export function isMoneroEnabled(): boolean {
+  return !!env.MONERO_WALLET_RPC_URL;
+}
+
+/**
+ * Wallet client built from the environment, or null when not configured
+ */
+export function getMoneroWallet(): MoneroWalletRpc | null {
+  if (!env.MONERO_WALLET_RPC_URL) {
+    return null;
+  }
+
+  return new MoneroWalletRpc({
+    url: env.MONERO_WALLET_RPC_URL,
+    username: env.MONERO_WALLET_RPC_USERNAME,
+    password: env.MONERO_WALLET_RPC_PASSWORD,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Exchange rates
+// ---------------------------------------------------------------------------
+
+export interface XmrRateSource {
+  name: string;
+  /** Price of 1 XMR in USD */
+  getUsdRate(): Promise<number>;
+}
+
+export const krakenRateSource: XmrRateSource = {
+  name: "kraken",
+  async getUsdRate() {
+    const response = await fetch("https://api.kraken.com/0/public/Ticker?pair=XMRUSD", {
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      throw new Error(`Kraken rate request failed with HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as {
+      error: string[];
+      result?: Record<string, { c: [string, string] }>;
+    };
+
+    const ticker = data.result ? Object.values(data.result)[0] : undefined;
+    const rate = ticker ? parseFloat(ticker.c[0]) : NaN;
+
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid Kraken XMR rate: ${data.error.join(", ")}`);
+    }
+
+    return rate;
+  },
+};
+
+export const coingeckoRateSource: XmrRateSource = {
+  name: "coingecko",
+  async getUsdRate() {
+    const response = await fetch(
+      "https://api.coingecko.com/api/v3/simple/price?ids=monero&vs_currencies=usd",
+      { cache: "no-store" }
+    );
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko rate request failed with HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as { monero?: { usd?: number } };
+    const rate = data.monero?.usd;
+
+    if (!rate || rate <= 0) {
+      throw new Error("Invalid CoinGecko XMR rate");
+    }
+
+    return rate;
+  },
+};
+
+/**
+ * Rate source selected by MONERO_RATE_SOURCE
+ */
+export function getRateSource(): XmrRateSource {
+  return env.MONERO_RATE_SOURCE === "coingecko" ? coingeckoRateSource : krakenRateSource;
+}
+
+// ---------------------------------------------------------------------------
+// Amounts
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a USD amount to atomic units at the given XMR/USD rate
+ * Rounded up to 8 decimal places so the shop is never underpaid by rounding.
+ */
+export function usdToAtomicUnits(usd: number, usdPerXmr: number): bigint {
+  const xmrE8 = Math.ceil((usd / usdPerXmr) * 1e8);
+  return BigInt(xmrE8) * 10_000n;
+}
+
+/**
+ * Format atomic units as an XMR string without trailing zeros
+ */
+export function formatXmr(atomic: bigint): string {
+  const whole = atomic / ATOMIC_UNITS_PER_XMR;
+  const fraction = (atomic % ATOMIC_UNITS_PER_XMR).toString().padStart(12, "0").replace(/0+$/, "");
+
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * monero: payment URI understood by most wallets
+ */
+export function buildPaymentUri(address: string, atomic: bigint, description?: string): string {
+  const params = new URLSearchParams({ tx_amount: formatXmr(atomic) });
+
+  if (description) {
+    params.set("tx_description", description);
+  }
+
+  return `monero:${address}?${params.toString()}`;
+}
+
+export type MoneroPaymentProgress = "waiting" | "confirming" | "paid";
+
+export interface TransferSummary {
+  receivedAtomic: bigint;
+  confirmedAtomic: bigint;
+  /** Lowest confirmation count among the transfers needed to cover the amount */
+  confirmations: number;
+  txids: string[];
+  progress: MoneroPaymentProgress;
+}
+
+/**
+ * Sum up the transfers to a payment's subaddress
+ * Double-spent and time-locked transfers are ignored. A payment is "paid" once
+ * transfers with at least `requiredConfirmations` cover the expected amount.
+ */
+export function summarizeTransfers(
+  transfers: MoneroTransfer[],
+  expectedAtomic: bigint,
+  requiredConfirmations: number
+): TransferSummary {
+  const usable = transfers.filter((t) => !t.double_spend_seen && !t.unlock_time);
+
+  let receivedAtomic = 0n;
+  let confirmedAtomic = 0n;
+  const txids = new Set<string>();
+
+  for (const transfer of usable) {
+    const amount = BigInt(transfer.amount);
+    receivedAtomic += amount;
+    txids.add(transfer.txid);
+
+    if ((transfer.confirmations ?? 0) >= requiredConfirmations) {
+      confirmedAtomic += amount;
+    }
+  }
+
+  // Confirmations shown to the buyer: the least-confirmed transfer counts
+  const confirmations = usable.length > 0
+    ? Math.min(...usable.map((t) => t.confirmations ?? 0))
+    : 0;
+
+  let progress: MoneroPaymentProgress = "waiting";
+  if (confirmedAtomic >= expectedAtomic) {
+    progress = "paid";
+  } else if (receivedAtomic >= expectedAtomic) {
+    progress = "confirming";
+  }
+
+  return {
+    receivedAtomic,
+    confirmedAtomic,
+    confirmations,
+    txids: [...txids],
+    progress,
+  };
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS,
+  UNPAID_STATUSES,
+  canTransition,
+  isOrderStatus,
+  type OrderStatus,
+} from "~/lib/order-status";
+
+void describe("ORDER_TRANSITIONS", () => {
+  void test("only moves between known statuses", () => {
+    assert.deepEqual(Object.keys(ORDER_TRANSITIONS).sort(), [...ORDER_STATUSES].sort());
+
+    for (const targets of Object.values(ORDER_TRANSITIONS)) {
+      assert.ok(targets.every(isOrderStatus));
+    }
+  });
+
+  void test("only a pending order can start waiting for payment", () => {
+    for (const from of ORDER_STATUSES) {
+      assert.equal(canTransition(from, "pending"), false, `${from} → pending`);
+      assert.equal(canTransition(from, "awaiting_payment"), from === "pending", `${from} → awaiting_payment`);
+    }
+  });
+
+  void test("cancelled and refunded orders are final", () => {
+    assert.deepEqual(ORDER_TRANSITIONS.cancelled, []);
+    assert.deepEqual(ORDER_TRANSITIONS.refunded, []);
+  });
+
+  void test("unpaid statuses can still be paid, cancelled or expired", () => {
+    for (const status of UNPAID_STATUSES) {
+      for (const to of ["paid", "cancelled", "expired"] as const) {
+        assert.ok(canTransition(status, to), `${status} → ${to}`);
+      }
+    }
+  });
+});
+
+void describe("canTransition", () => {
+  const cases: [from: string, to: OrderStatus, allowed: boolean][] = [
+    ["pending", "awaiting_payment", true],
+    ["awaiting_payment", "awaiting_payment", false],
+    ["awaiting_payment", "shipped", false],
+    // A payment that lands after the invoice expired is still honoured
+    ["expired", "paid", true],
+    ["expired", "cancelled", false],
+    ["expired", "awaiting_payment", false],
+    ["cancelled", "paid", false],
+    ["paid", "processing", true],
+    ["paid", "cancelled", false],
+    ["shipped", "delivered", true],
+    ["delivered", "shipped", false],
+    ["unknown", "paid", false],
+  ];
+
+  for (const [from, to, allowed] of cases) {
+    void test(`${from} → ${to} is ${allowed ? "allowed" : "refused"}`, () => {
+      assert.equal(canTransition(from, to), allowed);
+    });
+  }
+
+  void test("refunds can follow any paid status", () => {
+    for (const from of ["paid", "processing", "shipped", "delivered", "partially_refunded"]) {
+      assert.ok(canTransition(from, "partially_refunded"), `${from} → partially_refunded`);
+      assert.ok(canTransition(from, "refunded"), `${from} → refunded`);
+    }
+  });
+
+  void test("unpaid orders can't be refunded", () => {
+    for (const from of ["pending", "awaiting_payment", "expired", "cancelled", "refunded"]) {
+      assert.equal(canTransition(from, "partially_refunded"), false, `${from} → partially_refunded`);
+      assert.equal(canTransition(from, "refunded"), false, `${from} → refunded`);
+    }
+  });
+
+  void test("a partially refunded order carries on through fulfilment", () => {
+    assert.ok(canTransition("partially_refunded", "processing"));
+    assert.ok(canTransition("partially_refunded", "shipped"));
+    assert.ok(canTransition("partially_refunded", "delivered"));
+    assert.equal(canTransition("partially_refunded", "paid"), false);
+  });
+});
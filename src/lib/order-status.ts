@@ -0,0 +1,65 @@
+/**
+ * Order State Machine
+ *
+ * The statuses an order can be in and the moves allowed between them. Shared
+ * by the server and the admin UI; every status change goes through
+ * transitionOrder in ~/lib/orders, which checks the move against these rules
+ * and records it in order_events.
+ */
+
+export const ORDER_STATUSES = [
+  "pending",
+  "awaiting_payment",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "expired",
+  "partially_refunded",
+  "refunded",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Refunds can follow any paid status; a second partial refund keeps the order
+// partially refunded
+const REFUND_TARGETS = ["partially_refunded", "refunded"] as const;
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  // Placed, no charge created yet
+  pending: ["awaiting_payment", "paid", "cancelled", "expired"],
+  // Invoice, Monero address or Bisq offer is open
+  awaiting_payment: ["paid", "cancelled", "expired"],
+  paid: ["processing", "shipped", ...REFUND_TARGETS],
+  processing: ["shipped", ...REFUND_TARGETS],
+  shipped: ["delivered", ...REFUND_TARGETS],
+  delivered: [...REFUND_TARGETS],
+  // Payments that arrive after expiry are honoured
+  expired: ["paid"],
+  cancelled: [],
+  partially_refunded: ["processing", "shipped", "delivered", ...REFUND_TARGETS],
+  refunded: [],
+};
+
+// Orders that are still waiting for the shopper to pay
+export const UNPAID_STATUSES: readonly OrderStatus[] = ["pending", "awaiting_payment"];
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  from_status: string | null;
+  to_status: string;
+  actor: string;
+  note: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: OrderStatus): boolean {
+  return isOrderStatus(from) && ORDER_TRANSITIONS[from].includes(to);
+}
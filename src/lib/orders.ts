@@ -0,0 +1,331 @@
+/**
+ * Order Lifecycle Helpers
+ *
+ * Server-side order updates shared by the checkout flow and payment webhooks.
+ * Status changes are conditional on the current status, so a payment that is
+ * reported twice (browser polling + webhook, or a webhook redelivery) is only
+ * applied once.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import {
+  canTransition,
+  UNPAID_STATUSES,
+  type OrderEvent,
+  type OrderStatus,
+} from "~/lib/order-status";
+
+interface OrderItem {
+  id: string;
+  quantity: number;
+}
+
+// How long a BTCPay invoice stays payable
+export const INVOICE_EXPIRATION_MINUTES = 60;
+
+// Reservations outlive the invoice slightly: the invoice is created after the
+// order, and BTCPay's expiry webhook can take a moment to arrive
+export const RESERVATION_GRACE_MINUTES = 5;
+
+// Statuses from which an order may still become paid. An expired order can
+// still be settled when BTCPay reports a late payment.
+const PAYABLE_STATUSES: OrderStatus[] = ["pending", "awaiting_payment", "expired"];
+
+/**
+ * Reserve stock for an order's items until its invoice expires
+ * Runs as a single Postgres function that locks the product rows, so two
+ * checkouts can't both reserve the last unit.
+ * @param orderId - Order UUID
+ * @param items - Order lines (product ID and quantity)
+ * @returns reserved=false with the first product that doesn't have enough stock
+ */
+export async function reserveOrderStock(
+  orderId: string,
+  items: OrderItem[]
+): Promise<
+  | { reserved: true }
+  | { reserved: false; productId?: string; productName?: string; available: number; error?: string }
+> {
+  const expiresAt = new Date(
+    Date.now() + (INVOICE_EXPIRATION_MINUTES + RESERVATION_GRACE_MINUTES) * 60 * 1000
+  );
+
+  const result = await supabaseAdmin.rpc("reserve_order_stock", {
+    p_order_id: orderId,
+    p_items: items.map((item) => ({ id: item.id, quantity: item.quantity })),
+    p_expires_at: expiresAt.toISOString(),
+  });
+
+  if (result.error) {
+    return { reserved: false, available: 0, error: result.error.message };
+  }
+
+  const outcome = result.data as {
+    success: boolean;
+    product_id?: string;
+    product_name?: string;
+    available?: number;
+  };
+
+  if (!outcome.success) {
+    return {
+      reserved: false,
+      productId: outcome.product_id,
+      productName: outcome.product_name,
+      available: outcome.available ?? 0,
+    };
+  }
+
+  return { reserved: true };
+}
+
+const COUPON_REDEMPTION_ERRORS: Record<string, string> = {
+  not_found: "Invalid coupon code",
+  inactive: "This coupon is not active",
+  not_started: "This coupon is not yet valid",
+  expired: "This coupon has expired",
+  exhausted: "This coupon has reached its usage limit",
+  already_used: "You have already used this coupon",
+};
+
+/**
+ * Redeem one of the order's coupons or promotions: re-check it, record the
+ * usage and count the use in one Postgres transaction that locks the coupon
+ * row, so concurrent checkouts can't go past max_uses. The use is given back
+ * automatically if the order expires or is cancelled unpaid.
+ * @param orderId - Order UUID
+ * @param couponId - A coupon the order was priced with
+ * @param customerEmail - Used for one-per-customer coupons
+ * @returns redeemed=false with a customer-facing reason when the coupon no
+ *          longer applies
+ */
+export async function redeemOrderCoupon(
+  orderId: string,
+  couponId: string,
+  customerEmail: string | undefined
+): Promise<{ redeemed: true } | { redeemed: false; reason?: string; error?: string }> {
+  const result = await supabaseAdmin.rpc("redeem_coupon", {
+    p_coupon_id: couponId,
+    p_order_id: orderId,
+    p_customer_email: customerEmail ?? null,
+  });
+
+  if (result.error) {
+    return { redeemed: false, error: result.error.message };
+  }
+
+  const outcome = result.data as { success: boolean; reason?: string };
+
+  if (!outcome.success) {
+    return {
+      redeemed: false,
+      reason: COUPON_REDEMPTION_ERRORS[outcome.reason ?? ""] ?? "Invalid coupon code",
+    };
+  }
+
+  return { redeemed: true };
+}
+
+/**
+ * Move an order's active stock reservation to a new expiry
+ * Used by payment flows that stay open longer than a BTCPay invoice, such as
+ * a Bisq trade waiting on a bank transfer.
+ * @param orderId - Order UUID
+ * @param expiresAt - New expiry for the order's active reservations
+ */
+export async function extendStockReservation(
+  orderId: string,
+  expiresAt: Date
+): Promise<{ error?: string }> {
+  const { error } = await supabaseAdmin
+    .from("stock_reservations")
+    .update({ expires_at: expiresAt.toISOString() })
+    .eq("order_id", orderId)
+    .eq("status", "active");
+
+  return error ? { error: error.message } : {};
+}
+
+/**
+ * Append an entry to an order's history
+ */
+export async function recordOrderEvent(event: {
+  orderId: string;
+  from: string | null;
+  to: string;
+  actor: string;
+  note?: string;
+  metadata?: Record<string, unknown>;
+}): Promise<{ error?: string }> {
+  const { error } = await supabaseAdmin.from("order_events").insert([
+    {
+      order_id: event.orderId,
+      from_status: event.from,
+      to_status: event.to,
+      actor: event.actor,
+      note: event.note ?? null,
+      metadata: event.metadata ?? null,
+    },
+  ]);
+
+  return error ? { error: error.message } : {};
+}
+
+/**
+ * Move an order to a new status
+ * @param to - Target status
+ * @param options.actor - Admin username, or the process making the change
+ * @param options.from - Only move from these statuses, even if others allow it
+ * @param options.updates - Other order columns to set in the same update
+ * @returns updated=false (with the current status) when the move isn't
+ * allowed or the order changed underneath us
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: {
+    actor: string;
+    note?: string;
+    metadata?: Record<string, unknown>;
+    from?: readonly OrderStatus[];
+    updates?: Record<string, unknown>;
+  }
+): Promise<{ updated: boolean; from?: string; error?: string }> {
+  const current = await supabaseAdmin
+    .from("orders")
+    .select("status")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (current.error) {
+    return { updated: false, error: current.error.message };
+  }
+
+  if (!current.data) {
+    return { updated: false, error: "Order not found" };
+  }
+
+  const from = (current.data as { status: string }).status;
+
+  if (!canTransition(from, to) || (options.from && !options.from.includes(from as OrderStatus))) {
+    return { updated: false, from };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .update({ ...options.updates, status: to })
+    .eq("id", orderId)
+    .eq("status", from)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { updated: false, from, error: error.message };
+  }
+
+  if (!data) {
+    return { updated: false, from };
+  }
+
+  const { error: eventError } = await recordOrderEvent({
+    orderId,
+    from,
+    to,
+    actor: options.actor,
+    note: options.note,
+    metadata: options.metadata,
+  });
+
+  if (eventError) {
+    console.error("Failed to record order event:", eventError);
+  }
+
+  return { updated: true, from };
+}
+
+/**
+ * An order's history, oldest first
+ */
+export async function getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const result = await supabaseAdmin
+    .from("order_events")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (result.error) {
+    throw new Error(`Failed to load order history: ${result.error.message}`);
+  }
+
+  return (result.data ?? []) as OrderEvent[];
+}
+
+/**
+ * Record that a charge (invoice, Monero address, Bisq offer) is open for an
+ * order. Later calls for the same order are no-ops.
+ * @param actor - Payment rail that created the charge
+ */
+export async function markAwaitingPayment(
+  orderId: string,
+  actor: string
+): Promise<{ updated: boolean; error?: string }> {
+  return transitionOrder(orderId, "awaiting_payment", { actor, from: ["pending"] });
+}
+
+/**
+ * Mark an order as paid
+ * The apply_order_stock_status trigger turns the order's stock reservation
+ * into a real decrement when the status changes.
+ * @param orderId - Order UUID
+ * @param actor - Who confirmed the payment (payment rail, checkout, admin)
+ * @returns updated=false (with the current status) when the order was not
+ * in a payable state
+ */
+export async function markOrderPaid(
+  orderId: string,
+  actor = "system"
+): Promise<{ updated: boolean; from?: string; error?: string }> {
+  return transitionOrder(orderId, "paid", {
+    actor,
+    from: PAYABLE_STATUSES,
+    updates: { paid_at: new Date().toISOString() },
+  });
+}
+
+/**
+ * Move an unpaid order into a terminal unpaid state
+ * Its stock reservation is released by the apply_order_stock_status trigger.
+ * @param orderId - Order UUID
+ * @param status - Target status (e.g. "expired", "cancelled")
+ * @param actor - Who closed the order
+ * @returns updated=false when the order was no longer awaiting payment
+ */
+export async function closeUnpaidOrder(
+  orderId: string,
+  status: "expired" | "cancelled",
+  actor = "system"
+): Promise<{ updated: boolean; error?: string }> {
+  return transitionOrder(orderId, status, { actor, from: UNPAID_STATUSES });
+}
+
+/**
+ * Append an entry to the transaction log
+ * @param bisqTradeId - bisq_trades row the event belongs to, if any
+ */
+export async function logTransaction(
+  orderId: string | null,
+  eventType: string,
+  eventData: Record<string, unknown>,
+  bisqTradeId?: string
+): Promise<{ error?: { code: string; message: string } }> {
+  const { error } = await supabaseAdmin.from("transaction_log").insert([
+    {
+      order_id: orderId,
+      bisq_trade_id: bisqTradeId ?? null,
+      event_type: eventType,
+      event_data: eventData,
+    },
+  ]);
+
+  return error ? { error: { code: error.code, message: error.message } } : {};
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { resolvePaymentException } from "~/lib/payment-exceptions";
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import { moneroProvider } from "~/lib/payments/monero";
+import { installFakeSupabase, type FakeSupabase } from "~/lib/testing/fake-supabase";
+
+const ORDER_ID = "5a4c1d8e-0000-4000-8000-000000000003";
+
+void describe("resolvePaymentException", () => {
+  let db: FakeSupabase;
+
+  beforeEach(() => {
+    db = installFakeSupabase();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function seed(paymentMethod: string, exception: "underpaid" | "overpaid") {
+    db.table("orders").push({
+      id: ORDER_ID,
+      order_number: "ORD-3",
+      status: "paid",
+      payment_method: paymentMethod,
+      btcpay_invoice_id: paymentMethod === "btcpay" ? "invoice-3" : null,
+      total_amount: 50,
+      payment_exception: exception,
+      payment_exception_amount: 5,
+      payment_exception_resolution: null,
+      payment_exception_resolved_at: null,
+      top_up_invoice_id: null,
+      shipping_name: null,
+      shipping_email: null,
+    });
+  }
+
+  const order = () => db.table("orders")[0] ?? {};
+
+  void test("refunds an overpayment through the order's own provider", async () => {
+    seed("btcpay", "overpaid");
+    const refund = mock.method(btcpayProvider, "refund", () =>
+      Promise.resolve({ refundId: "refund-1", claimLink: "https://btcpay.example/claim" })
+    );
+
+    const outcome = await resolvePaymentException(ORDER_ID, "refund_excess", "alice");
+
+    assert.ok(!("error" in outcome));
+    assert.equal(outcome.link, "https://btcpay.example/claim");
+    assert.equal(refund.mock.calls[0]?.arguments[0]?.chargeId, "invoice-3");
+    assert.equal(order().payment_exception_resolution, "excess_refunded");
+  });
+
+  void test("turns down a refund the order's provider can't make", async () => {
+    seed("monero", "overpaid");
+    const refund = mock.method(btcpayProvider, "refund");
+
+    const outcome = await resolvePaymentException(ORDER_ID, "refund_excess", "alice");
+
+    assert.deepEqual(outcome, { error: "Refunds are not supported for monero payments", status: 400 });
+    assert.equal(refund.mock.callCount(), 0);
+    assert.equal(order().payment_exception_resolution, null);
+  });
+
+  void test("turns down a top-up on a rail that keys charges by order", async () => {
+    seed("monero", "underpaid");
+    const createCharge = mock.method(moneroProvider, "createCharge");
+
+    const outcome = await resolvePaymentException(ORDER_ID, "request_top_up", "alice");
+
+    assert.deepEqual(outcome, { error: "Top-ups are not supported for monero payments", status: 400 });
+    assert.equal(createCharge.mock.callCount(), 0);
+    assert.equal(order().payment_exception_resolution, null);
+  });
+});
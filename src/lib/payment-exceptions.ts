@@ -0,0 +1,457 @@
+/**
+ * Payment Exceptions
+ *
+ * Orders whose payment didn't match the amount asked: underpaid (the invoice
+ * expired with only part of the total paid), overpaid, or paid after the
+ * invoice expired. The provider reports these (BTCPay's additionalStatus);
+ * the order is flagged with the USD difference and waits in the admin queue
+ * until it is accepted, topped up or the excess is refunded.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { roundCurrency } from "~/lib/pricing";
+import { logTransaction, markOrderPaid } from "~/lib/orders";
+import { sendRefundEmail, sendTopUpEmail } from "~/lib/email";
+import { getOrderChargeId, getPaymentProvider } from "~/lib/payments/registry";
+import {
+  PaymentProviderError,
+  type Charge,
+  type PaymentException,
+  type PaymentProvider,
+} from "~/lib/payments/types";
+
+export type PaymentExceptionAction = "accept" | "request_top_up" | "refund_excess";
+
+export type PaymentExceptionResolution =
+  | "accepted"
+  | "top_up_requested"
+  | "topped_up"
+  | "excess_refunded";
+
+// Which actions make sense for which exception
+const ALLOWED_ACTIONS: Record<PaymentException, PaymentExceptionAction[]> = {
+  underpaid: ["accept", "request_top_up"],
+  overpaid: ["accept", "refund_excess"],
+  paid_late: ["accept"],
+};
+
+interface ExceptionOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  payment_method: string | null;
+  btcpay_invoice_id: string | null;
+  total_amount: number;
+  payment_exception: PaymentException | null;
+  payment_exception_amount: number | null;
+  payment_exception_resolution: PaymentExceptionResolution | null;
+  payment_exception_resolved_at: string | null;
+  top_up_invoice_id: string | null;
+  shipping_name: string | null;
+  shipping_email: string | null;
+}
+
+type ResolveOutcome =
+  | {
+      resolution: PaymentExceptionResolution;
+      // Top-up invoice or refund claim link, for the admin to pass on
+      link?: string;
+      emailSent: boolean;
+    }
+  | { error: string; status: number };
+
+async function getExceptionOrder(orderId: string): Promise<ExceptionOrder | null> {
+  const result = await supabaseAdmin
+    .from("orders")
+    .select("id, order_number, status, payment_method, btcpay_invoice_id, total_amount, payment_exception, payment_exception_amount, payment_exception_resolution, payment_exception_resolved_at, top_up_invoice_id, shipping_name, shipping_email")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  return result.data as ExceptionOrder | null;
+}
+
+/**
+ * USD value of everything paid towards a charge, at the charge's rates
+ */
+async function getAmountPaid(provider: PaymentProvider, chargeId: string): Promise<number> {
+  const methods = await provider.listMethods(chargeId);
+
+  return roundCurrency(
+    methods.reduce((sum, method) => sum + Number(method.totalPaid) * Number(method.rate), 0)
+  );
+}
+
+/**
+ * Whether a charge has settled far enough for its exception to be final
+ * An underpaid invoice can still be completed until it expires.
+ */
+function isExceptionFinal(charge: Charge): boolean {
+  return charge.paymentException === "underpaid"
+    ? charge.state === "expired" || charge.state === "invalid"
+    : charge.state === "paid" || charge.state === "processing";
+}
+
+/**
+ * Flag an order when its charge was underpaid, overpaid or paid late
+ * Only the first exception is kept; later calls for the same order are no-ops.
+ * @returns The exception that was flagged, if any
+ */
+export async function flagPaymentException(
+  orderId: string,
+  charge: Charge
+): Promise<{ flagged: PaymentException | null; error?: string }> {
+  if (!charge.paymentException || !isExceptionFinal(charge)) {
+    return { flagged: null };
+  }
+
+  const provider = getPaymentProvider(charge.provider);
+  if (!provider) {
+    return { flagged: null };
+  }
+
+  const amountPaid = await getAmountPaid(provider, charge.id);
+  const difference = roundCurrency(Math.abs(Number(charge.amount) - amountPaid));
+
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .update({
+      payment_exception: charge.paymentException,
+      payment_exception_amount: difference,
+    })
+    .eq("id", orderId)
+    .is("payment_exception", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { flagged: null, error: error.message };
+  }
+
+  if (!data) {
+    return { flagged: null };
+  }
+
+  await logTransaction(orderId, "payment_exception_flagged", {
+    chargeId: charge.id,
+    exception: charge.paymentException,
+    amountDue: Number(charge.amount),
+    amountPaid,
+    difference,
+  });
+
+  return { flagged: charge.paymentException };
+}
+
+/**
+ * Follow up on a settled or expired invoice
+ * Payment of a top-up invoice resolves the order's underpayment; anything on
+ * the order's own invoice is checked for an exception.
+ */
+export async function checkInvoiceOutcome(
+  orderId: string,
+  invoiceId: string
+): Promise<{ error?: string }> {
+  const order = await getExceptionOrder(orderId);
+
+  if (!order) {
+    return {};
+  }
+
+  if (invoiceId === order.top_up_invoice_id) {
+    if (order.status !== "paid") {
+      return {};
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("orders")
+      .update({
+        payment_exception_resolution: "topped_up",
+        payment_exception_resolved_at: new Date().toISOString(),
+      })
+      .eq("id", orderId)
+      .eq("payment_exception_resolution", "top_up_requested")
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      return { error: error.message };
+    }
+
+    if (data) {
+      await logTransaction(orderId, "payment_exception_resolved", {
+        resolution: "topped_up",
+        invoiceId,
+      });
+    }
+
+    return {};
+  }
+
+  const provider = getPaymentProvider(order.payment_method ?? "btcpay");
+
+  if (!provider || invoiceId !== getOrderChargeId(order)) {
+    return {};
+  }
+
+  const charge = await provider.getStatus(invoiceId);
+  const { error } = await flagPaymentException(orderId, charge);
+
+  return error ? { error } : {};
+}
+
+// The resolution each action records
+const ACTION_RESOLUTIONS: Record<PaymentExceptionAction, PaymentExceptionResolution> = {
+  accept: "accepted",
+  request_top_up: "top_up_requested",
+  refund_excess: "excess_refunded",
+};
+
+/**
+ * Record the resolution, only if the exception is still as it was read
+ * A requested top-up stays in the queue until the invoice is paid, so it
+ * doesn't set payment_exception_resolved_at.
+ * @returns Whether this call got to resolve the exception
+ */
+async function claimResolution(
+  order: ExceptionOrder,
+  resolution: PaymentExceptionResolution
+): Promise<{ claimed: boolean; error?: string }> {
+  const query = supabaseAdmin
+    .from("orders")
+    .update({
+      payment_exception_resolution: resolution,
+      payment_exception_resolved_at: resolution === "top_up_requested" ? null : new Date().toISOString(),
+    })
+    .eq("id", order.id)
+    .is("payment_exception_resolved_at", null);
+
+  const { data, error } = await (order.payment_exception_resolution === null
+    ? query.is("payment_exception_resolution", null)
+    : query.eq("payment_exception_resolution", order.payment_exception_resolution)
+  )
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return { claimed: false, error: error.message };
+  }
+
+  return { claimed: Boolean(data) };
+}
+
+/**
+ * Put the exception back in the queue after the resolution failed
+ */
+async function releaseResolution(
+  order: ExceptionOrder,
+  resolution: PaymentExceptionResolution
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("orders")
+    .update({
+      payment_exception_resolution: order.payment_exception_resolution,
+      payment_exception_resolved_at: null,
+    })
+    .eq("id", order.id)
+    .eq("payment_exception_resolution", resolution);
+
+  if (error) {
+    console.error("Failed to reopen payment exception:", error.message);
+  }
+}
+
+/**
+ * Carry out a claimed resolution with the payment provider
+ */
+async function applyResolution(
+  order: ExceptionOrder,
+  provider: PaymentProvider,
+  action: PaymentExceptionAction,
+  actor: string
+): Promise<{ link?: string; emailSent: boolean } | { error: string; status: number }> {
+  const difference = Number(order.payment_exception_amount ?? 0);
+  let link: string | undefined;
+  let emailSent = false;
+
+  try {
+    switch (action) {
+      case "accept": {
+        if (order.payment_exception === "underpaid") {
+          const { error } = await markOrderPaid(order.id, actor);
+          if (error) {
+            return { error, status: 500 };
+          }
+        }
+        break;
+      }
+
+      case "request_top_up": {
+        const invoice = await provider.createCharge(
+          { id: order.id, order_number: order.order_number, total_amount: difference },
+          { buyerEmail: order.shipping_email ?? undefined }
+        );
+
+        link = invoice.checkoutLink ?? undefined;
+
+        const { error } = await supabaseAdmin
+          .from("orders")
+          .update({ top_up_invoice_id: invoice.id })
+          .eq("id", order.id);
+
+        if (error) {
+          return { error: error.message, status: 500 };
+        }
+
+        if (order.shipping_email && link) {
+          try {
+            await sendTopUpEmail({
+              email: order.shipping_email,
+              shippingName: order.shipping_name,
+              orderNumber: order.order_number,
+              amountDue: difference,
+              paymentLink: link,
+            });
+            emailSent = true;
+          } catch (error) {
+            console.error("Failed to send top-up email:", error);
+          }
+        }
+        break;
+      }
+
+      case "refund_excess": {
+        const chargeId = getOrderChargeId(order);
+
+        if (!provider.refund || !chargeId) {
+          return { error: "Order has no invoice to refund", status: 400 };
+        }
+
+        const refund = await provider.refund({
+          chargeId,
+          overpayment: true,
+          name: `Overpayment ${order.order_number}`,
+          description: "Refund of the amount paid over the order total",
+        });
+
+        link = refund.claimLink;
+
+        if (order.shipping_email) {
+          try {
+            await sendRefundEmail({
+              email: order.shipping_email,
+              shippingName: order.shipping_name,
+              orderNumber: order.order_number,
+              amount: difference,
+              kind: "overpayment",
+              claimLink: refund.claimLink,
+            });
+            emailSent = true;
+          } catch (error) {
+            console.error("Failed to send refund email:", error);
+          }
+        }
+        break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return { error: error.publicMessage ?? "Payment provider request failed", status: error.status };
+    }
+    throw error;
+  }
+
+  return { link, emailSent };
+}
+
+/**
+ * Resolve a flagged order from the admin queue
+ * The resolution is claimed on the order before the provider is called, so
+ * two admins acting at once can't both refund or invoice the customer; if
+ * the provider call fails, the exception goes back into the queue.
+ * @param action - accept: keep the payment as is (an underpaid order becomes
+ * paid); request_top_up: invoice the customer for the shortfall;
+ * refund_excess: send the overpayment back
+ */
+export async function resolvePaymentException(
+  orderId: string,
+  action: PaymentExceptionAction,
+  actor: string
+): Promise<ResolveOutcome> {
+  const order = await getExceptionOrder(orderId);
+
+  if (!order) {
+    return { error: "Order not found", status: 404 };
+  }
+
+  if (!order.payment_exception || order.payment_exception_resolved_at) {
+    return { error: "Order has no open payment exception", status: 409 };
+  }
+
+  if (!ALLOWED_ACTIONS[order.payment_exception].includes(action)) {
+    return { error: `Can't ${action.replace(/_/g, " ")} an order that was ${order.payment_exception.replace("_", " ")}`, status: 400 };
+  }
+
+  const provider = getPaymentProvider(order.payment_method ?? "btcpay");
+
+  if (!provider) {
+    return { error: `Payment exceptions can't be resolved for ${order.payment_method} payments`, status: 400 };
+  }
+
+  // A top-up needs a second charge, which rails that key charges by order ID
+  // can't open
+  if (action === "request_top_up" && getOrderChargeId(order) === order.id) {
+    return { error: `Top-ups are not supported for ${order.payment_method} payments`, status: 400 };
+  }
+
+  if (action === "refund_excess" && !provider.refund) {
+    return { error: `Refunds are not supported for ${order.payment_method} payments`, status: 400 };
+  }
+
+  const difference = Number(order.payment_exception_amount ?? 0);
+
+  if (action === "request_top_up") {
+    if (order.payment_exception_resolution === "top_up_requested") {
+      return { error: "A top-up has already been requested for this order", status: 409 };
+    }
+
+    if (difference <= 0) {
+      return { error: "Nothing left to pay", status: 400 };
+    }
+  }
+
+  const resolution = ACTION_RESOLUTIONS[action];
+  const claim = await claimResolution(order, resolution);
+
+  if (claim.error) {
+    return { error: claim.error, status: 500 };
+  }
+
+  if (!claim.claimed) {
+    return { error: "This payment exception was just resolved by someone else. Reload and try again.", status: 409 };
+  }
+
+  let applied;
+  try {
+    applied = await applyResolution(order, provider, action, actor);
+  } catch (error) {
+    await releaseResolution(order, resolution);
+    throw error;
+  }
+
+  if ("error" in applied) {
+    await releaseResolution(order, resolution);
+    return applied;
+  }
+
+  await logTransaction(order.id, "payment_exception_resolved", {
+    exception: order.payment_exception,
+    action,
+    resolution,
+    difference,
+    link: applied.link,
+    emailSent: applied.emailSent,
+    admin: actor,
+  });
+
+  return { resolution, ...applied };
+}
@@ -0,0 +1,121 @@
+/**
+ * Bisq Payment Provider
+ *
+ * Adapts the Bisq P2P flow in ~/lib/bisq-trades to the provider contract.
+ * Charges are keyed by order ID, since each order has at most one offer.
+ */
+
+import { getBisqClient, isBisqEnabled } from "~/lib/bisq";
+import {
+  getBisqTrade,
+  openBisqOffer,
+  refreshBisqTrade,
+  toTradeView,
+  type BisqTrade,
+} from "~/lib/bisq-trades";
+import {
+  PaymentProviderError,
+  type Charge,
+  type ChargeState,
+  type PaymentProvider,
+} from "~/lib/payments/types";
+
+function requireClient() {
+  const client = getBisqClient();
+
+  if (!client) {
+    throw new PaymentProviderError("Bisq daemon API is not configured", 503, "Bisq payments are not available");
+  }
+
+  return client;
+}
+
+async function loadTrade(orderId: string): Promise<BisqTrade> {
+  const trade = await getBisqTrade(orderId);
+
+  if (!trade) {
+    throw new PaymentProviderError(`No Bisq trade for order ${orderId}`, 404, "Trade not found");
+  }
+
+  return refreshBisqTrade(trade, { client: requireClient() });
+}
+
+function chargeState(trade: BisqTrade): ChargeState {
+  switch (trade.status) {
+    case "completed":
+      return "paid";
+    case "expired":
+      return "expired";
+    case "cancelled":
+      return "invalid";
+    default:
+      // The seller has confirmed the fiat; only the payout is left
+      return trade.fiat_received ? "processing" : "pending";
+  }
+}
+
+function toCharge(trade: BisqTrade): Charge {
+  return {
+    provider: "bisq",
+    id: trade.order_id,
+    state: chargeState(trade),
+    providerStatus: trade.trade_state,
+    amount: Number(trade.fiat_amount).toFixed(2),
+    currency: trade.currency_code,
+    checkoutLink: null,
+    createdAt: trade.created_at,
+    expiresAt: trade.status === "offer_open" ? trade.offer_expires_at : null,
+    paymentException: null,
+    metadata: { tradeId: trade.trade_id, paymentMethod: trade.payment_method },
+  };
+}
+
+export const bisqProvider: PaymentProvider = {
+  id: "bisq",
+
+  isEnabled() {
+    return isBisqEnabled();
+  },
+
+  describe() {
+    return { id: "bisq", label: "bisq", currencies: ["USD"] };
+  },
+
+  async createCharge(order, options = {}) {
+    if (!options.paymentAccountId) {
+      throw new PaymentProviderError("Bisq charges need a payment account", 400, "Choose a payment method");
+    }
+
+    const outcome = await openBisqOffer(order, options.paymentAccountId, { client: requireClient() });
+
+    if ("error" in outcome) {
+      throw new PaymentProviderError(outcome.message, 400, outcome.message);
+    }
+
+    return toCharge(outcome.trade);
+  },
+
+  async getStatus(orderId) {
+    return toCharge(await loadTrade(orderId));
+  },
+
+  async listMethods(orderId) {
+    const trade = await loadTrade(orderId);
+    const view = toTradeView(trade);
+    const amount = view.fiatAmount.toFixed(2);
+
+    return [
+      {
+        paymentMethod: view.paymentMethod,
+        cryptoCode: view.currencyCode,
+        // The seller's account; only known once their deposit is confirmed
+        destination: view.sellerPaymentDetails ?? "",
+        paymentLink: "",
+        rate: trade.btc_price ? Number(trade.btc_price).toFixed(2) : "",
+        totalPaid: trade.fiat_received ? amount : "0",
+        due: trade.fiat_received ? "0" : amount,
+        amount,
+      },
+    ];
+  },
+};
@@ -0,0 +1,317 @@
+/**
+ * BTCPay Server Payment Provider
+ *
+ * The only place that talks to the BTCPay Greenfield API: invoices, their
+ * payment methods, refunds (as pull payments) and signed webhooks.
+ */
+
+import https from "https";
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { env } from "~/env";
+import { INVOICE_EXPIRATION_MINUTES } from "~/lib/orders";
+import {
+  PaymentProviderError,
+  type Charge,
+  type ChargeState,
+  type PaymentException,
+  type PaymentMethodInfo,
+  type PaymentProvider,
+  type WebhookEffect,
+} from "~/lib/payments/types";
+
+interface BtcpayInvoice {
+  id: string;
+  status: string;
+  additionalStatus?: string;
+  amount: string;
+  currency: string;
+  createdTime: number;
+  expirationTime: number;
+  checkoutLink: string;
+  metadata: Record<string, unknown> | null;
+}
+
+const webhookEventSchema = z.object({
+  deliveryId: z.string().min(1),
+  originalDeliveryId: z.string().optional(),
+  isRedelivery: z.boolean().optional(),
+  type: z.string().min(1),
+  timestamp: z.number().optional(),
+  storeId: z.string().optional(),
+  invoiceId: z.string().optional(),
+  metadata: z.record(z.unknown()).nullable().optional(),
+  overPaid: z.boolean().optional(),
+  partiallyPaid: z.boolean().optional(),
+  afterExpiration: z.boolean().optional(),
+  manuallyMarked: z.boolean().optional(),
+  paymentMethod: z.string().optional(),
+  payment: z.record(z.unknown()).optional(),
+});
+
+const PAYMENT_EXCEPTIONS: Record<string, PaymentException> = {
+  PaidPartial: "underpaid",
+  PaidOver: "overpaid",
+  PaidLate: "paid_late",
+};
+
+const INVOICE_STATES: Record<string, ChargeState> = {
+  New: "pending",
+  Processing: "processing",
+  Settled: "paid",
+  Expired: "expired",
+  Invalid: "invalid",
+};
+
+/**
+ * Call the BTCPay Greenfield API for the configured store
+ * @param path - Path below /api/v1/stores/{storeId}
+ */
+async function btcpayRequest<T>(
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  // Allows self-signed certificates in development
+  const httpsAgent = env.BTCPAY_ALLOW_INSECURE === "true"
+    ? new https.Agent({ rejectUnauthorized: false })
+    : undefined;
+
+  const response = await fetch(
+    `${env.BTCPAY_HOST}/api/v1/stores/${env.BTCPAY_STORE_ID}${path}`,
+    {
+      method: init.method ?? "GET",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `token ${env.BTCPAY_API_KEY}`,
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      // @ts-expect-error - agent is valid but not in Node fetch types
+      agent: httpsAgent,
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("BTCPay API error:", errorText);
+
+    // Surface BTCPay's own message where it helps the shopper
+    let publicMessage: string | undefined;
+    try {
+      const errorJson = JSON.parse(errorText) as { message?: string };
+      if (errorJson.message?.includes("Payment method unavailable")) {
+        publicMessage = "The requested payment method is currently unavailable. Please try a different payment option.";
+      } else if (errorJson.message) {
+        publicMessage = errorJson.message;
+      }
+    } catch {
+      // If error text is not JSON, keep the default message
+    }
+
+    throw new PaymentProviderError(
+      `BTCPay ${init.method ?? "GET"} ${path} failed with HTTP ${response.status}: ${errorText.substring(0, 200)}`,
+      response.status,
+      publicMessage
+    );
+  }
+
+  return await response.json() as T;
+}
+
+function toCharge(invoice: BtcpayInvoice): Charge {
+  return {
+    provider: "btcpay",
+    id: invoice.id,
+    state: INVOICE_STATES[invoice.status] ?? "pending",
+    providerStatus: invoice.status,
+    amount: invoice.amount,
+    currency: invoice.currency,
+    checkoutLink: invoice.checkoutLink,
+    createdAt: new Date(invoice.createdTime * 1000).toISOString(),
+    expiresAt: new Date(invoice.expirationTime * 1000).toISOString(),
+    paymentException: PAYMENT_EXCEPTIONS[invoice.additionalStatus ?? ""] ?? null,
+    metadata: invoice.metadata ?? {},
+  };
+}
+
+/**
+ * Verify the BTCPay-Sig header ("sha256=<hex HMAC of the raw body>")
+ */
+function verifySignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature?.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const provided = Buffer.from(signature.slice("sha256=".length), "hex");
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * What an invoice event does to its order
+ */
+function webhookEffect(type: string): WebhookEffect | null {
+  switch (type) {
+    // Processing = paid in full, waiting for confirmations. The checkout UI
+    // already treats it as complete under the HighSpeed policy.
+    case "InvoiceProcessing":
+    case "InvoiceSettled":
+      return "paid";
+
+    case "InvoiceExpired":
+      return "expired";
+
+    case "InvoiceInvalid":
+      return "invalid";
+
+    // Payment seen on-chain but not yet enough to settle; only logged
+    default:
+      return null;
+  }
+}
+
+export const btcpayProvider = {
+  id: "btcpay",
+
+  isEnabled() {
+    return !!env.BTCPAY_HOST && !!env.BTCPAY_STORE_ID && !!env.BTCPAY_API_KEY;
+  },
+
+  describe() {
+    return { id: "btcpay", label: "bitcoin", currencies: ["BTC", "XMR"] };
+  },
+
+  async createCharge(order, options = {}) {
+    // Offer only the currency the shopper picked, or everything by default
+    const paymentMethods =
+      options.preferredCrypto === "monero" ? ["XMR"]
+      : options.preferredCrypto === "bitcoin" ? ["BTC"]
+      : ["BTC", "XMR"];
+
+    const invoice = await btcpayRequest<BtcpayInvoice>("/invoices", {
+      method: "POST",
+      body: {
+        amount: Number(order.total_amount).toString(),
+        currency: "USD",
+        metadata: {
+          orderId: order.id,
+          orderNumber: order.order_number,
+          buyerEmail: options.buyerEmail,
+        },
+        checkout: {
+          speedPolicy: "HighSpeed",
+          paymentMethods,
+          expirationMinutes: INVOICE_EXPIRATION_MINUTES,
+        },
+      },
+    });
+
+    return toCharge(invoice);
+  },
+
+  async getStatus(invoiceId) {
+    const invoice = await btcpayRequest<BtcpayInvoice>(
+      `/invoices/${encodeURIComponent(invoiceId)}`
+    );
+
+    return toCharge(invoice);
+  },
+
+  async listMethods(invoiceId) {
+    return btcpayRequest<PaymentMethodInfo[]>(
+      `/invoices/${encodeURIComponent(invoiceId)}/payment-methods`
+    );
+  },
+
+  async refund(request) {
+    const amount = "overpayment" in request
+      ? { refundVariant: "OverpaidAmount" }
+      : {
+          refundVariant: "Custom",
+          customAmount: request.amount.toFixed(2),
+          customCurrency: request.currency,
+        };
+
+    // BTCPay turns an invoice refund into a pull payment the customer claims
+    const pullPayment = await btcpayRequest<{ id: string; viewLink: string }>(
+      `/invoices/${encodeURIComponent(request.chargeId)}/refund`,
+      {
+        method: "POST",
+        body: {
+          name: request.name,
+          description: request.description,
+          ...amount,
+          paymentMethod: request.paymentMethod ?? "BTC",
+        },
+      }
+    );
+
+    return { refundId: pullPayment.id, claimLink: pullPayment.viewLink };
+  },
+
+  parseWebhook(rawBody, headers) {
+    if (!env.BTCPAY_WEBHOOK_SECRET) {
+      console.error("BTCPay webhook received but BTCPAY_WEBHOOK_SECRET is not configured");
+      return { ok: false, status: 503, error: "Webhook not configured" };
+    }
+
+    // Signature is computed over the raw body, so check it before parsing
+    if (!verifySignature(rawBody, headers.get("BTCPay-Sig"), env.BTCPAY_WEBHOOK_SECRET)) {
+      return { ok: false, status: 401, error: "Invalid signature" };
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return { ok: false, status: 400, error: "Invalid request body" };
+    }
+
+    const validation = webhookEventSchema.safeParse(body);
+
+    if (!validation.success) {
+      return {
+        ok: false,
+        status: 400,
+        error: validation.error.errors[0]?.message ?? "Validation failed",
+      };
+    }
+
+    const event = validation.data;
+
+    // Ignore events for other stores sharing the same BTCPay instance
+    if (event.storeId && event.storeId !== env.BTCPAY_STORE_ID) {
+      return { ok: true, event: null, ignored: "store mismatch" };
+    }
+
+    if (!event.invoiceId) {
+      return { ok: true, event: null, ignored: "not an invoice event" };
+    }
+
+    const metadataOrderId = event.metadata?.orderId;
+
+    return {
+      ok: true,
+      event: {
+        // Redeliveries carry a new deliveryId but keep the original one
+        deliveryId: event.originalDeliveryId ?? event.deliveryId,
+        type: event.type,
+        chargeId: event.invoiceId,
+        orderId: typeof metadataOrderId === "string" ? metadataOrderId : undefined,
+        effect: webhookEffect(event.type),
+        details: {
+          invoiceId: event.invoiceId,
+          isRedelivery: event.isRedelivery ?? false,
+          overPaid: event.overPaid,
+          partiallyPaid: event.partiallyPaid,
+          afterExpiration: event.afterExpiration,
+          paymentMethod: event.paymentMethod,
+        },
+      },
+    };
+  },
+} satisfies PaymentProvider;
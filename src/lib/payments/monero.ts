@@ -0,0 +1,119 @@
+/**
+ * Direct Monero Payment Provider
+ *
+ * Adapts the monero-wallet-rpc flow in ~/lib/monero-payments to the provider
+ * contract. Charges are keyed by order ID, since each order has at most one
+ * Monero payment.
+ */
+
+import { env } from "~/env";
+import { formatXmr, getMoneroWallet, getRateSource, isMoneroEnabled } from "~/lib/monero";
+import {
+  createMoneroPayment,
+  getMoneroPayment,
+  refreshMoneroPayment,
+  toPaymentView,
+  type MoneroPayment,
+  type MoneroPaymentStatus,
+} from "~/lib/monero-payments";
+import {
+  PaymentProviderError,
+  type Charge,
+  type ChargeState,
+  type PaymentProvider,
+} from "~/lib/payments/types";
+
+const PAYMENT_STATES: Record<MoneroPaymentStatus, ChargeState> = {
+  waiting: "pending",
+  confirming: "processing",
+  paid: "paid",
+  expired: "expired",
+  underpaid: "expired",
+};
+
+function requireWallet() {
+  const wallet = getMoneroWallet();
+
+  if (!wallet) {
+    throw new PaymentProviderError("Monero wallet RPC is not configured", 503, "Monero payments are not available");
+  }
+
+  return wallet;
+}
+
+async function loadPayment(orderId: string): Promise<MoneroPayment> {
+  const payment = await getMoneroPayment(orderId);
+
+  if (!payment) {
+    throw new PaymentProviderError(`No Monero payment for order ${orderId}`, 404, "Payment not found");
+  }
+
+  return refreshMoneroPayment(payment, { wallet: requireWallet() });
+}
+
+function toCharge(payment: MoneroPayment): Charge {
+  const view = toPaymentView(payment);
+
+  return {
+    provider: "monero",
+    id: payment.order_id,
+    state: PAYMENT_STATES[payment.status],
+    providerStatus: payment.status,
+    amount: view.usdAmount.toFixed(2),
+    currency: "USD",
+    checkoutLink: null,
+    createdAt: payment.created_at,
+    expiresAt: payment.expires_at,
+    paymentException: payment.status === "underpaid" ? "underpaid" : null,
+    metadata: { address: view.address, amountXmr: view.amountXmr },
+  };
+}
+
+export const moneroProvider: PaymentProvider = {
+  id: "monero",
+
+  isEnabled() {
+    return isMoneroEnabled();
+  },
+
+  describe() {
+    return {
+      id: "monero",
+      label: "monero",
+      currencies: ["XMR"],
+      confirmations: env.MONERO_CONFIRMATIONS,
+    };
+  },
+
+  async createCharge(order) {
+    const payment = await createMoneroPayment(order, {
+      wallet: requireWallet(),
+      rateSource: getRateSource(),
+    });
+
+    return toCharge(payment);
+  },
+
+  async getStatus(orderId) {
+    return toCharge(await loadPayment(orderId));
+  },
+
+  async listMethods(orderId) {
+    const payment = await loadPayment(orderId);
+    const view = toPaymentView(payment);
+    const due = BigInt(payment.amount_atomic) - BigInt(payment.received_atomic);
+
+    return [
+      {
+        paymentMethod: "XMR",
+        cryptoCode: "XMR",
+        destination: view.address,
+        paymentLink: view.paymentUri,
+        rate: view.rate.toFixed(2),
+        totalPaid: view.receivedXmr,
+        due: formatXmr(due > 0n ? due : 0n),
+        amount: view.amountXmr,
+      },
+    ];
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * Payment Provider Registry
+ *
+ * Providers keyed by the value stored in orders.payment_method.
+ */
+
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import { moneroProvider } from "~/lib/payments/monero";
+import { bisqProvider } from "~/lib/payments/bisq";
+import {
+  PAYMENT_PROVIDER_IDS,
+  type PaymentProvider,
+  type PaymentProviderId,
+} from "~/lib/payments/types";
+
+const providers: Record<PaymentProviderId, PaymentProvider> = {
+  btcpay: btcpayProvider,
+  monero: moneroProvider,
+  bisq: bisqProvider,
+};
+
+export function isPaymentProviderId(value: string): value is PaymentProviderId {
+  return (PAYMENT_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Provider for an orders.payment_method value, or null if there is none
+ */
+export function getPaymentProvider(id: string): PaymentProvider | null {
+  return isPaymentProviderId(id) ? providers[id] : null;
+}
+
+/**
+ * Providers that are configured in this deployment, in checkout order
+ */
+export function getEnabledPaymentProviders(): PaymentProvider[] {
+  return PAYMENT_PROVIDER_IDS.map((id) => providers[id]).filter((provider) => provider.isEnabled());
+}
+
+/**
+ * The charge ID an order's provider knows it by
+ * BTCPay issues its own invoice IDs; the other rails key charges by order ID.
+ */
+export function getOrderChargeId(order: {
+  id: string;
+  payment_method: string | null;
+  btcpay_invoice_id: string | null;
+}): string | null {
+  return (order.payment_method ?? "btcpay") === "btcpay" ? order.btcpay_invoice_id : order.id;
+}
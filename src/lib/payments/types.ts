@@ -0,0 +1,145 @@
+/**
+ * Payment Provider Contract
+ *
+ * Every payment rail (BTCPay, direct Monero, Bisq) implements PaymentProvider
+ * and is registered under the value it stores in orders.payment_method. Routes
+ * talk to the provider instead of the rail's API, so adding a rail means adding
+ * a provider, not copying route code.
+ */
+
+export const PAYMENT_PROVIDER_IDS = ["btcpay", "monero", "bisq"] as const;
+
+export type PaymentProviderId = (typeof PAYMENT_PROVIDER_IDS)[number];
+
+/**
+ * Provider-neutral charge state
+ * "processing" means paid in full but not final yet (e.g. awaiting confirmations).
+ */
+export type ChargeState = "pending" | "processing" | "paid" | "expired" | "invalid";
+
+/**
+ * The order fields a provider needs to take payment
+ */
+export interface ChargeOrder {
+  id: string;
+  order_number: string;
+  total_amount: number;
+}
+
+/**
+ * How the amount paid differs from the amount asked
+ */
+export type PaymentException = "underpaid" | "overpaid" | "paid_late";
+
+export interface ChargeOptions {
+  buyerEmail?: string;
+  // Restrict the charge to one currency where the rail offers several
+  preferredCrypto?: "bitcoin" | "monero";
+  // Bisq: payment_accounts row the shopper pays with
+  paymentAccountId?: string;
+}
+
+export interface Charge {
+  provider: PaymentProviderId;
+  id: string;
+  state: ChargeState;
+  // The rail's own status string (e.g. BTCPay's "Settled")
+  providerStatus: string;
+  amount: string;
+  currency: string;
+  checkoutLink: string | null;
+  createdAt: string | null;
+  expiresAt: string | null;
+  paymentException: PaymentException | null;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * One way to pay a charge (a currency/network and where to send it)
+ */
+export interface PaymentMethodInfo {
+  paymentMethod: string;
+  cryptoCode: string;
+  destination: string;
+  paymentLink: string;
+  rate: string;
+  totalPaid: string;
+  due: string;
+  amount: string;
+  networkFee?: string;
+}
+
+export type RefundRequest = {
+  chargeId: string;
+  name?: string;
+  description?: string;
+  // Currency the customer is paid back in (e.g. "BTC")
+  paymentMethod?: string;
+} & (
+  // Amount in the charge's fiat currency
+  | { amount: number; currency: string }
+  // Whatever was paid on top of the charge amount
+  | { overpayment: true }
+);
+
+export interface RefundResult {
+  refundId: string;
+  // Where the customer claims the refund
+  claimLink: string;
+}
+
+/**
+ * What a verified webhook means for the order it belongs to
+ */
+export type WebhookEffect = "paid" | "expired" | "invalid";
+
+export interface PaymentWebhookEvent {
+  // Stable across redeliveries, used to skip duplicates
+  deliveryId: string;
+  type: string;
+  chargeId: string;
+  // Order ID the charge was created with, when the rail echoes it back
+  orderId?: string;
+  effect: WebhookEffect | null;
+  // Extra fields worth keeping in the transaction log
+  details: Record<string, unknown>;
+}
+
+export type WebhookParseResult =
+  | { ok: true; event: PaymentWebhookEvent | null; ignored?: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * What checkout needs to offer a provider
+ */
+export interface PaymentProviderSummary {
+  id: PaymentProviderId;
+  label: string;
+  currencies: string[];
+  // Confirmations required before an order counts as paid, where fixed
+  confirmations?: number;
+}
+
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  isEnabled(): boolean;
+  describe(): PaymentProviderSummary;
+  createCharge(order: ChargeOrder, options?: ChargeOptions): Promise<Charge>;
+  getStatus(chargeId: string): Promise<Charge>;
+  listMethods(chargeId: string): Promise<PaymentMethodInfo[]>;
+  // Rails that can't send money back (or have no webhooks) leave these out
+  refund?(request: RefundRequest): Promise<RefundResult>;
+  parseWebhook?(rawBody: string, headers: Headers): WebhookParseResult;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 502,
+    // Safe to show the shopper
+    public readonly publicMessage?: string
+  ) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
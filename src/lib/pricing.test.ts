@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { applyPromotions, combinePromotions, type PricedLine } from "~/lib/pricing";
+import type { Coupon } from "~/lib/supabase";
+import { installFakeSupabase, type FakeSupabase } from "~/lib/testing/fake-supabase";
+
+function coupon(overrides: Partial<Coupon> & Pick<Coupon, "id" | "code">): Coupon {
+  return {
+    discount_type: "percentage",
+    discount_value: 10,
+    discount_mode: "total",
+    current_uses: 0,
+    one_per_customer: false,
+    valid_from: "2020-01-01T00:00:00Z",
+    active: true,
+    applicable_to: "all",
+    automatic: false,
+    priority: 0,
+    stackable: true,
+    combines_with_product_discount: true,
+    created_at: "2020-01-01T00:00:00Z",
+    updated_at: "2020-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function line(productId: string, unitPrice: number, quantity = 1): PricedLine {
+  return {
+    productId,
+    name: productId,
+    quantity,
+    basePrice: unitPrice,
+    productDiscount: 0,
+    discountedPrice: unitPrice,
+    modifierAdjustment: 0,
+    unitPrice,
+    lineTotal: unitPrice * quantity,
+    couponDiscount: 0,
+    selectedModifiers: [],
+  };
+}
+
+void describe("combinePromotions", () => {
+  const lines = [line("shirt", 60), line("hat", 40)];
+  const sale = coupon({ id: "sale", code: "SALE10", automatic: true, stackable: false });
+
+  void test("a smaller entered code is skipped for a non-stackable automatic promotion", () => {
+    const entered = coupon({ id: "five", code: "FIVE", discount_type: "fixed", discount_value: 5 });
+
+    const result = combinePromotions(
+      [{ coupon: sale, automatic: true }, { coupon: entered, automatic: false }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.deepEqual(result.applied.map((entry) => entry.promotion.code), ["SALE10"]);
+    assert.equal(result.discount, 10);
+    assert.deepEqual(result.skipped.map((skipped) => skipped.code), ["FIVE"]);
+  });
+
+  void test("a larger entered code replaces a non-stackable automatic promotion", () => {
+    const entered = coupon({ id: "vip", code: "VIP25", discount_value: 25 });
+
+    const result = combinePromotions(
+      [{ coupon: sale, automatic: true }, { coupon: entered, automatic: false }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.deepEqual(result.applied.map((entry) => entry.promotion.code), ["VIP25"]);
+    assert.equal(result.discount, 25);
+    assert.deepEqual(result.lineDiscounts, [15, 10]);
+    assert.deepEqual(result.skipped, []);
+  });
+
+  void test("the automatic promotion wins a tie", () => {
+    const entered = coupon({ id: "ten", code: "TENOFF", discount_type: "fixed", discount_value: 10 });
+
+    const result = combinePromotions(
+      [{ coupon: sale, automatic: true }, { coupon: entered, automatic: false }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.deepEqual(result.applied.map((entry) => entry.promotion.code), ["SALE10"]);
+  });
+
+  void test("stackable promotions are applied one after the other", () => {
+    const stackableSale = coupon({ id: "sale", code: "SALE10", automatic: true });
+    const entered = coupon({ id: "ten", code: "TENOFF", discount_type: "fixed", discount_value: 10 });
+
+    const result = combinePromotions(
+      [{ coupon: stackableSale, automatic: true }, { coupon: entered, automatic: false }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.deepEqual(result.applied.map((entry) => entry.promotion.code), ["SALE10", "TENOFF"]);
+    assert.equal(result.discount, 20);
+  });
+
+  void test("an entered code the customer already used is still an error", () => {
+    const entered = coupon({ id: "once", code: "ONCE", one_per_customer: true });
+
+    const result = combinePromotions(
+      [{ coupon: entered, automatic: false }],
+      lines,
+      new Set(["once"])
+    );
+
+    assert.ok("error" in result);
+  });
+});
+
+void describe("combinePromotions with free shipping", () => {
+  const lines = [line("shirt", 60), line("hat", 40)];
+  const freeShipping = coupon({
+    id: "ship",
+    code: "FREESHIP",
+    discount_type: "free_shipping",
+    discount_value: 0,
+    automatic: true,
+  });
+
+  void test("waives shipping alongside an entered percentage code", () => {
+    const entered = coupon({ id: "ten", code: "TENOFF", discount_value: 10 });
+
+    const result = combinePromotions(
+      [{ coupon: freeShipping, automatic: true }, { coupon: entered, automatic: false }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.deepEqual(result.applied.map((entry) => entry.promotion.code), ["FREESHIP", "TENOFF"]);
+    assert.equal(result.freeShipping, true);
+    assert.equal(result.discount, 10);
+    assert.deepEqual(result.lineDiscounts, [6, 4]);
+  });
+
+  void test("checks its minimum against what earlier promotions left", () => {
+    const sale = coupon({ id: "sale", code: "SALE10", automatic: true, priority: 1 });
+    const threshold = coupon({ ...freeShipping, minimum_order_amount: 100 });
+
+    const result = combinePromotions(
+      [{ coupon: sale, automatic: true }, { coupon: threshold, automatic: true }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.deepEqual(result.applied.map((entry) => entry.promotion.code), ["SALE10"]);
+    assert.equal(result.freeShipping, false);
+  });
+
+  void test("stacks with a buy X get Y promotion without changing its discount", () => {
+    const bogo = coupon({
+      id: "bogo",
+      code: "BOGO",
+      discount_type: "buy_x_get_y",
+      discount_value: 100,
+      buy_quantity: 1,
+      get_quantity: 1,
+      automatic: true,
+    });
+
+    const result = combinePromotions(
+      [{ coupon: bogo, automatic: true }, { coupon: freeShipping, automatic: true }],
+      lines
+    );
+
+    assert.ok(!("error" in result));
+    assert.equal(result.freeShipping, true);
+    assert.equal(result.discount, 40);
+    assert.deepEqual(result.lineDiscounts, [0, 40]);
+  });
+});
+
+void describe("applyPromotions", () => {
+  let db: FakeSupabase;
+
+  beforeEach(() => {
+    db = installFakeSupabase();
+    db.table("coupons").push({ ...coupon({ id: "once", code: "ONCE", one_per_customer: true }) });
+    db.table("coupon_usage").push({
+      coupon_id: "once",
+      customer_email: "Alice@Example.com",
+      status: "redeemed",
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  void test("a one-per-customer code is used up whatever the email's case", async () => {
+    const result = await applyPromotions(["once"], [line("shirt", 60)], "alice@example.COM");
+
+    assert.ok("error" in result);
+  });
+
+  void test("wildcards in an email don't match other customers", async () => {
+    const result = await applyPromotions(["once"], [line("shirt", 60)], "%@example.com");
+
+    assert.ok(!("error" in result));
+    assert.equal(result.discount, 6);
+  });
+});
@@ -0,0 +1,579 @@
+/**
+ * Order Pricing
+ *
+ * Prices an order from the catalog rather than from what the browser sends.
+ * Product prices, discounts and modifier adjustments are loaded from the
+ * products table, shipping comes from shipping_config, and coupons and
+ * automatic promotions are looked up, validated and combined here.
+ * Client-supplied amounts are only ever compared against the result.
+ */
+
+import { calculateDiscountedPrice, validateCoupon, type Coupon, type ModifierGroup, type Product } from "~/lib/supabase";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { fetchShippingConfig, calculateShippingCost } from "~/lib/shipping";
+
+export interface PricingRequestItem {
+  id: string;
+  quantity: number;
+  selectedModifiers?: {
+    groupId: string;
+    optionId: string;
+  }[];
+}
+
+export interface PricedModifier {
+  groupId: string;
+  groupLabel: string;
+  optionId: string;
+  optionLabel: string;
+  priceAdjustment: number;
+}
+
+export interface PricedLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  basePrice: number;
+  productDiscount: number;
+  discountedPrice: number;
+  modifierAdjustment: number;
+  unitPrice: number;
+  lineTotal: number;
+  // This line's share of all promotions' discounts
+  couponDiscount: number;
+  selectedModifiers: PricedModifier[];
+}
+
+// A coupon or automatic promotion applied to an order
+export interface AppliedPromotion {
+  couponId: string;
+  code: string;
+  description: string | null;
+  // Applied without the customer entering the code
+  automatic: boolean;
+  discount: number;
+  // This promotion's share of each line, in line order
+  lineDiscounts: number[];
+  freeShipping: boolean;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  // Shipping charged, after any free shipping coupon
+  shippingCost: number;
+  // Shipping waived by a free shipping coupon
+  shippingDiscount: number;
+  // In the order they were applied
+  promotions: AppliedPromotion[];
+  // All promotions' discounts combined
+  couponDiscount: number;
+  total: number;
+}
+
+export type PricingErrorCode =
+  | "product_not_found"
+  | "invalid_modifier"
+  | "insufficient_stock"
+  | "invalid_coupon"
+  | "shipping_unavailable";
+
+export interface PricingFailure {
+  success: false;
+  code: PricingErrorCode;
+  error: string;
+  productId?: string;
+  productName?: string;
+  availableStock?: number;
+}
+
+export type PricingResult = { success: true; breakdown: PriceBreakdown } | PricingFailure;
+
+/**
+ * Round a currency amount to whole cents
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Resolve a line's selected modifiers against the product's modifier groups
+ * Rejects unknown groups/options, duplicate groups, options whose dependsOn
+ * condition isn't selected, and missing required groups.
+ */
+function resolveModifiers(
+  groups: ModifierGroup[],
+  selected: NonNullable<PricingRequestItem["selectedModifiers"]>
+): { modifiers: PricedModifier[] } | { error: string } {
+  const chosen = new Map<string, string>();
+
+  for (const selection of selected) {
+    if (chosen.has(selection.groupId)) {
+      return { error: "Only one option may be selected per modifier group" };
+    }
+    chosen.set(selection.groupId, selection.optionId);
+  }
+
+  const modifiers: PricedModifier[] = [];
+
+  for (const [groupId, optionId] of chosen) {
+    const group = groups.find((g) => g.id === groupId);
+    const option = group?.options.find((o) => o.id === optionId);
+
+    if (!group || !option) {
+      return { error: "Selected option is not available for this product" };
+    }
+
+    if (option.dependsOn && chosen.get(option.dependsOn.groupId) !== option.dependsOn.optionId) {
+      return { error: `Option "${option.label}" is not available with the current selection` };
+    }
+
+    modifiers.push({
+      groupId: group.id,
+      groupLabel: group.label,
+      optionId: option.id,
+      optionLabel: option.label,
+      priceAdjustment: option.priceAdjustment,
+    });
+  }
+
+  for (const group of groups) {
+    if (!group.required || chosen.has(group.id)) {
+      continue;
+    }
+
+    // A required group only counts if at least one of its options is visible
+    const hasVisibleOption = group.options.some(
+      (o) => !o.dependsOn || chosen.get(o.dependsOn.groupId) === o.dependsOn.optionId
+    );
+
+    if (hasVisibleOption) {
+      return { error: `Please select ${group.label}` };
+    }
+  }
+
+  return { modifiers };
+}
+
+/**
+ * Price cart lines from the catalog, without shipping or coupons
+ * @param items - Product IDs, quantities and modifier selections from the cart
+ * @returns The lines in the same order as the items
+ */
+export async function priceCartLines(
+  items: PricingRequestItem[]
+): Promise<{ success: true; lines: PricedLine[] } | PricingFailure> {
+  const productIds = [...new Set(items.map((item) => item.id))];
+
+  const { data: productRows, error: productsError } = await supabaseAdmin
+    .from("products")
+    .select("id, name, price, discount, modifiers, hidden, stock")
+    .in("id", productIds);
+
+  if (productsError) {
+    throw new Error(`Failed to load products: ${productsError.message}`);
+  }
+
+  const products = new Map(
+    ((productRows ?? []) as Product[]).map((product) => [product.id, product])
+  );
+
+  // Quantity requested per product across all lines (same product, different modifiers)
+  const requestedQuantities = new Map<string, number>();
+  for (const item of items) {
+    requestedQuantities.set(item.id, (requestedQuantities.get(item.id) ?? 0) + item.quantity);
+  }
+
+  const lines: PricedLine[] = [];
+
+  for (const item of items) {
+    const product = products.get(item.id);
+
+    if (!product || product.hidden) {
+      return {
+        success: false,
+        code: "product_not_found",
+        error: "A product in your cart is no longer available",
+        productId: item.id,
+      };
+    }
+
+    const requested = requestedQuantities.get(product.id) ?? item.quantity;
+
+    if (product.stock < requested) {
+      return {
+        success: false,
+        code: "insufficient_stock",
+        error: `Insufficient stock for ${product.name}. Only ${product.stock} available.`,
+        productId: product.id,
+        productName: product.name,
+        availableStock: product.stock,
+      };
+    }
+
+    const resolved = resolveModifiers(product.modifiers ?? [], item.selectedModifiers ?? []);
+
+    if ("error" in resolved) {
+      return {
+        success: false,
+        code: "invalid_modifier",
+        error: `${product.name}: ${resolved.error}`,
+        productId: product.id,
+        productName: product.name,
+      };
+    }
+
+    const discountedPrice = calculateDiscountedPrice(product.price, product.discount);
+    const modifierAdjustment = resolved.modifiers.reduce(
+      (sum, mod) => sum + mod.priceAdjustment,
+      0
+    );
+    // Unit prices are kept unrounded, like the cart computes them; only the
+    // order-level amounts are rounded to cents
+    const unitPrice = discountedPrice + modifierAdjustment;
+
+    lines.push({
+      productId: product.id,
+      name: product.name,
+      quantity: item.quantity,
+      basePrice: product.price,
+      productDiscount: product.discount ?? 0,
+      discountedPrice,
+      modifierAdjustment,
+      unitPrice,
+      lineTotal: unitPrice * item.quantity,
+      couponDiscount: 0,
+      selectedModifiers: resolved.modifiers,
+    });
+  }
+
+  return { success: true, lines };
+}
+
+/**
+ * Price an order entirely from server-side data
+ * @param items - Product IDs, quantities and modifier selections from the cart
+ * @param country - Shipping destination used to look up the shipping rate
+ * @param couponCodes - Coupon codes entered at checkout, in the order entered
+ * @param customerEmail - Used for one-per-customer coupon checks
+ */
+export async function priceOrder(
+  items: PricingRequestItem[],
+  country: string,
+  couponCodes: string[] = [],
+  customerEmail?: string
+): Promise<PricingResult> {
+  const priced = await priceCartLines(items);
+
+  if (!priced.success) {
+    return priced;
+  }
+
+  const { lines } = priced;
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  const shippingConfig = await fetchShippingConfig();
+
+  if (!shippingConfig) {
+    return {
+      success: false,
+      code: "shipping_unavailable",
+      error: "Unable to calculate shipping for this order",
+    };
+  }
+
+  let shippingCost = roundCurrency(calculateShippingCost(shippingConfig, country));
+  let shippingDiscount = 0;
+
+  const promotionsResult = await applyPromotions(couponCodes, lines, customerEmail);
+
+  if ("error" in promotionsResult) {
+    return {
+      success: false,
+      code: "invalid_coupon",
+      error: promotionsResult.error,
+    };
+  }
+
+  promotionsResult.lineDiscounts.forEach((discount, index) => {
+    const line = lines[index];
+    if (line) {
+      line.couponDiscount = discount;
+    }
+  });
+
+  if (promotionsResult.freeShipping) {
+    shippingDiscount = shippingCost;
+    shippingCost = 0;
+  }
+
+  const couponDiscount = promotionsResult.discount;
+  const total = roundCurrency(Math.max(subtotal - couponDiscount + shippingCost, 0));
+
+  return {
+    success: true,
+    breakdown: {
+      lines,
+      subtotal,
+      shippingCost,
+      shippingDiscount,
+      promotions: promotionsResult.applied.map(({ promotion }) => promotion),
+      couponDiscount,
+      total,
+    },
+  };
+}
+
+/**
+ * Which of these one-per-customer coupons the customer already holds a
+ * redemption of
+ * Emails match case-insensitively, the same way redeem_coupon checks them.
+ */
+async function getUsedCouponIds(couponIds: string[], customerEmail: string): Promise<Set<string>> {
+  if (couponIds.length === 0) {
+    return new Set();
+  }
+
+  const result = await supabaseAdmin
+    .from("coupon_usage")
+    .select("coupon_id")
+    .in("coupon_id", couponIds)
+    // ilike without wildcards: escape the ones an email may contain
+    .ilike("customer_email", customerEmail.replace(/[\\%_]/g, "\\$&"))
+    .eq("status", "redeemed");
+
+  if (result.error) {
+    throw new Error(`Failed to load coupon usage: ${result.error.message}`);
+  }
+
+  return new Set(((result.data ?? []) as { coupon_id: string }[]).map((usage) => usage.coupon_id));
+}
+
+export interface PromotionCandidate {
+  coupon: Coupon;
+  // Applied without the customer entering the code
+  automatic: boolean;
+}
+
+export interface AppliedPromotions {
+  applied: { coupon: Coupon; promotion: AppliedPromotion }[];
+  // Entered codes that were left out for a better discount, with why
+  skipped: { code: string; reason: string }[];
+  discount: number;
+  lineDiscounts: number[];
+  freeShipping: boolean;
+}
+
+/**
+ * Apply candidates one after the other, each on what the earlier ones left
+ * of each line
+ * Automatic promotions that don't apply are skipped, as are entered codes
+ * that can't be combined with what is already applied; any other entered
+ * code that doesn't apply is an error.
+ */
+function stackPromotions(
+  candidates: PromotionCandidate[],
+  lines: PricedLine[],
+  usedCouponIds: Set<string>
+): { applied: AppliedPromotions["applied"]; skipped: AppliedPromotions["skipped"] } | { error: string } {
+  const applied: AppliedPromotions["applied"] = [];
+  const skipped: AppliedPromotions["skipped"] = [];
+  // What is left of each line after the promotions applied so far
+  const remaining = lines.map((line) => line.lineTotal);
+
+  for (const { coupon, automatic } of candidates) {
+    const combines =
+      applied.length === 0 || (coupon.stackable && applied.every((entry) => entry.coupon.stackable));
+
+    if (!combines) {
+      if (!automatic) {
+        skipped.push({
+          code: coupon.code,
+          reason: `${coupon.code} can't be combined with ${applied.map((entry) => entry.coupon.code).join(", ")}`,
+        });
+      }
+      continue;
+    }
+
+    if (coupon.one_per_customer && usedCouponIds.has(coupon.id)) {
+      if (automatic) {
+        continue;
+      }
+      return { error: "You have already used this coupon" };
+    }
+
+    const validation = validateCoupon(
+      coupon,
+      lines.map((line, index) => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: (remaining[index] ?? 0) / line.quantity,
+        productDiscount: line.productDiscount,
+      }))
+    );
+
+    if (!validation.valid) {
+      if (automatic) {
+        continue;
+      }
+      return { error: validation.error ?? "Invalid coupon code" };
+    }
+
+    const lineDiscounts = validation.lineDiscounts ?? [];
+    lineDiscounts.forEach((discount, index) => {
+      remaining[index] = (remaining[index] ?? 0) - discount;
+    });
+
+    applied.push({
+      coupon,
+      promotion: {
+        couponId: coupon.id,
+        code: coupon.code,
+        description: coupon.description ?? null,
+        automatic,
+        discount: validation.discount ?? 0,
+        lineDiscounts,
+        freeShipping: validation.freeShipping ?? false,
+      },
+    });
+  }
+
+  return { applied, skipped };
+}
+
+function totalDiscount(applied: AppliedPromotions["applied"]): number {
+  return roundCurrency(applied.reduce((sum, entry) => sum + entry.promotion.discount, 0));
+}
+
+/**
+ * Combine candidate promotions on server-priced lines
+ *
+ * Precedence:
+ * 1. The product's own discount, already part of each line's unit price
+ * 2. Automatic promotions, highest priority first (oldest first on ties)
+ * 3. Entered coupon codes, in the order they were entered
+ *
+ * Each promotion is calculated on what the earlier ones left of each line,
+ * and its minimum order amount is checked against that too. A coupon that
+ * isn't stackable only applies on its own: nothing is added on top of it and
+ * it isn't added on top of anything. When an entered code can't be combined
+ * with the automatic promotions, the entered codes are also tried ahead of
+ * them, and whichever order takes more off the items is kept (the order
+ * above on a tie). Entered codes left out either way are reported as
+ * skipped rather than failing the cart.
+ * @param candidates - Automatic promotions in priority order, then the
+ *                     entered codes
+ * @param usedCouponIds - One-per-customer coupons the customer has used
+ * @returns The applied promotions, the combined discount, each line's share
+ *          of it (in line order) and whether shipping is waived
+ */
+export function combinePromotions(
+  candidates: PromotionCandidate[],
+  lines: PricedLine[],
+  usedCouponIds = new Set<string>()
+): AppliedPromotions | { error: string } {
+  let best = stackPromotions(candidates, lines, usedCouponIds);
+
+  if ("error" in best) {
+    return best;
+  }
+
+  if (best.skipped.length > 0) {
+    const codesFirst = stackPromotions(
+      [
+        ...candidates.filter((candidate) => !candidate.automatic),
+        ...candidates.filter((candidate) => candidate.automatic),
+      ],
+      lines,
+      usedCouponIds
+    );
+
+    if (!("error" in codesFirst) && totalDiscount(codesFirst.applied) > totalDiscount(best.applied)) {
+      best = codesFirst;
+    }
+  }
+
+  const { applied, skipped } = best;
+  const lineDiscounts = lines.map((_, index) =>
+    roundCurrency(applied.reduce((sum, entry) => sum + (entry.promotion.lineDiscounts[index] ?? 0), 0))
+  );
+
+  return {
+    applied,
+    skipped,
+    discount: roundCurrency(lineDiscounts.reduce((sum, discount) => sum + discount, 0)),
+    lineDiscounts,
+    freeShipping: applied.some((entry) => entry.promotion.freeShipping),
+  };
+}
+
+/**
+ * Work out which promotions apply to server-priced lines and what each takes off
+ * Loads the active automatic promotions and the entered codes, then combines
+ * them with combinePromotions().
+ * @returns The applied promotions, the entered codes skipped, the combined
+ *          discount, each line's share of it (in line order) and whether
+ *          shipping is waived
+ */
+export async function applyPromotions(
+  codes: string[],
+  lines: PricedLine[],
+  customerEmail?: string
+): Promise<AppliedPromotions | { error: string }> {
+  const automaticResult = await supabaseAdmin
+    .from("coupons")
+    .select("*")
+    .eq("automatic", true)
+    .eq("active", true)
+    .order("priority", { ascending: false })
+    .order("created_at", { ascending: true });
+
+  if (automaticResult.error) {
+    throw new Error(`Failed to load promotions: ${automaticResult.error.message}`);
+  }
+
+  const candidates: PromotionCandidate[] = ((automaticResult.data ?? []) as Coupon[]).map((coupon) => ({
+    coupon,
+    automatic: true,
+  }));
+
+  const enteredCodes = [...new Set(codes.map((code) => code.toUpperCase()))];
+
+  if (enteredCodes.length > 0) {
+    const enteredResult = await supabaseAdmin
+      .from("coupons")
+      .select("*")
+      .in("code", enteredCodes);
+
+    if (enteredResult.error) {
+      throw new Error(`Failed to load coupons: ${enteredResult.error.message}`);
+    }
+
+    const byCode = new Map(
+      ((enteredResult.data ?? []) as Coupon[]).map((coupon) => [coupon.code, coupon])
+    );
+
+    for (const code of enteredCodes) {
+      const coupon = byCode.get(code);
+
+      if (!coupon) {
+        return { error: "Invalid coupon code" };
+      }
+
+      // Automatic promotions are already candidates; entering their code
+      // changes nothing
+      if (!coupon.automatic) {
+        candidates.push({ coupon, automatic: false });
+      }
+    }
+  }
+
+  const usedCouponIds = customerEmail
+    ? await getUsedCouponIds(
+        candidates.filter(({ coupon }) => coupon.one_per_customer).map(({ coupon }) => coupon.id),
+        customerEmail
+      )
+    : new Set<string>();
+
+  return combinePromotions(candidates, lines, usedCouponIds);
+}
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { btcpayProvider } from "~/lib/payments/btcpay";
+import { PaymentProviderError, type RefundResult } from "~/lib/payments/types";
+import { refundOrder } from "~/lib/refunds";
+import { installFakeSupabase, type FakeSupabase } from "~/lib/testing/fake-supabase";
+
+const ORDER_ID = "5a4c1d8e-0000-4000-8000-000000000001";
+
+void describe("refundOrder", () => {
+  let db: FakeSupabase;
+
+  beforeEach(() => {
+    db = installFakeSupabase();
+    db.table("orders").push({
+      id: ORDER_ID,
+      order_number: "ORD-1",
+      status: "paid",
+      payment_method: "btcpay",
+      btcpay_invoice_id: "invoice-1",
+      total_amount: 30,
+      refunded_amount: 0,
+      refunded_lines: {},
+      coupon_discount: 0,
+      items: [{ id: "shirt", name: "Shirt", price: 10, quantity: 3 }],
+      price_breakdown: null,
+      shipping_name: null,
+      shipping_email: null,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  /**
+   * Provider refunds that stay pending until released, so a second refund
+   * can be started while the first one is paying out
+   */
+  function holdProviderRefunds() {
+    const pending: (() => void)[] = [];
+    let started: () => void = () => undefined;
+    const firstStarted = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+
+    const refund = mock.method(btcpayProvider, "refund", () => {
+      started();
+      return new Promise<RefundResult>((resolve) => {
+        pending.push(() =>
+          resolve({ refundId: `refund-${pending.length}`, claimLink: "https://btcpay.example/claim" })
+        );
+      });
+    });
+
+    return {
+      refund,
+      firstStarted,
+      releaseAll: () => pending.forEach((release) => release()),
+    };
+  }
+
+  const order = () => db.table("orders")[0] ?? {};
+  const refundLine = (quantity: number) =>
+    refundOrder(ORDER_ID, { lines: [{ index: 0, quantity }], restock: false, actor: "alice" });
+
+  void test("a refund started while another pays out can't refund the same units", async () => {
+    const provider = holdProviderRefunds();
+
+    const first = refundLine(2);
+    await provider.firstStarted;
+
+    const second = await refundLine(2);
+    assert.ok("error" in second);
+    assert.equal(second.status, 400);
+    assert.match(second.error, /Only 1 of Shirt/);
+
+    provider.releaseAll();
+    const firstOutcome = await first;
+
+    assert.ok("refund" in firstOutcome);
+    assert.equal(firstOutcome.refund.amount, 20);
+    assert.equal(provider.refund.mock.callCount(), 1);
+    assert.deepEqual(order().refunded_lines, { "0": 2 });
+    assert.equal(order().refunded_amount, 20);
+  });
+
+  void test("two refunds of the same line started at once pay out once", async () => {
+    const provider = holdProviderRefunds();
+
+    const both = Promise.all([refundLine(2), refundLine(2)]);
+    await provider.firstStarted;
+    provider.releaseAll();
+    const outcomes = await both;
+
+    assert.equal(outcomes.filter((outcome) => "refund" in outcome).length, 1);
+    assert.deepEqual(
+      outcomes.flatMap((outcome) => ("error" in outcome ? [outcome.status] : [])),
+      [409]
+    );
+    assert.equal(provider.refund.mock.callCount(), 1);
+    assert.deepEqual(order().refunded_lines, { "0": 2 });
+    assert.equal(order().refunded_amount, 20);
+  });
+
+  void test("a failed payout gives the claimed units back", async () => {
+    mock.method(btcpayProvider, "refund", () =>
+      Promise.reject(new PaymentProviderError("BTCPay is down", 502, "Failed to create refund"))
+    );
+
+    const outcome = await refundLine(1);
+
+    assert.ok("error" in outcome);
+    assert.equal(outcome.status, 502);
+    assert.deepEqual(order().refunded_lines, {});
+    assert.equal(order().refunded_amount, 0);
+  });
+});
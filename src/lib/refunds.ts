@@ -0,0 +1,365 @@
+/**
+ * Order Refunds
+ *
+ * Refunds go back through the provider that took the payment. For BTCPay that
+ * is a pull payment: the customer gets a claim link and picks the address
+ * themselves. Each refund is recorded in transaction_log ("refund_created");
+ * the order itself keeps the amount and the units refunded per line, so the
+ * same money or units can't be refunded twice.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import { roundCurrency, type PriceBreakdown } from "~/lib/pricing";
+import { logTransaction, transitionOrder } from "~/lib/orders";
+import type { OrderStatus } from "~/lib/order-status";
+import { recordStockMovement } from "~/lib/stock";
+import { sendRefundEmail } from "~/lib/email";
+import { getPaymentProvider } from "~/lib/payments/registry";
+import { PaymentProviderError } from "~/lib/payments/types";
+
+// Orders that have been paid and still have something left to refund
+export const REFUNDABLE_STATUSES = ["paid", "processing", "shipped", "delivered", "partially_refunded"];
+
+export const REFUND_EVENT_TYPE = "refund_created";
+
+interface RefundableOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  payment_method: string | null;
+  btcpay_invoice_id: string | null;
+  total_amount: number;
+  refunded_amount: number | null;
+  // Units refunded so far, keyed by line index
+  refunded_lines: Record<string, number> | null;
+  coupon_discount: number | null;
+  items: {
+    id: string;
+    name: string;
+    price: number;
+    quantity: number;
+    selectedModifiers?: { priceAdjustment: number }[];
+  }[];
+  price_breakdown: PriceBreakdown | null;
+  shipping_name: string | null;
+  shipping_email: string | null;
+}
+
+/**
+ * A line to refund, by its position in orders.items
+ */
+export interface RefundLineRequest {
+  index: number;
+  quantity: number;
+}
+
+export interface RefundedLine {
+  index: number;
+  productId: string;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface OrderRefund {
+  refundId: string;
+  claimLink: string;
+  amount: number;
+  fullRefund: boolean;
+  lines: RefundedLine[];
+  orderStatus: "refunded" | "partially_refunded";
+  restocked: boolean;
+  emailSent: boolean;
+}
+
+type RefundOutcome =
+  | { refund: OrderRefund }
+  | { error: string; status: number };
+
+/**
+ * Price of one unit of a line, after its share of the coupon discount.
+ * Orders priced before coupons were calculated per line spread the discount
+ * proportionally over the items.
+ */
+function unitRefundPrices(order: RefundableOrder): number[] {
+  const unitPrices = order.items.map((item, index) =>
+    order.price_breakdown?.lines[index]?.unitPrice ??
+    item.price + (item.selectedModifiers ?? []).reduce((sum, m) => sum + m.priceAdjustment, 0)
+  );
+
+  const subtotal = order.price_breakdown?.subtotal ??
+    unitPrices.reduce((sum, price, index) => sum + price * (order.items[index]?.quantity ?? 0), 0);
+  const couponDiscount = order.price_breakdown?.couponDiscount ?? Number(order.coupon_discount ?? 0);
+  const discountRatio = subtotal > 0 ? Math.min(couponDiscount / subtotal, 1) : 0;
+
+  return unitPrices.map((price, index) => {
+    const line = order.price_breakdown?.lines[index];
+
+    if (line?.couponDiscount !== undefined && line.quantity > 0) {
+      return price - line.couponDiscount / line.quantity;
+    }
+
+    return price * (1 - discountRatio);
+  });
+}
+
+interface RefundedTotals {
+  amount: number;
+  lines: Record<string, number>;
+}
+
+/**
+ * Move an order's refunded amount and line quantities from one state to
+ * another, only if nobody has changed them since they were read
+ * @returns Whether the order was updated
+ */
+async function swapRefundedTotals(
+  orderId: string,
+  from: RefundedTotals,
+  to: RefundedTotals
+): Promise<{ swapped: boolean; error?: string }> {
+  const result = await supabaseAdmin
+    .from("orders")
+    .update({ refunded_amount: to.amount, refunded_lines: to.lines })
+    .eq("id", orderId)
+    .eq("refunded_amount", from.amount)
+    .eq("refunded_lines", JSON.stringify(from.lines))
+    .select("id");
+
+  if (result.error) {
+    return { swapped: false, error: result.error.message };
+  }
+
+  return { swapped: (result.data ?? []).length > 0 };
+}
+
+/**
+ * Refund an order in full or by line item
+ * The amount and units are claimed on the order before the provider pays
+ * anything out, so two refunds started at once can't both pay for the same
+ * money or units; the one that loses is turned away. If the provider call
+ * fails the claim is given back.
+ * @param lines - Lines to refund; omit to refund everything not yet refunded
+ * @param restock - Put the refunded units back into stock
+ * @param actor - Admin username, recorded with the refund and stock movements
+ */
+export async function refundOrder(
+  orderId: string,
+  { lines, restock, actor }: { lines?: RefundLineRequest[]; restock: boolean; actor: string }
+): Promise<RefundOutcome> {
+  const orderResult = await supabaseAdmin
+    .from("orders")
+    .select("id, order_number, status, payment_method, btcpay_invoice_id, total_amount, refunded_amount, refunded_lines, coupon_discount, items, price_breakdown, shipping_name, shipping_email")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (orderResult.error) {
+    return { error: orderResult.error.message, status: 500 };
+  }
+
+  const order = orderResult.data as RefundableOrder | null;
+
+  if (!order) {
+    return { error: "Order not found", status: 404 };
+  }
+
+  if (!REFUNDABLE_STATUSES.includes(order.status)) {
+    return { error: `Orders that are ${order.status} can't be refunded`, status: 409 };
+  }
+
+  const provider = getPaymentProvider(order.payment_method ?? "btcpay");
+
+  if (!provider?.refund) {
+    return { error: `Refunds are not supported for ${order.payment_method} payments`, status: 400 };
+  }
+
+  if (!order.btcpay_invoice_id) {
+    return { error: "Order has no invoice to refund", status: 400 };
+  }
+
+  const previous: RefundedTotals = {
+    amount: Number(order.refunded_amount ?? 0),
+    lines: order.refunded_lines ?? {},
+  };
+  const alreadyRefunded = previous.amount;
+  const remaining = roundCurrency(Number(order.total_amount) - alreadyRefunded);
+
+  if (remaining <= 0) {
+    return { error: "Order has already been refunded in full", status: 409 };
+  }
+
+  const refundedQuantity = (index: number) => previous.lines[String(index)] ?? 0;
+  const unitPrices = unitRefundPrices(order);
+  const fullRefund = !lines;
+
+  // A full refund covers whatever hasn't been refunded yet, shipping included
+  const requested = lines ?? order.items.map((item, index) => ({
+    index,
+    quantity: item.quantity - refundedQuantity(index),
+  }));
+
+  const refundLines: RefundedLine[] = [];
+
+  for (const line of requested) {
+    const item = order.items[line.index];
+
+    if (!item) {
+      return { error: `Order has no line ${line.index + 1}`, status: 400 };
+    }
+
+    const refundable = item.quantity - refundedQuantity(line.index);
+
+    if (line.quantity > refundable) {
+      return { error: `Only ${refundable} of ${item.name} can still be refunded`, status: 400 };
+    }
+
+    if (line.quantity > 0) {
+      refundLines.push({
+        index: line.index,
+        productId: item.id,
+        name: item.name,
+        quantity: line.quantity,
+        amount: roundCurrency((unitPrices[line.index] ?? 0) * line.quantity),
+      });
+    }
+  }
+
+  const amount = fullRefund
+    ? remaining
+    : Math.min(roundCurrency(refundLines.reduce((sum, line) => sum + line.amount, 0)), remaining);
+
+  if (amount <= 0) {
+    return { error: "Nothing to refund", status: 400 };
+  }
+
+  const refundedAmount = roundCurrency(alreadyRefunded + amount);
+  const claimed: RefundedTotals = {
+    amount: refundedAmount,
+    lines: { ...previous.lines },
+  };
+
+  for (const line of refundLines) {
+    claimed.lines[String(line.index)] = refundedQuantity(line.index) + line.quantity;
+  }
+
+  const claim = await swapRefundedTotals(order.id, previous, claimed);
+
+  if (claim.error) {
+    return { error: claim.error, status: 500 };
+  }
+
+  if (!claim.swapped) {
+    return { error: "Another refund for this order is in progress. Reload and try again.", status: 409 };
+  }
+
+  let result;
+  try {
+    result = await provider.refund({
+      chargeId: order.btcpay_invoice_id,
+      amount,
+      currency: "USD",
+      name: `Refund ${order.order_number}`,
+      description: fullRefund ? "Full refund" : refundLines.map((l) => `${l.name} x${l.quantity}`).join(", "),
+    });
+  } catch (error) {
+    const release = await swapRefundedTotals(order.id, claimed, previous);
+
+    if (!release.swapped) {
+      console.error(
+        `Failed to release refund claim of $${amount.toFixed(2)} on ${order.order_number}:`,
+        release.error ?? "refunded amount changed"
+      );
+    }
+
+    if (error instanceof PaymentProviderError) {
+      return { error: error.publicMessage ?? "Failed to create refund", status: error.status };
+    }
+    throw error;
+  }
+
+  const orderStatus = refundedAmount >= Number(order.total_amount) - 0.005 ? "refunded" : "partially_refunded";
+
+  const transition = await transitionOrder(order.id, orderStatus, {
+    actor,
+    from: [order.status as OrderStatus],
+    note: `Refunded $${amount.toFixed(2)}`,
+    metadata: { refundId: result.refundId },
+    updates: {
+      refunded_amount: refundedAmount,
+      refunded_at: new Date().toISOString(),
+    },
+  });
+
+  // The refund exists at BTCPay by now, so keep going and let it be logged
+  if (!transition.updated) {
+    console.error("Failed to record refund on order:", transition.error ?? `order is ${transition.from}`);
+  }
+
+  let restocked = false;
+  if (restock) {
+    restocked = true;
+    for (const line of refundLines) {
+      const { error } = await recordStockMovement({
+        productId: line.productId,
+        movementType: "return",
+        quantity: line.quantity,
+        reason: `Refund ${order.order_number}`,
+        actor,
+        orderId: order.id,
+      });
+
+      if (error) {
+        console.error(`Failed to restock ${line.productId}:`, error);
+        restocked = false;
+      }
+    }
+  }
+
+  let emailSent = false;
+  if (order.shipping_email) {
+    try {
+      await sendRefundEmail({
+        email: order.shipping_email,
+        shippingName: order.shipping_name,
+        orderNumber: order.order_number,
+        amount,
+        kind: fullRefund ? "full" : "partial",
+        claimLink: result.claimLink,
+      });
+      emailSent = true;
+    } catch (error) {
+      console.error("Failed to send refund email:", error);
+    }
+  }
+
+  const { error: logError } = await logTransaction(order.id, REFUND_EVENT_TYPE, {
+    provider: provider.id,
+    refundId: result.refundId,
+    claimLink: result.claimLink,
+    amount,
+    currency: "USD",
+    fullRefund,
+    lines: refundLines,
+    restocked,
+    emailSent,
+    orderStatus,
+    admin: actor,
+  });
+
+  if (logError) {
+    console.error("Failed to log refund:", logError.message);
+  }
+
+  return {
+    refund: {
+      refundId: result.refundId,
+      claimLink: result.claimLink,
+      amount,
+      fullRefund,
+      lines: refundLines,
+      orderStatus,
+      restocked,
+      emailSent,
+    },
+  };
+}
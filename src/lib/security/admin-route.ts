@@ -0,0 +1,195 @@
+/**
+ * Admin Route Guard
+ *
+ * The authentication and rate limit checks an admin API route starts with.
+ * Returns either the admin making the request or the response to send back.
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { rateLimiter, RateLimitPresets } from "~/lib/security/rate-limiter";
+import {
+  verifyAdminAuth,
+  verifyTwoFactorChallenge,
+  type AdminTokenPayload,
+} from "~/lib/security/jwt";
+import type { AdminPermission } from "~/lib/security/permissions";
+import { validateAndSanitize, twoFactorLoginSchema } from "~/lib/security/input-validation";
+import { getAdminUser, type AdminUser } from "~/lib/admin-users";
+import { verifySecondFactor } from "~/lib/admin-two-factor";
+import {
+  logAuthFailure,
+  logRateLimitExceeded,
+  logSecurityEvent,
+  SecurityEventType,
+} from "~/lib/security/logger";
+
+export type AdminRouteAuth =
+  | { admin: AdminTokenPayload; clientId: string; response?: undefined }
+  | { response: NextResponse };
+
+export type TwoFactorLoginAuth =
+  | { admin: AdminUser; clientId: string; response?: undefined }
+  | { response: NextResponse };
+
+/**
+ * Verify the admin token and apply the admin rate limit
+ * @param endpoint - Route path, for the security log and rate limit overrides
+ * @param required - Permissions the admin's role must have
+ */
+export async function authorizeAdminRequest(
+  request: NextRequest,
+  endpoint: string,
+  required: AdminPermission[]
+): Promise<AdminRouteAuth> {
+  const clientId = rateLimiter.getClientId(request);
+  const auth = await verifyAdminAuth(request, required);
+
+  if (!auth.admin) {
+    logSecurityEvent(
+      SecurityEventType.UNAUTHORIZED_ACCESS,
+      auth.status === 403
+        ? "Admin API access without permission"
+        : "Unauthorized admin API access attempt",
+      { clientId, endpoint, method: request.method, required }
+    );
+    return {
+      response: NextResponse.json(
+        { error: auth.status === 403 ? "Forbidden" : "Unauthorized" },
+        { status: auth.status }
+      ),
+    };
+  }
+
+  const { admin } = auth;
+
+  const rateLimit = await rateLimiter.check(
+    `admin:${admin.username}`,
+    RateLimitPresets.ADMIN,
+    endpoint
+  );
+
+  if (!rateLimit.isAllowed) {
+    logRateLimitExceeded(endpoint, clientId, rateLimit.limit);
+    return {
+      response: NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      ),
+    };
+  }
+
+  return { admin, clientId };
+}
+
+/**
+ * Check the second login step: the challenge token from the password step
+ * plus a code from the authenticator app or a backup code
+ * Attempts are rate limited per account, so spreading guesses over many
+ * addresses doesn't help.
+ * @param endpoint - Route path, for the security log and rate limit overrides
+ * @returns The account to issue an admin token for
+ */
+export async function verifyTwoFactorLogin(
+  request: NextRequest,
+  endpoint: string
+): Promise<TwoFactorLoginAuth> {
+  const clientId = rateLimiter.getClientId(request);
+  const body = (await request.json().catch(() => null)) as unknown;
+
+  if (!body || typeof body !== "object") {
+    logAuthFailure("unknown", clientId, "Invalid JSON body");
+    return {
+      response: NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const validation = validateAndSanitize(twoFactorLoginSchema, body);
+
+  if (!validation.success) {
+    logAuthFailure("unknown", clientId, validation.error);
+    return {
+      response: NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const challenge = await verifyTwoFactorChallenge(validation.data.challengeToken);
+
+  if (!challenge) {
+    logAuthFailure("unknown", clientId, "Invalid two-factor challenge");
+    return {
+      response: NextResponse.json(
+        { error: "Your sign-in expired. Enter your password again." },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const rateLimit = await rateLimiter.check(
+    `2fa:${challenge.sub}`,
+    RateLimitPresets.LOGIN,
+    endpoint
+  );
+
+  if (!rateLimit.isAllowed) {
+    logRateLimitExceeded(endpoint, clientId, rateLimit.limit);
+    return {
+      response: NextResponse.json(
+        {
+          error: "Too many attempts. Please try again later.",
+          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+        },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
+          },
+        }
+      ),
+    };
+  }
+
+  const account = await getAdminUser(challenge.sub);
+
+  if (!account || account.disabled_at) {
+    logAuthFailure(challenge.username, clientId, "Account unavailable at two-factor step");
+    return {
+      response: NextResponse.json(
+        { error: "Your sign-in expired. Enter your password again." },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!(await verifySecondFactor(account.id, validation.data.code))) {
+    logAuthFailure(account.username, clientId, "Invalid two-factor code");
+
+    // Add artificial delay to slow down guessing
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    return {
+      response: NextResponse.json(
+        { error: "Invalid code" },
+        {
+          status: 401,
+          headers: {
+            "X-RateLimit-Limit": rateLimit.limit.toString(),
+            "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+          },
+        }
+      ),
+    };
+  }
+
+  return { admin: account, clientId };
+}
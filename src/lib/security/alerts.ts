@@ -0,0 +1,166 @@
+/**
+ * Security Alerts
+ *
+ * Critical security events go out by email (Mailgun) and/or to a webhook
+ * (Slack, PagerDuty, ...). Repeats of the same event from the same client are
+ * folded into the next alert instead of each sending their own, and the total
+ * number of alerts per hour is capped so an attack can't flood the inbox.
+ * Dedupe state is per instance.
+ */
+
+import { env } from "~/env";
+import type { LogEntry } from "~/lib/security/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface DedupeState {
+  lastSentAt: number | null;
+  lastSeenAt: number;
+  suppressed: number;
+}
+
+const recentAlerts = new Map<string, DedupeState>();
+let sentTimestamps: number[] = [];
+
+/**
+ * Same event type from the same client counts as a repeat
+ */
+function alertKey(entry: LogEntry): string {
+  const clientId = entry.clientId ?? entry.metadata?.clientId;
+  return `${entry.eventType ?? entry.level}:${typeof clientId === "string" ? clientId : "unknown"}`;
+}
+
+/**
+ * Decide whether an alert goes out now
+ * Returns how many repeats were held back since the last one for this key,
+ * or null when this one is held back too.
+ */
+function admitAlert(entry: LogEntry, now: number): number | null {
+  const dedupeMs = env.SECURITY_ALERT_DEDUPE_MINUTES * 60 * 1000;
+
+  // Forget clients that have been quiet for an hour
+  for (const [key, state] of recentAlerts) {
+    if (now - state.lastSeenAt >= HOUR_MS) {
+      recentAlerts.delete(key);
+    }
+  }
+
+  const key = alertKey(entry);
+  const state = recentAlerts.get(key);
+
+  if (state) {
+    state.lastSeenAt = now;
+
+    if (state.lastSentAt !== null && now - state.lastSentAt < dedupeMs) {
+      state.suppressed++;
+      return null;
+    }
+  }
+
+  sentTimestamps = sentTimestamps.filter((sentAt) => now - sentAt < HOUR_MS);
+  if (sentTimestamps.length >= env.SECURITY_ALERT_MAX_PER_HOUR) {
+    if (state) state.suppressed++;
+    else recentAlerts.set(key, { lastSentAt: null, lastSeenAt: now, suppressed: 1 });
+    return null;
+  }
+
+  const suppressed = state?.suppressed ?? 0;
+  recentAlerts.set(key, { lastSentAt: now, lastSeenAt: now, suppressed: 0 });
+  sentTimestamps.push(now);
+
+  return suppressed;
+}
+
+function alertSubject(entry: LogEntry): string {
+  return `[Security] ${entry.eventType ?? entry.level}: ${entry.message}`;
+}
+
+function alertBody(entry: LogEntry, suppressed: number): string {
+  return [
+    alertSubject(entry),
+    "",
+    `Time: ${entry.timestamp}`,
+    entry.clientId ? `Client: ${entry.clientId}` : null,
+    entry.endpoint ? `Endpoint: ${entry.endpoint}` : null,
+    suppressed > 0
+      ? `Similar events held back since the last alert: ${suppressed}`
+      : null,
+    "",
+    JSON.stringify(entry.metadata ?? {}, null, 2),
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
+/**
+ * Send through Mailgun's HTTP API directly (rather than mailgun.js) so alerts
+ * also work from the Edge runtime
+ */
+async function sendAlertEmail(to: string, subject: string, text: string): Promise<void> {
+  const response = await fetch(
+    `https://api.mailgun.net/v3/${env.MAILGUN_DOMAIN}/messages`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`api:${env.MAILGUN_API_KEY}`)}`,
+      },
+      body: new URLSearchParams({
+        from: `Symphony Labs Security <noreply@${env.MAILGUN_DOMAIN}>`,
+        to,
+        subject,
+        text,
+      }),
+      signal: AbortSignal.timeout(10000),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Mailgun responded with HTTP ${response.status}`);
+  }
+}
+
+async function sendAlertWebhook(url: string, entry: LogEntry, suppressed: number, text: string): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    // "text" is what Slack and most chat webhooks display
+    body: JSON.stringify({ text, event: entry, suppressed }),
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Alert webhook responded with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Alert whoever is on call about a critical event, subject to dedupe and the
+ * hourly cap
+ * Every critical event is also written to stderr, alert or not. Never throws.
+ */
+export async function sendSecurityAlert(entry: LogEntry): Promise<void> {
+  console.error("⚠️  CRITICAL SECURITY EVENT:", JSON.stringify(entry));
+
+  const email = env.SECURITY_ALERT_EMAIL;
+  const webhookUrl = env.SECURITY_ALERT_WEBHOOK_URL;
+
+  if (!email && !webhookUrl) return;
+
+  const suppressed = admitAlert(entry, Date.now());
+  if (suppressed === null) return;
+
+  const text = alertBody(entry, suppressed);
+  const deliveries: Promise<void>[] = [];
+  if (email) deliveries.push(sendAlertEmail(email, alertSubject(entry), text));
+  if (webhookUrl) deliveries.push(sendAlertWebhook(webhookUrl, entry, suppressed, text));
+
+  const results = await Promise.allSettled(deliveries);
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error(
+        "Security alert delivery failed:",
+        result.reason instanceof Error ? result.reason.message : result.reason
+      );
+    }
+  }
+}
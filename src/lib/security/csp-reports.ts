@@ -0,0 +1,143 @@
+/**
+ * Content Security Policy Reports
+ *
+ * Browsers send violations in one of two shapes: the legacy report-uri
+ * format (application/csp-report, a single {"csp-report": {...}} object) and
+ * the Reporting API format (application/reports+json, an array of reports
+ * of any type). Both are reduced to one row per CSP violation.
+ */
+
+import { z } from "zod";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+
+// Reports are small; anything bigger isn't a genuine browser report
+export const MAX_CSP_REPORT_BYTES = 64 * 1024;
+// A single Reporting API delivery can batch several reports
+const MAX_REPORTS_PER_REQUEST = 20;
+
+export interface CspViolation {
+  documentUri: string | null;
+  blockedUri: string | null;
+  effectiveDirective: string | null;
+  sourceFile: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  disposition: string | null;
+  report: Record<string, unknown>;
+}
+
+// Long URLs are cut rather than rejecting the report
+const reportText = z.string().transform((value) => value.slice(0, 2048)).optional();
+const position = z.number().int().nonnegative().optional();
+
+const legacyReportSchema = z.object({
+  "csp-report": z
+    .object({
+      "document-uri": reportText,
+      "blocked-uri": reportText,
+      "violated-directive": reportText,
+      "effective-directive": reportText,
+      "source-file": reportText,
+      "line-number": position,
+      "column-number": position,
+      disposition: reportText,
+    })
+    .passthrough(),
+});
+
+const reportingApiSchema = z
+  .array(
+    z
+      .object({
+        type: z.string(),
+        body: z
+          .object({
+            documentURL: reportText,
+            blockedURL: reportText,
+            effectiveDirective: reportText,
+            sourceFile: reportText,
+            lineNumber: position,
+            columnNumber: position,
+            disposition: reportText,
+          })
+          .passthrough()
+          .optional(),
+      })
+      .passthrough()
+  )
+  .max(MAX_REPORTS_PER_REQUEST);
+
+/**
+ * Pull the CSP violations out of a report body
+ * Returns null when the body is in neither format.
+ */
+export function parseCspReports(body: unknown): CspViolation[] | null {
+  const legacy = legacyReportSchema.safeParse(body);
+  if (legacy.success) {
+    const report = legacy.data["csp-report"];
+    return [
+      {
+        documentUri: report["document-uri"] ?? null,
+        blockedUri: report["blocked-uri"] ?? null,
+        effectiveDirective: report["effective-directive"] ?? report["violated-directive"] ?? null,
+        sourceFile: report["source-file"] ?? null,
+        lineNumber: report["line-number"] ?? null,
+        columnNumber: report["column-number"] ?? null,
+        disposition: report.disposition ?? null,
+        report,
+      },
+    ];
+  }
+
+  const reportingApi = reportingApiSchema.safeParse(body);
+  if (reportingApi.success) {
+    return reportingApi.data.flatMap((report) => {
+      const violation = report.body;
+      if (report.type !== "csp-violation" || !violation) return [];
+
+      return [
+        {
+          documentUri: violation.documentURL ?? null,
+          blockedUri: violation.blockedURL ?? null,
+          effectiveDirective: violation.effectiveDirective ?? null,
+          sourceFile: violation.sourceFile ?? null,
+          lineNumber: violation.lineNumber ?? null,
+          columnNumber: violation.columnNumber ?? null,
+          disposition: violation.disposition ?? null,
+          report,
+        },
+      ];
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Store violations in csp_reports
+ */
+export async function storeCspViolations(
+  violations: CspViolation[],
+  context: { clientId: string; userAgent: string | null }
+): Promise<void> {
+  if (violations.length === 0) return;
+
+  const { error } = await supabaseAdmin.from("csp_reports").insert(
+    violations.map((violation) => ({
+      document_uri: violation.documentUri,
+      blocked_uri: violation.blockedUri,
+      effective_directive: violation.effectiveDirective,
+      source_file: violation.sourceFile,
+      line_number: violation.lineNumber,
+      column_number: violation.columnNumber,
+      disposition: violation.disposition,
+      user_agent: context.userAgent?.slice(0, 500) ?? null,
+      client_id: context.clientId,
+      report: violation.report,
+    }))
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * CSRF Fetch Wrapper
+ *
+ * Browser side of the double-submit cookie pattern. The middleware sets the
+ * csrf-token cookie; csrfFetch copies it into the X-CSRF-Token header of every
+ * state-changing request. A cross-site page can make the browser send the
+ * cookie but can't read it, so it can't produce the matching header.
+ */
+
+export const CSRF_COOKIE_NAME = "csrf-token";
+export const CSRF_HEADER_NAME = "X-CSRF-Token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+function readCsrfCookie(): string | null {
+  const prefix = `${CSRF_COOKIE_NAME}=`;
+  const cookie = document.cookie
+    .split("; ")
+    .find((part) => part.startsWith(prefix));
+
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+function withCsrfHeader(init: RequestInit, token: string | null): RequestInit {
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set(CSRF_HEADER_NAME, token);
+  }
+  return { ...init, headers };
+}
+
+/**
+ * fetch() with the CSRF token attached to POST/PUT/PATCH/DELETE requests
+ * If the token had expired, the middleware rejects the request and issues a
+ * new cookie with the 403, so the request is retried once with it.
+ */
+export async function csrfFetch(
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+
+  if (SAFE_METHODS.includes(method)) {
+    return fetch(input, init);
+  }
+
+  const token = readCsrfCookie();
+  const response = await fetch(input, withCsrfHeader(init, token));
+
+  if (response.status === 403) {
+    const refreshed = readCsrfCookie();
+    if (refreshed && refreshed !== token) {
+      return fetch(input, withCsrfHeader(init, refreshed));
+    }
+  }
+
+  return response;
+}
@@ -7,6 +7,8 @@
  */
 
 import { SignJWT, jwtVerify } from "jose";
+import type { NextRequest } from "next/server";
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from "~/lib/security/csrf-client";
 
 const CSRF_SECRET = process.env.JWT_SECRET ?? "change-this-secret";
 const secret = new TextEncoder().encode(CSRF_SECRET);
@@ -20,7 +22,7 @@ export async function generateCsrfToken(sessionId?: string): Promise<string> {
   const token = await new SignJWT({
     type: "csrf",
     sessionId: sessionId ?? "anonymous",
-    random: Math.random().toString(36),
+    random: crypto.randomUUID(),
   })
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt()
@@ -55,7 +57,7 @@ export async function verifyCsrfToken(token: string): Promise<boolean> {
  */
 export function extractCsrfToken(request: Request): string | null {
   return (
-    request.headers.get("X-CSRF-Token") ??
+    request.headers.get(CSRF_HEADER_NAME) ??
     request.headers.get("csrf-token") ??
     null
   );
@@ -63,13 +65,16 @@ export function extractCsrfToken(request: Request): string | null {
 
 /**
  * Validate CSRF token from request
+ * The header must match the csrf-token cookie (double submit) and carry a
+ * valid signature.
  * @param request - Request object
  * @returns True if CSRF token is valid
  */
-export async function validateCsrfToken(request: Request): Promise<boolean> {
+export async function validateCsrfToken(request: NextRequest): Promise<boolean> {
   const token = extractCsrfToken(request);
+  const cookie = request.cookies.get(CSRF_COOKIE_NAME)?.value;
 
-  if (!token) {
+  if (!token || token !== cookie) {
     return false;
   }
 
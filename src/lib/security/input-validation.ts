@@ -6,6 +6,9 @@
  */
 
 import { z } from "zod";
+import { PAYMENT_PROVIDER_IDS } from "~/lib/payments/types";
+import { ORDER_STATUSES } from "~/lib/order-status";
+import { ADMIN_ROLES } from "~/lib/security/permissions";
 
 /**
  * Sanitize string input by removing potentially dangerous characters
@@ -170,6 +173,18 @@ export const orderItemSchema = z.object({
   selectedModifiers: z.array(selectedModifierSchema).optional(),
 });
 
+/**
+ * Coupon codes entered at checkout, in the order they were entered
+ */
+const couponCodesSchema = z
+  .array(
+    z
+      .string()
+      .min(1, "Coupon code required")
+      .max(50, "Coupon code too long")
+  )
+  .max(5, "Too many coupon codes");
+
 /**
  * Validate order creation request
  */
@@ -195,17 +210,62 @@ export const createOrderSchema = z.object({
     .finite("Subtotal must be finite")
     .max(1000000, "Subtotal too high")
     .optional(),
-  couponCode: z
-    .string()
-    .max(50, "Coupon code too long")
+  couponCodes: couponCodesSchema.optional(),
+  // The promotions the customer was shown, so a change since can be caught
+  promotions: z
+    .array(
+      z.object({
+        code: z.string().max(50, "Coupon code too long"),
+        discount: z
+          .number()
+          .nonnegative("Coupon discount cannot be negative")
+          .max(1000000, "Coupon discount too high"),
+      })
+    )
+    .max(50, "Too many promotions")
     .optional(),
-  couponDiscount: z
-    .number()
-    .nonnegative("Coupon discount cannot be negative")
-    .max(1000000, "Coupon discount too high")
+  paymentMethod: z.enum(PAYMENT_PROVIDER_IDS).optional(),
+});
+
+/**
+ * Validate cart lines sent for a server-side quote
+ * Items are priced on the server, so only what identifies a line is needed
+ */
+export const cartLinesSchema = z
+  .array(orderItemSchema.pick({ id: true, quantity: true, selectedModifiers: true }))
+  .min(1, "At least one item required")
+  .max(50, "Too many items");
+
+/**
+ * Validate a promotions check at checkout
+ * With no codes, only automatic promotions are checked
+ */
+export const validateCouponSchema = z.object({
+  codes: couponCodesSchema,
+  items: cartLinesSchema,
+  // Checked loosely: the shipping form may still be half filled in
+  customerEmail: z
+    .string()
+    .max(254, "Email too long")
+    .transform((email) => email.toLowerCase().trim())
     .optional(),
 });
 
+/**
+ * Validate a shipping quote
+ * Coupons and the cart they apply to are optional; a free shipping coupon or
+ * promotion brings the quote to zero
+ */
+export const calculateShippingSchema = z.object({
+  country: z
+    .string()
+    .min(2, "Country too short")
+    .max(100, "Country too long")
+    .transform((country) => sanitizeString(country, 100)),
+  couponCodes: couponCodesSchema.optional(),
+  items: cartLinesSchema.optional(),
+});
+
 /**
  * Validate BTCPay invoice creation
  */
@@ -225,25 +285,123 @@ export const createInvoiceSchema = z.object({
   preferredCrypto: z.enum(["bitcoin", "monero"]).optional(),
 });
 
+/**
+ * Validate direct Monero payment creation
+ */
+export const createMoneroPaymentSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID"),
+});
+
+/**
+ * Validate Bisq offer creation
+ */
+export const createBisqTradeSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID"),
+  paymentAccountId: z.string().uuid("Invalid payment method"),
+});
+
+/**
+ * Validate Bisq trade actions (payment sent, offer cancellation)
+ */
+export const bisqTradeActionSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID"),
+});
+
 /**
  * Validate admin login
  */
+const adminUsernameSchema = z
+  .string()
+  .min(3, "Username too short")
+  .max(50, "Username too long")
+  .regex(
+    /^[a-zA-Z0-9_-]+$/,
+    "Username can only contain letters, numbers, underscores, and hyphens"
+  )
+  .transform((username) => username.trim());
+
 export const adminLoginSchema = z.object({
-  username: z
-    .string()
-    .min(3, "Username too short")
-    .max(50, "Username too long")
-    .regex(
-      /^[a-zA-Z0-9_-]+$/,
-      "Username can only contain letters, numbers, underscores, and hyphens"
-    )
-    .transform((username) => username.trim()),
+  username: adminUsernameSchema,
   password: z
     .string()
     .min(8, "Password too short")
     .max(200, "Password too long"),
 });
 
+const adminRoleSchema = z.enum(ADMIN_ROLES, {
+  errorMap: () => ({ message: "Invalid role" }),
+});
+
+/**
+ * Owner inviting a staff member
+ */
+export const staffInviteSchema = z.object({
+  username: adminUsernameSchema,
+  email: emailSchema.optional(),
+  role: adminRoleSchema,
+});
+
+/**
+ * Owner changing a staff member's role or access
+ */
+export const staffUpdateSchema = z
+  .object({
+    role: adminRoleSchema.optional(),
+    disabled: z.boolean().optional(),
+    resendInvite: z.boolean().optional(),
+  })
+  .refine(
+    (data) => data.role !== undefined || data.disabled !== undefined || data.resendInvite,
+    { message: "Nothing to update" }
+  );
+
+/**
+ * Invited staff member choosing their password
+ */
+export const acceptInviteSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, "Invalid invite link"),
+  password: z
+    .string()
+    .min(12, "Password must be at least 12 characters")
+    .max(200, "Password too long"),
+});
+
+// Six-digit authenticator code or a backup code like "a1b2c-3d4e5"
+const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(6, "Enter the code from your authenticator app")
+  .max(20, "Invalid code")
+  .regex(/^[a-zA-Z0-9\s-]+$/, "Invalid code");
+
+/**
+ * Second login step for accounts with two-factor authentication
+ */
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Sign in again").max(2000, "Sign in again"),
+  code: twoFactorCodeSchema,
+});
+
+/**
+ * Admin managing their own two-factor authentication
+ */
+export const twoFactorActionSchema = z
+  .object({
+    action: z.enum(["setup", "enable", "disable", "regenerate"]),
+    code: twoFactorCodeSchema.optional(),
+  })
+  .refine((data) => data.action === "setup" || data.code !== undefined, {
+    message: "Enter the code from your authenticator app",
+    path: ["code"],
+  });
+
+/**
+ * Signing out everywhere: the admin's own sessions, or every staff member's
+ */
+export const revokeSessionsSchema = z.object({
+  scope: z.enum(["mine", "everyone"]),
+});
+
 /**
  * Validate product ID
  */
@@ -251,6 +409,324 @@ export const productIdSchema = z.object({
   productId: z.string().uuid("Invalid product ID"),
 });
 
+/**
+ * Validate manual stock movement from the admin
+ */
+export const stockAdjustmentSchema = z
+  .object({
+    productId: z.string().uuid("Invalid product ID"),
+    movementType: z.enum(["restock", "adjustment", "return", "write_off"], {
+      errorMap: () => ({ message: "Invalid movement type" }),
+    }),
+    quantity: z
+      .number()
+      .int("Quantity must be integer")
+      .min(-100000, "Quantity too low")
+      .max(100000, "Quantity too high"),
+    reason: z
+      .string()
+      .min(1, "Reason required")
+      .max(500, "Reason too long")
+      .transform((reason) => sanitizeString(reason, 500)),
+    orderId: z.string().uuid("Invalid order ID").optional(),
+  })
+  .refine((data) => data.quantity !== 0, {
+    message: "Quantity cannot be zero",
+  })
+  .refine((data) => data.movementType === "adjustment" || data.quantity > 0, {
+    message: "Quantity must be positive",
+  });
+
+/**
+ * Admin refund schema
+ * Without lines the whole remaining amount is refunded.
+ */
+export const refundOrderSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID"),
+  lines: z
+    .array(
+      z.object({
+        index: z.number().int("Invalid line").min(0, "Invalid line").max(99, "Invalid line"),
+        quantity: z
+          .number()
+          .int("Quantity must be integer")
+          .min(1, "Quantity must be at least 1")
+          .max(1000, "Quantity too large"),
+      })
+    )
+    .min(1, "Select at least one item")
+    .max(100, "Too many lines")
+    .refine(
+      (lines) => new Set(lines.map((line) => line.index)).size === lines.length,
+      { message: "Duplicate lines" }
+    )
+    .optional(),
+  restock: z.boolean().optional(),
+});
+
+/**
+ * Admin action on an underpaid, overpaid or late-paid order
+ */
+export const paymentExceptionActionSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID"),
+  action: z.enum(["accept", "request_top_up", "refund_excess"], {
+    errorMap: () => ({ message: "Invalid action" }),
+  }),
+});
+
+/**
+ * Admin order status change
+ * Shipping needs the tracking details that go out in the shipping email.
+ */
+export const updateOrderStatusSchema = z
+  .object({
+    orderId: z.string().uuid("Invalid order ID"),
+    status: z.enum(ORDER_STATUSES, {
+      errorMap: () => ({ message: "Invalid status" }),
+    }),
+    note: z.string().trim().max(500, "Note too long").optional(),
+    trackingNumber: z.string().trim().min(1).max(100, "Tracking number too long").optional(),
+    trackingUrl: z.string().url("Invalid tracking URL").max(500, "Tracking URL too long").optional(),
+  })
+  .refine(
+    (data) => data.status !== "shipped" || (data.trackingNumber && data.trackingUrl),
+    { message: "Tracking number and URL are required to ship an order" }
+  );
+
+const modifierGroupSchema = z.object({
+  id: z.string().min(1, "Modifier group ID required").max(100),
+  label: z.string().min(1, "Modifier group label required").max(100, "Modifier group label too long"),
+  required: z.boolean(),
+  options: z
+    .array(
+      z.object({
+        id: z.string().min(1, "Modifier option ID required").max(100),
+        label: z.string().min(1, "Modifier option label required").max(100, "Modifier option label too long"),
+        priceAdjustment: z
+          .number()
+          .finite("Price adjustment must be finite")
+          .max(100000, "Price adjustment too high")
+          .min(-100000, "Price adjustment too low"),
+        dependsOn: z
+          .object({
+            groupId: z.string().min(1).max(100),
+            optionId: z.string().min(1).max(100),
+          })
+          .optional(),
+      })
+    )
+    .max(50, "Too many modifier options"),
+});
+
+/**
+ * Admin product create/update
+ * Stock is only set on create; later changes go through the stock ledger.
+ */
+export const productSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Product name required")
+    .max(200, "Product name too long")
+    .transform((name) => sanitizeString(name, 200)),
+  price: z
+    .number()
+    .positive("Price must be positive")
+    .finite("Price must be finite")
+    .max(1000000, "Price too high"),
+  discount: z
+    .number()
+    .int("Discount must be a whole percentage")
+    .min(0, "Discount cannot be negative")
+    .max(100, "Discount cannot exceed 100%"),
+  // Markdown, rendered through MarkdownPreview
+  description: z.string().max(50000, "Description too long"),
+  short_description: z
+    .string()
+    .max(500, "Short description too long")
+    .transform((text) => sanitizeString(text, 500))
+    .nullable(),
+  image: z.string().url("Invalid image URL").max(1000).or(z.literal("")),
+  images: z.array(z.string().url("Invalid image URL").max(1000)).max(20, "Too many images").nullable(),
+  modifiers: z.array(modifierGroupSchema).max(20, "Too many modifier groups").nullable(),
+  stock: z
+    .number()
+    .int("Stock must be integer")
+    .min(0, "Stock cannot be negative")
+    .max(1000000, "Stock too high")
+    .optional(),
+});
+
+/**
+ * Admin lab test create/update
+ */
+export const labTestSchema = z.object({
+  product_id: z.string().uuid("Invalid product ID"),
+  batch: z
+    .string()
+    .min(1, "Batch required")
+    .max(100, "Batch too long")
+    .transform((batch) => sanitizeString(batch, 100)),
+  purity: z
+    .string()
+    .min(1, "Purity required")
+    .max(100, "Purity too long")
+    .transform((purity) => sanitizeString(purity, 100)),
+  link: z.string().url("Invalid link").max(1000, "Link too long"),
+});
+
+/**
+ * A coupon's rules: everything but its code, description and usage limit.
+ * Shared by single coupons and generated campaign codes.
+ */
+const couponRulesObject = z.object({
+  discount_type: z.enum(["percentage", "fixed", "free_shipping", "buy_x_get_y", "tiered"], {
+    errorMap: () => ({ message: "Invalid discount type" }),
+  }),
+  // Unused (0) for free shipping and tiered coupons
+  discount_value: z
+    .number()
+    .min(0, "Discount cannot be negative")
+    .finite("Discount must be finite")
+    .max(1000000, "Discount too high"),
+  minimum_order_amount: z.number().min(0, "Minimum order cannot be negative").max(1000000).nullable(),
+  one_per_customer: z.boolean(),
+  valid_from: z.string().refine((date) => !isNaN(Date.parse(date)), "Invalid start date"),
+  valid_until: z
+    .string()
+    .refine((date) => !isNaN(Date.parse(date)), "Invalid end date")
+    .nullable(),
+  active: z.boolean(),
+  applicable_to: z.enum(["all", "specific"], {
+    errorMap: () => ({ message: "Invalid coupon scope" }),
+  }),
+  product_ids: z.array(z.string().uuid("Invalid product ID")).max(500, "Too many products").nullable(),
+  discount_mode: z.enum(["total", "per_unit", "cheapest_item"], {
+    errorMap: () => ({ message: "Invalid discount mode" }),
+  }),
+  max_discount_amount: z
+    .number()
+    .positive("Maximum discount must be positive")
+    .max(1000000, "Maximum discount too high")
+    .nullable(),
+  buy_quantity: z.number().int("Buy quantity must be integer").positive("Buy quantity must be positive").max(100).nullable(),
+  get_quantity: z.number().int("Get quantity must be integer").positive("Get quantity must be positive").max(100).nullable(),
+  tiers: z
+    .array(
+      z.object({
+        minimum: z.number().min(0, "Tier minimum cannot be negative").max(1000000, "Tier minimum too high"),
+        percentage: z.number().positive("Tier discount must be positive").max(100, "Tier discount cannot exceed 100%"),
+      })
+    )
+    .max(10, "Too many tiers")
+    .nullable(),
+  stackable: z.boolean(),
+  combines_with_product_discount: z.boolean(),
+});
+
+type CouponRules = z.infer<typeof couponRulesObject>;
+
+// Checks that depend on the discount type
+const COUPON_RULE_CHECKS: [(rules: CouponRules) => boolean, string][] = [
+  [
+    (rules) =>
+      !["percentage", "fixed", "buy_x_get_y"].includes(rules.discount_type) || rules.discount_value > 0,
+    "Discount must be positive",
+  ],
+  [
+    (rules) =>
+      !["percentage", "buy_x_get_y"].includes(rules.discount_type) || rules.discount_value <= 100,
+    "Percentage discount cannot exceed 100%",
+  ],
+  [
+    (rules) => rules.discount_type !== "buy_x_get_y" || (!!rules.buy_quantity && !!rules.get_quantity),
+    "Buy and get quantities are required",
+  ],
+  [
+    (rules) => rules.discount_type !== "tiered" || (rules.tiers?.length ?? 0) > 0,
+    "At least one spend tier is required",
+  ],
+];
+
+function checkCouponRules(rules: CouponRules, ctx: z.RefinementCtx) {
+  for (const [isValid, message] of COUPON_RULE_CHECKS) {
+    if (!isValid(rules)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  }
+}
+
+/**
+ * Admin coupon create/update
+ */
+export const couponSchema = couponRulesObject
+  .extend({
+    code: z
+      .string()
+      .min(1, "Code required")
+      .max(50, "Code too long")
+      .regex(/^[A-Za-z0-9_-]+$/, "Code can only contain letters, numbers, - and _")
+      .transform((code) => code.toUpperCase()),
+    description: z
+      .string()
+      .max(500, "Description too long")
+      .transform((text) => sanitizeString(text, 500))
+      .nullable(),
+    max_uses: z.number().int("Max uses must be integer").positive("Max uses must be positive").nullable(),
+    automatic: z.boolean(),
+    priority: z
+      .number()
+      .int("Priority must be integer")
+      .min(-1000, "Priority too low")
+      .max(1000, "Priority too high"),
+  })
+  .superRefine(checkCouponRules);
+
+/**
+ * Admin coupon campaign generation
+ * Each X in the template becomes a random character; codes are prefix +
+ * filled template.
+ */
+export const couponCampaignSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Campaign name required")
+      .max(100, "Campaign name too long")
+      .transform((name) => sanitizeString(name, 100)),
+    description: z
+      .string()
+      .max(500, "Description too long")
+      .transform((text) => sanitizeString(text, 500))
+      .nullable(),
+    code_prefix: z
+      .string()
+      .max(20, "Prefix too long")
+      .regex(/^[A-Za-z0-9_-]*$/, "Prefix can only contain letters, numbers, - and _")
+      .transform((prefix) => prefix.toUpperCase()),
+    code_template: z
+      .string()
+      .min(1, "Code template required")
+      .max(30, "Code template too long")
+      .regex(/^[A-Za-z0-9_-]+$/, "Template can only contain letters, numbers, - and _")
+      .transform((template) => template.toUpperCase())
+      .refine(
+        (template) => [...template].filter((char) => char === "X").length >= 6,
+        "Template needs at least 6 X characters"
+      ),
+    count: z
+      .number()
+      .int("Code count must be integer")
+      .min(1, "Generate at least one code")
+      .max(5000, "At most 5000 codes per campaign"),
+    rules: couponRulesObject.superRefine(checkCouponRules),
+  })
+  .refine(
+    (campaign) => campaign.code_prefix.length + campaign.code_template.length <= 50,
+    { message: "Prefix and template together can be at most 50 characters" }
+  );
+
+export type CouponCampaignInput = z.infer<typeof couponCampaignSchema>;
+
 /**
  * Validate UUID
  */
@@ -7,30 +7,54 @@
 
 import { SignJWT, jwtVerify, type JWTPayload } from "jose";
 import { env } from "~/env";
+import { getAdminUser, type AdminUser } from "~/lib/admin-users";
+import { isAdminSessionActive } from "~/lib/admin-sessions";
+import {
+  hasPermission,
+  isAdminRole,
+  type AdminPermission,
+  type AdminRole,
+} from "~/lib/security/permissions";
 
 const JWT_SECRET = env.JWT_SECRET;
 const JWT_ALGORITHM = "HS256";
 const JWT_ISSUER = "symphony-labs";
 const JWT_AUDIENCE = "symphony-labs-admin";
+// Separate audience so a challenge can never be used as an admin token
+const TWO_FACTOR_AUDIENCE = "symphony-labs-2fa";
+const TWO_FACTOR_CHALLENGE_EXPIRY = "5m";
 
 // Convert secret to Uint8Array for jose
 const secret = new TextEncoder().encode(JWT_SECRET);
 
 export interface AdminTokenPayload extends JWTPayload {
+  sub: string;  // admin_users.id
+  jti: string;  // admin_sessions.id
   username: string;
-  role: "admin";
+  role: AdminRole;
   iat: number;
   exp: number;
 }
 
+export interface TwoFactorChallengePayload extends JWTPayload {
+  sub: string;  // admin_users.id
+  username: string;
+}
+
+export type AdminAuthResult =
+  | { admin: AdminTokenPayload; status?: undefined }
+  | { admin: null; status: 401 | 403 };
+
 /**
  * Generate a JWT token for an admin user
- * @param username - Admin username
+ * @param user - Staff account the token is for
+ * @param sessionId - admin_sessions row from createAdminSession
  * @param expiresIn - Token expiration time (default: 8 hours)
  * @returns Signed JWT token
  */
 export async function generateAdminToken(
-  username: string,
+  user: Pick<AdminUser, "id" | "username" | "role">,
+  sessionId: string,
   expiresIn = "8h"
 ): Promise<string> {
   const now = Math.floor(Date.now() / 1000);
@@ -39,10 +63,12 @@ export async function generateAdminToken(
   const expirationSeconds = parseExpiresIn(expiresIn);
 
   const token = await new SignJWT({
-    username,
-    role: "admin",
+    username: user.username,
+    role: user.role,
   })
     .setProtectedHeader({ alg: JWT_ALGORITHM })
+    .setSubject(user.id)
+    .setJti(sessionId)
     .setIssuedAt(now)
     .setExpirationTime(now + expirationSeconds)
     .setIssuer(JWT_ISSUER)
@@ -55,27 +81,19 @@ export async function generateAdminToken(
 /**
  * Verify and decode a JWT token
  * @param token - JWT token to verify
- * @returns Decoded token payload if valid, null otherwise
+ * @returns Decoded token payload if valid and its session hasn't been
+ * revoked, null otherwise
  */
 export async function verifyAdminToken(
   token: string
 ): Promise<AdminTokenPayload | null> {
+  let payload: JWTPayload;
+
   try {
-    const { payload } = await jwtVerify(token, secret, {
+    ({ payload } = await jwtVerify(token, secret, {
       issuer: JWT_ISSUER,
       audience: JWT_AUDIENCE,
-    });
-
-    // Validate payload structure
-    if (
-      !payload.username ||
-      typeof payload.username !== "string" ||
-      payload.role !== "admin"
-    ) {
-      return null;
-    }
-
-    return payload as AdminTokenPayload;
+    }));
   } catch (error) {
     // Token is invalid, expired, or malformed
     // Only log non-expiration errors to avoid cluttering logs with expected expired token attempts
@@ -91,6 +109,70 @@ export async function verifyAdminToken(
     console.error("JWT verification failed:", error);
     return null;
   }
+
+  // Validate payload structure
+  if (
+    !payload.sub ||
+    !payload.jti ||
+    !payload.username ||
+    typeof payload.username !== "string" ||
+    !isAdminRole(payload.role)
+  ) {
+    return null;
+  }
+
+  // Signed out or revoked since the token was issued
+  if (!(await isAdminSessionActive(payload.jti, payload.sub))) {
+    return null;
+  }
+
+  return payload as AdminTokenPayload;
+}
+
+/**
+ * Generate a short-lived token proving the password step of login passed
+ * Exchanged for an admin token once the second-factor code is verified.
+ * @param user - Staff account signing in
+ * @returns Signed JWT token
+ */
+export async function generateTwoFactorChallenge(
+  user: Pick<AdminUser, "id" | "username">
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+
+  return new SignJWT({ username: user.username })
+    .setProtectedHeader({ alg: JWT_ALGORITHM })
+    .setSubject(user.id)
+    .setIssuedAt(now)
+    .setExpirationTime(now + parseExpiresIn(TWO_FACTOR_CHALLENGE_EXPIRY))
+    .setIssuer(JWT_ISSUER)
+    .setAudience(TWO_FACTOR_AUDIENCE)
+    .sign(secret);
+}
+
+/**
+ * Verify a second-factor challenge token
+ * @param token - Challenge token from the password step
+ * @returns Decoded payload if valid, null otherwise
+ */
+export async function verifyTwoFactorChallenge(
+  token: string
+): Promise<TwoFactorChallengePayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: JWT_ISSUER,
+      audience: TWO_FACTOR_AUDIENCE,
+    });
+
+    if (!payload.sub || typeof payload.username !== "string") {
+      return null;
+    }
+
+    return payload as TwoFactorChallengePayload;
+  } catch {
+    // Expired or tampered with; the user starts login again
+    return null;
+  }
 }
 
 /**
@@ -113,20 +195,41 @@ export function extractBearerToken(authHeader: string | null): string | null {
 
 /**
  * Verify admin authentication from request
+ * The account must still be enabled and hold the role the token was issued
+ * with, so disabling or re-roling staff takes effect straight away.
  * @param request - Next.js request object
- * @returns Admin payload if authenticated, null otherwise
+ * @param required - Permissions the admin's role must have
+ * @returns Admin payload, or 401 when not signed in and 403 when the role
+ * lacks a required permission
  */
 export async function verifyAdminAuth(
-  request: Request
-): Promise<AdminTokenPayload | null> {
+  request: Request,
+  required: AdminPermission[] = []
+): Promise<AdminAuthResult> {
   const authHeader = request.headers.get("Authorization");
   const token = extractBearerToken(authHeader);
 
   if (!token) {
-    return null;
+    return { admin: null, status: 401 };
+  }
+
+  const payload = await verifyAdminToken(token);
+
+  if (!payload) {
+    return { admin: null, status: 401 };
+  }
+
+  const account = await getAdminUser(payload.sub);
+
+  if (!account || account.disabled_at || account.role !== payload.role) {
+    return { admin: null, status: 401 };
+  }
+
+  if (!required.every((permission) => hasPermission(payload.role, permission))) {
+    return { admin: null, status: 403 };
   }
 
-  return await verifyAdminToken(token);
+  return { admin: payload };
 }
 
 /**
@@ -0,0 +1,133 @@
+/**
+ * Log Sinks
+ *
+ * Destinations for structured log entries. The logger decides which entries
+ * reach which sink (see LOG_SINKS); a sink only has to write what it's given.
+ * Sinks never throw into the caller and never log through the logger, so a
+ * broken sink can't take a request down or loop.
+ */
+
+import type { LogEntry } from "~/lib/security/logger";
+
+export interface LogSink {
+  name: string;
+  write(entry: LogEntry): Promise<void>;
+}
+
+/**
+ * One JSON line per entry on stdout, for the platform's log collector
+ */
+export function createStdoutSink(): LogSink {
+  return {
+    name: "stdout",
+    write: async (entry) => {
+      console.log(JSON.stringify(entry));
+    },
+  };
+}
+
+export interface FileSinkOptions {
+  path: string;
+  maxBytes: number;  // Rotate once the file would grow past this
+  maxFiles: number;  // Rotated files kept: path.1 (newest) to path.N
+}
+
+/**
+ * JSON lines appended to a file, rotated by size
+ * Only works on the Node.js runtime; on the Edge runtime entries are dropped.
+ */
+export function createFileSink(options: FileSinkOptions): LogSink {
+  // Writes run one at a time so rotation never races an append
+  let queue = Promise.resolve();
+
+  const append = async (line: string) => {
+    if (process.env.NEXT_RUNTIME === "edge") return;
+
+    const fs = await import("node:fs/promises");
+    const path = await import("node:path");
+
+    await fs.mkdir(path.dirname(options.path), { recursive: true });
+
+    const size = await fs
+      .stat(options.path)
+      .then((stats) => stats.size)
+      .catch(() => 0);
+
+    if (size > 0 && size + Buffer.byteLength(line) > options.maxBytes) {
+      await fs.rm(`${options.path}.${options.maxFiles}`, { force: true });
+      for (let index = options.maxFiles - 1; index >= 1; index--) {
+        await fs
+          .rename(`${options.path}.${index}`, `${options.path}.${index + 1}`)
+          .catch(() => undefined);
+      }
+      await fs.rename(options.path, `${options.path}.1`);
+    }
+
+    await fs.appendFile(options.path, line, "utf8");
+  };
+
+  return {
+    name: "file",
+    write: (entry) => {
+      queue = queue
+        .then(() => append(`${JSON.stringify(entry)}\n`))
+        .catch((error) => {
+          console.error("File log sink failed:", error instanceof Error ? error.message : error);
+        });
+      return queue;
+    },
+  };
+}
+
+/**
+ * One row per entry in the security_logs table
+ * (supabase/migrations/add_security_logs.sql)
+ */
+export function createDatabaseSink(): LogSink {
+  return {
+    name: "database",
+    write: async (entry) => {
+      const { supabaseAdmin } = await import("~/lib/supabase-admin");
+
+      const { error } = await supabaseAdmin.from("security_logs").insert({
+        level: entry.level,
+        event_type: entry.eventType ?? null,
+        message: entry.message,
+        client_id: entry.clientId ?? null,
+        endpoint: entry.endpoint ?? null,
+        status_code: entry.statusCode ?? null,
+        metadata: entry.metadata ?? null,
+        created_at: entry.timestamp,
+      });
+
+      if (error) {
+        console.error("Database log sink failed:", error.message);
+      }
+    },
+  };
+}
+
+/**
+ * Each entry POSTed as JSON to a collector (e.g. Logtail, Datadog HTTP intake)
+ */
+export function createWebhookSink(url: string): LogSink {
+  return {
+    name: "webhook",
+    write: async (entry) => {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(entry),
+          signal: AbortSignal.timeout(5000),
+        });
+
+        if (!response.ok) {
+          console.error(`Webhook log sink failed: HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.error("Webhook log sink failed:", error instanceof Error ? error.message : error);
+      }
+    },
+  };
+}
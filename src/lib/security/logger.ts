@@ -2,10 +2,23 @@
  * Security Logging Utility
  *
  * Provides comprehensive logging for security events, API requests,
- * and suspicious activity. In production, these logs should be sent
- * to a proper logging service.
+ * and suspicious activity. Entries are routed by level to the sinks listed
+ * in LOG_SINKS (stdout, file, database, webhook), and critical events raise
+ * an alert. Every entry written while handling a request carries its
+ * X-Request-Id.
  */
 
+import { env } from "~/env";
+import { sendSecurityAlert } from "~/lib/security/alerts";
+import {
+  createDatabaseSink,
+  createFileSink,
+  createStdoutSink,
+  createWebhookSink,
+  type LogSink,
+} from "~/lib/security/log-sinks";
+import { getCurrentRequestId } from "~/lib/security/request-id";
+
 export enum LogLevel {
   INFO = "INFO",
   WARN = "WARN",
@@ -24,13 +37,16 @@ export enum SecurityEventType {
   VALIDATION_ERROR = "VALIDATION_ERROR",
   SQL_INJECTION_ATTEMPT = "SQL_INJECTION_ATTEMPT",
   XSS_ATTEMPT = "XSS_ATTEMPT",
+  CSRF_VIOLATION = "CSRF_VIOLATION",
+  CSP_VIOLATION = "CSP_VIOLATION",
   API_ERROR = "API_ERROR",
 }
 
-interface LogEntry {
+export interface LogEntry {
   timestamp: string;
   level: LogLevel;
   eventType?: SecurityEventType;
+  requestId?: string;
   message: string;
   metadata?: Record<string, unknown>;
   clientId?: string;
@@ -38,29 +54,120 @@ interface LogEntry {
   statusCode?: number;
 }
 
+// Lowest first; a sink receives entries at or above its minimum level
+const LEVEL_ORDER = [LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.SECURITY];
+
+interface SinkRoute {
+  sink: LogSink;
+  minLevel: LogLevel;
+}
+
+function createSink(name: string): LogSink | null {
+  switch (name) {
+    case "stdout":
+      return createStdoutSink();
+    case "file":
+      return createFileSink({
+        path: env.LOG_FILE_PATH,
+        maxBytes: env.LOG_FILE_MAX_BYTES,
+        maxFiles: env.LOG_FILE_MAX_FILES,
+      });
+    case "database":
+      return createDatabaseSink();
+    case "webhook":
+      if (!env.LOG_WEBHOOK_URL) {
+        console.error("Ignoring webhook log sink: LOG_WEBHOOK_URL is not set");
+        return null;
+      }
+      return createWebhookSink(env.LOG_WEBHOOK_URL);
+    default:
+      console.error(`Ignoring unknown log sink in LOG_SINKS: ${name}`);
+      return null;
+  }
+}
+
+/**
+ * Sink routes from LOG_SINKS, a comma-separated list of sink[:minimum level],
+ * e.g. "stdout,file:WARN,database:SECURITY"
+ * Falls back to stdout when nothing usable is listed.
+ */
+function parseSinkRoutes(raw: string): SinkRoute[] {
+  const routes: SinkRoute[] = [];
+
+  for (const part of raw.split(",")) {
+    const [name = "", level = LogLevel.INFO] = part.trim().split(":");
+    if (!name) continue;
+
+    const minLevel = LEVEL_ORDER.find((candidate) => candidate.toString() === level.toUpperCase());
+    if (!minLevel) {
+      console.error(`Ignoring log sink ${name}: unknown level ${level}`);
+      continue;
+    }
+
+    const sink = createSink(name);
+    if (sink) {
+      routes.push({ sink, minLevel });
+    }
+  }
+
+  return routes.length > 0
+    ? routes
+    : [{ sink: createStdoutSink(), minLevel: LogLevel.INFO }];
+}
+
+const sinkRoutes = parseSinkRoutes(env.LOG_SINKS);
+
+/**
+ * Hand an entry to every sink whose minimum level it meets
+ * Entries without a request ID get the current request's, when there is one.
+ * Sinks write in the background; a failing sink only reports to stderr.
+ */
+function writeLogEntry(logEntry: LogEntry): void {
+  void (logEntry.requestId ? Promise.resolve(logEntry.requestId) : getCurrentRequestId())
+    .then((requestId) => {
+      const entry = requestId ? { ...logEntry, requestId } : logEntry;
+      const rank = LEVEL_ORDER.indexOf(entry.level);
+
+      for (const { sink, minLevel } of sinkRoutes) {
+        if (rank >= LEVEL_ORDER.indexOf(minLevel)) {
+          sink.write(entry).catch((error) => {
+            console.error(
+              `Log sink ${sink.name} failed:`,
+              error instanceof Error ? error.message : error
+            );
+          });
+        }
+      }
+
+      // Alert on critical security events
+      if (entry.eventType && isCriticalEvent(entry.eventType)) {
+        alertSecurityTeam(entry);
+      }
+    });
+}
+
 /**
  * Log a security event
+ * A requestId in metadata (set by middleware, which runs before the request
+ * ID is visible to the handler) is lifted onto the entry itself.
  */
 export function logSecurityEvent(
   eventType: SecurityEventType,
   message: string,
   metadata?: Record<string, unknown>
 ): void {
+  const { requestId, ...rest } = metadata ?? {};
+
   const logEntry: LogEntry = {
     timestamp: new Date().toISOString(),
     level: LogLevel.SECURITY,
     eventType,
+    requestId: typeof requestId === "string" ? requestId : undefined,
     message,
-    metadata: sanitizeMetadata(metadata),
+    metadata: metadata ? sanitizeMetadata(rest) : undefined,
   };
 
-  // In production, send to logging service (e.g., Datadog, Sentry, CloudWatch)
-  console.log(JSON.stringify(logEntry));
-
-  // Alert on critical security events
-  if (isCriticalEvent(eventType)) {
-    alertSecurityTeam(logEntry);
-  }
+  writeLogEntry(logEntry);
 }
 
 /**
@@ -74,20 +181,23 @@ export function logApiRequest(
   duration?: number,
   metadata?: Record<string, unknown>
 ): void {
+  const { requestId, ...rest } = metadata ?? {};
+
   const logEntry: LogEntry = {
     timestamp: new Date().toISOString(),
     level: LogLevel.INFO,
+    requestId: typeof requestId === "string" ? requestId : undefined,
     message: `${method} ${endpoint}`,
     clientId,
     endpoint,
     statusCode,
     metadata: {
-      ...sanitizeMetadata(metadata),
+      ...sanitizeMetadata(rest),
       duration,
     },
   };
 
-  console.log(JSON.stringify(logEntry));
+  writeLogEntry(logEntry);
 }
 
 /**
@@ -222,15 +332,16 @@ function isCriticalEvent(eventType: SecurityEventType): boolean {
 
 /**
  * Alert security team about critical events
- * In production, this should send alerts via email, Slack, PagerDuty, etc.
+ * Delivered in the background by email and/or webhook; see ~/lib/security/alerts.
  */
 function alertSecurityTeam(logEntry: LogEntry): void {
-  // In production, integrate with alerting service
-  console.error("⚠️  CRITICAL SECURITY EVENT:", JSON.stringify(logEntry));
+  void sendSecurityAlert(logEntry);
 }
 
 /**
  * Create a request logger middleware
+ * Requests are tracked by their X-Request-Id; pass it in when known,
+ * otherwise a fresh one is made.
  */
 export function createRequestLogger() {
   const requests = new Map<string, number>();
@@ -240,9 +351,9 @@ export function createRequestLogger() {
       method: string,
       endpoint: string,
       clientId: string,
-      startTime: number
+      startTime: number,
+      requestId: string = crypto.randomUUID()
     ) => {
-      const requestId = `${method}-${endpoint}-${Date.now()}`;
       requests.set(requestId, startTime);
       return requestId;
     },
@@ -258,7 +369,7 @@ export function createRequestLogger() {
       const duration = startTime ? Date.now() - startTime : undefined;
       requests.delete(requestId);
 
-      logApiRequest(method, endpoint, clientId, statusCode, duration);
+      logApiRequest(method, endpoint, clientId, statusCode, duration, { requestId });
     },
   };
 }
@@ -0,0 +1,45 @@
+/**
+ * Admin Roles and Permissions
+ *
+ * What each staff role may do in the admin. Shared by the server, which
+ * checks permissions in verifyAdminAuth, and the admin UI, which hides what a
+ * role can't use.
+ */
+
+export const ADMIN_ROLES = ["owner", "fulfillment", "catalog", "support"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ADMIN_PERMISSIONS = [
+  "orders:view",
+  "orders:update",
+  "orders:refund",
+  "payments:manage",
+  "catalog:edit",
+  "stock:view",
+  "stock:adjust",
+  "coupons:manage",
+  "settings:edit",
+  "staff:manage",
+  "audit:view",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: ADMIN_PERMISSIONS,
+  // Picks, packs and ships orders
+  fulfillment: ["orders:view", "orders:update", "stock:view", "stock:adjust"],
+  // Products, lab tests, stock and promotions
+  catalog: ["catalog:edit", "stock:view", "stock:adjust", "coupons:manage"],
+  // Customer questions, refunds and payment problems
+  support: ["orders:view", "orders:refund", "payments:manage"],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,82 @@
+/**
+ * Postgres Rate Limit Store
+ *
+ * Keeps rate limit counters in the Supabase database so every instance
+ * shares them. The counting happens in consume_rate_limit(), which locks the
+ * key's row, so concurrent requests can't both take the last slot.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import type {
+  RateLimitConfig,
+  RateLimitResult,
+  RateLimitStore,
+} from "~/lib/security/rate-limiter";
+
+// Expired rows are purged at most this often, from whichever instance
+// happens to be handling a request
+const PURGE_INTERVAL_MS = 5 * 60 * 1000;
+
+interface ConsumeResult {
+  allowed: boolean;
+  remaining: number;
+  reset_at: string;
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPurge = 0;
+
+  async consume(
+    key: string,
+    config: Required<RateLimitConfig>
+  ): Promise<Omit<RateLimitResult, "limit">> {
+    const result = await supabaseAdmin.rpc("consume_rate_limit", {
+      p_key: key,
+      p_algorithm: config.algorithm,
+      p_window_ms: config.windowMs,
+      p_max_requests: config.maxRequests,
+    });
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    this.purgeExpired();
+
+    const data = result.data as ConsumeResult;
+    return {
+      isAllowed: data.allowed,
+      remaining: data.remaining,
+      resetTime: new Date(data.reset_at).getTime(),
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    const result = await supabaseAdmin
+      .from("rate_limits")
+      .delete()
+      .eq("key", key);
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    if (now - this.lastPurge < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurge = now;
+
+    void supabaseAdmin
+      .from("rate_limits")
+      .delete()
+      .lt("expires_at", new Date(now).toISOString())
+      .then((result) => {
+        if (result.error) {
+          console.error("Failed to purge expired rate limits:", result.error.message);
+        }
+      });
+  }
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import {
+  MemoryRateLimitStore,
+  RateLimiter,
+  RateLimitPresets,
+} from "~/lib/security/rate-limiter";
+
+void describe("RateLimiter", () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 0, 1);
+    store = new MemoryRateLimitStore(() => now);
+    limiter = new RateLimiter(store);
+  });
+
+  afterEach(() => {
+    store.destroy();
+  });
+
+  void test("a shorter window on another route doesn't reset the login limit", async () => {
+    for (let i = 0; i < RateLimitPresets.LOGIN.maxRequests; i++) {
+      const attempt = await limiter.check("client", RateLimitPresets.LOGIN, "/api/admin/login");
+      assert.equal(attempt.isAllowed, true);
+    }
+
+    now += 61 * 1000;
+    const verify = await limiter.check("client", RateLimitPresets.API, "/api/admin/verify");
+    assert.equal(verify.isAllowed, true);
+    assert.equal(verify.remaining, RateLimitPresets.API.maxRequests - 1);
+
+    const login = await limiter.check("client", RateLimitPresets.LOGIN, "/api/admin/login");
+    assert.equal(login.isAllowed, false);
+
+    now += RateLimitPresets.LOGIN.windowMs;
+    const later = await limiter.check("client", RateLimitPresets.LOGIN, "/api/admin/login");
+    assert.equal(later.isAllowed, true);
+  });
+
+  void test("routes count separately for the same client", async () => {
+    const limit = { windowMs: 60 * 1000, maxRequests: 1 };
+
+    assert.equal((await limiter.check("client", limit, "/api/a")).isAllowed, true);
+    assert.equal((await limiter.check("client", limit, "/api/b")).isAllowed, true);
+    assert.equal((await limiter.check("client", limit, "/api/a")).isAllowed, false);
+  });
+
+  void test("presets count separately when no route is given", async () => {
+    for (let i = 0; i < RateLimitPresets.ORDER_CREATE.maxRequests; i++) {
+      await limiter.check("client", RateLimitPresets.ORDER_CREATE);
+    }
+
+    assert.equal((await limiter.check("client", RateLimitPresets.API)).isAllowed, true);
+    assert.equal((await limiter.check("client", RateLimitPresets.ORDER_CREATE)).isAllowed, false);
+  });
+
+  void test("an algorithm override doesn't reset another route's counter", async () => {
+    const overridden = new RateLimiter(store, {
+      "/api/search": { algorithm: "token-bucket" },
+    });
+    const limit = { windowMs: 60 * 1000, maxRequests: 2 };
+
+    await overridden.check("client", limit, "/api/cart");
+    await overridden.check("client", limit, "/api/cart");
+    await overridden.check("client", limit, "/api/search");
+
+    assert.equal((await overridden.check("client", limit, "/api/cart")).isAllowed, false);
+  });
+
+  void test("reset clears only the given route", async () => {
+    const limit = { windowMs: 60 * 1000, maxRequests: 1 };
+
+    await limiter.check("client", limit, "/api/a");
+    await limiter.check("client", limit, "/api/b");
+    await limiter.reset("client", limit, "/api/a");
+
+    assert.equal((await limiter.check("client", limit, "/api/a")).isAllowed, true);
+    assert.equal((await limiter.check("client", limit, "/api/b")).isAllowed, false);
+  });
+});
@@ -2,121 +2,202 @@
  * Rate Limiter Implementation
  *
  * Provides rate limiting capabilities with configurable windows and limits.
- * Uses in-memory storage with automatic cleanup of expired entries.
+ * Counts live in a pluggable RateLimitStore: in memory by default, or in the
+ * Supabase database (RATE_LIMIT_STORE=postgres) so limits survive deploys and
+ * are shared between serverless instances.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
+import { z } from "zod";
+import { env } from "~/env";
+import { PostgresRateLimitStore } from "~/lib/security/rate-limit-postgres";
+
+/**
+ * fixed-window: count requests per window, reset when it ends
+ * sliding-window: weight the previous window's count by how much of it still
+ *   overlaps, so bursts at a window boundary aren't let through twice
+ * token-bucket: maxRequests tokens, refilled evenly over windowMs
+ */
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "token-bucket";
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   windowMs: number;  // Time window in milliseconds
   maxRequests: number;  // Maximum requests per window
+  algorithm?: RateLimitAlgorithm;  // Defaults to fixed-window
+}
+
+export interface RateLimitResult {
+  isAllowed: boolean;
+  remaining: number;
+  resetTime: number;
+  limit: number;
+}
+
+/**
+ * Where request counts are kept
+ * consume() records one request against the key and must be atomic, as
+ * several instances may hit the same key at once. RateLimiter namespaces keys
+ * so a key is always consumed with the same config.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    config: Required<RateLimitConfig>
+  ): Promise<Omit<RateLimitResult, "limit">>;
+  reset(key: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  count: number;
+  previousCount: number;
+  windowStart: number;
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
 }
 
-class RateLimiter {
-  private store: Map<string, RateLimitEntry>;
-  private cleanupInterval: NodeJS.Timeout | null;
+/**
+ * In-process store, with automatic cleanup of expired entries
+ * Limits are per instance and reset on every deploy. The clock can be
+ * swapped so tests can step through a window without waiting.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private store = new Map<string, MemoryEntry>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
-    this.store = new Map();
+  constructor(private now: () => number = Date.now) {
     // Clean up expired entries every minute
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, 60000);
+    this.cleanupInterval.unref();
   }
 
-  /**
-   * Check if a request is allowed based on rate limit
-   * @param key - Unique identifier (e.g., IP address, user ID)
-   * @param config - Rate limit configuration
-   * @returns Object with isAllowed flag and remaining requests
-   */
-  check(key: string, config: RateLimitConfig): {
-    isAllowed: boolean;
-    remaining: number;
-    resetTime: number;
-  } {
-    const now = Date.now();
-    const entry = this.store.get(key);
-
-    // No entry exists or entry has expired
-    if (!entry || now > entry.resetTime) {
-      const resetTime = now + config.windowMs;
-      this.store.set(key, {
-        count: 1,
-        resetTime,
-      });
+  consume(key: string, config: Required<RateLimitConfig>) {
+    return Promise.resolve(this.consumeSync(key, config));
+  }
 
-      return {
-        isAllowed: true,
-        remaining: config.maxRequests - 1,
-        resetTime,
-      };
+  private consumeSync(key: string, config: Required<RateLimitConfig>) {
+    const now = this.now();
+    const existing = this.store.get(key);
+    const entry =
+      existing && now <= existing.expiresAt
+        ? existing
+        : {
+            count: 0,
+            previousCount: 0,
+            windowStart: now,
+            tokens: config.maxRequests,
+            updatedAt: now,
+            expiresAt: now,
+          };
+
+    this.store.set(key, entry);
+
+    switch (config.algorithm) {
+      case "token-bucket":
+        return this.consumeToken(entry, config, now);
+      case "sliding-window":
+        return this.consumeSliding(entry, config, now);
+      default:
+        return this.consumeFixed(entry, config, now);
+    }
+  }
+
+  private consumeFixed(entry: MemoryEntry, config: Required<RateLimitConfig>, now: number) {
+    if (entry.count === 0 || now > entry.windowStart + config.windowMs) {
+      entry.count = 0;
+      entry.windowStart = now;
     }
 
-    // Entry exists and is still valid
-    if (entry.count < config.maxRequests) {
-      entry.count++;
-      this.store.set(key, entry);
+    const resetTime = entry.windowStart + config.windowMs;
+    entry.expiresAt = resetTime;
 
+    if (entry.count >= config.maxRequests) {
+      return { isAllowed: false, remaining: 0, resetTime };
+    }
+
+    entry.count++;
+    return {
+      isAllowed: true,
+      remaining: config.maxRequests - entry.count,
+      resetTime,
+    };
+  }
+
+  private consumeSliding(entry: MemoryEntry, config: Required<RateLimitConfig>, now: number) {
+    const windowStart = now - (now % config.windowMs);
+
+    if (entry.windowStart !== windowStart) {
+      entry.previousCount =
+        entry.windowStart === windowStart - config.windowMs ? entry.count : 0;
+      entry.count = 0;
+      entry.windowStart = windowStart;
+    }
+
+    const overlap = 1 - (now - windowStart) / config.windowMs;
+    const weighted = entry.previousCount * overlap + entry.count;
+    entry.expiresAt = windowStart + 2 * config.windowMs;
+
+    if (weighted + 1 > config.maxRequests) {
       return {
-        isAllowed: true,
-        remaining: config.maxRequests - entry.count,
-        resetTime: entry.resetTime,
+        isAllowed: false,
+        remaining: 0,
+        resetTime: slidingResetTime(entry, config, windowStart),
       };
     }
 
-    // Rate limit exceeded
+    entry.count++;
     return {
-      isAllowed: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
+      isAllowed: true,
+      remaining: Math.max(0, Math.floor(config.maxRequests - weighted - 1)),
+      resetTime: windowStart + config.windowMs,
     };
   }
 
-  /**
-   * Get the client identifier from request
-   * Uses IP address and user agent for better uniqueness
-   */
-  getClientId(request: Request): string {
-    const forwarded = request.headers.get("x-forwarded-for");
-    const ip = forwarded ? forwarded.split(",")[0] : "unknown";
-    const userAgent = request.headers.get("user-agent") ?? "unknown";
+  private consumeToken(entry: MemoryEntry, config: Required<RateLimitConfig>, now: number) {
+    const refillPerMs = config.maxRequests / config.windowMs;
+    entry.tokens = Math.min(
+      config.maxRequests,
+      entry.tokens + (now - entry.updatedAt) * refillPerMs
+    );
+    entry.updatedAt = now;
+    entry.expiresAt = now + config.windowMs;
 
-    // Create a hash-like identifier
-    return `${ip}:${userAgent.slice(0, 50)}`;
+    if (entry.tokens < 1) {
+      return {
+        isAllowed: false,
+        remaining: 0,
+        resetTime: now + Math.ceil((1 - entry.tokens) / refillPerMs),
+      };
+    }
+
+    entry.tokens -= 1;
+    return {
+      isAllowed: true,
+      remaining: Math.floor(entry.tokens),
+      resetTime: now + Math.ceil((config.maxRequests - entry.tokens) / refillPerMs),
+    };
   }
 
   /**
    * Clean up expired entries from store
    */
   private cleanup(): void {
-    const now = Date.now();
+    const now = this.now();
     for (const [key, entry] of this.store.entries()) {
-      if (now > entry.resetTime) {
+      if (now > entry.expiresAt) {
         this.store.delete(key);
       }
     }
   }
 
-  /**
-   * Manually reset rate limit for a key
-   */
-  reset(key: string): void {
+  reset(key: string): Promise<void> {
     this.store.delete(key);
+    return Promise.resolve();
   }
 
   /**
-   * Get current rate limit status without incrementing
-   */
-  getStatus(key: string): RateLimitEntry | null {
-    return this.store.get(key) ?? null;
-  }
-
-  /**
-   * Destroy the rate limiter and cleanup interval
+   * Stop the cleanup interval and drop every entry
    */
   destroy(): void {
     if (this.cleanupInterval) {
@@ -127,10 +208,156 @@ class RateLimiter {
   }
 }
 
+/**
+ * When the weighted count will have dropped low enough for one more request
+ */
+function slidingResetTime(
+  entry: MemoryEntry,
+  config: Required<RateLimitConfig>,
+  windowStart: number
+): number {
+  const windowEnd = windowStart + config.windowMs;
+
+  if (entry.count + 1 > config.maxRequests || entry.previousCount === 0) {
+    return windowEnd;
+  }
+
+  const overlapNeeded = (config.maxRequests - 1 - entry.count) / entry.previousCount;
+  return Math.min(windowEnd, Math.ceil(windowEnd - overlapNeeded * config.windowMs));
+}
+
+const overridesSchema = z.record(
+  z.string(),
+  z.object({
+    windowMs: z.number().int().positive().optional(),
+    maxRequests: z.number().int().positive().optional(),
+    algorithm: z.enum(["fixed-window", "sliding-window", "token-bucket"]).optional(),
+  })
+);
+
+type RateLimitOverrides = z.infer<typeof overridesSchema>;
+
+/**
+ * Per-route overrides from RATE_LIMIT_OVERRIDES, a JSON object keyed by
+ * route path, e.g. {"/api/admin/login": {"maxRequests": 10}}
+ */
+function parseOverrides(raw: string | undefined): RateLimitOverrides {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = overridesSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) {
+      return parsed.data;
+    }
+    console.error("Ignoring invalid RATE_LIMIT_OVERRIDES:", parsed.error.message);
+  } catch {
+    console.error("Ignoring RATE_LIMIT_OVERRIDES: not valid JSON");
+  }
+
+  return {};
+}
+
+export class RateLimiter {
+  private fallback: MemoryRateLimitStore | null = null;
+
+  constructor(
+    private store: RateLimitStore,
+    private overrides: RateLimitOverrides = {}
+  ) {}
+
+  /**
+   * Check if a request is allowed based on rate limit
+   * @param key - Unique identifier (e.g., IP address, user ID)
+   * @param config - Rate limit configuration, usually one of RateLimitPresets
+   * @param route - Route path, used to look up per-route overrides
+   * @returns Object with isAllowed flag and remaining requests
+   */
+  async check(
+    key: string,
+    config: RateLimitConfig,
+    route?: string
+  ): Promise<RateLimitResult> {
+    const resolved = this.resolve(config, route);
+    const storeKey = this.storeKey(key, resolved, route);
+
+    try {
+      const result = await this.store.consume(storeKey, resolved);
+      return { ...result, limit: resolved.maxRequests };
+    } catch (error) {
+      // A store outage shouldn't take the shop down; fall back to counting
+      // in this instance until it recovers.
+      console.error("Rate limit store error, using in-memory limits:", error);
+      this.fallback ??= new MemoryRateLimitStore();
+      const result = await this.fallback.consume(storeKey, resolved);
+      return { ...result, limit: resolved.maxRequests };
+    }
+  }
+
+  /**
+   * The key a request is counted under in the store
+   * Each route (or, without one, each config) counts separately, and so does
+   * each window and algorithm, so checking one limit never resets another's
+   * counter.
+   */
+  private storeKey(key: string, config: Required<RateLimitConfig>, route?: string): string {
+    const scope = route ?? `${config.maxRequests}/${config.windowMs}`;
+    return `${scope}:${config.algorithm}:${config.windowMs}:${key}`;
+  }
+
+  /**
+   * The config for a route after applying any override
+   */
+  resolve(config: RateLimitConfig, route?: string): Required<RateLimitConfig> {
+    const override = route ? this.overrides[route] : undefined;
+
+    return {
+      windowMs: override?.windowMs ?? config.windowMs,
+      maxRequests: override?.maxRequests ?? config.maxRequests,
+      algorithm: override?.algorithm ?? config.algorithm ?? "fixed-window",
+    };
+  }
+
+  /**
+   * Get the client identifier from request
+   * Uses IP address and user agent for better uniqueness
+   */
+  getClientId(request: Request): string {
+    const forwarded = request.headers.get("x-forwarded-for");
+    const ip = forwarded ? forwarded.split(",")[0] : "unknown";
+    const userAgent = request.headers.get("user-agent") ?? "unknown";
+
+    // Create a hash-like identifier
+    return `${ip}:${userAgent.slice(0, 50)}`;
+  }
+
+  /**
+   * Manually reset rate limit for a key
+   * @param config - The config the key is checked with
+   * @param route - The route the key is checked for, if any
+   */
+  async reset(key: string, config: RateLimitConfig, route?: string): Promise<void> {
+    const storeKey = this.storeKey(key, this.resolve(config, route), route);
+    await this.store.reset(storeKey);
+    await this.fallback?.reset(storeKey);
+  }
+}
+
+function createStore(): RateLimitStore {
+  return env.RATE_LIMIT_STORE === "postgres"
+    ? new PostgresRateLimitStore()
+    : new MemoryRateLimitStore();
+}
+
 // Singleton instance
-export const rateLimiter = new RateLimiter();
+export const rateLimiter = new RateLimiter(
+  createStore(),
+  parseOverrides(env.RATE_LIMIT_OVERRIDES)
+);
 
 // Common rate limit configurations
+// Any of these can be changed for a single route with RATE_LIMIT_OVERRIDES.
 export const RateLimitPresets = {
   // Very strict for login attempts
   LOGIN: {
@@ -157,4 +384,4 @@ export const RateLimitPresets = {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 100, // 100 requests per minute
   },
-} as const;
+} as const satisfies Record<string, RateLimitConfig>;
@@ -0,0 +1,44 @@
+/**
+ * Request Correlation IDs
+ *
+ * middleware.ts gives every request an X-Request-Id, keeping one set by a
+ * trusted proxy or the caller when it looks sane, and forwards it to route
+ * handlers and back on the response. Log entries and 500 responses carry the
+ * same ID, so a failure a customer reports can be found in the server logs.
+ */
+
+import { headers } from "next/headers";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Long enough for any tracing format, short and plain enough to log safely
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+/**
+ * The ID to use for an incoming request: the caller's, if well-formed, or a
+ * new UUID
+ */
+export function resolveRequestId(incoming: string | null): string {
+  return incoming && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
+
+/**
+ * The ID middleware assigned to this request
+ */
+export function getRequestId(request: Request): string | undefined {
+  return request.headers.get(REQUEST_ID_HEADER) ?? undefined;
+}
+
+/**
+ * The ID of the request being handled, for code that has no request object
+ * (the logger). Undefined outside a request, e.g. in middleware or scripts.
+ */
+export async function getCurrentRequestId(): Promise<string | undefined> {
+  try {
+    return (await headers()).get(REQUEST_ID_HEADER) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
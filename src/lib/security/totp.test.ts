@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { generateTotpSecret, totpCode, totpStep, totpUri, verifyTotp } from "~/lib/security/totp";
+
+// RFC 6238 Appendix B: the SHA-1 seed "12345678901234567890", base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// Appendix B's SHA-1 codes, cut to the 6 digits authenticator apps show
+const RFC_VECTORS: [timeSeconds: number, code: string][] = [
+  [59, "287082"], // 94287082
+  [1111111109, "081804"], // 07081804
+  [1111111111, "050471"], // 14050471
+  [1234567890, "005924"], // 89005924
+  [2000000000, "279037"], // 69279037
+  [20000000000, "353130"], // 65353130
+];
+
+void describe("totpCode", () => {
+  for (const [timeSeconds, code] of RFC_VECTORS) {
+    void test(`matches RFC 6238 at T=${timeSeconds}`, () => {
+      assert.equal(totpCode(RFC_SECRET, totpStep(timeSeconds * 1000)), code);
+    });
+  }
+
+  void test("reads lower-case and padded secrets", () => {
+    assert.equal(totpCode(`${RFC_SECRET.toLowerCase()}====`, 1), "287082");
+  });
+
+  void test("rejects secrets that aren't base32", () => {
+    assert.throws(() => totpCode("NOT-BASE32!", 1), /Invalid base32 secret/);
+  });
+});
+
+void describe("generateTotpSecret", () => {
+  void test("makes distinct 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(secret, generateTotpSecret());
+  });
+
+  void test("puts the secret and settings in the otpauth URL", () => {
+    const uri = new URL(totpUri(RFC_SECRET, "alice", "Symphony Labs"));
+
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.searchParams.get("secret"), RFC_SECRET);
+    assert.equal(uri.searchParams.get("digits"), "6");
+    assert.equal(uri.searchParams.get("period"), "30");
+  });
+});
+
+void describe("verifyTotp", () => {
+  // T=1111111111 falls in step 37037037
+  const now = 1111111111 * 1000;
+  const step = totpStep(now);
+
+  void test("returns the step the code belongs to", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "050471", now), step);
+  });
+
+  void test("allows one step of drift either way", () => {
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now), step + 1);
+  });
+
+  void test("rejects codes two steps away", () => {
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now), null);
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now), null);
+  });
+
+  void test("ignores spaces and rejects anything but 6 digits", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "050 471", now), step);
+    assert.equal(verifyTotp(RFC_SECRET, "50471", now), null);
+    assert.equal(verifyTotp(RFC_SECRET, "05047a", now), null);
+  });
+});
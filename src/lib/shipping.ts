@@ -0,0 +1,49 @@
+import { supabaseAdmin } from "~/lib/supabase-admin";
+
+export interface ShippingConfig {
+  mode: "basic" | "advanced";
+  domestic_rate: number;
+  international_rate: number;
+  domestic_countries: string[];
+  country_rates: Record<string, number>;
+  default_rate: number;
+}
+
+// Load the store's shipping configuration (single row)
+export const fetchShippingConfig = async (): Promise<ShippingConfig | null> => {
+  const result = await supabaseAdmin
+    .from("shipping_config")
+    .select("*")
+    .single();
+
+  if (result.error || !result.data) {
+    console.error("Error fetching shipping config:", result.error);
+    return null;
+  }
+
+  return result.data as unknown as ShippingConfig;
+};
+
+// Helper function to calculate the shipping cost for a destination country
+export const calculateShippingCost = (
+  shippingConfig: ShippingConfig,
+  country: string
+): number => {
+  if (shippingConfig.mode === "basic") {
+    // Basic mode: domestic vs international
+    const isDomestic = (shippingConfig.domestic_countries ?? ["US"]).includes(country);
+    return isDomestic
+      ? (shippingConfig.domestic_rate ?? 0)
+      : (shippingConfig.international_rate ?? 0);
+  }
+
+  if (shippingConfig.mode === "advanced") {
+    // Advanced mode: per-country rates
+    const countryRates = shippingConfig.country_rates ?? {};
+    return countryRates[country] !== undefined
+      ? countryRates[country] ?? 0
+      : (shippingConfig.default_rate ?? 0);
+  }
+
+  return 0;
+};
@@ -0,0 +1,41 @@
+/**
+ * Stock Movement Types
+ *
+ * The ledger's movement types and row shape, kept apart from ~/lib/stock so
+ * the admin UI can use them without pulling in the service-role client.
+ */
+
+export const STOCK_MOVEMENT_TYPES = [
+  "restock",
+  "sale",
+  "reservation",
+  "release",
+  "adjustment",
+  "return",
+  "write_off",
+] as const;
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+// Movement types an admin can record by hand
+export const MANUAL_STOCK_MOVEMENT_TYPES = [
+  "restock",
+  "adjustment",
+  "return",
+  "write_off",
+] as const satisfies readonly StockMovementType[];
+
+export type ManualStockMovementType = (typeof MANUAL_STOCK_MOVEMENT_TYPES)[number];
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  stock_delta: number;
+  stock_after: number;
+  reason: string | null;
+  actor: string;
+  order_id: string | null;
+  created_at: string;
+}
@@ -0,0 +1,107 @@
+/**
+ * Stock Ledger
+ *
+ * Every change to products.stock goes through the record_stock_movement
+ * Postgres function, which updates the product and appends a row to
+ * stock_movements in one transaction. Sales, reservations and releases are
+ * recorded by the database itself; this module covers manual movements made
+ * from the admin and the shared history/CSV helpers.
+ */
+
+import { supabaseAdmin } from "~/lib/supabase-admin";
+import type { StockMovement, StockMovementType } from "~/lib/stock-types";
+
+export {
+  STOCK_MOVEMENT_TYPES,
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  type StockMovementType,
+  type ManualStockMovementType,
+  type StockMovement,
+} from "~/lib/stock-types";
+
+/**
+ * Apply a stock movement and record it in the ledger
+ * @param quantity - Units moved; signed for "adjustment", absolute otherwise
+ * @returns The product's new stock, or an error (e.g. stock would go negative)
+ */
+export async function recordStockMovement(params: {
+  productId: string;
+  movementType: StockMovementType;
+  quantity: number;
+  reason?: string;
+  actor: string;
+  orderId?: string;
+}): Promise<{ stock?: number; error?: string }> {
+  const result = await supabaseAdmin.rpc("record_stock_movement", {
+    p_product_id: params.productId,
+    p_movement_type: params.movementType,
+    p_quantity: params.quantity,
+    p_reason: params.reason ?? null,
+    p_actor: params.actor,
+    p_order_id: params.orderId ?? null,
+  });
+
+  if (result.error) {
+    return { error: result.error.message };
+  }
+
+  return { stock: result.data as number };
+}
+
+/**
+ * Escape a value for a CSV cell
+ * Text that a spreadsheet would run as a formula is prefixed with ' and
+ * quoted; numbers are left alone so negative quantities stay numeric.
+ */
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render stock movements as CSV for bookkeeping
+ * @param productNames - Optional product ID → name lookup for a readable column
+ */
+export function stockMovementsToCsv(
+  movements: StockMovement[],
+  productNames: Record<string, string> = {}
+): string {
+  const header = [
+    "date",
+    "product_id",
+    "product",
+    "type",
+    "quantity",
+    "stock_change",
+    "stock_after",
+    "reason",
+    "actor",
+    "order_id",
+  ];
+
+  const rows = movements.map((movement) => [
+    movement.created_at,
+    movement.product_id,
+    productNames[movement.product_id] ?? "",
+    movement.movement_type,
+    movement.quantity,
+    movement.stock_delta,
+    movement.stock_after,
+    movement.reason,
+    movement.actor,
+    movement.order_id,
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\n");
+}
@@ -0,0 +1,22 @@
+/**
+ * Service-Role Supabase Client
+ *
+ * Bypasses row level security, so it must only be imported from API routes
+ * and the server-side helpers they use. The browser keeps the anon client in
+ * ~/lib/supabase, which can only read the public catalogue; every write goes
+ * through an API route that checks who is asking first.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { env } from "~/env";
+
+export const supabaseAdmin = createClient(
+  env.NEXT_PUBLIC_SUPABASE_URL,
+  env.SUPABASE_SERVICE_ROLE_KEY,
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  }
+);
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  calculateCouponLineDiscounts,
+  getReachedTier,
+  validateCoupon,
+  type Coupon,
+  type CouponLine,
+} from "~/lib/supabase";
+
+function coupon(overrides: Partial<Coupon>): Coupon {
+  return {
+    id: "coupon",
+    code: "COUPON",
+    discount_type: "percentage",
+    discount_value: 10,
+    discount_mode: "total",
+    current_uses: 0,
+    one_per_customer: false,
+    valid_from: "2020-01-01T00:00:00Z",
+    active: true,
+    applicable_to: "all",
+    automatic: false,
+    priority: 0,
+    stackable: true,
+    combines_with_product_discount: true,
+    created_at: "2020-01-01T00:00:00Z",
+    updated_at: "2020-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function line(productId: string, unitPrice: number, quantity = 1, productDiscount?: number): CouponLine {
+  return { productId, unitPrice, quantity, productDiscount };
+}
+
+void describe("calculateCouponLineDiscounts", () => {
+  const cases: { name: string; coupon: Partial<Coupon>; lines: CouponLine[]; expected: number[] }[] = [
+    {
+      name: "total: a percentage of each line",
+      coupon: { discount_type: "percentage", discount_value: 10, discount_mode: "total" },
+      lines: [line("shirt", 20, 3), line("hat", 40)],
+      expected: [6, 4],
+    },
+    {
+      name: "total: a fixed amount shared by line total",
+      coupon: { discount_type: "fixed", discount_value: 5, discount_mode: "total" },
+      lines: [line("shirt", 20, 3), line("hat", 40)],
+      expected: [3, 2],
+    },
+    {
+      name: "total: a fixed amount never exceeds the lines",
+      coupon: { discount_type: "fixed", discount_value: 100, discount_mode: "total" },
+      lines: [line("shirt", 20), line("hat", 10)],
+      expected: [20, 10],
+    },
+    {
+      name: "per_unit: a fixed amount off every unit",
+      coupon: { discount_type: "fixed", discount_value: 5, discount_mode: "per_unit" },
+      lines: [line("shirt", 20, 3), line("hat", 8, 2)],
+      expected: [15, 10],
+    },
+    {
+      name: "per_unit: no unit goes below zero",
+      coupon: { discount_type: "fixed", discount_value: 5, discount_mode: "per_unit" },
+      lines: [line("shirt", 20, 3), line("sticker", 3, 2)],
+      expected: [15, 6],
+    },
+    {
+      name: "per_unit: a percentage is the same as total",
+      coupon: { discount_type: "percentage", discount_value: 10, discount_mode: "per_unit" },
+      lines: [line("shirt", 20, 3), line("hat", 40)],
+      expected: [6, 4],
+    },
+    {
+      name: "cheapest_item: a percentage off one unit of the cheapest line",
+      coupon: { discount_type: "percentage", discount_value: 50, discount_mode: "cheapest_item" },
+      lines: [line("shirt", 20, 2), line("hat", 8, 3)],
+      expected: [0, 4],
+    },
+    {
+      name: "cheapest_item: a fixed amount no more than that unit",
+      coupon: { discount_type: "fixed", discount_value: 10, discount_mode: "cheapest_item" },
+      lines: [line("shirt", 20, 2), line("hat", 8, 3)],
+      expected: [0, 8],
+    },
+    {
+      name: "cheapest_item: only among eligible lines",
+      coupon: {
+        discount_type: "percentage",
+        discount_value: 50,
+        discount_mode: "cheapest_item",
+        applicable_to: "specific",
+        product_ids: ["shirt"],
+      },
+      lines: [line("shirt", 20, 2), line("hat", 8, 3)],
+      expected: [10, 0],
+    },
+    {
+      name: "skips products with their own discount unless the coupon combines",
+      coupon: { discount_type: "percentage", discount_value: 10, combines_with_product_discount: false },
+      lines: [line("shirt", 20, 3), line("hat", 40, 1, 25)],
+      expected: [6, 0],
+    },
+    {
+      name: "max_discount_amount scales every line down alike",
+      coupon: { discount_type: "percentage", discount_value: 50, max_discount_amount: 20 },
+      lines: [line("shirt", 60), line("hat", 40)],
+      expected: [12, 8],
+    },
+    {
+      name: "max_discount_amount caps per_unit discounts too",
+      coupon: { discount_type: "fixed", discount_value: 5, discount_mode: "per_unit", max_discount_amount: 10 },
+      lines: [line("shirt", 20, 3), line("hat", 8)],
+      expected: [7.5, 2.5],
+    },
+    {
+      name: "max_discount_amount above the discount changes nothing",
+      coupon: { discount_type: "percentage", discount_value: 10, max_discount_amount: 50 },
+      lines: [line("shirt", 60), line("hat", 40)],
+      expected: [6, 4],
+    },
+    {
+      name: "the leftover cent goes on the largest line",
+      coupon: { discount_type: "fixed", discount_value: 10 },
+      lines: [line("shirt", 10), line("hat", 10), line("mug", 10)],
+      expected: [3.34, 3.33, 3.33],
+    },
+    {
+      name: "a cent too many after rounding comes off the largest line",
+      coupon: { discount_type: "fixed", discount_value: 0.02 },
+      lines: [line("shirt", 10), line("hat", 10), line("mug", 10)],
+      expected: [0, 0.01, 0.01],
+    },
+  ];
+
+  for (const { name, coupon: overrides, lines, expected } of cases) {
+    void test(name, () => {
+      assert.deepEqual(calculateCouponLineDiscounts(coupon(overrides), lines), expected);
+    });
+  }
+});
+
+void describe("buy X get Y", () => {
+  const bogo = coupon({ discount_type: "buy_x_get_y", discount_value: 100, buy_quantity: 1, get_quantity: 1 });
+
+  void test("pairs units across lines and gives away the cheaper one", () => {
+    assert.deepEqual(calculateCouponLineDiscounts(bogo, [line("hat", 10), line("shirt", 20)]), [10, 0]);
+  });
+
+  void test("groups units by price, not by line", () => {
+    // Units 30, 20, 20, 10: the only complete group of three is 30, 20, 20
+    const buyTwo = coupon({ discount_type: "buy_x_get_y", discount_value: 50, buy_quantity: 2, get_quantity: 1 });
+
+    assert.deepEqual(
+      calculateCouponLineDiscounts(buyTwo, [line("mug", 10), line("shirt", 20, 2), line("jacket", 30)]),
+      [0, 10, 0]
+    );
+  });
+
+  void test("discounts one unit per complete group within a line", () => {
+    assert.deepEqual(calculateCouponLineDiscounts(bogo, [line("shirt", 20, 5)]), [40]);
+  });
+
+  void test("leaves out ineligible lines when grouping", () => {
+    const shirtsOnly = coupon({ ...bogo, applicable_to: "specific", product_ids: ["shirt"] });
+
+    assert.deepEqual(calculateCouponLineDiscounts(shirtsOnly, [line("shirt", 20), line("hat", 5)]), [0, 0]);
+    assert.deepEqual(
+      calculateCouponLineDiscounts(shirtsOnly, [line("shirt", 20, 2), line("hat", 5)]),
+      [20, 0]
+    );
+  });
+
+  void test("needs a complete group to be valid", () => {
+    const result = validateCoupon(bogo, [line("shirt", 20)]);
+
+    assert.equal(result.valid, false);
+    assert.equal(result.error, "Add 2 eligible items to your cart to use this coupon");
+  });
+});
+
+void describe("tiered", () => {
+  const tiered = coupon({
+    discount_type: "tiered",
+    discount_value: 0,
+    tiers: [
+      { minimum: 100, percentage: 10 },
+      { minimum: 50, percentage: 5 },
+    ],
+  });
+
+  const cases: [total: number, percentage: number | null][] = [
+    [49.99, null],
+    [50, 5],
+    [99.99, 5],
+    [100, 10],
+    [250, 10],
+  ];
+
+  for (const [total, percentage] of cases) {
+    void test(`$${total} reaches ${percentage === null ? "no tier" : `the ${percentage}% tier`}`, () => {
+      assert.equal(getReachedTier(tiered, total)?.percentage ?? null, percentage);
+    });
+  }
+
+  void test("takes the reached tier's percentage off every eligible line", () => {
+    assert.deepEqual(calculateCouponLineDiscounts(tiered, [line("shirt", 60), line("hat", 40)]), [6, 4]);
+  });
+
+  void test("counts only eligible spend towards a tier", () => {
+    const shirtsOnly = coupon({ ...tiered, applicable_to: "specific", product_ids: ["shirt"] });
+
+    assert.deepEqual(calculateCouponLineDiscounts(shirtsOnly, [line("shirt", 60), line("hat", 40)]), [3, 0]);
+  });
+
+  void test("is invalid below the lowest tier", () => {
+    const result = validateCoupon(tiered, [line("shirt", 49.99)]);
+
+    assert.equal(result.valid, false);
+    assert.equal(result.error, "Spend $50.00 on eligible items to use this coupon");
+  });
+});
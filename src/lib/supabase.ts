@@ -61,12 +61,40 @@ export interface LabTest {
   updated_at: string;
 }
 
+// What a coupon gives:
+// - percentage / fixed: an amount off the eligible lines (see discount_mode)
+// - free_shipping: waives the shipping cost
+// - buy_x_get_y: discount_value percent off Y units for every X bought
+// - tiered: the percentage of the highest spend tier the eligible lines reach
+export type CouponDiscountType =
+  | "percentage"
+  | "fixed"
+  | "free_shipping"
+  | "buy_x_get_y"
+  | "tiered";
+
+// How a percentage or fixed discount is spread over the lines it applies to:
+// - total: once over the eligible lines' combined total
+// - per_unit: on every eligible unit (only differs from total for fixed amounts)
+// - cheapest_item: on a single unit of the cheapest eligible line
+export type CouponDiscountMode = "total" | "per_unit" | "cheapest_item";
+
+export interface CouponTier {
+  minimum: number; // Eligible spend needed to reach the tier
+  percentage: number;
+}
+
 export interface Coupon {
   id: string;
   code: string;
   description?: string;
-  discount_type: "percentage" | "fixed";
+  discount_type: CouponDiscountType;
   discount_value: number;
+  discount_mode: CouponDiscountMode;
+  max_discount_amount?: number;
+  buy_quantity?: number;
+  get_quantity?: number;
+  tiers?: CouponTier[];
   minimum_order_amount?: number;
   max_uses?: number;
   current_uses: number;
@@ -76,6 +104,14 @@ export interface Coupon {
   active: boolean;
   applicable_to: "all" | "specific";
   product_ids?: string[];
+  // Applied at checkout without entering the code
+  automatic: boolean;
+  // Order among automatic promotions, highest first
+  priority: number;
+  // Whether it can be combined with other coupons and promotions
+  stackable: boolean;
+  // Whether it applies to products that already have their own discount
+  combines_with_product_discount: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -88,13 +124,191 @@ export interface CouponUsage {
   order_id?: string;
 }
 
+// A cart line as coupons see it. The unit price already includes the
+// product's own discount, its modifier adjustments and any promotions applied
+// before this coupon.
+export interface CouponLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  productDiscount?: number; // The product's own percentage discount
+}
+
+interface CouponLineEntry {
+  line: CouponLine;
+  lineTotal: number;
+  eligible: boolean;
+}
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Helper function to check whether a coupon covers a product
+export const isCouponApplicableTo = (coupon: Coupon, productId: string): boolean => {
+  if (coupon.applicable_to !== "specific" || !coupon.product_ids?.length) {
+    return true;
+  }
+  return coupon.product_ids.includes(productId);
+};
+
+// Helper function to check whether a coupon covers a cart line, which also
+// rules out discounted products for coupons that don't combine with them
+const isCouponApplicableToLine = (coupon: Coupon, line: CouponLine): boolean =>
+  isCouponApplicableTo(coupon, line.productId) &&
+  (coupon.combines_with_product_discount || !line.productDiscount);
+
+// Helper function to find the highest spend tier a total reaches
+export const getReachedTier = (coupon: Coupon, eligibleTotal: number): CouponTier | null => {
+  return (coupon.tiers ?? []).reduce<CouponTier | null>(
+    (best, tier) =>
+      eligibleTotal >= tier.minimum && (!best || tier.minimum > best.minimum) ? tier : best,
+    null
+  );
+};
+
+const toLineEntries = (coupon: Coupon, lines: CouponLine[]): CouponLineEntry[] =>
+  lines.map((line) => {
+    const lineTotal = Math.max(line.unitPrice * line.quantity, 0);
+    return {
+      line,
+      lineTotal,
+      eligible: lineTotal > 0 && isCouponApplicableToLine(coupon, line),
+    };
+  });
+
+const eligibleTotalOf = (entries: CouponLineEntry[]): number =>
+  entries.reduce((sum, entry) => (entry.eligible ? sum + entry.lineTotal : sum), 0);
+
+const eligibleUnitsOf = (entries: CouponLineEntry[]): number =>
+  entries.reduce((sum, entry) => (entry.eligible ? sum + entry.line.quantity : sum), 0);
+
+// Share an amount between the eligible lines in proportion to their totals
+const spreadOverEligible = (entries: CouponLineEntry[], amount: number): number[] => {
+  const eligibleTotal = eligibleTotalOf(entries);
+  return entries.map((entry) =>
+    entry.eligible && eligibleTotal > 0 ? (amount * entry.lineTotal) / eligibleTotal : 0
+  );
+};
+
+// Buy X get Y: eligible units are ordered from most to least expensive and in
+// every complete group of X + Y, the last Y (the cheapest) are discounted
+const buyXGetYDiscounts = (coupon: Coupon, entries: CouponLineEntry[]): number[] => {
+  const discounts = entries.map(() => 0);
+  const buy = coupon.buy_quantity ?? 0;
+  const get = coupon.get_quantity ?? 0;
+
+  if (buy < 1 || get < 1) {
+    return discounts;
+  }
+
+  const units = entries
+    .flatMap((entry, index) =>
+      entry.eligible
+        ? Array.from({ length: entry.line.quantity }, () => ({ index, price: entry.line.unitPrice }))
+        : []
+    )
+    .sort((a, b) => b.price - a.price);
+
+  const groupSize = buy + get;
+  const groupedUnits = Math.floor(units.length / groupSize) * groupSize;
+
+  units.slice(0, groupedUnits).forEach((unit, position) => {
+    if (position % groupSize >= buy) {
+      discounts[unit.index] = (discounts[unit.index] ?? 0) + (unit.price * coupon.discount_value) / 100;
+    }
+  });
+
+  return discounts;
+};
+
+const percentageOrFixedDiscounts = (coupon: Coupon, entries: CouponLineEntry[]): number[] => {
+  const rate = coupon.discount_value / 100;
+  const isPercentage = coupon.discount_type === "percentage";
+  const unitDiscount = (unitPrice: number) =>
+    isPercentage ? unitPrice * rate : Math.min(coupon.discount_value, unitPrice);
+
+  if (coupon.discount_mode === "per_unit") {
+    return entries.map(({ line, eligible }) =>
+      eligible ? unitDiscount(line.unitPrice) * line.quantity : 0
+    );
+  }
+
+  if (coupon.discount_mode === "cheapest_item") {
+    const cheapest = entries.reduce<CouponLineEntry | null>(
+      (best, entry) =>
+        entry.eligible && (!best || entry.line.unitPrice < best.line.unitPrice) ? entry : best,
+      null
+    );
+    return entries.map((entry) =>
+      entry === cheapest ? unitDiscount(entry.line.unitPrice) : 0
+    );
+  }
+
+  const eligibleTotal = eligibleTotalOf(entries);
+  return spreadOverEligible(
+    entries,
+    isPercentage ? eligibleTotal * rate : Math.min(coupon.discount_value, eligibleTotal)
+  );
+};
+
+// Helper function to split a coupon's discount over cart lines
+// Returns one amount per line, in cents, summing to the coupon's discount.
+// Free shipping coupons take nothing off the lines.
+export const calculateCouponLineDiscounts = (coupon: Coupon, lines: CouponLine[]): number[] => {
+  const entries = toLineEntries(coupon, lines);
+
+  let discounts: number[];
+
+  switch (coupon.discount_type) {
+    case "free_shipping":
+      discounts = entries.map(() => 0);
+      break;
+    case "buy_x_get_y":
+      discounts = buyXGetYDiscounts(coupon, entries);
+      break;
+    case "tiered": {
+      const eligibleTotal = eligibleTotalOf(entries);
+      const tier = getReachedTier(coupon, eligibleTotal);
+      discounts = spreadOverEligible(entries, tier ? (eligibleTotal * tier.percentage) / 100 : 0);
+      break;
+    }
+    default:
+      discounts = percentageOrFixedDiscounts(coupon, entries);
+  }
+
+  discounts = discounts.map((discount, index) =>
+    Math.min(discount, entries[index]?.lineTotal ?? 0)
+  );
+
+  // Cap the whole coupon, scaling every line down by the same factor
+  const uncapped = discounts.reduce((sum, discount) => sum + discount, 0);
+  if (coupon.max_discount_amount && uncapped > coupon.max_discount_amount) {
+    const scale = coupon.max_discount_amount / uncapped;
+    discounts = discounts.map((discount) => discount * scale);
+  }
+
+  // Round each line to cents and put any leftover cent on the largest line,
+  // so the lines always add up to the rounded total
+  const total = roundCents(discounts.reduce((sum, discount) => sum + discount, 0));
+  const rounded = discounts.map(roundCents);
+  const drift = roundCents(total - rounded.reduce((sum, discount) => sum + discount, 0));
+  const largest = rounded.indexOf(Math.max(...rounded));
+
+  return drift === 0
+    ? rounded
+    : rounded.map((discount, index) => (index === largest ? roundCents(discount + drift) : discount));
+};
+
 // Helper function to validate and calculate coupon discount
 export const validateCoupon = (
   coupon: Coupon,
-  orderTotal: number,
-  customerEmail?: string,
-  cartProductIds?: string[]
-): { valid: boolean; error?: string; discount?: number } => {
+  lines: CouponLine[]
+): {
+  valid: boolean;
+  error?: string;
+  discount?: number;
+  lineDiscounts?: number[];
+  freeShipping?: boolean;
+} => {
   // Check if coupon is active
   if (!coupon.active) {
     return { valid: false, error: "This coupon is not active" };
@@ -120,7 +334,8 @@ export const validateCoupon = (
     return { valid: false, error: "This coupon has reached its usage limit" };
   }
 
-  // Check minimum order amount
+  // Check minimum order amount (against the whole cart, not just eligible lines)
+  const orderTotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
   if (coupon.minimum_order_amount && orderTotal < coupon.minimum_order_amount) {
     return {
       valid: false,
@@ -129,25 +344,41 @@ export const validateCoupon = (
   }
 
   // Check product applicability
-  if (coupon.applicable_to === "specific" && coupon.product_ids && cartProductIds) {
-    const hasApplicableProduct = cartProductIds.some((id) =>
-      coupon.product_ids?.includes(id)
-    );
-    if (!hasApplicableProduct) {
-      return { valid: false, error: "This coupon is not applicable to items in your cart" };
+  if (!lines.some((line) => isCouponApplicableTo(coupon, line.productId))) {
+    return { valid: false, error: "This coupon is not applicable to items in your cart" };
+  }
+
+  if (!lines.some((line) => isCouponApplicableToLine(coupon, line))) {
+    return { valid: false, error: "This coupon can't be used on items that are already discounted" };
+  }
+
+  const entries = toLineEntries(coupon, lines);
+
+  // Check the cart qualifies for the coupon's type
+  if (coupon.discount_type === "buy_x_get_y") {
+    const needed = (coupon.buy_quantity ?? 0) + (coupon.get_quantity ?? 0);
+    if (eligibleUnitsOf(entries) < needed) {
+      return { valid: false, error: `Add ${needed} eligible items to your cart to use this coupon` };
     }
   }
 
-  // Calculate discount
-  let discount = 0;
-  if (coupon.discount_type === "percentage") {
-    discount = (orderTotal * coupon.discount_value) / 100;
-  } else {
-    discount = coupon.discount_value;
+  if (coupon.discount_type === "tiered" && !getReachedTier(coupon, eligibleTotalOf(entries))) {
+    const lowest = Math.min(...(coupon.tiers ?? []).map((tier) => tier.minimum));
+    return {
+      valid: false,
+      error: Number.isFinite(lowest)
+        ? `Spend $${lowest.toFixed(2)} on eligible items to use this coupon`
+        : "This coupon is not applicable to items in your cart",
+    };
   }
 
-  // Ensure discount doesn't exceed order total
-  discount = Math.min(discount, orderTotal);
+  const lineDiscounts = calculateCouponLineDiscounts(coupon, lines);
+  const discount = roundCents(lineDiscounts.reduce((sum, amount) => sum + amount, 0));
 
-  return { valid: true, discount };
+  return {
+    valid: true,
+    discount,
+    lineDiscounts,
+    freeShipping: coupon.discount_type === "free_shipping",
+  };
 };
@@ -0,0 +1,260 @@
+/**
+ * Fake Supabase Client
+ *
+ * An in-memory stand-in for the service-role client, covering the query
+ * builder calls the lib modules make, so their flows can be tested without a
+ * database. Every query resolves on a later tick, like a round trip to the
+ * database, so calls started together interleave the way they would for
+ * real. Only for tests.
+ */
+
+import { randomUUID } from "crypto";
+import { isDeepStrictEqual } from "util";
+import { mock } from "node:test";
+import { supabaseAdmin } from "~/lib/supabase-admin";
+
+type Row = Record<string, unknown>;
+
+interface FakeResult {
+  data: unknown;
+  error: { message: string; code: string } | null;
+}
+
+type RpcHandler = (args: Record<string, unknown>) => unknown;
+
+/**
+ * Compare a stored value with a filter value the way PostgREST would: filter
+ * values arrive as text, and jsonb columns compare as JSON
+ */
+function matches(stored: unknown, value: unknown): boolean {
+  if (stored !== null && typeof stored === "object") {
+    return isDeepStrictEqual(stored, typeof value === "string" ? JSON.parse(value) : value);
+  }
+
+  return (
+    (typeof stored === "string" || typeof stored === "number" || typeof stored === "boolean") &&
+    String(stored) === String(value)
+  );
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private operation: "select" | "insert" | "update" | "delete" = "select";
+  private values: Row[] = [];
+  private changes: Row = {};
+  private filters: ((row: Row) => boolean)[] = [];
+  private returning = false;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(changes: Row) {
+    this.operation = "update";
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => matches(row[column], value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => !matches(row[column], value));
+    return this;
+  }
+
+  ilike(column: string, pattern: string) {
+    // % and _ are wildcards unless escaped with a backslash
+    const source = [...pattern.matchAll(/\\(.)|(%)|(_)|(.)/gs)]
+      .map(([, escaped, any, one, char]) => {
+        if (any) return ".*";
+        if (one) return ".";
+        return (escaped ?? char ?? "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+    const regex = new RegExp(`^${source}$`, "is");
+
+    this.filters.push((row) => typeof row[column] === "string" && regex.test(row[column]));
+    return this;
+  }
+
+  /**
+   * PostgREST's or filter, for conditions written as column.op.value with
+   * op one of eq, is (null only) and lt
+   */
+  or(conditions: string) {
+    const tests = conditions.split(",").map((condition) => {
+      const [column = "", op, ...rest] = condition.split(".");
+      const value = rest.join(".");
+
+      switch (op) {
+        case "eq":
+          return (row: Row) => matches(row[column], value);
+        case "is":
+          return (row: Row) => value === "null" && (row[column] ?? null) === null;
+        case "lt":
+          return (row: Row) => row[column] != null && Number(row[column]) < Number(value);
+        default:
+          throw new Error(`Fake Supabase doesn't support or(${condition})`);
+      }
+    });
+
+    this.filters.push((row) => tests.some((test) => test(row)));
+    return this;
+  }
+
+  is(column: string, value: null) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.some((value) => matches(row[column], value)));
+    return this;
+  }
+
+  order() {
+    return this;
+  }
+
+  limit() {
+    return this;
+  }
+
+  single() {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<FakeResult> {
+    await new Promise((resolve) => setImmediate(resolve));
+
+    let affected: Row[];
+
+    switch (this.operation) {
+      case "insert":
+        affected = this.values.map((values) => ({
+          id: randomUUID(),
+          created_at: new Date().toISOString(),
+          ...structuredClone(values),
+        }));
+        this.rows.push(...affected);
+        break;
+      case "update":
+        affected = this.matching();
+        for (const row of affected) {
+          Object.assign(row, structuredClone(this.changes));
+        }
+        break;
+      case "delete":
+        affected = this.matching();
+        for (const row of affected) {
+          this.rows.splice(this.rows.indexOf(row), 1);
+        }
+        break;
+      default:
+        affected = this.matching();
+        this.returning = true;
+    }
+
+    if (!this.returning) {
+      return { data: null, error: null };
+    }
+
+    const data = affected.map((row) => structuredClone(row));
+
+    if (this.cardinality === "many") {
+      return { data, error: null };
+    }
+
+    if (data.length > 1 || (data.length === 0 && this.cardinality === "single")) {
+      return {
+        data: null,
+        error: { message: `Expected one row, got ${data.length}`, code: "PGRST116" },
+      };
+    }
+
+    return { data: data[0] ?? null, error: null };
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+  }
+}
+
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  private rpcs = new Map<string, RpcHandler>();
+
+  /**
+   * The rows of a table, live: changes made through queries show up here
+   */
+  table(name: string): Row[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  onRpc(name: string, handler: RpcHandler): void {
+    this.rpcs.set(name, handler);
+  }
+
+  from(name: string): FakeQuery {
+    return new FakeQuery(this.table(name));
+  }
+
+  async rpc(name: string, args: Record<string, unknown> = {}): Promise<FakeResult> {
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const handler = this.rpcs.get(name);
+    if (!handler) {
+      return { data: null, error: { message: `No fake for rpc ${name}`, code: "42883" } };
+    }
+
+    return { data: handler(args) ?? null, error: null };
+  }
+}
+
+/**
+ * Point supabaseAdmin at a fresh fake until mock.restoreAll() is called
+ */
+export function installFakeSupabase(): FakeSupabase {
+  const fake = new FakeSupabase();
+
+  mock.method(supabaseAdmin, "from", ((name: string) => fake.from(name)) as never);
+  mock.method(supabaseAdmin, "rpc", ((name: string, args?: Record<string, unknown>) =>
+    fake.rpc(name, args)) as never);
+
+  return fake;
+}
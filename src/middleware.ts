@@ -1,42 +1,145 @@
 /**
  * Next.js Middleware
  *
- * Applies comprehensive security headers to all responses.
+ * Applies comprehensive security headers to all responses, enforces CSRF
+ * protection on state-changing API requests, and tags every request with an
+ * X-Request-Id that route handlers and logs share.
  * Admin route authentication is handled by AdminAuthProvider in the admin pages.
  * This middleware runs on the Edge runtime for optimal performance.
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import {
+  generateCsrfToken,
+  requiresCsrfProtection,
+  validateCsrfToken,
+  verifyCsrfToken,
+} from "~/lib/security/csrf";
+import { CSRF_COOKIE_NAME } from "~/lib/security/csrf-client";
+import { logSecurityEvent, SecurityEventType } from "~/lib/security/logger";
+import { REQUEST_ID_HEADER, resolveRequestId } from "~/lib/security/request-id";
+
+// Called server-to-server, authenticated by their own signature, or sent by
+// the browser itself (CSP reports) rather than by our pages
+const CSRF_EXEMPT_ROUTES = ["/api/btcpay/webhook", "/api/csp-report"];
+
+const CSP_REPORT_PATH = "/api/csp-report";
 
 export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+  const nonce = btoa(crypto.randomUUID());
+  const contentSecurityPolicy = buildContentSecurityPolicy(nonce);
+
+  if (
+    pathname.startsWith("/api/") &&
+    requiresCsrfProtection(request.method) &&
+    !CSRF_EXEMPT_ROUTES.includes(pathname)
+  ) {
+    const isValid = await validateCsrfToken(request);
+
+    if (!isValid) {
+      logSecurityEvent(
+        SecurityEventType.CSRF_VIOLATION,
+        "Request rejected: missing or invalid CSRF token",
+        {
+          endpoint: pathname,
+          method: request.method,
+          clientIp: request.headers.get("x-forwarded-for")?.split(",")[0] ?? "unknown",
+          requestId,
+        }
+      );
+
+      const response = NextResponse.json(
+        { error: "Invalid CSRF token", requestId },
+        { status: 403 }
+      );
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+      await ensureCsrfCookie(response, request);
+      applySecurityHeaders(response, request, contentSecurityPolicy);
+      return response;
+    }
+  }
+
+  // Route handlers read the ID from the forwarded request headers. Next.js
+  // picks the nonce out of the forwarded policy and puts it on its own
+  // scripts; the layout reads x-nonce for any of ours.
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+  requestHeaders.set("x-nonce", nonce);
+  requestHeaders.set("Content-Security-Policy", contentSecurityPolicy);
+
   // Apply security headers to all responses
-  const response = NextResponse.next();
-  applySecurityHeaders(response, request);
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  await ensureCsrfCookie(response, request);
+  applySecurityHeaders(response, request, contentSecurityPolicy);
   return response;
 }
 
-function applySecurityHeaders(response: NextResponse, _request: NextRequest): void {
+/**
+ * Issue a new CSRF cookie when the request has none or its token has expired
+ * The cookie is readable by scripts on purpose: csrfFetch copies it into
+ * the X-CSRF-Token header.
+ */
+async function ensureCsrfCookie(response: NextResponse, request: NextRequest): Promise<void> {
+  const existing = request.cookies.get(CSRF_COOKIE_NAME)?.value;
+
+  if (existing && (await verifyCsrfToken(existing))) {
+    return;
+  }
+
+  response.cookies.set(CSRF_COOKIE_NAME, await generateCsrfToken(), {
+    httpOnly: false,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 24 * 60 * 60,
+  });
+}
+
+/**
+ * Content Security Policy for one response
+ * Scripts run only if they carry this request's nonce, or were loaded by one
+ * that does ('strict-dynamic'). Development adds 'unsafe-eval' for React
+ * Refresh; production never allows eval or inline scripts.
+ */
+function buildContentSecurityPolicy(nonce: string): string {
+  const isDevelopment = process.env.NODE_ENV === "development";
+
   // Get Supabase URL from environment
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
   const supabaseDomain = supabaseUrl ? new URL(supabaseUrl).origin : "https://*.supabase.co";
 
-  // Content Security Policy (CSP)
-  // Strict CSP to prevent XSS attacks
-  const cspHeader = [
+  return [
     "default-src 'self'",
-    "script-src 'self' 'unsafe-inline' 'unsafe-eval'", // Next.js requires unsafe-inline and unsafe-eval for development
-    "style-src 'self' 'unsafe-inline'", // Tailwind requires unsafe-inline
-    "img-src 'self' data: https: blob:",
+    `script-src 'self' 'nonce-${nonce}' 'strict-dynamic'${isDevelopment ? " 'unsafe-eval'" : ""}`,
+    "style-src 'self' 'unsafe-inline'", // Tailwind and next/font inject style tags
+    "img-src 'self' data: blob: https:", // Product images can be any https URL; QR codes are data: URLs
     "font-src 'self' data:",
-    `connect-src 'self' ${supabaseDomain} https://api.qrserver.com https://*.supabase.co`, // Allow Supabase, QR code API
+    `connect-src 'self' ${supabaseDomain}`,
     "frame-ancestors 'none'", // Prevent clickjacking
     "base-uri 'self'",
     "form-action 'self'",
     "object-src 'none'",
+    ...(isDevelopment ? [] : ["upgrade-insecure-requests"]),
+    // report-uri for browsers without the Reporting API
+    `report-uri ${CSP_REPORT_PATH}`,
+    "report-to csp-endpoint",
   ].join("; ");
+}
 
-  response.headers.set("Content-Security-Policy", cspHeader);
+function applySecurityHeaders(
+  response: NextResponse,
+  request: NextRequest,
+  contentSecurityPolicy: string
+): void {
+  response.headers.set("Content-Security-Policy", contentSecurityPolicy);
+  response.headers.set(
+    "Reporting-Endpoints",
+    `csp-endpoint="${request.nextUrl.origin}${CSP_REPORT_PATH}"`
+  );
 
   // Strict-Transport-Security (HSTS)
   // Force HTTPS for 1 year, including subdomains
@@ -0,0 +1,22 @@
+-- Migration: Admin sessions
+-- One row per admin token issued at login. The token's jti is the row id, so
+-- revoking the row signs that token out before it expires.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS admin_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_user_id UUID NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Moves forward each time the token is refreshed
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_admin_user_id ON admin_sessions(admin_user_id);
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_expires_at ON admin_sessions(expires_at);
+
+-- Only the server touches this table
+ALTER TABLE admin_sessions ENABLE ROW LEVEL SECURITY;
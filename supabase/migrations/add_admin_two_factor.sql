@@ -0,0 +1,27 @@
+-- Migration: Admin two-factor authentication
+-- Optional TOTP (authenticator app) codes as a second login step for staff
+-- accounts, plus one-time backup codes for when the device is lost.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE admin_users
+  -- Base32 secret, set once enrollment has been confirmed with a code
+  ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+  -- Secret shown in the QR code while enrollment is waiting for confirmation
+  ADD COLUMN IF NOT EXISTS totp_pending_secret TEXT,
+  ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP WITH TIME ZONE,
+  -- Last time step a code was accepted for, so a code can't be replayed
+  ADD COLUMN IF NOT EXISTS totp_last_step BIGINT;
+
+CREATE TABLE IF NOT EXISTS admin_backup_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  admin_user_id UUID NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  -- SHA-256 of the code; the codes themselves are only shown once
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_backup_codes_admin_user_id ON admin_backup_codes(admin_user_id);
+
+-- Only the server touches this table
+ALTER TABLE admin_backup_codes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+-- Migration: Admin staff accounts
+-- Replaces the single ADMIN_USERNAME/ADMIN_PASSWORD login with one account per
+-- staff member. Passwords are stored as bcrypt hashes. The first login with
+-- the ADMIN_USERNAME/ADMIN_PASSWORD pair, while this table is empty, creates
+-- the owner account; after that the env pair is no longer used.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE,
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'fulfillment', 'catalog', 'support')),
+  -- NULL until the invite has been accepted
+  password_hash TEXT,
+  -- SHA-256 of the invite token; the token itself is only shown once
+  invite_token_hash TEXT UNIQUE,
+  invite_expires_at TIMESTAMP WITH TIME ZONE,
+  invited_by TEXT,
+  disabled_at TIMESTAMP WITH TIME ZONE,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_admin_users_updated_at ON admin_users;
+CREATE TRIGGER update_admin_users_updated_at
+  BEFORE UPDATE ON admin_users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the server touches this table
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
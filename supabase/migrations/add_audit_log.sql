@@ -0,0 +1,26 @@
+-- Migration: Admin audit log
+-- One row per admin change: who made it, what they did, to which record, and
+-- the fields that changed with their values before and after. Written by the
+-- admin API routes and read by the /admin/audit page.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  actor_username TEXT NOT NULL, -- Kept so entries survive the account being deleted
+  action TEXT NOT NULL, -- e.g. product.update, coupon.delete, order.status_change
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  -- { field: { "before": ..., "after": ... } } for the fields that changed
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  metadata JSONB,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_username, created_at DESC);
+
+-- Only the server touches this table; it is append-only
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
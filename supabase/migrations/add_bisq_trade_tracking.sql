@@ -0,0 +1,28 @@
+-- Migration: Bisq trade tracking
+-- Columns the Bisq payment flow needs on top of the bisq_trades table from
+-- bisq-migration.sql. Each order opens one offer to buy BTC on Bisq; the
+-- shopper pays the BTC seller in fiat and the order is paid once the trade's
+-- payout is published.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE bisq_trades
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'offer_open',
+  -- Status values: offer_open, trading, completed, expired, cancelled
+  ADD COLUMN IF NOT EXISTS payment_account_id UUID REFERENCES payment_accounts(id),
+  ADD COLUMN IF NOT EXISTS btc_price DECIMAL(16, 4),
+  ADD COLUMN IF NOT EXISTS phase TEXT,
+  ADD COLUMN IF NOT EXISTS deposit_tx_id TEXT,
+  ADD COLUMN IF NOT EXISTS payout_tx_id TEXT,
+  ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- One offer per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bisq_trades_order_id ON bisq_trades(order_id);
+CREATE INDEX IF NOT EXISTS idx_bisq_trades_status ON bisq_trades(status);
+
+-- How long stock stays reserved once an offer is taken (covers the trade
+-- period of the slower fiat payment methods)
+INSERT INTO system_config (key, value) VALUES
+  ('trade_window_hours', '72')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,12 @@
+-- Migration: BTCPay webhook delivery tracking
+-- Webhook events are recorded in transaction_log with the BTCPay delivery ID.
+-- The unique index makes sure a delivery (and its redeliveries) is only logged once.
+-- Run this in your Supabase SQL Editor
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transaction_log_delivery_id
+  ON transaction_log ((event_data->>'deliveryId'))
+  WHERE event_data ? 'deliveryId';
+
+-- Speeds up the webhook's order lookup by invoice
+CREATE INDEX IF NOT EXISTS idx_orders_btcpay_invoice_id ON orders(btcpay_invoice_id);
+
@@ -0,0 +1,58 @@
+-- Migration: Coupon campaigns
+-- A campaign is a batch of single-use codes generated together (giveaways,
+-- influencer drops). Every code is an ordinary coupons row with max_uses = 1
+-- and the campaign's shared rules, so checkout prices them like any coupon.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS coupon_campaigns (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  code_prefix TEXT NOT NULL DEFAULT '',
+  code_template TEXT NOT NULL, -- e.g. XXXX-XXXX, each X a random character
+  -- The rules every code was created with (discount, validity, products)
+  rules JSONB NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE coupons
+ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES coupon_campaigns(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_coupons_campaign_id
+  ON coupons(campaign_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- Only the server touches this table
+ALTER TABLE coupon_campaigns ENABLE ROW LEVEL SECURITY;
+
+-- Redemptions and revenue per campaign
+-- redeemed_count counts uses currently held (unpaid orders included, released
+-- ones not); revenue is what paid orders brought in, less refunds.
+CREATE OR REPLACE FUNCTION coupon_campaign_stats()
+RETURNS TABLE (
+  campaign_id UUID,
+  code_count BIGINT,
+  redeemed_count BIGINT,
+  paid_order_count BIGINT,
+  revenue NUMERIC,
+  discount_total NUMERIC
+) AS $$
+  SELECT
+    c.campaign_id,
+    COUNT(DISTINCT c.id) AS code_count,
+    COUNT(u.id) FILTER (WHERE u.status = 'redeemed') AS redeemed_count,
+    COUNT(o.id) FILTER (WHERE o.paid_at IS NOT NULL) AS paid_order_count,
+    COALESCE(SUM(o.total_amount - COALESCE(o.refunded_amount, 0))
+      FILTER (WHERE o.paid_at IS NOT NULL), 0) AS revenue,
+    COALESCE(SUM(o.coupon_discount)
+      FILTER (WHERE o.paid_at IS NOT NULL), 0) AS discount_total
+  FROM coupons c
+  LEFT JOIN coupon_usage u ON u.coupon_id = c.id
+  LEFT JOIN orders o ON o.id = u.order_id AND u.status = 'redeemed'
+  WHERE c.campaign_id IS NOT NULL
+  GROUP BY c.campaign_id;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION coupon_campaign_stats() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION coupon_campaign_stats() TO service_role;
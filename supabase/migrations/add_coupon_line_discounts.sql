@@ -0,0 +1,11 @@
+-- Migration: Per-line coupon discounts
+-- Coupons are now calculated over the cart lines they apply to instead of the
+-- whole order total, and can target every unit, only the cheapest unit, and
+-- be capped at a maximum amount.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE coupons
+ADD COLUMN IF NOT EXISTS discount_mode TEXT NOT NULL DEFAULT 'total'
+  CHECK (discount_mode IN ('total', 'per_unit', 'cheapest_item')),
+ADD COLUMN IF NOT EXISTS max_discount_amount DECIMAL(10, 2)
+  CHECK (max_discount_amount IS NULL OR max_discount_amount > 0);
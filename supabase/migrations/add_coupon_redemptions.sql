@@ -0,0 +1,170 @@
+-- Migration: Atomic coupon redemption
+-- A coupon is redeemed by /api/orders/create in the same transaction that
+-- re-checks it, so concurrent checkouts can't push current_uses past max_uses.
+-- The redemption follows the order: it is released (and the use given back)
+-- when the order expires or is cancelled unpaid, and counted again if a late
+-- payment still arrives.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE coupon_usage
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'redeemed',
+-- Status values: redeemed, released
+ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE;
+
+-- One redemption per order, so a retried request can't count twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupon_usage_order_id
+  ON coupon_usage(order_id)
+  WHERE order_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_coupon_usage_customer
+  ON coupon_usage(coupon_id, customer_email)
+  WHERE status = 'redeemed';
+
+-- Redeem a coupon for an order.
+-- The coupon row is locked for the duration, so two checkouts racing for the
+-- last use are decided one after the other. Everything that can change
+-- between pricing and redemption is checked again here.
+-- Returns { "success": true } or { "success": false, "reason": ... } with
+-- reason one of: not_found, inactive, not_started, expired, exhausted,
+-- already_used
+CREATE OR REPLACE FUNCTION redeem_coupon(
+  p_coupon_id UUID,
+  p_order_id UUID,
+  p_customer_email TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  coupon_row RECORD;
+BEGIN
+  -- Checkout allows leaving the email blank
+  p_customer_email := NULLIF(p_customer_email, '');
+
+  -- Already redeemed for this order (e.g. a retried request)
+  IF EXISTS (
+    SELECT 1 FROM coupon_usage
+    WHERE order_id = p_order_id AND status = 'redeemed'
+  ) THEN
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  SELECT * INTO coupon_row
+  FROM coupons
+  WHERE id = p_coupon_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF NOT coupon_row.active THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'inactive');
+  END IF;
+
+  IF coupon_row.valid_from IS NOT NULL AND coupon_row.valid_from > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_started');
+  END IF;
+
+  IF coupon_row.valid_until IS NOT NULL AND coupon_row.valid_until < NOW() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'expired');
+  END IF;
+
+  IF coupon_row.max_uses IS NOT NULL AND coupon_row.max_uses > 0
+     AND coupon_row.current_uses >= coupon_row.max_uses THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'exhausted');
+  END IF;
+
+  IF coupon_row.one_per_customer AND p_customer_email IS NOT NULL AND EXISTS (
+    SELECT 1 FROM coupon_usage
+    WHERE coupon_id = p_coupon_id
+      AND lower(customer_email) = lower(p_customer_email)
+      AND status = 'redeemed'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_used');
+  END IF;
+
+  INSERT INTO coupon_usage (coupon_id, customer_email, order_id, status)
+  VALUES (p_coupon_id, p_customer_email, p_order_id, 'redeemed')
+  ON CONFLICT (order_id) WHERE order_id IS NOT NULL
+  DO UPDATE SET status = 'redeemed', released_at = NULL;
+
+  UPDATE coupons
+  SET current_uses = current_uses + 1
+  WHERE id = p_coupon_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give an unpaid order's coupon use back
+CREATE OR REPLACE FUNCTION release_coupon_redemption(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  released_coupon_id UUID;
+BEGIN
+  UPDATE coupon_usage
+  SET status = 'released', released_at = NOW()
+  WHERE order_id = p_order_id
+    AND status = 'redeemed'
+  RETURNING coupon_id INTO released_coupon_id;
+
+  IF released_coupon_id IS NOT NULL THEN
+    UPDATE coupons
+    SET current_uses = GREATEST(current_uses - 1, 0)
+    WHERE id = released_coupon_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count a released redemption again once its order is paid after all.
+-- Like stock, a late payment means the sale happened, even if that takes the
+-- coupon past max_uses.
+CREATE OR REPLACE FUNCTION restore_coupon_redemption(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  restored_coupon_id UUID;
+BEGIN
+  UPDATE coupon_usage
+  SET status = 'redeemed', released_at = NULL
+  WHERE order_id = p_order_id
+    AND status = 'released'
+  RETURNING coupon_id INTO restored_coupon_id;
+
+  IF restored_coupon_id IS NOT NULL THEN
+    UPDATE coupons
+    SET current_uses = current_uses + 1
+    WHERE id = restored_coupon_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Follow order status changes, whichever code path made them
+CREATE OR REPLACE FUNCTION apply_order_coupon_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'paid' THEN
+    PERFORM restore_coupon_redemption(NEW.id);
+  ELSIF NEW.status IN ('expired', 'cancelled') THEN
+    PERFORM release_coupon_redemption(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_order_coupon_status ON orders;
+CREATE TRIGGER apply_order_coupon_status
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_order_coupon_status();
+
+-- Only the server may redeem or release coupons
+REVOKE EXECUTE ON FUNCTION redeem_coupon(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_coupon(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION release_coupon_redemption(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION restore_coupon_redemption(UUID) TO service_role;
@@ -0,0 +1,165 @@
+-- Migration: Coupon stacking and automatic promotions
+-- Automatic promotions are coupons that apply at checkout without a code.
+-- Each coupon says whether it combines with other coupons and promotions, and
+-- whether it applies to products that already have their own discount.
+-- An order can now carry several coupons, so usage is tracked per order and
+-- coupon instead of per order.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE coupons
+ADD COLUMN IF NOT EXISTS automatic BOOLEAN NOT NULL DEFAULT false,
+-- Order among automatic promotions, highest first
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS stackable BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS combines_with_product_discount BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_coupons_automatic
+  ON coupons(priority DESC, created_at)
+  WHERE automatic AND active;
+
+-- Promotions applied to the order, in the order they were applied
+-- Format: [{ "couponId": "...", "code": "SPRING", "automatic": true,
+--            "discount": 12.5, "freeShipping": false }]
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS promotions JSONB;
+
+-- One redemption per coupon per order
+DROP INDEX IF EXISTS idx_coupon_usage_order_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupon_usage_order_coupon
+  ON coupon_usage(order_id, coupon_id)
+  WHERE order_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION redeem_coupon(
+  p_coupon_id UUID,
+  p_order_id UUID,
+  p_customer_email TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  coupon_row RECORD;
+BEGIN
+  -- Checkout allows leaving the email blank
+  p_customer_email := NULLIF(p_customer_email, '');
+
+  -- Already redeemed for this order (e.g. a retried request)
+  IF EXISTS (
+    SELECT 1 FROM coupon_usage
+    WHERE order_id = p_order_id AND coupon_id = p_coupon_id AND status = 'redeemed'
+  ) THEN
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  SELECT * INTO coupon_row
+  FROM coupons
+  WHERE id = p_coupon_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF NOT coupon_row.active THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'inactive');
+  END IF;
+
+  IF coupon_row.valid_from IS NOT NULL AND coupon_row.valid_from > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_started');
+  END IF;
+
+  IF coupon_row.valid_until IS NOT NULL AND coupon_row.valid_until < NOW() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'expired');
+  END IF;
+
+  IF coupon_row.max_uses IS NOT NULL AND coupon_row.max_uses > 0
+     AND coupon_row.current_uses >= coupon_row.max_uses THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'exhausted');
+  END IF;
+
+  IF coupon_row.one_per_customer AND p_customer_email IS NOT NULL AND EXISTS (
+    SELECT 1 FROM coupon_usage
+    WHERE coupon_id = p_coupon_id
+      AND lower(customer_email) = lower(p_customer_email)
+      AND status = 'redeemed'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_used');
+  END IF;
+
+  INSERT INTO coupon_usage (coupon_id, customer_email, order_id, status)
+  VALUES (p_coupon_id, p_customer_email, p_order_id, 'redeemed')
+  ON CONFLICT (order_id, coupon_id) WHERE order_id IS NOT NULL
+  DO UPDATE SET status = 'redeemed', released_at = NULL;
+
+  UPDATE coupons
+  SET current_uses = current_uses + 1
+  WHERE id = p_coupon_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give an unpaid order's coupon uses back
+CREATE OR REPLACE FUNCTION release_coupon_redemption(p_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  WITH released AS (
+    UPDATE coupon_usage
+    SET status = 'released', released_at = NOW()
+    WHERE order_id = p_order_id
+      AND status = 'redeemed'
+    RETURNING coupon_id
+  )
+  UPDATE coupons
+  SET current_uses = GREATEST(current_uses - 1, 0)
+  WHERE id IN (SELECT coupon_id FROM released);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count released redemptions again once their order is paid after all
+CREATE OR REPLACE FUNCTION restore_coupon_redemption(p_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  WITH restored AS (
+    UPDATE coupon_usage
+    SET status = 'redeemed', released_at = NULL
+    WHERE order_id = p_order_id
+      AND status = 'released'
+    RETURNING coupon_id
+  )
+  UPDATE coupons
+  SET current_uses = current_uses + 1
+  WHERE id IN (SELECT coupon_id FROM restored);
+END;
+$$ LANGUAGE plpgsql;
+
+-- A campaign's discount is its own share of each order's promotions; orders
+-- from before promotions were recorded only had the one coupon
+CREATE OR REPLACE FUNCTION coupon_campaign_stats()
+RETURNS TABLE (
+  campaign_id UUID,
+  code_count BIGINT,
+  redeemed_count BIGINT,
+  paid_order_count BIGINT,
+  revenue NUMERIC,
+  discount_total NUMERIC
+) AS $$
+  SELECT
+    c.campaign_id,
+    COUNT(DISTINCT c.id) AS code_count,
+    COUNT(u.id) FILTER (WHERE u.status = 'redeemed') AS redeemed_count,
+    COUNT(o.id) FILTER (WHERE o.paid_at IS NOT NULL) AS paid_order_count,
+    COALESCE(SUM(o.total_amount - COALESCE(o.refunded_amount, 0))
+      FILTER (WHERE o.paid_at IS NOT NULL), 0) AS revenue,
+    COALESCE(SUM(
+      COALESCE(
+        (SELECT SUM((p->>'discount')::NUMERIC)
+         FROM jsonb_array_elements(o.promotions) p
+         WHERE p->>'couponId' = c.id::TEXT),
+        o.coupon_discount
+      )
+    ) FILTER (WHERE o.paid_at IS NOT NULL), 0) AS discount_total
+  FROM coupons c
+  LEFT JOIN coupon_usage u ON u.coupon_id = c.id
+  LEFT JOIN orders o ON o.id = u.order_id AND u.status = 'redeemed'
+  WHERE c.campaign_id IS NOT NULL
+  GROUP BY c.campaign_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,20 @@
+-- Migration: Free shipping, buy-X-get-Y and tiered coupons
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE coupons
+ADD COLUMN IF NOT EXISTS buy_quantity INTEGER CHECK (buy_quantity IS NULL OR buy_quantity > 0),
+ADD COLUMN IF NOT EXISTS get_quantity INTEGER CHECK (get_quantity IS NULL OR get_quantity > 0),
+-- Tiers format: [{ "minimum": 100, "percentage": 10 }, { "minimum": 250, "percentage": 15 }]
+ADD COLUMN IF NOT EXISTS tiers JSONB;
+
+-- Discount types: percentage, fixed, free_shipping, buy_x_get_y, tiered
+ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_discount_type_check;
+ALTER TABLE coupons
+ADD CONSTRAINT coupons_discount_type_check
+  CHECK (discount_type IN ('percentage', 'fixed', 'free_shipping', 'buy_x_get_y', 'tiered'));
+
+-- Free shipping and tiered coupons keep their discount elsewhere and store 0
+ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_discount_value_check;
+ALTER TABLE coupons
+ADD CONSTRAINT coupons_discount_value_check
+  CHECK (discount_value >= 0);
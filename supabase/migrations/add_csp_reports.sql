@@ -0,0 +1,27 @@
+-- Migration: Content Security Policy violation reports
+-- Browsers POST a report to /api/csp-report whenever the policy set in
+-- middleware.ts blocks something. Each row is one violation, kept so a policy
+-- that is too strict (or an injected script) shows up.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS csp_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_uri TEXT,
+  blocked_uri TEXT,
+  effective_directive TEXT,
+  source_file TEXT,
+  line_number INTEGER,
+  column_number INTEGER,
+  disposition TEXT,
+  -- Disposition values: enforce, report
+  user_agent TEXT,
+  client_id TEXT,
+  report JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_csp_reports_created_at ON csp_reports(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_csp_reports_directive ON csp_reports(effective_directive, created_at DESC);
+
+-- Only the server touches this table
+ALTER TABLE csp_reports ENABLE ROW LEVEL SECURITY;
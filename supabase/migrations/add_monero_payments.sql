@@ -0,0 +1,65 @@
+-- Migration: Direct Monero payments
+-- Orders paid straight to the shop's own wallet through monero-wallet-rpc.
+-- Each order gets its own subaddress; incoming transfers are polled and the
+-- order is marked paid once they have enough confirmations.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS monero_payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+
+  -- Subaddress the buyer pays to
+  address TEXT NOT NULL UNIQUE,
+  account_index INTEGER NOT NULL DEFAULT 0,
+  address_index INTEGER NOT NULL,
+
+  -- Quote (amounts in atomic units, 1 XMR = 10^12)
+  usd_amount DECIMAL(10, 2) NOT NULL,
+  xmr_rate DECIMAL(16, 8) NOT NULL, -- USD per XMR at quote time
+  rate_source TEXT NOT NULL,
+  amount_atomic BIGINT NOT NULL,
+
+  -- Progress
+  status TEXT NOT NULL DEFAULT 'waiting',
+  -- Status values: waiting, confirming, paid, expired, underpaid (expired
+  -- with only part of the amount received)
+  received_atomic BIGINT NOT NULL DEFAULT 0,
+  confirmed_atomic BIGINT NOT NULL DEFAULT 0,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  confirmations_required INTEGER NOT NULL,
+  txids JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_monero_payments_status ON monero_payments(status);
+
+DROP TRIGGER IF EXISTS update_monero_payments_updated_at ON monero_payments;
+CREATE TRIGGER update_monero_payments_updated_at
+  BEFORE UPDATE ON monero_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE monero_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read monero_payments" ON monero_payments;
+DROP POLICY IF EXISTS "Allow public insert monero_payments" ON monero_payments;
+DROP POLICY IF EXISTS "Allow public update monero_payments" ON monero_payments;
+
+-- Note: Access is handled at the application level (API routes)
+CREATE POLICY "Allow public read monero_payments" ON monero_payments
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert monero_payments" ON monero_payments
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update monero_payments" ON monero_payments
+  FOR UPDATE
+  USING (true);
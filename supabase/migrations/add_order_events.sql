@@ -0,0 +1,42 @@
+-- Migration: Order status history
+-- orders.status moves through a fixed state machine (see src/lib/order-status.ts)
+-- and every move is appended to order_events with who made it and when. The
+-- admin order view and the public track-order page show it as a timeline.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT, -- NULL for the order being placed
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL DEFAULT 'system', -- Admin username, or the payment rail / process that made the change
+  note TEXT,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+-- History is append-only: no update or delete policies
+DROP POLICY IF EXISTS "Allow public read order_events" ON order_events;
+DROP POLICY IF EXISTS "Allow public insert order_events" ON order_events;
+
+CREATE POLICY "Allow public read order_events" ON order_events
+  FOR SELECT
+  USING (true);
+
+-- Note: Admin authentication is handled at the application level
+CREATE POLICY "Allow public insert order_events" ON order_events
+  FOR INSERT
+  WITH CHECK (true);
+
+-- Start the history of existing orders at their current status
+INSERT INTO order_events (order_id, from_status, to_status, actor, note, created_at)
+SELECT id, NULL, status, 'system', 'status before order history was recorded', COALESCE(paid_at, created_at)
+FROM orders
+WHERE NOT EXISTS (SELECT 1 FROM order_events WHERE order_events.order_id = orders.id);
+
+COMMENT ON COLUMN orders.status IS 'Order status: pending, awaiting_payment, paid, processing, shipped, delivered, cancelled, expired, partially_refunded, refunded. Change it through the app so the move is checked and recorded in order_events.';
@@ -0,0 +1,34 @@
+-- Migration: Server-side order price breakdown
+-- Orders are now priced on the server from the products, shipping_config and
+-- coupons tables. The per-line breakdown used to arrive at total_amount is
+-- stored alongside the order.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS price_breakdown JSONB;
+
+COMMENT ON COLUMN orders.price_breakdown IS 'Server-computed pricing: per-line base price, product discount, modifier adjustments and line total, plus subtotal, shipping, coupon discount and total.';
+
+-- Example of price_breakdown structure:
+-- {
+--   "lines": [
+--     {
+--       "productId": "…",
+--       "name": "Product",
+--       "quantity": 2,
+--       "basePrice": 50.00,
+--       "productDiscount": 10,
+--       "discountedPrice": 45.00,
+--       "modifierAdjustment": 5.00,
+--       "unitPrice": 50.00,
+--       "lineTotal": 100.00,
+--       "selectedModifiers": [{ "groupId": "…", "groupLabel": "…", "optionId": "…", "optionLabel": "…", "priceAdjustment": 5.00 }]
+--     }
+--   ],
+--   "subtotal": 100.00,
+--   "shippingCost": 10.00,
+--   "couponId": null,
+--   "couponCode": null,
+--   "couponDiscount": 0,
+--   "total": 110.00
+-- }
@@ -0,0 +1,36 @@
+-- Migration: Order refunds
+-- Paid orders can be refunded in full or by line item through BTCPay pull
+-- payments. Each refund is recorded in transaction_log as a "refund_created"
+-- event; the order keeps the running total and the units refunded per line,
+-- so partial refunds can't exceed what was paid.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_lines JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN orders.status IS 'Order status: pending, paid, shipped, delivered, cancelled, expired, partially_refunded, refunded';
+COMMENT ON COLUMN orders.refunded_amount IS 'Total refunded so far, in the order currency (USD)';
+COMMENT ON COLUMN orders.refunded_lines IS 'Units refunded so far, keyed by position in items, e.g. {"0": 2}';
+
+-- Refunds logged before refunded_lines existed
+UPDATE orders
+SET refunded_lines = logged.lines
+FROM (
+  SELECT order_id, jsonb_object_agg(line_index, quantity) AS lines
+  FROM (
+    SELECT t.order_id, line->>'index' AS line_index, SUM((line->>'quantity')::INTEGER) AS quantity
+    FROM transaction_log t,
+      jsonb_array_elements(COALESCE(t.event_data->'lines', '[]'::jsonb)) AS line
+    WHERE t.event_type = 'refund_created'
+    GROUP BY t.order_id, line->>'index'
+  ) per_line
+  GROUP BY order_id
+) logged
+WHERE orders.id = logged.order_id
+  AND orders.refunded_lines = '{}'::jsonb;
+
+-- Refund history lookups per order
+CREATE INDEX IF NOT EXISTS idx_transaction_log_order_event
+  ON transaction_log(order_id, event_type);
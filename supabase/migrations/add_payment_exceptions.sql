@@ -0,0 +1,24 @@
+-- Migration: Underpaid, overpaid and late invoice payments
+-- BTCPay reports these as the invoice's additionalStatus (PaidPartial, PaidOver,
+-- PaidLate). The order is flagged with what happened and by how much, and
+-- stays in the admin queue until someone resolves it.
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payment_exception TEXT,
+  ADD COLUMN IF NOT EXISTS payment_exception_amount DECIMAL(10, 2),
+  ADD COLUMN IF NOT EXISTS payment_exception_resolution TEXT,
+  ADD COLUMN IF NOT EXISTS payment_exception_resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS top_up_invoice_id TEXT;
+
+COMMENT ON COLUMN orders.payment_exception IS 'underpaid, overpaid or paid_late';
+COMMENT ON COLUMN orders.payment_exception_amount IS 'USD shortfall (underpaid) or excess (overpaid)';
+COMMENT ON COLUMN orders.payment_exception_resolution IS 'accepted, top_up_requested, topped_up or excess_refunded';
+COMMENT ON COLUMN orders.top_up_invoice_id IS 'BTCPay invoice for the rest of an underpaid order';
+
+-- The admin queue: flagged and not yet resolved
+CREATE INDEX IF NOT EXISTS idx_orders_payment_exception_open
+  ON orders(created_at)
+  WHERE payment_exception IS NOT NULL AND payment_exception_resolved_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_top_up_invoice_id ON orders(top_up_invoice_id);
@@ -0,0 +1,153 @@
+-- Migration: Shared rate limits
+-- Backs RATE_LIMIT_STORE=postgres. Each row holds the counter for one rate
+-- limit key, so limits are shared between instances and survive deploys.
+-- Keys are namespaced by route, algorithm and window (e.g.
+-- "/api/admin/login:fixed-window:900000:<client>"), so a row is only ever
+-- counted with one config.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  algorithm TEXT NOT NULL,
+  -- Algorithm values: fixed-window, sliding-window, token-bucket
+  count INTEGER NOT NULL DEFAULT 0,
+  previous_count INTEGER NOT NULL DEFAULT 0,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  tokens DOUBLE PRECISION NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
+
+-- Only the server touches this table
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Record one request against a key.
+-- The row is locked for the duration, so concurrent requests for the same key
+-- are counted one after the other. A row that has expired starts over.
+-- Returns { "allowed": bool, "remaining": n, "reset_at": timestamp }
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_key TEXT,
+  p_algorithm TEXT,
+  p_window_ms INTEGER,
+  p_max_requests INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  now_ts TIMESTAMP WITH TIME ZONE := clock_timestamp();
+  window_len INTERVAL := make_interval(secs => p_window_ms / 1000.0);
+  entry rate_limits%ROWTYPE;
+  aligned_start TIMESTAMP WITH TIME ZONE;
+  weighted DOUBLE PRECISION;
+  refill_per_sec DOUBLE PRECISION := p_max_requests / (p_window_ms / 1000.0);
+  reset_at TIMESTAMP WITH TIME ZONE;
+  allowed BOOLEAN := false;
+  remaining INTEGER := 0;
+BEGIN
+  IF p_algorithm NOT IN ('fixed-window', 'sliding-window', 'token-bucket') THEN
+    RAISE EXCEPTION 'Unknown rate limit algorithm: %', p_algorithm;
+  END IF;
+
+  INSERT INTO rate_limits (key, algorithm, tokens, window_start, updated_at, expires_at)
+  VALUES (p_key, p_algorithm, p_max_requests, now_ts, now_ts, now_ts)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO entry FROM rate_limits WHERE key = p_key FOR UPDATE;
+
+  IF entry.expires_at < now_ts THEN
+    entry.algorithm := p_algorithm;
+    entry.count := 0;
+    entry.previous_count := 0;
+    entry.window_start := now_ts;
+    entry.tokens := p_max_requests;
+    entry.updated_at := now_ts;
+  END IF;
+
+  IF p_algorithm = 'fixed-window' THEN
+    IF entry.count = 0 OR now_ts > entry.window_start + window_len THEN
+      entry.count := 0;
+      entry.window_start := now_ts;
+    END IF;
+
+    reset_at := entry.window_start + window_len;
+    entry.expires_at := reset_at;
+
+    IF entry.count < p_max_requests THEN
+      entry.count := entry.count + 1;
+      allowed := true;
+      remaining := p_max_requests - entry.count;
+    END IF;
+
+  ELSIF p_algorithm = 'sliding-window' THEN
+    aligned_start := to_timestamp(
+      floor(extract(epoch FROM now_ts) * 1000 / p_window_ms) * p_window_ms / 1000.0
+    );
+
+    IF entry.window_start <> aligned_start THEN
+      entry.previous_count := CASE
+        WHEN entry.window_start = aligned_start - window_len THEN entry.count
+        ELSE 0
+      END;
+      entry.count := 0;
+      entry.window_start := aligned_start;
+    END IF;
+
+    weighted := entry.previous_count
+      * (1 - extract(epoch FROM now_ts - aligned_start) * 1000 / p_window_ms)
+      + entry.count;
+    reset_at := aligned_start + window_len;
+    entry.expires_at := aligned_start + 2 * window_len;
+
+    IF weighted + 1 <= p_max_requests THEN
+      entry.count := entry.count + 1;
+      allowed := true;
+      remaining := GREATEST(floor(p_max_requests - weighted - 1), 0);
+    ELSE
+      IF entry.previous_count > 0 AND entry.count + 1 <= p_max_requests THEN
+        reset_at := LEAST(
+          reset_at,
+          reset_at - window_len
+            * ((p_max_requests - 1 - entry.count)::DOUBLE PRECISION / entry.previous_count)
+        );
+      END IF;
+    END IF;
+
+  ELSE
+    entry.tokens := LEAST(
+      p_max_requests,
+      entry.tokens + extract(epoch FROM now_ts - entry.updated_at) * refill_per_sec
+    );
+    entry.updated_at := now_ts;
+    entry.expires_at := now_ts + window_len;
+
+    IF entry.tokens >= 1 THEN
+      entry.tokens := entry.tokens - 1;
+      allowed := true;
+      remaining := floor(entry.tokens);
+      reset_at := now_ts + make_interval(secs => (p_max_requests - entry.tokens) / refill_per_sec);
+    ELSE
+      reset_at := now_ts + make_interval(secs => (1 - entry.tokens) / refill_per_sec);
+    END IF;
+  END IF;
+
+  UPDATE rate_limits
+  SET algorithm = entry.algorithm,
+      count = entry.count,
+      previous_count = entry.previous_count,
+      window_start = entry.window_start,
+      tokens = entry.tokens,
+      updated_at = entry.updated_at,
+      expires_at = entry.expires_at
+  WHERE key = p_key;
+
+  RETURN jsonb_build_object(
+    'allowed', allowed,
+    'remaining', remaining,
+    'reset_at', reset_at
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
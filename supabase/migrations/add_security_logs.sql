@@ -0,0 +1,24 @@
+-- Migration: Security log table
+-- Backs the "database" entry in LOG_SINKS. Each row is one structured log
+-- entry from src/lib/security/logger.ts, so security events can be queried
+-- after the console output is gone.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS security_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  level TEXT NOT NULL,
+  -- Level values: INFO, WARN, ERROR, SECURITY
+  event_type TEXT,
+  message TEXT NOT NULL,
+  client_id TEXT,
+  endpoint TEXT,
+  status_code INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_logs_created_at ON security_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_logs_event_type ON security_logs(event_type, created_at DESC);
+
+-- Only the server touches this table
+ALTER TABLE security_logs ENABLE ROW LEVEL SECURITY;
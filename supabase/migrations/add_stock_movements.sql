@@ -0,0 +1,249 @@
+-- Migration: Stock movement ledger
+-- Every change to products.stock is recorded in stock_movements with its type,
+-- reason, actor and (where relevant) order. Reservations and releases are
+-- recorded too, with a stock_delta of 0 since they don't change on-hand stock.
+-- products.stock stays the fast read path and can be reconciled against the
+-- ledger with the stock_ledger_reconciliation view.
+-- Requires add_stock_reservations.sql
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN (
+    'restock', 'sale', 'reservation', 'release', 'adjustment', 'return', 'write_off'
+  )),
+  quantity INTEGER NOT NULL, -- Units moved (signed for manual adjustments)
+  stock_delta INTEGER NOT NULL, -- Effect on products.stock
+  stock_after INTEGER NOT NULL, -- products.stock after this movement
+  reason TEXT,
+  actor TEXT NOT NULL DEFAULT 'system', -- Admin username, or 'system' for automatic movements
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order_id ON stock_movements(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- The ledger is append-only and only written by the functions below, which
+-- run with their owner's rights (SECURITY DEFINER): no insert, update or
+-- delete policies, and no direct write grants
+DROP POLICY IF EXISTS "Allow public read stock_movements" ON stock_movements;
+DROP POLICY IF EXISTS "Allow public insert stock_movements" ON stock_movements;
+
+CREATE POLICY "Allow public read stock_movements" ON stock_movements
+  FOR SELECT
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON stock_movements FROM PUBLIC, anon, authenticated;
+
+-- Apply a stock movement to a product and record it in the ledger.
+-- restock, return:        +quantity
+-- sale, write_off:        -quantity
+-- adjustment:             quantity is the signed change
+-- reservation, release:   no change to on-hand stock
+-- Sales are clamped at zero (a late payment for stock that's gone is still a
+-- sale); manual movements that would take stock negative are rejected.
+-- Returns the product's new stock.
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id UUID,
+  p_movement_type TEXT,
+  p_quantity INTEGER,
+  p_reason TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT 'system',
+  p_order_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  current_stock INTEGER;
+  delta INTEGER;
+  new_stock INTEGER;
+BEGIN
+  SELECT stock INTO current_stock
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  delta := CASE p_movement_type
+    WHEN 'restock' THEN ABS(p_quantity)
+    WHEN 'return' THEN ABS(p_quantity)
+    WHEN 'sale' THEN -ABS(p_quantity)
+    WHEN 'write_off' THEN -ABS(p_quantity)
+    WHEN 'adjustment' THEN p_quantity
+    WHEN 'reservation' THEN 0
+    WHEN 'release' THEN 0
+  END;
+
+  IF delta IS NULL THEN
+    RAISE EXCEPTION 'Unknown stock movement type: %', p_movement_type;
+  END IF;
+
+  IF current_stock + delta < 0 THEN
+    IF p_movement_type = 'sale' THEN
+      delta := -current_stock;
+    ELSE
+      RAISE EXCEPTION 'Stock for product % cannot go below zero (current: %, change: %)',
+        p_product_id, current_stock, delta;
+    END IF;
+  END IF;
+
+  new_stock := current_stock + delta;
+
+  IF delta <> 0 THEN
+    -- Tell the products trigger this change is already being recorded
+    PERFORM set_config('app.stock_movement_recorded', 'true', true);
+
+    UPDATE products SET stock = new_stock WHERE id = p_product_id;
+
+    PERFORM set_config('app.stock_movement_recorded', 'false', true);
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id, movement_type, quantity, stock_delta, stock_after, reason, actor, order_id
+  )
+  VALUES (
+    p_product_id,
+    p_movement_type,
+    CASE WHEN p_movement_type = 'adjustment' THEN p_quantity ELSE ABS(p_quantity) END,
+    delta,
+    new_stock,
+    p_reason,
+    COALESCE(p_actor, 'system'),
+    p_order_id
+  );
+
+  RETURN new_stock;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record stock changes that bypassed record_stock_movement (product creation,
+-- direct updates from the SQL editor or older clients) so the ledger never
+-- silently drifts from products.stock
+CREATE OR REPLACE FUNCTION log_unrecorded_stock_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.stock_movement_recorded', true) = 'true' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stock <> 0 THEN
+      INSERT INTO stock_movements (product_id, movement_type, quantity, stock_delta, stock_after, reason, actor)
+      VALUES (NEW.id, 'restock', NEW.stock, NEW.stock, NEW.stock, 'initial stock', 'system');
+    END IF;
+  ELSIF NEW.stock IS DISTINCT FROM OLD.stock THEN
+    INSERT INTO stock_movements (product_id, movement_type, quantity, stock_delta, stock_after, reason, actor)
+    VALUES (
+      NEW.id,
+      'adjustment',
+      NEW.stock - OLD.stock,
+      NEW.stock - OLD.stock,
+      NEW.stock,
+      'direct stock update (not recorded through the ledger)',
+      'unknown'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_unrecorded_stock_change ON products;
+CREATE TRIGGER log_unrecorded_stock_change
+  AFTER INSERT OR UPDATE OF stock ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_unrecorded_stock_change();
+
+-- Reservations and releases go into the ledger as they happen
+CREATE OR REPLACE FUNCTION log_stock_reservation_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM record_stock_movement(
+      NEW.product_id, 'reservation', NEW.quantity, 'held for order', 'system', NEW.order_id
+    );
+  ELSIF OLD.status = 'active' AND NEW.status = 'released' THEN
+    PERFORM record_stock_movement(
+      NEW.product_id,
+      'release',
+      NEW.quantity,
+      CASE WHEN NEW.expires_at <= NOW() THEN 'reservation expired' ELSE 'order cancelled or expired' END,
+      'system',
+      NEW.order_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_stock_reservation_movement ON stock_reservations;
+CREATE TRIGGER log_stock_reservation_movement
+  AFTER INSERT OR UPDATE OF status ON stock_reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION log_stock_reservation_movement();
+
+-- Sales now go through the ledger (replaces the version from add_stock_reservations.sql)
+CREATE OR REPLACE FUNCTION commit_order_stock(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  line RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = p_order_id) THEN
+    FOR line IN
+      SELECT id, product_id, quantity
+      FROM stock_reservations
+      WHERE order_id = p_order_id
+        AND status <> 'committed'
+      ORDER BY product_id
+    LOOP
+      PERFORM record_stock_movement(
+        line.product_id, 'sale', line.quantity, 'order paid', 'system', p_order_id
+      );
+
+      UPDATE stock_reservations
+      SET status = 'committed', resolved_at = NOW()
+      WHERE id = line.id;
+    END LOOP;
+  ELSE
+    FOR line IN
+      SELECT (item->>'id')::UUID AS product_id, SUM((item->>'quantity')::INTEGER) AS quantity
+      FROM orders, jsonb_array_elements(orders.items) AS item
+      WHERE orders.id = p_order_id
+      GROUP BY 1
+      ORDER BY 1
+    LOOP
+      PERFORM record_stock_movement(
+        line.product_id, 'sale', line.quantity, 'order paid', 'system', p_order_id
+      );
+    END LOOP;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Opening balance for products that existed before the ledger
+INSERT INTO stock_movements (product_id, movement_type, quantity, stock_delta, stock_after, reason, actor)
+SELECT id, 'adjustment', stock, stock, stock, 'opening balance', 'system'
+FROM products
+WHERE stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements WHERE stock_movements.product_id = products.id);
+
+-- products.stock compared with the sum of the ledger; difference should be 0
+CREATE OR REPLACE VIEW stock_ledger_reconciliation AS
+SELECT
+  p.id AS product_id,
+  p.name,
+  p.stock,
+  COALESCE(SUM(m.stock_delta), 0)::INTEGER AS ledger_stock,
+  p.stock - COALESCE(SUM(m.stock_delta), 0)::INTEGER AS difference
+FROM products p
+LEFT JOIN stock_movements m ON m.product_id = p.id
+GROUP BY p.id, p.name, p.stock;
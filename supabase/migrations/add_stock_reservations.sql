@@ -0,0 +1,201 @@
+-- Migration: Inventory reservations
+-- Stock is reserved when an order is created and held for the lifetime of its
+-- BTCPay invoice. Paying the order turns the reservation into a real stock
+-- decrement; expiry or cancellation gives the stock back.
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'active',
+  -- Status values: active, committed, released
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order_id ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active
+  ON stock_reservations(product_id, expires_at)
+  WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_stock_reservations_updated_at ON stock_reservations;
+CREATE TRIGGER update_stock_reservations_updated_at
+  BEFORE UPDATE ON stock_reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read stock_reservations" ON stock_reservations;
+CREATE POLICY "Allow public read stock_reservations" ON stock_reservations
+  FOR SELECT
+  USING (true);
+
+-- Units of a product held by active, unexpired reservations
+CREATE OR REPLACE FUNCTION reserved_stock(p_product_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(quantity), 0)::INTEGER
+  FROM stock_reservations
+  WHERE product_id = p_product_id
+    AND status = 'active'
+    AND expires_at > NOW();
+$$ LANGUAGE sql STABLE;
+
+-- Reserve stock for every line of an order.
+-- Product rows are locked (in a stable order to avoid deadlocks) so two
+-- concurrent checkouts can't both claim the last unit. Availability is checked
+-- for every line before anything is inserted, so either every line is
+-- reserved or nothing is.
+-- p_items: [{ "id": "<product uuid>", "quantity": 2 }, ...]
+-- Returns { "success": true } or
+--         { "success": false, "product_id": ..., "product_name": ..., "available": n }
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+  p_order_id UUID,
+  p_items JSONB,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB AS $$
+DECLARE
+  line RECORD;
+  product_row RECORD;
+  available INTEGER;
+BEGIN
+  -- Already reserved (e.g. a retried request)
+  IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = p_order_id) THEN
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  -- First pass: lock every product and check availability
+  FOR line IN
+    SELECT (item->>'id')::UUID AS product_id, SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT id, name, stock INTO product_row
+    FROM products
+    WHERE id = line.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'product_id', line.product_id,
+        'available', 0
+      );
+    END IF;
+
+    available := product_row.stock - reserved_stock(line.product_id);
+
+    IF available < line.quantity THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'product_id', product_row.id,
+        'product_name', product_row.name,
+        'available', GREATEST(available, 0)
+      );
+    END IF;
+  END LOOP;
+
+  -- Second pass: every line fits, hold the stock
+  INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+  SELECT p_order_id, (item->>'id')::UUID, SUM((item->>'quantity')::INTEGER), p_expires_at
+  FROM jsonb_array_elements(p_items) AS item
+  GROUP BY 2;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Turn an order's reservations into real stock decrements.
+-- Reservations that already lapsed or were released are still decremented:
+-- a late payment means the goods are sold. Orders placed before reservations
+-- existed fall back to decrementing from the order's items.
+CREATE OR REPLACE FUNCTION commit_order_stock(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  line RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = p_order_id) THEN
+    FOR line IN
+      SELECT id, product_id, quantity
+      FROM stock_reservations
+      WHERE order_id = p_order_id
+        AND status <> 'committed'
+      ORDER BY product_id
+    LOOP
+      UPDATE products
+      SET stock = GREATEST(stock - line.quantity, 0)
+      WHERE id = line.product_id;
+
+      UPDATE stock_reservations
+      SET status = 'committed', resolved_at = NOW()
+      WHERE id = line.id;
+    END LOOP;
+  ELSE
+    FOR line IN
+      SELECT (item->>'id')::UUID AS product_id, SUM((item->>'quantity')::INTEGER) AS quantity
+      FROM orders, jsonb_array_elements(orders.items) AS item
+      WHERE orders.id = p_order_id
+      GROUP BY 1
+      ORDER BY 1
+    LOOP
+      UPDATE products
+      SET stock = GREATEST(stock - line.quantity, 0)
+      WHERE id = line.product_id;
+    END LOOP;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give an order's held stock back
+CREATE OR REPLACE FUNCTION release_order_stock(p_order_id UUID)
+RETURNS VOID AS $$
+  UPDATE stock_reservations
+  SET status = 'released', resolved_at = NOW()
+  WHERE order_id = p_order_id
+    AND status = 'active';
+$$ LANGUAGE sql;
+
+-- Mark lapsed reservations as released. Availability already ignores them,
+-- this only keeps the table (and the admin view) tidy. Safe to run from cron.
+CREATE OR REPLACE FUNCTION release_expired_stock_reservations()
+RETURNS INTEGER AS $$
+  WITH released AS (
+    UPDATE stock_reservations
+    SET status = 'released', resolved_at = NOW()
+    WHERE status = 'active'
+      AND expires_at <= NOW()
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM released;
+$$ LANGUAGE sql;
+
+-- Apply reservations whenever an order's status changes, whichever code path
+-- (webhook, checkout, admin page) made the change
+CREATE OR REPLACE FUNCTION apply_order_stock_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'paid' THEN
+    PERFORM commit_order_stock(NEW.id);
+  ELSIF NEW.status IN ('expired', 'cancelled') THEN
+    PERFORM release_order_stock(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_order_stock_status ON orders;
+CREATE TRIGGER apply_order_stock_status
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_order_stock_status();
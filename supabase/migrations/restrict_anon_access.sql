@@ -0,0 +1,87 @@
+-- Migration: Read-only anon access
+-- Every write now goes through an API route using the service-role key
+-- (SUPABASE_SERVICE_ROLE_KEY), which bypasses RLS. The anon key shipped to the
+-- browser keeps read access to the public catalogue (products, lab tests,
+-- banner) and nothing else: orders, coupons, payments and the logs are only
+-- reachable through authenticated API routes.
+-- Set SUPABASE_SERVICE_ROLE_KEY before running this, or the shop stops
+-- being able to write.
+-- Run this in your Supabase SQL Editor
+
+-- Drop every existing policy on the shop's tables, whatever it was named
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'products', 'lab_tests', 'banner', 'orders', 'coupons', 'coupon_usage',
+        'shipping_config', 'bisq_trades', 'payment_accounts', 'transaction_log',
+        'system_config', 'monero_payments', 'stock_reservations', 'stock_movements',
+        'order_events'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', policy.policyname, policy.tablename);
+  END LOOP;
+END $$;
+
+-- RLS on with no policy means no anon access at all
+ALTER TABLE IF EXISTS products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS lab_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS banner ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS coupon_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS shipping_config ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS bisq_trades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS payment_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS transaction_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS system_config ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS monero_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS stock_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS order_events ENABLE ROW LEVEL SECURITY;
+
+-- Public catalogue, read by the storefront
+CREATE POLICY "Allow public read access" ON products
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow public read lab_tests" ON lab_tests
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow public read banner" ON banner
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Stock and coupon functions change data, so only the server may call them
+DO $$
+DECLARE
+  fn RECORD;
+BEGIN
+  FOR fn IN
+    SELECT p.oid::regprocedure AS signature
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public'
+      AND p.proname IN (
+        'record_stock_movement', 'reserve_order_stock', 'commit_order_stock',
+        'release_order_stock', 'release_expired_stock_reservations',
+        'increment_coupon_uses'
+      )
+  LOOP
+    EXECUTE format('REVOKE EXECUTE ON FUNCTION %s FROM PUBLIC, anon, authenticated', fn.signature);
+    EXECUTE format('GRANT EXECUTE ON FUNCTION %s TO service_role', fn.signature);
+  END LOOP;
+END $$;
+
+-- Note: product images are uploaded through /api/products/upload-image with the
+-- service-role key. Remove any anon INSERT/UPDATE/DELETE policies on the
+-- "products" storage bucket (Storage > Policies); public read can stay.